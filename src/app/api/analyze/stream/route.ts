@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { AnalyzeBodySchema, runAnalyze } from "@/lib/analyze";
+import { encodeSseEvent, SSE_HEADERS } from "@/lib/sse";
+import type { AnalyzeStreamEvent } from "@/lib/types";
+import { withRateLimit } from "@/lib/rate-limit";
+
+export const POST = withRateLimit("llm", async (req: Request) => {
+  let body;
+  try {
+    body = AnalyzeBodySchema.parse(await req.json());
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error en analyze" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: AnalyzeStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event.type, event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const result = await runAnalyze(body, { onEvent: send });
+      send({ type: "result", status: result.status, data: result.payload });
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+});
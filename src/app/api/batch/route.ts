@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { withRateLimit } from "@/lib/rate-limit";
+import { currentClientId, currentOwnerId } from "@/lib/request-context";
+import { batchToCsv, batchToGeoJson, type BatchPayload } from "@/lib/batch";
+import { createJob, getJob } from "@/lib/jobs";
+import { JOB_RUNNERS, parseJobInput } from "@/lib/job-runners";
+
+// Crea el trabajo "batch" y responde enseguida; el progreso se consulta en /api/jobs?id=.
+export const POST = withRateLimit("llm", async (req: Request) => {
+  try {
+    const input = parseJobInput("batch", await req.json());
+    const job = await createJob("batch", input, { clientId: currentClientId(), ownerId: currentOwnerId() }, JOB_RUNNERS.batch);
+    return NextResponse.json({ ok: true, job });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error batch" }, { status: 400 });
+  }
+});
+
+// GET ?id=...&download=csv|geojson descarga las filas terminadas del trabajo.
+export const GET = withRateLimit("geodata", async (req: Request) => {
+  const params = new URL(req.url).searchParams;
+  const job = await getJob(params.get("id") ?? "", currentOwnerId());
+  if (!job || job.kind !== "batch") {
+    return NextResponse.json({ ok: false, error: "Trabajo no encontrado (puede haber caducado)." }, { status: 404 });
+  }
+
+  const results = (job.result as BatchPayload | null)?.results ?? [];
+  const download = params.get("download");
+  if (download === "csv") {
+    return new Response(batchToCsv(results), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="batch-${job.id}.csv"`
+      }
+    });
+  }
+  if (download === "geojson") {
+    return new Response(JSON.stringify(batchToGeoJson(results)), {
+      headers: {
+        "Content-Type": "application/geo+json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="batch-${job.id}.geojson"`
+      }
+    });
+  }
+  return NextResponse.json({ ok: false, error: "download debe ser csv o geojson." }, { status: 400 });
+});
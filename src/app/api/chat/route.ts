@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { ChatBodySchema, runChat } from "@/lib/chat";
+import { withRateLimit } from "@/lib/rate-limit";
+
+export const POST = withRateLimit("llm", async (req: Request) => {
+  try {
+    const body = ChatBodySchema.parse(await req.json());
+    const result = await runChat(body);
+    return NextResponse.json(result.payload, { status: result.status });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error en chat" }, { status: 400 });
+  }
+});
@@ -1,18 +1,19 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { riesgoInundacion } from "@/lib/tools/riesgoInundacion";
+import { cachedTools } from "@/lib/tools/cached";
+import { withRateLimit } from "@/lib/rate-limit";
 
 const Body = z.object({
   lat: z.number(),
   lon: z.number()
 });
 
-export async function POST(req: Request) {
+export const POST = withRateLimit("geodata", async (req: Request) => {
   try {
     const body = Body.parse(await req.json());
-    const r = await riesgoInundacion(body.lat, body.lon);
+    const r = (await cachedTools.riesgoInundacion(body.lat, body.lon)).value;
     return NextResponse.json({ ok: true, data: r });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message ?? "Error flood" }, { status: 400 });
   }
-}
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { cachedTools } from "@/lib/tools/cached";
+import { withRateLimit } from "@/lib/rate-limit";
+import { ScoringOptionsSchema, type ScoringOptions } from "@/lib/scoring";
+import { planGrid, scoreSuitabilityGrid, snapBbox, type Bbox } from "@/lib/tools/suitabilityGrid";
+
+const Body = z.object({
+  bbox: z.object({
+    minLat: z.number().min(-85).max(85),
+    minLon: z.number().min(-180).max(180),
+    maxLat: z.number().min(-85).max(85),
+    maxLon: z.number().min(-180).max(180)
+  }),
+  // Tamano de celda deseado; se agranda si la rejilla supera el maximo de celdas.
+  cell_m: z.number().int().min(100).max(5000).nullable().optional(),
+  scoring: ScoringOptionsSchema.nullable().optional()
+});
+
+// Los fallos de Overpass o EFAS son del servidor de datos, no de la peticion: 503 si
+// esta saturado o no responde a tiempo, 502 en otro caso.
+function upstreamStatus(e: { name?: string; message?: string } | null) {
+  return e?.name === "AbortError" || /HTTP (429|503|504)\b/.test(e?.message ?? "") ? 503 : 502;
+}
+
+export const POST = withRateLimit("heatmap", async (req: Request) => {
+  let bbox: Bbox;
+  let cellM: number;
+  let scoring: ScoringOptions | null;
+  try {
+    const body = Body.parse(await req.json());
+    // Con el bbox redondeado, vistas casi iguales comparten la entrada de cache.
+    bbox = snapBbox(body.bbox);
+    cellM = body.cell_m ?? 500;
+    scoring = body.scoring ?? null;
+    planGrid(bbox, cellM);
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error heatmap" }, { status: 400 });
+  }
+
+  try {
+    // La cache guarda la rejilla sin puntuar: cambiar los pesos no vuelve a consultar las fuentes.
+    const grid = (await cachedTools.suitabilityGrid(bbox, cellM)).value;
+    return NextResponse.json({ ok: true, data: scoreSuitabilityGrid(grid, scoring) });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error heatmap" }, { status: upstreamStatus(e) });
+  }
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/rate-limit";
+import { currentClientId, currentOwnerId } from "@/lib/request-context";
+import { JOB_KINDS, cancelJob, createJob, getJob, getJobKind, retryJob } from "@/lib/jobs";
+import { JOB_RUNNERS, parseJobInput } from "@/lib/job-runners";
+
+const Body = z.object({
+  kind: z.enum(JOB_KINDS),
+  // Mismo cuerpo que la ruta sincrona (/api/analyze, /api/compare, /api/history, /api/batch).
+  input: z.unknown()
+});
+
+// POST crea un trabajo; POST ?id=...&action=cancel|retry lo cancela o lo reintenta.
+export const POST = withRateLimit("llm", async (req: Request) => {
+  try {
+    const params = new URL(req.url).searchParams;
+    const id = params.get("id");
+    const action = params.get("action");
+
+    if (id) {
+      if (action === "cancel") {
+        const job = await cancelJob(id, currentOwnerId());
+        if (!job) return NextResponse.json({ ok: false, error: "Trabajo no encontrado." }, { status: 404 });
+        return NextResponse.json({ ok: true, job });
+      }
+      if (action === "retry") {
+        const kind = await getJobKind(id, currentOwnerId());
+        const job = kind ? await retryJob(id, currentOwnerId(), JOB_RUNNERS[kind]) : null;
+        if (!job) return NextResponse.json({ ok: false, error: "Trabajo no encontrado." }, { status: 404 });
+        return NextResponse.json({ ok: true, job });
+      }
+      return NextResponse.json({ ok: false, error: "action debe ser cancel o retry." }, { status: 400 });
+    }
+
+    const body = Body.parse(await req.json());
+    const input = parseJobInput(body.kind, body.input);
+    const job = await createJob(
+      body.kind,
+      input,
+      { clientId: currentClientId(), ownerId: currentOwnerId() },
+      JOB_RUNNERS[body.kind]
+    );
+    return NextResponse.json({ ok: true, job });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error en jobs" }, { status: 400 });
+  }
+});
+
+// GET ?id=... devuelve estado, progreso y resultado (parcial mientras corre).
+export const GET = withRateLimit("poll", async (req: Request) => {
+  const job = await getJob(new URL(req.url).searchParams.get("id") ?? "", currentOwnerId());
+  if (!job) {
+    return NextResponse.json({ ok: false, error: "Trabajo no encontrado (puede haber caducado)." }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, job });
+});
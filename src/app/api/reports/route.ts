@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/rate-limit";
+import { currentClientId, currentOwnerId } from "@/lib/request-context";
+import { REPORT_KINDS, getReport, listReports } from "@/lib/reports";
+import { createJob } from "@/lib/jobs";
+import { JOB_RUNNERS, parseJobInput } from "@/lib/job-runners";
+
+const ListQuery = z.object({
+  kind: z.enum(REPORT_KINDS).nullish(),
+  q: z.string().max(200).nullish(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+});
+
+// GET ?id=... devuelve el informe guardado completo; sin id, el listado de los
+// informes de este navegador filtrado por ?kind=analyze|compare|history, ?q=
+// (lugar) y ?from=/?to= (YYYY-MM-DD).
+export const GET = withRateLimit("geodata", async (req: Request) => {
+  try {
+    const params = new URL(req.url).searchParams;
+    const id = params.get("id");
+    if (id) {
+      const report = await getReport(id);
+      if (!report) return NextResponse.json({ ok: false, error: "Informe no encontrado." }, { status: 404 });
+      return NextResponse.json({ ok: true, report });
+    }
+
+    const filters = ListQuery.parse({
+      kind: params.get("kind") || null,
+      q: params.get("q"),
+      from: params.get("from") || null,
+      to: params.get("to") || null,
+    });
+    return NextResponse.json({ ok: true, reports: await listReports(currentOwnerId(), filters) });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error en reports" }, { status: 400 });
+  }
+});
+
+// POST ?id=...&action=rerun vuelve a ejecutar el informe con la misma entrada
+// como trabajo en segundo plano, pidiendo de nuevo los datos a las fuentes (sin
+// cache fresca); el resultado se guarda como informe nuevo.
+export const POST = withRateLimit("llm", async (req: Request) => {
+  try {
+    const params = new URL(req.url).searchParams;
+    if (params.get("action") !== "rerun") {
+      return NextResponse.json({ ok: false, error: "action debe ser rerun." }, { status: 400 });
+    }
+    const report = await getReport(params.get("id") ?? "");
+    if (!report) return NextResponse.json({ ok: false, error: "Informe no encontrado." }, { status: 404 });
+
+    const input = parseJobInput(report.kind, report.input);
+    const job = await createJob(
+      report.kind,
+      input,
+      { clientId: currentClientId(), ownerId: currentOwnerId() },
+      JOB_RUNNERS[report.kind],
+      { refresh: true }
+    );
+    return NextResponse.json({ ok: true, job });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Error en reports" }, { status: 400 });
+  }
+});
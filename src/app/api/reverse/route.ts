@@ -1,19 +1,22 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { reverseGeocode } from "@/lib/tools/reverseGeocode";
+import { cachedTools } from "@/lib/tools/cached";
+import { withRateLimit } from "@/lib/rate-limit";
+import { LocaleSchema } from "@/lib/i18n";
 
 const Body = z.object({
   lat: z.number(),
   lon: z.number(),
   zoom: z.number().int().min(3).max(20).optional(),
+  locale: LocaleSchema.optional(),
 });
 
-export async function POST(req: Request) {
+export const POST = withRateLimit("geodata", async (req: Request) => {
   try {
     const body = Body.parse(await req.json());
-    const out = await reverseGeocode(body.lat, body.lon, body.zoom ?? 18);
+    const out = (await cachedTools.reverseGeocode(body.lat, body.lon, body.zoom ?? 18, body.locale ?? null)).value;
     return NextResponse.json({ ...out, ok: out.ok !== false });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message ?? "Error reverse" }, { status: 400 });
   }
-}
+});
@@ -1,19 +1,34 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { capasUrbanismo } from "@/lib/tools/capasUrbanismo";
+import { cachedTools } from "@/lib/tools/cached";
+import { withRateLimit } from "@/lib/rate-limit";
+import { AreaGeoJsonSchema, toAreaOfInterest } from "@/lib/area";
 
 const Body = z.object({
   lat: z.number(),
   lon: z.number(),
-  radius_m: z.number().nullable().optional()
+  radius_m: z.number().nullable().optional(),
+  area: AreaGeoJsonSchema.nullable().optional(),
+  // true: geometria completa como GeoJSON (`out geom`, por mosaicos) en vez del resumen.
+  geometry: z.boolean().optional()
 });
 
-export async function POST(req: Request) {
+export const POST = withRateLimit("geodata", async (req: Request) => {
   try {
     const body = Body.parse(await req.json());
-    const r = await capasUrbanismo(body.lat, body.lon, body.radius_m ?? 1200);
+    const area = body.area ? toAreaOfInterest(body.area) : null;
+    const lat = area?.centroid.lat ?? body.lat;
+    const lon = area?.centroid.lon ?? body.lon;
+
+    if (body.geometry) {
+      const r = (await cachedTools.urbanGeometry(lat, lon, body.radius_m ?? 1200, area)).value;
+      if (!r.ok) return NextResponse.json({ ok: false, error: r.error }, { status: 502 });
+      return NextResponse.json({ ok: true, data: r });
+    }
+
+    const r = (await cachedTools.capasUrbanismo(lat, lon, body.radius_m ?? 1200, area)).value;
     return NextResponse.json({ ok: true, data: r });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message ?? "Error urban" }, { status: 400 });
   }
-}
+});
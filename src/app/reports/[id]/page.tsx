@@ -0,0 +1,15 @@
+import { notFound } from "next/navigation";
+import { getReport } from "@/lib/reports";
+import SavedReport from "@/components/saved-report";
+
+export default async function ReportPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const report = await getReport(id);
+  if (!report) notFound();
+
+  return (
+    <main className="min-h-screen w-full">
+      <SavedReport report={report} />
+    </main>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import type { AccessMode, AccessResult } from "@/lib/tools/accesibilidad";
+import { useLocale } from "@/components/locale-context";
+import { ScoreBar } from "@/components/score-breakdown";
+
+// Nota de ciudad de 15 minutos (tool accesibilidad): minutos al equipamiento mas
+// cercano de cada categoria por la red de calles y cuantos hay en cada isocrona.
+const ACCESS_MODES: AccessMode[] = ["walk", "bike"];
+
+export default function AccessSummary({ access }: { access: AccessResult }) {
+  const { t } = useLocale();
+  if (!access.ok) return <div className="text-xs text-muted-foreground">{access.error || t.accessFailed}</div>;
+
+  const { score, categories } = access.fifteen_minute;
+  const minutes = (value: number | null) => (value === null ? <span className="text-muted-foreground">{t.accessOver15}</span> : t.accessMinutes(value));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <div className="text-sm font-semibold">{t.fifteenMinute}</div>
+        <div className="text-2xl font-semibold">{score}<span className="text-xs text-muted-foreground">/100</span></div>
+      </div>
+      <ScoreBar score={score} />
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 font-normal" />
+            {ACCESS_MODES.map((mode) => (
+              <th key={mode} className="py-1 text-right font-normal">{t.accessModes[mode]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {categories.map((c) => (
+            <tr key={c.category} className="border-t">
+              <td className="py-1">{t.accessCategories[c.category] ?? c.category}</td>
+              <td className="py-1 text-right">{minutes(c.walk_min)}</td>
+              <td className="py-1 text-right">{minutes(c.bike_min)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {ACCESS_MODES.map((mode) => {
+        const out = access.modes[mode];
+        if (!out.ok) return <div key={mode} className="text-[11px] text-amber-700">{t.accessModes[mode]}: {out.error}</div>;
+        return (
+          <div key={mode} className="space-y-1">
+            <div className="text-xs font-medium">{t.accessReachable(t.accessModes[mode])}</div>
+            <div className="grid grid-cols-3 gap-2 text-[11px]">
+              {out.bands.map((band) => (
+                <div key={band.minutes} className="rounded border px-2 py-1">
+                  <div className="font-medium">{t.accessMinutes(band.minutes)}</div>
+                  {Object.entries(band.services).map(([category, count]) => (
+                    <div key={category} className="flex justify-between gap-1 text-muted-foreground">
+                      <span className="truncate">{t.accessCategories[category] ?? category}</span>
+                      <span>{count}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="text-[11px] text-muted-foreground">{t.fifteenMinuteNote}</div>
+      {access.services_truncated && <div className="text-[11px] text-amber-700">{t.accessTruncated}</div>}
+    </div>
+  );
+}
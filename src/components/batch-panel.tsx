@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { BatchPayload } from "@/lib/batch";
+import { cancelJob, rememberJob, rememberedJobs, waitForJob, type JobView } from "@/lib/job-client";
+import { useLocale } from "@/components/locale-context";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Alert } from "@/components/ui/alert";
+
+// Filas visibles en la tabla; el fichero descargado lleva todas.
+const PREVIEW_ROWS = 50;
+
+export default function BatchPanel() {
+  const { locale, t } = useLocale();
+  const [file, setFile] = useState<File | null>(null);
+  const [summary, setSummary] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<JobView | null>(null);
+
+  // Trabajo que se esta siguiendo; se recupera de localStorage al recargar la pagina.
+  const [followId, setFollowId] = useState<string | null>(null);
+
+  const running = job?.status === "queued" || job?.status === "running";
+
+  useEffect(() => {
+    setFollowId(rememberedJobs().batch ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (!followId) return;
+    const controller = new AbortController();
+    rememberJob("batch", followId);
+    waitForJob(followId, setJob, controller.signal)
+      .then((final) => {
+        if (final.status === "done") toast.success(t.batchDone);
+        else setError(final.error ?? t.batchFailed);
+      })
+      .catch((e: Error) => {
+        if (!controller.signal.aborted) setError(e.message || t.batchFailed);
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        rememberJob("batch", null);
+        setFollowId(null);
+      });
+    return () => controller.abort();
+  }, [followId, t]);
+
+  async function start() {
+    if (!file) return;
+    setStarting(true);
+    setError(null);
+    setJob(null);
+
+    try {
+      const content = await file.text();
+      const format = /\.(geo)?json$/i.test(file.name) ? "geojson" : "csv";
+      const res = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        cache: "no-store",
+        body: JSON.stringify({ format, content, summary, locale })
+      });
+      const json = await res.json();
+      if (!res.ok || json?.ok === false) {
+        throw new Error(json?.error ?? t.unknownError("/api/batch"));
+      }
+      setJob(json.job as JobView);
+      setFollowId(json.job.id);
+    } catch (e: any) {
+      setError(e?.message ?? t.batchFailed);
+      toast.error(t.batchFailed);
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function cancel(id: string) {
+    try {
+      await cancelJob(id);
+    } catch (e: any) {
+      toast.error(t.jobCancelFailed(e?.message ?? t.unknownError("/api/jobs")));
+    }
+  }
+
+  const batch = (job?.result as BatchPayload | null) ?? null;
+  const results = batch?.results ?? [];
+  const total = job?.progress.total ?? batch?.total ?? 0;
+  const done = job?.progress.done ?? 0;
+  const okRows = results.filter((r) => r.ok).length;
+  const percent = total ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <>
+      <Card className="p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.batch}</div>
+        </div>
+        <label className="block space-y-1 text-xs text-muted-foreground">
+          <span>{t.batchFile}</span>
+          <input
+            type="file"
+            accept=".csv,.txt,.geojson,.json"
+            className="block w-full text-xs file:mr-2 file:rounded-md file:border file:bg-background file:px-2 file:py-1"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={summary} onChange={(e) => setSummary(e.target.checked)} />
+          {t.batchSummary}
+        </label>
+        <Button className="w-full" disabled={!file || starting || running} onClick={() => void start()}>
+          {t.batchStart}
+        </Button>
+        <div className="text-xs text-muted-foreground">{t.batchHint}</div>
+      </Card>
+
+      {error && (
+        <Alert className="p-3">
+          <div className="text-sm">
+            <span className="font-semibold">{t.error}</span> {error}
+          </div>
+        </Alert>
+      )}
+
+      {job && (
+        <Card className="p-3 space-y-3">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span>{t.batchProgress(done, total)}</span>
+              <span className="text-muted-foreground">{t.batchRowsOk(okRows, total)}</span>
+            </div>
+            <div className="h-2 w-full rounded bg-muted">
+              <div className="h-2 rounded bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+
+          {running && (
+            <Button variant="secondary" size="sm" className="w-full" onClick={() => void cancel(job.id)}>
+              {t.jobCancel}
+            </Button>
+          )}
+
+          {!running && results.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button asChild variant="secondary" size="sm">
+                <a href={`/api/batch?id=${encodeURIComponent(job.id)}&download=csv`}>{t.batchDownloadCsv}</a>
+              </Button>
+              <Button asChild variant="secondary" size="sm">
+                <a href={`/api/batch?id=${encodeURIComponent(job.id)}&download=geojson`}>{t.batchDownloadGeojson}</a>
+              </Button>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1 pr-2">#</th>
+                    <th className="py-1 pr-2">{t.batchColInput}</th>
+                    <th className="py-1 pr-2">{t.suitability}</th>
+                    <th className="py-1">{t.batchColFlood}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.slice(0, PREVIEW_ROWS).map((r) => (
+                    <tr key={r.row} className="border-t align-top">
+                      <td className="py-1 pr-2">{r.id ?? r.row}</td>
+                      <td className="py-1 pr-2">
+                        <div>{r.municipality ?? r.input}</div>
+                        {r.error && <div className="text-destructive">{r.error}</div>}
+                        {r.summary && <div className="text-muted-foreground">{r.summary}</div>}
+                      </td>
+                      <td className="py-1 pr-2 font-semibold">{r.suitability ?? "-"}</td>
+                      <td className="py-1">{t.batchFloodStatus[r.flood_status] ?? r.flood_status}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {results.length > PREVIEW_ROWS && (
+                <div className="mt-2 text-xs text-muted-foreground">
+                  {t.batchPreview(PREVIEW_ROWS, results.length)}
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+    </>
+  );
+}
@@ -6,6 +6,11 @@ import remarkGfm from "remark-gfm";
 import type { CompareResponse } from "@/lib/types";
 
 import { openReportPdf, formatReportDate } from "@/lib/report-export";
+import { LOCALE_TAGS, type Locale } from "@/lib/i18n";
+import type { UiMessages } from "@/lib/ui-messages";
+import { useLocale } from "@/components/locale-context";
+import ReportLinkButton from "@/components/report-link-button";
+import { ScoreComparison } from "@/components/score-breakdown";
 
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -14,71 +19,151 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 
-export default function CompareView({ data }: { data: CompareResponse }) {
+function cityDisplayName(city: NonNullable<CompareResponse["cities"]>[number], t: UiMessages) {
+  const displayName = city.reverse?.ok ? city.reverse.display_name?.trim() : null;
+  if (displayName) return displayName;
+  if (typeof city.coords?.lat === "number" && typeof city.coords?.lon === "number") {
+    return `${city.coords.lat.toFixed(6)}, ${city.coords.lon.toFixed(6)}`;
+  }
+  return t.city(city.label ?? "?");
+}
+
+function formatIndicator(value: number | null, locale: Locale) {
+  if (value === null) return "-";
+  return value.toLocaleString(LOCALE_TAGS[locale], { maximumFractionDigits: 2 });
+}
+
+function RankingMatrix({ data }: { data: CompareResponse }) {
+  const { locale, t } = useLocale();
+  const cities = data.cities ?? [];
+  const ranking = data.ranking;
+  if (!ranking || cities.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">{t.rankingCity}</th>
+              <th className="py-1 pr-2">{t.score}</th>
+              <th className="py-1">{t.wins}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranking.ranking.map((row) => (
+              <tr key={row.label} className="border-b last:border-0">
+                <td className="py-1 pr-2 font-semibold">{row.rank}</td>
+                <td className="py-1 pr-2">
+                  <Badge variant="secondary" className="mr-1">{row.label}</Badge>
+                  {row.name ?? t.city(row.label)}
+                </td>
+                <td className="py-1 pr-2">{row.score ?? "-"}</td>
+                <td className="py-1">{row.wins.length}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-1 pr-2">{t.indicator}</th>
+              {cities.map((city) => (
+                <th key={city.label} className="py-1 pr-2 text-right">{city.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ranking.indicators.map((indicator) => (
+              <tr key={indicator.key} className="border-b last:border-0">
+                <td className="py-1 pr-2">
+                  {t.indicatorLabels[indicator.key] ?? indicator.key}
+                  <span className="text-muted-foreground">
+                    {" "}({indicator.unit}, {indicator.better === "max" ? t.higherBetter : indicator.better === "min" ? t.lowerBetter : t.informative})
+                  </span>
+                </td>
+                {cities.map((city, idx) => {
+                  const winner = indicator.winners.includes(city.label);
+                  return (
+                    <td
+                      key={city.label}
+                      className={`py-1 pr-2 text-right ${winner ? "font-semibold text-emerald-700" : ""}`}
+                    >
+                      {formatIndicator(indicator.values[idx] ?? null, locale)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-[11px] text-muted-foreground">
+        {t.scoreNote}
+      </div>
+    </div>
+  );
+}
+
+export default function CompareView({ data, createdAt }: { data: CompareResponse; createdAt?: string }) {
+  const { locale, t } = useLocale();
   const reportRef = useRef<HTMLDivElement | null>(null);
-  const reportDate = useMemo(() => new Date(), [data.report_markdown]);
-  const dateLabel = useMemo(() => formatReportDate(reportDate), [reportDate]);
-  const cityALabel = useMemo(() => {
-    const displayName = data.cityA?.reverse?.display_name?.trim();
-    if (displayName) return displayName;
-    if (typeof data.cityA?.coords?.lat === "number" && typeof data.cityA?.coords?.lon === "number") {
-      return `${data.cityA.coords.lat.toFixed(6)}, ${data.cityA.coords.lon.toFixed(6)}`;
-    }
-    return "Ciudad A";
-  }, [data.cityA]);
-  const cityBLabel = useMemo(() => {
-    const displayName = data.cityB?.reverse?.display_name?.trim();
-    if (displayName) return displayName;
-    if (typeof data.cityB?.coords?.lat === "number" && typeof data.cityB?.coords?.lon === "number") {
-      return `${data.cityB.coords.lat.toFixed(6)}, ${data.cityB.coords.lon.toFixed(6)}`;
-    }
-    return "Ciudad B";
-  }, [data.cityB]);
+  const reportDate = useMemo(() => (createdAt ? new Date(createdAt) : new Date()), [createdAt, data.report_markdown]);
+  const dateLabel = useMemo(() => formatReportDate(reportDate, locale), [reportDate, locale]);
+  const subtitle = useMemo(
+    () => (data.cities ?? []).map((city) => cityDisplayName(city, t)).join(" vs "),
+    [data.cities, t]
+  );
 
   return (
     <Card className="p-3">
       <div className="flex items-start justify-between gap-2">
         <div>
-          <div className="text-sm font-semibold">Comparacion</div>
+          <div className="text-sm font-semibold">{t.comparison}</div>
         </div>
       </div>
 
       <Separator className="my-3" />
 
       <Tabs defaultValue="report">
-        <TabsList className="grid grid-cols-4">
-          <TabsTrigger value="report">Informe</TabsTrigger>
-          <TabsTrigger value="data">Datos</TabsTrigger>
-          <TabsTrigger value="sources">Fuentes</TabsTrigger>
-          <TabsTrigger value="limits">Limitaciones</TabsTrigger>
+        <TabsList className="grid grid-cols-5">
+          <TabsTrigger value="report">{t.tabReport}</TabsTrigger>
+          <TabsTrigger value="ranking">{t.tabRanking}</TabsTrigger>
+          <TabsTrigger value="data">{t.tabData}</TabsTrigger>
+          <TabsTrigger value="sources">{t.tabSources}</TabsTrigger>
+          <TabsTrigger value="limits">{t.tabLimits}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="report" className="mt-3">
           <div ref={reportRef} className="prose prose-sm max-w-none">
             <ReactMarkdown remarkPlugins={[remarkGfm]}>
-              {data.report_markdown ?? "No hay informe."}
+              {data.report_markdown ?? t.noReport}
             </ReactMarkdown>
           </div>
         </TabsContent>
 
+        <TabsContent value="ranking" className="mt-3">
+          <RankingMatrix data={data} />
+          <Separator className="my-3" />
+          <ScoreComparison cities={data.cities ?? []} />
+        </TabsContent>
+
         <TabsContent value="data" className="mt-3">
           <Accordion type="single" collapsible className="w-full">
-            <AccordionItem value="city-a">
-              <AccordionTrigger>Ciudad A (datos)</AccordionTrigger>
-              <AccordionContent>
-                <pre className="text-xs whitespace-pre-wrap">
-                  {JSON.stringify(data.cityA ?? null, null, 2)}
-                </pre>
-              </AccordionContent>
-            </AccordionItem>
-            <AccordionItem value="city-b">
-              <AccordionTrigger>Ciudad B (datos)</AccordionTrigger>
-              <AccordionContent>
-                <pre className="text-xs whitespace-pre-wrap">
-                  {JSON.stringify(data.cityB ?? null, null, 2)}
-                </pre>
-              </AccordionContent>
-            </AccordionItem>
+            {(data.cities ?? []).map((city) => (
+              <AccordionItem key={city.label} value={`city-${city.label}`}>
+                <AccordionTrigger>{t.cityData(city.label)}</AccordionTrigger>
+                <AccordionContent>
+                  <pre className="text-xs whitespace-pre-wrap">
+                    {JSON.stringify(city ?? null, null, 2)}
+                  </pre>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
           </Accordion>
         </TabsContent>
 
@@ -104,24 +189,26 @@ export default function CompareView({ data }: { data: CompareResponse }) {
 
       <Separator className="my-3" />
       <div className="flex items-center justify-between gap-2">
-        <div className="text-xs text-muted-foreground">
-          Exporta la comparacion en PDF con formato presentable.
+        <div className="text-xs text-muted-foreground">{t.exportCompareHint}</div>
+        <div className="flex items-center gap-2">
+          {data.report_id && <ReportLinkButton reportId={data.report_id} />}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              openReportPdf({
+                title: t.comparePdfTitle(dateLabel),
+                subtitle,
+                dateLabel,
+                reportHtml: reportRef.current?.innerHTML ?? null,
+                reportMarkdown: data.report_markdown ?? null,
+                locale
+              });
+            }}
+          >
+            {t.downloadPdf}
+          </Button>
         </div>
-        <Button
-          variant="secondary"
-          size="sm"
-          onClick={() => {
-            openReportPdf({
-              title: `Informe comparativo - ${dateLabel}`,
-              subtitle: `${cityALabel} vs ${cityBLabel}`,
-              dateLabel,
-              reportHtml: reportRef.current?.innerHTML ?? null,
-              reportMarkdown: data.report_markdown ?? null
-            });
-          }}
-        >
-          Descargar PDF
-        </Button>
       </div>
     </Card>
   );
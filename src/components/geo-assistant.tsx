@@ -1,11 +1,15 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useEffectEvent, useMemo, useState } from "react";
 import { toast } from "sonner";
 import dynamic from "next/dynamic";
 import ReportView from "@/components/report-view";
 import CompareView from "@/components/compare-view";
 import HistoryView from "@/components/history-view";
+import ReportChat from "@/components/report-chat";
+import BatchPanel from "@/components/batch-panel";
+import ReportsPanel from "@/components/reports-panel";
+import { LocaleProvider, useLocale } from "@/components/locale-context";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,16 +19,35 @@ import { Alert } from "@/components/ui/alert";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-import type { AnalyzeResponse, CompareResponse, HistoryResponse } from "@/lib/types";
+import { readSseStream } from "@/lib/sse";
+import { COMPARE_MAX_CITIES, COMPARE_MIN_CITIES, cityLabel } from "@/lib/compare";
+import { REPORT_TEMPLATE_IDS, REPORT_TEMPLATES, type ReportTemplateId } from "@/lib/report-templates";
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, resolveLocale, type Locale } from "@/lib/i18n";
+import { UI_MESSAGES, type UiMessages } from "@/lib/ui-messages";
+import { polygonBbox } from "@/lib/geo";
+import { cancelJob, createJob, fetchJob, rememberJob, rememberedJobs, retryJob, waitForJob, type JobView } from "@/lib/job-client";
+import type { Bbox } from "@/lib/tools/suitabilityGrid";
+import type { UrbanLayersData } from "@/components/urban-layers";
+import type {
+  AnalyzeProgressStep,
+  AnalyzeResponse,
+  AnalyzeStreamEvent,
+  CompareResponse,
+  HistoryResponse,
+  SuitabilityGridResult,
+} from "@/lib/types";
 
 type MapStyle = "standard" | "satellite" | "pollution";
-type Mode = "analyze" | "compare" | "historic";
+type Mode = "analyze" | "compare" | "historic" | "batch" | "reports";
+// Modos cuyo informe se genera como trabajo en segundo plano (/api/jobs).
+type JobMode = "compare" | "history";
 type LocationInfo = {
   display_name?: string | null;
   address?: Record<string, string> | null;
 };
 type ComparePoint = {
-  id: "A" | "B";
+  // Etiqueta visible ("A".."J"); se reasigna por posicion al quitar una ciudad.
+  id: string;
   coords: { lat: number; lon: number };
   locationName?: string | null;
   locationLines?: string[];
@@ -40,7 +63,12 @@ type SavedLocation = {
   created_at: string;
 };
 
-function buildAddressLines(address: Record<string, string> | null | undefined) {
+function buildAreaGeoJson(points: { lat: number; lon: number }[]) {
+  const ring = points.map((p) => [p.lon, p.lat]);
+  return { type: "Polygon" as const, coordinates: [[...ring, ring[0]]] };
+}
+
+function buildAddressLines(address: Record<string, string> | null | undefined, labels: UiMessages["addressLines"]) {
   if (!address) return [];
   const road = address.road || address.pedestrian || address.footway || address.path;
   const house = address.house_number;
@@ -51,28 +79,60 @@ function buildAddressLines(address: Record<string, string> | null | undefined) {
   const postcode = address.postcode;
 
   const lines = [];
-  if (road) lines.push(`Calle: ${house ? `${road} ${house}` : road}`);
-  if (neighborhood) lines.push(`Zona: ${neighborhood}`);
-  if (locality) lines.push(`Municipio: ${locality}`);
-  if (region) lines.push(`Comunidad/Provincia: ${region}`);
-  if (postcode) lines.push(`CP: ${postcode}`);
-  if (country) lines.push(`Pais: ${country}`);
+  if (road) lines.push(`${labels.street}: ${house ? `${road} ${house}` : road}`);
+  if (neighborhood) lines.push(`${labels.zone}: ${neighborhood}`);
+  if (locality) lines.push(`${labels.municipality}: ${locality}`);
+  if (region) lines.push(`${labels.region}: ${region}`);
+  if (postcode) lines.push(`${labels.postcode}: ${postcode}`);
+  if (country) lines.push(`${labels.country}: ${country}`);
   return lines;
 }
 
-const MapView = dynamic(() => import("@/components/map-view"), {
-  ssr: false,
-  loading: () => (
+function MapLoading() {
+  const { t } = useLocale();
+  return (
     <div className="h-full w-full flex items-center justify-center text-sm text-muted-foreground">
-      Cargando mapa...
+      {t.loadingMap}
     </div>
-  ),
+  );
+}
+
+const MapView = dynamic(() => import("@/components/map-view"), {
+  ssr: false,
+  loading: () => <MapLoading />,
 });
 
+// Estado del trabajo en segundo plano mientras se espera el informe.
+function JobProgress({ job }: { job: JobView | undefined }) {
+  const { t } = useLocale();
+  if (!job) return null;
+  const cancel = () => cancelJob(job.id).catch((e: Error) => toast.error(t.jobCancelFailed(e.message)));
+  return (
+    <div className="flex items-center justify-between gap-2 pt-1 text-xs text-muted-foreground">
+      <span>
+        {job.status === "queued"
+          ? t.jobQueued
+          : job.progress.total
+            ? t.jobProgress(job.progress.done, job.progress.total)
+            : t.jobRunning}
+        {job.partials_saved > 0 && ` · ${t.jobPartials(job.partials_saved)}`}
+      </span>
+      <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={cancel}>
+        {t.jobCancel}
+      </Button>
+    </div>
+  );
+}
+
 export default function GeoAssistant() {
   const storageKey = "geoai_saved_locations";
+  const localeStorageKey = "geoai_locale";
   const savedFocusZoom = 17;
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = UI_MESSAGES[locale];
   const [address, setAddress] = useState("");
+  const [question, setQuestion] = useState("");
+  const [template, setTemplate] = useState<ReportTemplateId>("general");
   const [coords, setCoords] = useState<{ lat: number; lon: number } | null>(null);
   const [mapStyle, setMapStyle] = useState<MapStyle>("standard");
   const [mode, setMode] = useState<Mode>("analyze");
@@ -81,9 +141,13 @@ export default function GeoAssistant() {
   const [panRequestId, setPanRequestId] = useState(0);
   const [panZoom, setPanZoom] = useState<number | null>(null);
   const [comparePoints, setComparePoints] = useState<ComparePoint[]>([]);
+  const [areaPoints, setAreaPoints] = useState<{ lat: number; lon: number }[]>([]);
+  const [drawingArea, setDrawingArea] = useState(false);
 
   const [loading, setLoading] = useState(false);
   const [data, setData] = useState<AnalyzeResponse | null>(null);
+  const [progress, setProgress] = useState<AnalyzeProgressStep[]>([]);
+  const [partialReport, setPartialReport] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [compareLoading, setCompareLoading] = useState(false);
   const [compareData, setCompareData] = useState<CompareResponse | null>(null);
@@ -95,6 +159,11 @@ export default function GeoAssistant() {
   const [saveSourceId, setSaveSourceId] = useState("");
   const [saveName, setSaveName] = useState("");
   const [saveNotes, setSaveNotes] = useState("");
+  const [mapBounds, setMapBounds] = useState<Bbox | null>(null);
+  const [heatmap, setHeatmap] = useState<SuitabilityGridResult | null>(null);
+  const [heatmapLoading, setHeatmapLoading] = useState(false);
+  // Ultimo trabajo de cada modo: progreso mientras corre y id para cancelar o reintentar.
+  const [jobs, setJobs] = useState<Partial<Record<JobMode, JobView>>>({});
 
   async function fetchReverseInfo(lat: number, lon: number) {
     try {
@@ -102,7 +171,7 @@ export default function GeoAssistant() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         cache: "no-store",
-        body: JSON.stringify({ lat, lon, zoom: 18 })
+        body: JSON.stringify({ lat, lon, zoom: 18, locale })
       });
       const json = await res.json();
       if (!res.ok || json?.ok === false) return null;
@@ -125,7 +194,7 @@ export default function GeoAssistant() {
   function handleSaveLocation() {
     const source = saveSources.find((s) => s.id === saveSourceId);
     if (!source) {
-      toast.error("Selecciona una ubicacion valida");
+      toast.error(t.selectValidLocation);
       return;
     }
     const name = saveName.trim() || source.display_name || source.label;
@@ -140,7 +209,7 @@ export default function GeoAssistant() {
     };
     setSavedLocations((prev) => [next, ...prev]);
     setSaveNotes("");
-    toast.success("Ubicacion guardada");
+    toast.success(t.locationSaved);
   }
 
   function handleSavedNote(id: string, notes: string) {
@@ -167,12 +236,33 @@ export default function GeoAssistant() {
     setPanRequestId((id) => id + 1);
   }
 
-  const canAnalyze = useMemo(() => Boolean(address.trim()) || Boolean(coords), [address, coords]);
+  const hasArea = !drawingArea && areaPoints.length >= 3;
+  const canAnalyze = useMemo(
+    () => Boolean(address.trim()) || Boolean(coords) || hasArea,
+    [address, coords, hasArea]
+  );
   const canHistory = canAnalyze;
-  const addressLines = useMemo(() => buildAddressLines(location?.address), [location?.address]);
-  const canCompare = comparePoints.length === 2;
-  const compareA = comparePoints.find((p) => p.id === "A") ?? null;
-  const compareB = comparePoints.find((p) => p.id === "B") ?? null;
+  const addressLines = useMemo(
+    () => buildAddressLines(location?.address, t.addressLines),
+    [location?.address, t]
+  );
+  const canCompare = comparePoints.length >= COMPARE_MIN_CITIES;
+  // Radio y equipamientos de capasUrbanismo, isocronas y rutas del ultimo analisis, para pintarlos en el mapa.
+  const urbanLayers = useMemo<UrbanLayersData | null>(() => {
+    const center = data?.area?.centroid ?? data?.coords;
+    const pois = Array.isArray(data?.urban?.nearest) ? data.urban.nearest : null;
+    if (!center || (!pois && !data?.access?.ok)) return null;
+    return {
+      center,
+      radius_m: data?.urban?.radius_m ?? null,
+      pois: pois ?? [],
+      area: data?.area?.geojson ?? null,
+      isochrones: data?.access?.ok
+        ? { walk: data.access.modes.walk?.bands ?? [], bike: data.access.modes.bike?.bands ?? [] }
+        : null,
+      routes: data?.access?.ok ? (data.access.nearest_facilities ?? []).filter((facility) => facility.found) : null,
+    };
+  }, [data]);
   const saveSources = useMemo(() => {
     const sources: {
       id: string;
@@ -183,7 +273,7 @@ export default function GeoAssistant() {
     }[] = [];
 
     if ((mode === "analyze" || mode === "historic") && coords) {
-      const label = location?.display_name ?? `Ubicacion actual (${coords.lat.toFixed(5)}, ${coords.lon.toFixed(5)})`;
+      const label = location?.display_name ?? t.currentLocation(`${coords.lat.toFixed(5)}, ${coords.lon.toFixed(5)}`);
       sources.push({
         id: "analysis",
         label,
@@ -193,28 +283,37 @@ export default function GeoAssistant() {
       });
     }
 
-    if (compareA) {
+    for (const point of comparePoints) {
       sources.push({
-        id: "compare-A",
-        label: `Ciudad A: ${compareA.locationName ?? `${compareA.coords.lat.toFixed(5)}, ${compareA.coords.lon.toFixed(5)}`}`,
-        coords: compareA.coords,
-        display_name: compareA.locationName ?? null,
-        address: compareA.address ?? null
+        id: `compare-${point.id}`,
+        label: `${t.city(point.id)}: ${point.locationName ?? `${point.coords.lat.toFixed(5)}, ${point.coords.lon.toFixed(5)}`}`,
+        coords: point.coords,
+        display_name: point.locationName ?? null,
+        address: point.address ?? null
       });
     }
 
-    if (compareB) {
-      sources.push({
-        id: "compare-B",
-        label: `Ciudad B: ${compareB.locationName ?? `${compareB.coords.lat.toFixed(5)}, ${compareB.coords.lon.toFixed(5)}`}`,
-        coords: compareB.coords,
-        display_name: compareB.locationName ?? null,
-        address: compareB.address ?? null
-      });
+    return sources;
+  }, [mode, coords, location?.display_name, location?.address, comparePoints, t]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      const stored = localStorage.getItem(localeStorageKey);
+      if (stored) setLocale(resolveLocale(stored));
+    } catch {
+      return;
     }
+  }, [localeStorageKey]);
 
-    return sources;
-  }, [mode, coords, location?.display_name, location?.address, compareA, compareB]);
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      localStorage.setItem(localeStorageKey, locale);
+    } catch {
+      return;
+    }
+  }, [locale, localeStorageKey]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -257,28 +356,69 @@ export default function GeoAssistant() {
     setSaveName(source.display_name ?? source.label);
   }, [saveSourceId, saveSources]);
 
-  async function analyze(payload: { address?: string; lat?: number; lon?: number }) {
+  async function analyze(payload: { address?: string; lat?: number; lon?: number; area?: ReturnType<typeof buildAreaGeoJson> }) {
     setLoading(true);
     setError(null);
     setData(null);
+    setProgress([]);
+    setPartialReport("");
 
     try {
-      const res = await fetch("/api/analyze", {
+      const res = await fetch("/api/analyze/stream", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         cache: "no-store",
         body: JSON.stringify({
           address: payload.address ?? null,
           lat: payload.lat ?? null,
           lon: payload.lon ?? null,
-          radius_m: 1200
+          radius_m: 1200,
+          area: payload.area ?? null,
+          question: question.trim() || null,
+          template,
+          locale
         })
       });
 
-      const json = (await res.json()) as AnalyzeResponse;
+      if (!res.ok || !res.body) {
+        const failed = (await res.json().catch(() => null)) as AnalyzeResponse | null;
+        throw new Error(failed?.error ?? t.unknownError("/api/analyze"));
+      }
+
+      let result: { status: number; data: AnalyzeResponse } | null = null;
+      await readSseStream(res.body, (_name, raw) => {
+        const event = raw as AnalyzeStreamEvent;
+        if (event.type === "tool_start") {
+          setProgress((prev) => [...prev, { id: event.id, name: event.name, status: "running" }]);
+        } else if (event.type === "tool_end") {
+          setProgress((prev) =>
+            prev.map((step) =>
+              step.id === event.id
+                ? {
+                    ...step,
+                    status: event.ok ? "done" : "failed",
+                    duration_ms: event.duration_ms,
+                    error: event.error ?? null
+                  }
+                : step
+            )
+          );
+        } else if (event.type === "report_delta") {
+          setPartialReport((prev) => prev + event.text);
+        } else if (event.type === "report_reset") {
+          setPartialReport("");
+        } else if (event.type === "result") {
+          result = { status: event.status, data: event.data };
+        }
+      });
 
-      if (!res.ok) {
-        throw new Error(json?.error ?? "Error desconocido en /api/analyze");
+      const final = result as { status: number; data: AnalyzeResponse } | null;
+      if (!final) {
+        throw new Error(t.streamClosed);
+      }
+      const json = final.data;
+      if (final.status >= 400 || json?.ok === false) {
+        throw new Error(json?.error ?? t.unknownError("/api/analyze"));
       }
 
       let nextData = json;
@@ -308,36 +448,79 @@ export default function GeoAssistant() {
           setPanRequestId((id) => id + 1);
         }
       }
-      toast.success("Informe generado");
+      toast.success(t.reportReady);
     } catch (e: any) {
-      const msg = e?.message ?? "Fallo el analisis";
+      const msg = e?.message ?? t.analyzeFailed;
       setError(msg);
       toast.error(msg);
     } finally {
       setLoading(false);
+      setPartialReport("");
     }
   }
 
-  async function analyzeHistory(payload: { address?: string; lat?: number; lon?: number }) {
-    setHistoryLoading(true);
-    setHistoryError(null);
-    setHistoryData(null);
+  // Rejilla sobre el area dibujada o, si no hay, sobre la vista actual del mapa.
+  async function loadHeatmap() {
+    const bbox = hasArea ? polygonBbox(areaPoints) : mapBounds;
+    if (!bbox) return;
+    setHeatmapLoading(true);
 
     try {
-      const res = await fetch("/api/history", {
+      const res = await fetch("/api/heatmap", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         cache: "no-store",
-        body: JSON.stringify({
-          address: payload.address ?? null,
-          lat: payload.lat ?? null,
-          lon: payload.lon ?? null,
-        })
+        body: JSON.stringify({ bbox, scoring: { preset: template } })
       });
-
-      const json = (await res.json()) as HistoryResponse;
+      const json = await res.json();
       if (!res.ok || json?.ok === false) {
-        throw new Error(json?.error ?? "Error desconocido en /api/history");
+        throw new Error(json?.error ?? t.unknownError("/api/heatmap"));
+      }
+      setHeatmap(json.data as SuitabilityGridResult);
+      toast.success(t.heatmapReady);
+    } catch (e: any) {
+      toast.error(e?.message ?? t.heatmapFailed);
+    } finally {
+      setHeatmapLoading(false);
+    }
+  }
+
+  // Sigue el trabajo hasta que termina (el id queda en localStorage para retomarlo
+  // si se recarga la pagina) y devuelve su resultado.
+  async function followJob(kind: JobMode, start: () => Promise<JobView>) {
+    const created = await start();
+    rememberJob(kind, created.id);
+    const final = await waitForJob(created.id, (job) => setJobs((prev) => ({ ...prev, [kind]: job })));
+    rememberJob(kind, null);
+    if (final.status === "cancelled") throw new Error(t.jobCancelled);
+    if (final.status === "interrupted") throw new Error(t.jobInterrupted);
+    if (final.status === "error" && !final.result) throw new Error(final.error ?? t.unknownError("/api/jobs"));
+    return final.result;
+  }
+
+  async function analyzeHistory(
+    payload: { address?: string; lat?: number; lon?: number; area?: ReturnType<typeof buildAreaGeoJson> },
+    start?: () => Promise<JobView>
+  ) {
+    setHistoryLoading(true);
+    setHistoryError(null);
+    setHistoryData(null);
+
+    try {
+      const json = (await followJob(
+        "history",
+        start ??
+          (() =>
+            createJob("history", {
+              address: payload.address ?? null,
+              lat: payload.lat ?? null,
+              lon: payload.lon ?? null,
+              area: payload.area ?? null,
+              locale,
+            }))
+      )) as HistoryResponse;
+      if (json?.ok === false) {
+        throw new Error(json?.error ?? t.unknownError("/api/history"));
       }
 
       setHistoryData(json);
@@ -352,9 +535,9 @@ export default function GeoAssistant() {
           setPanRequestId((id) => id + 1);
         }
       }
-      toast.success("Informe historico generado");
+      toast.success(t.historyReady);
     } catch (e: any) {
-      const msg = e?.message ?? "Fallo el analisis historico";
+      const msg = e?.message ?? t.historyFailed;
       setHistoryError(msg);
       toast.error(msg);
     } finally {
@@ -362,27 +545,26 @@ export default function GeoAssistant() {
     }
   }
 
-  async function compareCities() {
-    if (comparePoints.length < 2) return;
+  async function compareCities(start?: () => Promise<JobView>) {
+    if (!start && comparePoints.length < COMPARE_MIN_CITIES) return;
     setCompareLoading(true);
     setCompareError(null);
     setCompareData(null);
 
     try {
-      const res = await fetch("/api/compare", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        cache: "no-store",
-        body: JSON.stringify({
-          a: { lat: comparePoints[0].coords.lat, lon: comparePoints[0].coords.lon },
-          b: { lat: comparePoints[1].coords.lat, lon: comparePoints[1].coords.lon }
-        })
-      });
-      const json = await res.json();
-      if (!res.ok || json?.ok === false) {
-        throw new Error(json?.error ?? "Error desconocido en /api/compare");
+      const json = (await followJob(
+        "compare",
+        start ??
+          (() =>
+            createJob("compare", {
+              cities: comparePoints.map((point) => ({ lat: point.coords.lat, lon: point.coords.lon })),
+              locale
+            }))
+      )) as CompareResponse;
+      if (json?.ok === false) {
+        throw new Error(json?.error ?? t.unknownError("/api/compare"));
       }
-      let nextCompare = json as CompareResponse;
+      let nextCompare = json;
       const ensureCityReverse = async (city: any | null | undefined) => {
         if (!city?.coords) return city ?? null;
         const hasName = Boolean(city.reverse?.display_name);
@@ -401,19 +583,27 @@ export default function GeoAssistant() {
         };
       };
 
-      const [cityA, cityB] = await Promise.all([
-        ensureCityReverse(nextCompare.cityA ?? null),
-        ensureCityReverse(nextCompare.cityB ?? null)
-      ]);
-      nextCompare = { ...nextCompare, cityA, cityB };
+      const cities = await Promise.all((nextCompare.cities ?? []).map((city) => ensureCityReverse(city)));
+      nextCompare = { ...nextCompare, cities };
       setCompareData(nextCompare);
-      if (comparePoints.length === 2) {
+      if (!comparePoints.length) {
+        // Trabajo retomado tras recargar: los puntos del mapa salen de las ciudades del resultado.
+        setComparePoints(
+          cities.map((city, idx) => ({
+            id: city?.label ?? cityLabel(idx),
+            coords: city.coords,
+            locationName: city?.reverse?.display_name ?? null,
+            locationLines: city?.reverse?.address ? buildAddressLines(city.reverse.address, t.addressLines) : [],
+            address: city?.reverse?.address ?? null
+          }))
+        );
+      } else if (cities.length === comparePoints.length) {
         setComparePoints((prev) =>
-          prev.map((point) => {
-            const city = point.id === "A" ? cityA : cityB;
+          prev.map((point, idx) => {
+            const city = cities[idx];
             const address = city?.reverse?.address ?? point.address ?? null;
             const locationName = city?.reverse?.display_name ?? point.locationName ?? null;
-            const lines = address ? buildAddressLines(address) : point.locationLines ?? [];
+            const lines = address ? buildAddressLines(address, t.addressLines) : point.locationLines ?? [];
             return {
               ...point,
               locationName,
@@ -423,9 +613,9 @@ export default function GeoAssistant() {
           })
         );
       }
-      toast.success("Comparacion generada");
+      toast.success(t.compareReady);
     } catch (e: any) {
-      const msg = e?.message ?? "Fallo la comparacion";
+      const msg = e?.message ?? t.compareFailed;
       setCompareError(msg);
       toast.error(msg);
     } finally {
@@ -433,25 +623,53 @@ export default function GeoAssistant() {
     }
   }
 
+  function retryModeJob(kind: JobMode) {
+    const id = jobs[kind]?.id;
+    if (!id) return;
+    if (kind === "compare") void compareCities(() => retryJob(id));
+    else void analyzeHistory({}, () => retryJob(id));
+  }
+
+  // Al cargar la pagina se retoman los trabajos que seguian en marcha.
+  const resumeJobs = useEffectEvent(() => {
+    const remembered = rememberedJobs();
+    if (remembered.compare) {
+      setMode("compare");
+      void compareCities(() => fetchJob(remembered.compare!));
+    }
+    if (remembered.history) {
+      if (!remembered.compare) setMode("historic");
+      void analyzeHistory({}, () => fetchJob(remembered.history!));
+    }
+  });
+
+  useEffect(() => {
+    resumeJobs();
+  }, []);
+
   async function handlePick(p: { lat: number; lon: number }) {
     setPanZoom(null);
     if (mode === "compare") {
-      const slot = comparePoints.length === 0 ? "A" : "B";
+      if (comparePoints.length >= COMPARE_MAX_CITIES) {
+        toast.error(t.maxCities(COMPARE_MAX_CITIES));
+        return;
+      }
+      const slot = cityLabel(comparePoints.length);
       try {
         setCompareError(null);
         const res = await fetch("/api/reverse", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           cache: "no-store",
-          body: JSON.stringify({ lat: p.lat, lon: p.lon })
+          body: JSON.stringify({ lat: p.lat, lon: p.lon, locale })
         });
         const json = await res.json();
         if (!res.ok || json?.ok === false) {
-          throw new Error(json?.error ?? "No se pudo obtener ciudad cercana");
+          throw new Error(json?.error ?? t.nearbyCityFailed);
         }
         const displayName = json?.display_name ?? null;
         const address = json?.address ?? null;
-        const lines = buildAddressLines(address);
+        const lines = buildAddressLines(address, t.addressLines);
         const next: ComparePoint = {
           id: slot,
           coords: p,
@@ -461,18 +679,16 @@ export default function GeoAssistant() {
         };
 
         setCompareData(null);
-        setComparePoints((prev) => {
-          if (prev.length === 0) return [next];
-          if (prev.length === 1) return [prev[0], { ...next, id: "B" }];
-          return [prev[0], { ...next, id: "B" }];
-        });
+        setComparePoints((prev) =>
+          prev.length >= COMPARE_MAX_CITIES ? prev : [...prev, { ...next, id: cityLabel(prev.length) }]
+        );
 
-        toast.message(slot === "A" ? "Ciudad A seleccionada" : "Ciudad B seleccionada", {
+        toast.message(t.citySelected(slot), {
           description: displayName ?? `${p.lat.toFixed(6)}, ${p.lon.toFixed(6)}`
         });
         return;
       } catch (e: any) {
-        toast.error(e?.message ?? "No se pudo obtener ciudad cercana");
+        toast.error(e?.message ?? t.nearbyCityFailed);
         return;
       }
     }
@@ -488,518 +704,676 @@ export default function GeoAssistant() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         cache: "no-store",
-        body: JSON.stringify({ lat: p.lat, lon: p.lon })
+        body: JSON.stringify({ lat: p.lat, lon: p.lon, locale })
       });
       const json = await res.json();
       if (res.ok && json?.ok) {
         const displayName = json?.display_name ?? null;
         const address = json?.address ?? null;
-        const lines = buildAddressLines(address);
+        const lines = buildAddressLines(address, t.addressLines);
         setLocation({ display_name: displayName, address });
         const descriptionParts = [displayName, ...lines].filter(Boolean);
-        toast.message("Punto seleccionado", {
+        toast.message(t.pointSelected, {
           description: descriptionParts.length
             ? descriptionParts.join(" | ")
             : `${p.lat.toFixed(6)}, ${p.lon.toFixed(6)}`
         });
         return;
       }
-      toast.error(json?.error ?? "No se pudo obtener direccion cercana");
+      toast.error(json?.error ?? t.nearbyAddressFailed);
     } catch (e: any) {
-      toast.error(e?.message ?? "No se pudo obtener direccion cercana");
+      toast.error(e?.message ?? t.nearbyAddressFailed);
     }
 
-    toast.message("Punto seleccionado", {
+    toast.message(t.pointSelected, {
       description: `${p.lat.toFixed(6)}, ${p.lon.toFixed(6)}`
     });
   }
 
   return (
-    <TooltipProvider>
-      <div className="h-full w-full grid grid-cols-1 lg:grid-cols-[420px_1fr]">
-        <div className="relative h-full border-r border-white/60 bg-white/70 backdrop-blur-xl supports-[backdrop-filter]:bg-white/60 p-5 overflow-y-auto shadow-[0_18px_60px_rgba(15,23,42,0.14)]">
-          <div className="pointer-events-none absolute inset-x-0 top-0 h-24 bg-gradient-to-b from-white/80 to-transparent" />
-          <div className="flex items-start justify-between gap-3">
-            <div>
-              <h1 className="text-2xl font-semibold tracking-tight font-display">GeoAI Assistant</h1>
-              <p className="text-sm text-muted-foreground">
-                Busca una direccion o marca un punto para ver datos cercanos.
-              </p>
-            </div>
-          </div>
-
-          <div className="mt-4 space-y-3">
-            <Card className="p-3 space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Modo</div>
-              </div>
-              <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
-                <TabsList className="grid grid-cols-3">
-                  <TabsTrigger value="analyze">Analisis</TabsTrigger>
-                  <TabsTrigger value="compare">Comparar</TabsTrigger>
-                  <TabsTrigger value="historic">Historico</TabsTrigger>
-                </TabsList>
-              </Tabs>
-              <div className="text-xs text-muted-foreground">
-                {mode === "analyze"
-                  ? "Analiza una direccion o un punto del mapa."
-                  : mode === "compare"
-                    ? "Selecciona dos ciudades haciendo click en el mapa."
-                    : "Informe historico de los ultimos 5 anos para la zona seleccionada."}
-              </div>
-            </Card>
-
-            {(mode === "analyze" || mode === "historic") && (
-            <Card className="p-3 space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Entrada</div>
-              </div>
-
-              <div className="flex items-center gap-2">
-                <Input
-                  value={address}
-                  onChange={(e) => setAddress(e.target.value)}
-                  placeholder="Escribe una direccion (ej: Calle X, Valencia)"
-                />
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      onClick={() => {
-                        if (mode === "historic") analyzeHistory({ address });
-                        else analyze({ address });
-                      }}
-                      disabled={(mode === "historic" ? historyLoading : loading) || !address.trim()}
-                    >
-                      Buscar
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" align="center" sideOffset={6}>
-                    Geocoding OSM
-                  </TooltipContent>
-                </Tooltip>
+    <LocaleProvider value={locale}>
+      <TooltipProvider>
+        <div className="h-full w-full grid grid-cols-1 lg:grid-cols-[420px_1fr]">
+          <div className="relative h-full border-r border-white/60 bg-white/70 backdrop-blur-xl supports-[backdrop-filter]:bg-white/60 p-5 overflow-y-auto shadow-[0_18px_60px_rgba(15,23,42,0.14)]">
+            <div className="pointer-events-none absolute inset-x-0 top-0 h-24 bg-gradient-to-b from-white/80 to-transparent" />
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h1 className="text-2xl font-semibold tracking-tight font-display">GeoAI Assistant</h1>
+                <p className="text-sm text-muted-foreground">{t.appTagline}</p>
               </div>
+              <select
+                className="h-8 rounded-md border bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+                value={locale}
+                onChange={(e) => setLocale(resolveLocale(e.target.value))}
+                aria-label={t.language}
+              >
+                {LOCALES.map((code) => (
+                  <option key={code} value={code}>
+                    {LOCALE_NAMES[code]}
+                  </option>
+                ))}
+              </select>
+            </div>
 
-              <div className="flex items-start justify-between text-xs text-muted-foreground">
-                <div>
-                  {coords ? (
-                    <div className="text-foreground">
-                      Coordenadas:{" "}
-                      <span className="font-medium">
-                        {coords.lat.toFixed(6)}, {coords.lon.toFixed(6)}
-                      </span>
-                    </div>
-                  ) : (
-                    <div>Tip: tambien puedes hacer click en el mapa</div>
-                  )}
-                  {location?.display_name && (
-                    <div className="mt-1 text-xs text-muted-foreground">
-                      {location.display_name}
-                    </div>
-                  )}
-                  {addressLines.length > 0 && (
-                    <div className="mt-1 space-y-1 text-xs text-muted-foreground">
-                      {addressLines.map((line) => (
-                        <div key={line}>{line}</div>
-                      ))}
-                    </div>
-                  )}
+            <div className="mt-4 space-y-3">
+              <Card className="p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.mode}</div>
                 </div>
+                <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+                  <TabsList className="grid grid-cols-5">
+                    <TabsTrigger value="analyze">{t.modeAnalyze}</TabsTrigger>
+                    <TabsTrigger value="compare">{t.modeCompare}</TabsTrigger>
+                    <TabsTrigger value="historic">{t.modeHistoric}</TabsTrigger>
+                    <TabsTrigger value="batch">{t.modeBatch}</TabsTrigger>
+                    <TabsTrigger value="reports">{t.modeReports}</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <div className="text-xs text-muted-foreground">
+                  {mode === "analyze"
+                    ? t.modeAnalyzeHint
+                    : mode === "compare"
+                      ? t.modeCompareHint
+                      : mode === "historic"
+                        ? t.modeHistoricHint
+                        : mode === "batch"
+                          ? t.modeBatchHint
+                          : t.modeReportsHint}
+                </div>
+              </Card>
 
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="secondary"
-                      size="sm"
-                      onClick={() => {
-                        setAddress("");
-                        setCoords(null);
-                        setLocation(null);
-                        setData(null);
-                        setError(null);
-                        setHistoryData(null);
-                        setHistoryError(null);
-                        setPanZoom(null);
-                        toast("Listo: estado reiniciado");
-                      }}
-                    >
-                      Reset
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" align="center" sideOffset={6}>
-                    Reinicia todo
-                  </TooltipContent>
-                </Tooltip>
-              </div>
-            </Card>
-            )}
+              {(mode === "analyze" || mode === "historic") && (
+              <Card className="p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.input}</div>
+                </div>
 
-            <Card className="p-3 space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Vista de mapa</div>
-              </div>
-              <Tabs value={mapStyle} onValueChange={(value) => setMapStyle(value as MapStyle)}>
-                <TabsList className="grid grid-cols-3">
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <TabsTrigger value="standard">Mapa</TabsTrigger>
-                    </TooltipTrigger>
-                    <TooltipContent side="top" align="center" sideOffset={6}>
-                      Mapa base
-                    </TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <TabsTrigger value="satellite">Satelite</TabsTrigger>
-                    </TooltipTrigger>
-                    <TooltipContent side="top" align="center" sideOffset={6}>
-                      Vista satelite
-                    </TooltipContent>
-                  </Tooltip>
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={address}
+                    onChange={(e) => setAddress(e.target.value)}
+                    placeholder={t.addressPlaceholder}
+                  />
                   <Tooltip>
                     <TooltipTrigger asChild>
-                      <TabsTrigger value="pollution">Contaminacion</TabsTrigger>
+                      <Button
+                        onClick={() => {
+                          if (mode === "historic") analyzeHistory({ address });
+                          else analyze({ address });
+                        }}
+                        disabled={(mode === "historic" ? historyLoading : loading) || !address.trim()}
+                      >
+                        {t.search}
+                      </Button>
                     </TooltipTrigger>
                     <TooltipContent side="top" align="center" sideOffset={6}>
-                      Aerosoles
+                      {t.searchTooltip}
                     </TooltipContent>
                   </Tooltip>
-                </TabsList>
-              </Tabs>
-              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
-                <span>Etiqueta y capas disponibles</span>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      size="sm"
-                      variant={showFloodLayer ? "default" : "secondary"}
-                      onClick={() => setShowFloodLayer((prev) => !prev)}
-                    >
-                      {showFloodLayer ? "Ocultar inundacion" : "Mostrar inundacion"}
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" align="center" sideOffset={6}>
-                    Capa inundacion EFAS
-                  </TooltipContent>
-                </Tooltip>
-              </div>
-            </Card>
-
-            {mode === "analyze" && (
-              <Card className="p-3 space-y-2">
-                <div className="flex items-center justify-between">
-                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Analisis</div>
-                </div>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      className="w-full"
-                      disabled={loading || !canAnalyze}
-                      onClick={() => {
-                        if (coords) analyze({ lat: coords.lat, lon: coords.lon });
-                        else analyze({ address });
-                      }}
-                    >
-                      Analizar zona
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" align="center" sideOffset={6}>
-                    Genera informe
-                  </TooltipContent>
-                </Tooltip>
-                <div className="text-xs text-muted-foreground">
-                  Usa direccion o selecciona un punto en el mapa.
                 </div>
-              </Card>
-            )}
 
-            {mode === "historic" && (
-              <Card className="p-3 space-y-2">
-                <div className="flex items-center justify-between">
-                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Historico</div>
-                </div>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      className="w-full"
-                      disabled={historyLoading || !canHistory}
-                      onClick={() => {
-                        if (coords) analyzeHistory({ lat: coords.lat, lon: coords.lon });
-                        else analyzeHistory({ address });
-                      }}
-                    >
-                      Analizar historico
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" align="center" sideOffset={6}>
-                    Genera informe historico
-                  </TooltipContent>
-                </Tooltip>
-                <div className="text-xs text-muted-foreground">
-                  Ultimos 5 anos con clima y eventos reportados.
-                </div>
-              </Card>
-            )}
-
-            {mode === "compare" && (
-              <Card className="p-3 space-y-3">
-                <div className="flex items-center justify-between">
-                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Comparacion</div>
-                </div>
-                <div className="space-y-2">
-                  <div className="rounded-md border p-2">
-                    <div className="text-xs font-semibold">Ciudad A</div>
-                    {compareA ? (
-                      <div className="mt-1 space-y-1 text-xs text-muted-foreground">
-                        <div>{compareA.locationName ?? "Sin nombre"}</div>
-                        {compareA.locationLines?.map((line) => (
-                          <div key={line}>{line}</div>
-                        ))}
+                <div className="flex items-start justify-between text-xs text-muted-foreground">
+                  <div>
+                    {coords ? (
+                      <div className="text-foreground">
+                        {t.coordinates}{" "}
+                        <span className="font-medium">
+                          {coords.lat.toFixed(6)}, {coords.lon.toFixed(6)}
+                        </span>
                       </div>
                     ) : (
-                      <div className="mt-1 text-xs text-muted-foreground">Click para seleccionar</div>
+                      <div>{t.mapTip}</div>
                     )}
-                  </div>
-                  <div className="rounded-md border p-2">
-                    <div className="text-xs font-semibold">Ciudad B</div>
-                    {compareB ? (
+                    {location?.display_name && (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        {location.display_name}
+                      </div>
+                    )}
+                    {addressLines.length > 0 && (
                       <div className="mt-1 space-y-1 text-xs text-muted-foreground">
-                        <div>{compareB.locationName ?? "Sin nombre"}</div>
-                        {compareB.locationLines?.map((line) => (
+                        {addressLines.map((line) => (
                           <div key={line}>{line}</div>
                         ))}
                       </div>
-                    ) : (
-                      <div className="mt-1 text-xs text-muted-foreground">Click para seleccionar</div>
                     )}
                   </div>
-                </div>
-                <div className="grid grid-cols-[auto_minmax(0,1fr)] gap-2">
+
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
                         variant="secondary"
                         size="sm"
                         onClick={() => {
-                          setComparePoints([]);
-                          setCompareData(null);
-                          setCompareError(null);
+                          setAddress("");
+                          setCoords(null);
+                          setLocation(null);
+                          setData(null);
+                          setError(null);
+                          setHistoryData(null);
+                          setHistoryError(null);
+                          setPanZoom(null);
+                          setAreaPoints([]);
+                          setDrawingArea(false);
+                          toast(t.resetDone);
                         }}
                       >
-                        Limpiar
+                        {t.reset}
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent side="top" align="center" sideOffset={6}>
-                      Borra seleccion
+                      {t.resetTooltip}
                     </TooltipContent>
                   </Tooltip>
+                </div>
+
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {drawingArea
+                      ? t.areaDrawing(areaPoints.length)
+                      : hasArea
+                        ? t.areaDrawn(areaPoints.length)
+                        : t.areaHint}
+                  </span>
+                  <div className="flex gap-2">
+                    {drawingArea ? (
+                      <Button
+                        size="sm"
+                        disabled={areaPoints.length < 3}
+                        onClick={() => setDrawingArea(false)}
+                      >
+                        {t.closeArea}
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => {
+                          setAreaPoints([]);
+                          setDrawingArea(true);
+                        }}
+                      >
+                        {t.drawArea}
+                      </Button>
+                    )}
+                    {(drawingArea || areaPoints.length > 0) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setAreaPoints([]);
+                          setDrawingArea(false);
+                        }}
+                      >
+                        {t.clear}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+              )}
+
+              <Card className="p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.mapView}</div>
+                </div>
+                <Tabs value={mapStyle} onValueChange={(value) => setMapStyle(value as MapStyle)}>
+                  <TabsList className="grid grid-cols-3">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <TabsTrigger value="standard">{t.styleStandard}</TabsTrigger>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" align="center" sideOffset={6}>
+                        {t.styleStandardTooltip}
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <TabsTrigger value="satellite">{t.styleSatellite}</TabsTrigger>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" align="center" sideOffset={6}>
+                        {t.styleSatelliteTooltip}
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <TabsTrigger value="pollution">{t.stylePollution}</TabsTrigger>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" align="center" sideOffset={6}>
+                        {t.stylePollutionTooltip}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TabsList>
+                </Tabs>
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>{t.layers}</span>
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
-                        className="w-full whitespace-normal leading-tight"
-                        disabled={compareLoading || !canCompare}
-                        onClick={compareCities}
+                        size="sm"
+                        variant={showFloodLayer ? "default" : "secondary"}
+                        onClick={() => setShowFloodLayer((prev) => !prev)}
                       >
-                        Comparar ciudades
+                        {showFloodLayer ? t.floodHide : t.floodShow}
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent side="top" align="center" sideOffset={6}>
-                      Genera informe VS
+                      {t.floodTooltip}
                     </TooltipContent>
                   </Tooltip>
                 </div>
               </Card>
-            )}
 
-            <Card className="p-3 space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                  Ubicaciones guardadas
-                </div>
-              </div>
-              <div className="space-y-2">
-                <div className="text-xs text-muted-foreground">
-                  Guarda una ubicacion y agrega notas o comentarios.
-                </div>
-                <div className="space-y-2">
+              {mode === "analyze" && (
+                <Card className="p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.analysis}</div>
+                  </div>
                   <select
                     className="h-9 w-full rounded-md border bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
-                    value={saveSourceId}
-                    onChange={(e) => setSaveSourceId(e.target.value)}
-                    disabled={saveSources.length === 0}
+                    value={template}
+                    onChange={(e) => setTemplate(e.target.value as ReportTemplateId)}
+                    aria-label={t.templateLabel}
                   >
-                    {saveSources.length === 0 ? (
-                      <option value="">No hay ubicaciones para guardar</option>
-                    ) : (
-                      saveSources.map((source) => (
-                        <option key={source.id} value={source.id}>
-                          {source.label}
-                        </option>
-                      ))
-                    )}
+                    {REPORT_TEMPLATE_IDS.map((id) => (
+                      <option key={id} value={id}>
+                        {REPORT_TEMPLATES[id].label[locale]}
+                      </option>
+                    ))}
                   </select>
+                  <div className="text-xs text-muted-foreground">{REPORT_TEMPLATES[template].description[locale]}</div>
                   <Input
-                    value={saveName}
-                    onChange={(e) => setSaveName(e.target.value)}
-                    placeholder="Nombre de la ubicacion"
-                    disabled={saveSources.length === 0}
-                  />
-                  <textarea
-                    className="min-h-[72px] w-full rounded-md border bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
-                    value={saveNotes}
-                    onChange={(e) => setSaveNotes(e.target.value)}
-                    placeholder="Notas o comentarios"
-                    disabled={saveSources.length === 0}
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder={t.questionPlaceholder}
+                    maxLength={500}
                   />
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="w-full"
+                        disabled={loading || !canAnalyze}
+                        onClick={() => {
+                          if (hasArea) analyze({ area: buildAreaGeoJson(areaPoints) });
+                          else if (coords) analyze({ lat: coords.lat, lon: coords.lon });
+                          else analyze({ address });
+                        }}
+                      >
+                        {hasArea ? t.analyzeArea : t.analyzeZone}
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" align="center" sideOffset={6}>
+                      {t.generateReport}
+                    </TooltipContent>
+                  </Tooltip>
+                  <div className="text-xs text-muted-foreground">{t.analyzeHint}</div>
+                </Card>
+              )}
+
+              {mode === "analyze" && (
+                <Card className="p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.heatmap}</div>
+                    {heatmap && (
+                      <Button size="sm" variant="ghost" onClick={() => setHeatmap(null)}>
+                        {t.heatmapHide}
+                      </Button>
+                    )}
+                  </div>
                   <Button
+                    className="w-full"
                     variant="secondary"
-                    size="sm"
-                    onClick={handleSaveLocation}
-                    disabled={saveSources.length === 0}
+                    disabled={heatmapLoading || (!hasArea && !mapBounds)}
+                    onClick={() => void loadHeatmap()}
                   >
-                    Guardar ubicacion
+                    {heatmapLoading ? t.heatmapLoading : hasArea ? t.heatmapArea : t.heatmapView}
                   </Button>
-                </div>
-              </div>
+                  <div className="text-xs text-muted-foreground">{t.heatmapHint}</div>
+                  {heatmap && (
+                    <div className="space-y-2 text-xs">
+                      <div className="text-muted-foreground">{t.heatmapSummary(heatmap.rows, heatmap.cols, heatmap.cell_m)}</div>
+                      {heatmap.truncated && <div className="text-amber-700">{t.heatmapTruncated}</div>}
+                      {heatmap.best[0] && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => {
+                            const best = heatmap.best[0];
+                            setCoords({ lat: best.lat, lon: best.lon });
+                            setLocation(null);
+                            setPanZoom(15);
+                            setPanRequestId((id) => id + 1);
+                          }}
+                        >
+                          {t.heatmapBest} ({heatmap.best[0].total})
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </Card>
+              )}
 
-              <div className="space-y-2">
-                {savedLocations.length === 0 ? (
-                  <div className="text-xs text-muted-foreground">No hay ubicaciones guardadas.</div>
-                ) : (
-                  savedLocations.map((item) => {
-                    const lines = buildAddressLines(item.address ?? null);
-                    return (
-                      <div key={item.id} className="rounded-md border p-2 space-y-2">
-                        <div className="flex items-start justify-between gap-2">
-                          <div className="space-y-1">
-                            <div className="text-sm font-semibold">{item.name}</div>
-                            <div className="text-xs text-muted-foreground">
-                              {item.display_name ??
-                                `${item.coords.lat.toFixed(6)}, ${item.coords.lon.toFixed(6)}`}
-                            </div>
-                            {lines.length > 0 && (
-                              <div className="space-y-1 text-xs text-muted-foreground">
-                                {lines.map((line) => (
-                                  <div key={`${item.id}-${line}`}>{line}</div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                          <div className="flex flex-col gap-2">
-                            <Button size="sm" onClick={() => handleGoToSaved(item)}>
-                              Ver
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => handleDeleteSaved(item.id)}
-                            >
-                              Borrar
-                            </Button>
-                          </div>
+              {mode === "historic" && (
+                <Card className="p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.historic}</div>
+                  </div>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="w-full"
+                        disabled={historyLoading || !canHistory}
+                        onClick={() => {
+                          if (hasArea) analyzeHistory({ area: buildAreaGeoJson(areaPoints) });
+                          else if (coords) analyzeHistory({ lat: coords.lat, lon: coords.lon });
+                          else analyzeHistory({ address });
+                        }}
+                      >
+                        {t.analyzeHistoric}
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" align="center" sideOffset={6}>
+                      {t.generateHistoric}
+                    </TooltipContent>
+                  </Tooltip>
+                  <div className="text-xs text-muted-foreground">{t.historicHint}</div>
+                </Card>
+              )}
+
+              {mode === "compare" && (
+                <Card className="p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.comparison}</div>
+                  </div>
+                  <div className="space-y-2">
+                    {comparePoints.map((point) => (
+                      <div key={point.id} className="rounded-md border p-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-xs font-semibold">{t.city(point.id)}</div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => {
+                              setCompareData(null);
+                              setComparePoints((prev) =>
+                                prev
+                                  .filter((p) => p.id !== point.id)
+                                  .map((p, idx) => ({ ...p, id: cityLabel(idx) }))
+                              );
+                            }}
+                          >
+                            {t.remove}
+                          </Button>
+                        </div>
+                        <div className="mt-1 space-y-1 text-xs text-muted-foreground">
+                          <div>{point.locationName ?? t.unnamed}</div>
+                          {point.locationLines?.map((line) => (
+                            <div key={line}>{line}</div>
+                          ))}
                         </div>
-                        <textarea
-                          className="min-h-[64px] w-full rounded-md border bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
-                          value={item.notes ?? ""}
-                          onChange={(e) => handleSavedNote(item.id, e.target.value)}
-                          placeholder="Notas o comentarios"
-                        />
                       </div>
-                    );
-                  })
-                )}
-              </div>
-            </Card>
-
-            {mode === "analyze" && loading && (
-              <Card className="p-3 space-y-2">
-                <Skeleton className="h-4 w-2/3" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-5/6" />
-              </Card>
-            )}
+                    ))}
+                    {comparePoints.length < COMPARE_MAX_CITIES && (
+                      <div className="rounded-md border border-dashed p-2 text-xs text-muted-foreground">
+                        {t.addCityHint(cityLabel(comparePoints.length), comparePoints.length, COMPARE_MAX_CITIES)}
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-[auto_minmax(0,1fr)] gap-2">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => {
+                            setComparePoints([]);
+                            setCompareData(null);
+                            setCompareError(null);
+                          }}
+                        >
+                          {t.clearSelection}
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" align="center" sideOffset={6}>
+                        {t.clearSelectionTooltip}
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          className="w-full whitespace-normal leading-tight"
+                          disabled={compareLoading || !canCompare}
+                          onClick={() => void compareCities()}
+                        >
+                          {t.compareCities}
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" align="center" sideOffset={6}>
+                        {t.compareTooltip}
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                </Card>
+              )}
 
-            {mode === "analyze" && error && (
-              <Alert className="p-3">
-                <div className="text-sm">
-                  <span className="font-semibold">Error:</span> {error}
+              <Card className="p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.savedLocations}</div>
                 </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  Si una API externa falla, el backend aplica fallback y lo declara en Limitaciones.
+                <div className="space-y-2">
+                  <div className="text-xs text-muted-foreground">{t.savedHint}</div>
+                  <div className="space-y-2">
+                    <select
+                      className="h-9 w-full rounded-md border bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+                      value={saveSourceId}
+                      onChange={(e) => setSaveSourceId(e.target.value)}
+                      disabled={saveSources.length === 0}
+                    >
+                      {saveSources.length === 0 ? (
+                        <option value="">{t.noSaveSources}</option>
+                      ) : (
+                        saveSources.map((source) => (
+                          <option key={source.id} value={source.id}>
+                            {source.label}
+                          </option>
+                        ))
+                      )}
+                    </select>
+                    <Input
+                      value={saveName}
+                      onChange={(e) => setSaveName(e.target.value)}
+                      placeholder={t.saveNamePlaceholder}
+                      disabled={saveSources.length === 0}
+                    />
+                    <textarea
+                      className="min-h-[72px] w-full rounded-md border bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+                      value={saveNotes}
+                      onChange={(e) => setSaveNotes(e.target.value)}
+                      placeholder={t.notesPlaceholder}
+                      disabled={saveSources.length === 0}
+                    />
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleSaveLocation}
+                      disabled={saveSources.length === 0}
+                    >
+                      {t.saveLocation}
+                    </Button>
+                  </div>
                 </div>
-              </Alert>
-            )}
-
-            {mode === "analyze" && data && <ReportView data={data} />}
-
-            {mode === "historic" && historyLoading && (
-              <Card className="p-3 space-y-2">
-                <Skeleton className="h-4 w-2/3" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-5/6" />
-              </Card>
-            )}
 
-            {mode === "historic" && historyError && (
-              <Alert className="p-3">
-                <div className="text-sm">
-                  <span className="font-semibold">Error:</span> {historyError}
-                </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  Si una API externa falla, el backend lo declara en Limitaciones.
+                <div className="space-y-2">
+                  {savedLocations.length === 0 ? (
+                    <div className="text-xs text-muted-foreground">{t.noSaved}</div>
+                  ) : (
+                    savedLocations.map((item) => {
+                      const lines = buildAddressLines(item.address ?? null, t.addressLines);
+                      return (
+                        <div key={item.id} className="rounded-md border p-2 space-y-2">
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="space-y-1">
+                              <div className="text-sm font-semibold">{item.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {item.display_name ??
+                                  `${item.coords.lat.toFixed(6)}, ${item.coords.lon.toFixed(6)}`}
+                              </div>
+                              {lines.length > 0 && (
+                                <div className="space-y-1 text-xs text-muted-foreground">
+                                  {lines.map((line) => (
+                                    <div key={`${item.id}-${line}`}>{line}</div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex flex-col gap-2">
+                              <Button size="sm" onClick={() => handleGoToSaved(item)}>
+                                {t.view}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleDeleteSaved(item.id)}
+                              >
+                                {t.clear}
+                              </Button>
+                            </div>
+                          </div>
+                          <textarea
+                            className="min-h-[64px] w-full rounded-md border bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+                            value={item.notes ?? ""}
+                            onChange={(e) => handleSavedNote(item.id, e.target.value)}
+                            placeholder={t.notesPlaceholder}
+                          />
+                        </div>
+                      );
+                    })
+                  )}
                 </div>
-              </Alert>
-            )}
-
-            {mode === "historic" && historyData && <HistoryView data={historyData} />}
-
-            {mode === "compare" && compareLoading && (
-              <Card className="p-3 space-y-2">
-                <Skeleton className="h-4 w-2/3" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-5/6" />
               </Card>
-            )}
 
-            {mode === "compare" && compareError && (
-              <Alert className="p-3">
-                <div className="text-sm">
-                  <span className="font-semibold">Error:</span> {compareError}
-                </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  Verifica que haya dos ciudades seleccionadas.
-                </div>
-              </Alert>
-            )}
+              {mode === "analyze" && loading && (
+                progress.length || partialReport ? (
+                  <ReportView data={{ ok: true, report_markdown: partialReport }} progress={progress} streaming />
+                ) : (
+                  <Card className="p-3 space-y-2">
+                    <Skeleton className="h-4 w-2/3" />
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-5/6" />
+                  </Card>
+                )
+              )}
+
+              {mode === "analyze" && error && (
+                <Alert className="p-3">
+                  <div className="text-sm">
+                    <span className="font-semibold">{t.error}</span> {error}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">{t.analyzeErrorHint}</div>
+                </Alert>
+              )}
+
+              {mode === "analyze" && data && <ReportView data={data} progress={progress} />}
+              {mode === "analyze" && data && <ReportChat key={data.report_markdown} kind="analyze" data={data} />}
+
+              {mode === "historic" && historyLoading && (
+                <Card className="p-3 space-y-2">
+                  <Skeleton className="h-4 w-2/3" />
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-5/6" />
+                  <JobProgress job={jobs.history} />
+                </Card>
+              )}
+
+              {mode === "historic" && historyError && (
+                <Alert className="p-3">
+                  <div className="text-sm">
+                    <span className="font-semibold">{t.error}</span> {historyError}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">{t.historyErrorHint}</div>
+                  {jobs.history && (
+                    <Button size="sm" variant="secondary" className="mt-2" onClick={() => retryModeJob("history")}>
+                      {t.jobRetry}
+                    </Button>
+                  )}
+                </Alert>
+              )}
+
+              {mode === "historic" && historyData && <HistoryView data={historyData} />}
+              {mode === "historic" && historyData && (
+                <ReportChat key={historyData.report_markdown} kind="history" data={historyData} />
+              )}
+
+              {mode === "compare" && compareLoading && (
+                <Card className="p-3 space-y-2">
+                  <Skeleton className="h-4 w-2/3" />
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-5/6" />
+                  <JobProgress job={jobs.compare} />
+                </Card>
+              )}
+
+              {mode === "compare" && compareError && (
+                <Alert className="p-3">
+                  <div className="text-sm">
+                    <span className="font-semibold">{t.error}</span> {compareError}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">{t.compareErrorHint}</div>
+                  {jobs.compare && (
+                    <Button size="sm" variant="secondary" className="mt-2" onClick={() => retryModeJob("compare")}>
+                      {t.jobRetry}
+                    </Button>
+                  )}
+                </Alert>
+              )}
 
-            {mode === "compare" && compareData && <CompareView data={compareData} />}
+              {mode === "compare" && compareData && <CompareView data={compareData} />}
+              {mode === "compare" && compareData && (
+                <ReportChat key={compareData.report_markdown} kind="compare" data={compareData} />
+              )}
+
+              {/* Oculto en vez de desmontado para no perder el trabajo en curso al cambiar de modo. */}
+              <div className={mode === "batch" ? "space-y-3" : "hidden"}>
+                <BatchPanel />
+              </div>
+              <div className={mode === "reports" ? "space-y-3" : "hidden"}>
+                <ReportsPanel active={mode === "reports"} />
+              </div>
+            </div>
           </div>
-        </div>
 
-        <div className="h-full">
-          <MapView
-            coords={mode === "compare" ? null : coords}
-            mapStyle={mapStyle}
-            showFloodLayer={showFloodLayer}
-            locationName={location?.display_name ?? null}
-            locationLines={addressLines}
-            panRequestId={panRequestId}
-            panZoom={panZoom}
-            comparePoints={mode === "compare" ? comparePoints : undefined}
-            onPick={(p) => {
-              void handlePick(p);
-            }}
-            onAnalyze={(p) => {
-              if (mode === "historic") {
-                analyzeHistory({ lat: p.lat, lon: p.lon });
-              } else {
-                analyze({ lat: p.lat, lon: p.lon });
-              }
-            }}
-            analyzeLabel={mode === "historic" ? "Historico aqui" : "Analizar aqui"}
-            analyzeTooltip={mode === "historic" ? "Genera informe historico" : "Genera informe"}
-          />
+          <div className="h-full">
+            <MapView
+              coords={mode === "compare" ? null : coords}
+              mapStyle={mapStyle}
+              showFloodLayer={showFloodLayer}
+              locationName={location?.display_name ?? null}
+              locationLines={addressLines}
+              panRequestId={panRequestId}
+              panZoom={panZoom}
+              comparePoints={mode === "compare" ? comparePoints : undefined}
+              areaPoints={mode === "compare" ? undefined : areaPoints}
+              drawingArea={mode !== "compare" && drawingArea}
+              onAreaPoint={(p) => setAreaPoints((prev) => [...prev, p])}
+              onPick={(p) => {
+                void handlePick(p);
+              }}
+              onAnalyze={(p) => {
+                if (mode === "historic") {
+                  analyzeHistory({ lat: p.lat, lon: p.lon });
+                } else {
+                  analyze({ lat: p.lat, lon: p.lon });
+                }
+              }}
+              analyzeLabel={mode === "historic" ? t.historicHere : t.analyzeHere}
+              analyzeTooltip={mode === "historic" ? t.generateHistoric : t.generateReport}
+              heatmapCells={mode === "analyze" ? heatmap?.cells : undefined}
+              onBoundsChange={setMapBounds}
+              urbanLayers={mode === "analyze" ? urbanLayers : null}
+            />
+          </div>
         </div>
-      </div>
-    </TooltipProvider>
+      </TooltipProvider>
+    </LocaleProvider>
   );
 }
@@ -6,6 +6,8 @@ import remarkGfm from "remark-gfm";
 import type { HistoryResponse } from "@/lib/types";
 
 import { openReportPdf, formatReportDate } from "@/lib/report-export";
+import { useLocale } from "@/components/locale-context";
+import ReportLinkButton from "@/components/report-link-button";
 
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -13,10 +15,11 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 
-export default function HistoryView({ data }: { data: HistoryResponse }) {
+export default function HistoryView({ data, createdAt }: { data: HistoryResponse; createdAt?: string }) {
+  const { locale, t } = useLocale();
   const reportRef = useRef<HTMLDivElement | null>(null);
-  const reportDate = useMemo(() => new Date(), [data.report_markdown]);
-  const dateLabel = useMemo(() => formatReportDate(reportDate), [reportDate]);
+  const reportDate = useMemo(() => (createdAt ? new Date(createdAt) : new Date()), [createdAt, data.report_markdown]);
+  const dateLabel = useMemo(() => formatReportDate(reportDate, locale), [reportDate, locale]);
   const zoneLabel = useMemo(() => {
     const displayName = data.coords?.display_name?.trim();
     if (displayName) return displayName;
@@ -34,14 +37,14 @@ export default function HistoryView({ data }: { data: HistoryResponse }) {
     if (typeof data.coords?.lat === "number" && typeof data.coords?.lon === "number") {
       return `${data.coords.lat.toFixed(6)}, ${data.coords.lon.toFixed(6)}`;
     }
-    return "Zona sin nombre";
-  }, [data.coords]);
+    return t.unnamedZone;
+  }, [data.coords, t]);
 
   return (
     <Card className="p-3">
       <div className="flex items-start justify-between gap-2">
         <div>
-          <div className="text-sm font-semibold">Analisis historico</div>
+          <div className="text-sm font-semibold">{t.historyTitle}</div>
         </div>
       </div>
 
@@ -49,16 +52,16 @@ export default function HistoryView({ data }: { data: HistoryResponse }) {
 
       <Tabs defaultValue="report">
         <TabsList className="grid grid-cols-4">
-          <TabsTrigger value="report">Informe</TabsTrigger>
-          <TabsTrigger value="data">Datos</TabsTrigger>
-          <TabsTrigger value="sources">Fuentes</TabsTrigger>
-          <TabsTrigger value="limits">Limitaciones</TabsTrigger>
+          <TabsTrigger value="report">{t.tabReport}</TabsTrigger>
+          <TabsTrigger value="data">{t.tabData}</TabsTrigger>
+          <TabsTrigger value="sources">{t.tabSources}</TabsTrigger>
+          <TabsTrigger value="limits">{t.tabLimits}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="report" className="mt-3">
           <div ref={reportRef} className="prose prose-sm max-w-none">
             <ReactMarkdown remarkPlugins={[remarkGfm]}>
-              {data.report_markdown ?? "No hay informe."}
+              {data.report_markdown ?? t.noReport}
             </ReactMarkdown>
           </div>
         </TabsContent>
@@ -66,7 +69,7 @@ export default function HistoryView({ data }: { data: HistoryResponse }) {
         <TabsContent value="data" className="mt-3">
           <Accordion type="single" collapsible className="w-full">
             <AccordionItem value="weather">
-              <AccordionTrigger>Clima historico (Open-Meteo)</AccordionTrigger>
+              <AccordionTrigger>{t.weatherData}</AccordionTrigger>
               <AccordionContent>
                 <pre className="text-xs whitespace-pre-wrap">
                   {JSON.stringify(data.weather ?? null, null, 2)}
@@ -74,7 +77,7 @@ export default function HistoryView({ data }: { data: HistoryResponse }) {
               </AccordionContent>
             </AccordionItem>
             <AccordionItem value="events">
-              <AccordionTrigger>Eventos historicos (NASA EONET)</AccordionTrigger>
+              <AccordionTrigger>{t.eventsData}</AccordionTrigger>
               <AccordionContent>
                 <pre className="text-xs whitespace-pre-wrap">
                   {JSON.stringify(data.events ?? null, null, 2)}
@@ -106,24 +109,26 @@ export default function HistoryView({ data }: { data: HistoryResponse }) {
 
       <Separator className="my-3" />
       <div className="flex items-center justify-between gap-2">
-        <div className="text-xs text-muted-foreground">
-          Exporta el informe historico en PDF con formato presentable.
+        <div className="text-xs text-muted-foreground">{t.exportHistoryHint}</div>
+        <div className="flex items-center gap-2">
+          {data.report_id && <ReportLinkButton reportId={data.report_id} />}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              openReportPdf({
+                title: t.historyPdfTitle(dateLabel),
+                subtitle: zoneLabel,
+                dateLabel,
+                reportHtml: reportRef.current?.innerHTML ?? null,
+                reportMarkdown: data.report_markdown ?? null,
+                locale
+              });
+            }}
+          >
+            {t.downloadPdf}
+          </Button>
         </div>
-        <Button
-          variant="secondary"
-          size="sm"
-          onClick={() => {
-            openReportPdf({
-              title: `Informe historico - ${dateLabel}`,
-              subtitle: zoneLabel,
-              dateLabel,
-              reportHtml: reportRef.current?.innerHTML ?? null,
-              reportMarkdown: data.report_markdown ?? null
-            });
-          }}
-        >
-          Descargar PDF
-        </Button>
       </div>
     </Card>
   );
@@ -0,0 +1,73 @@
+"use client";
+
+import { landuseColor, type LanduseAreas } from "@/lib/landuse-areas";
+import { useLocale } from "@/components/locale-context";
+
+const SIZE = 120;
+const RADIUS = 56;
+const UNCLASSIFIED_COLOR = "#e5e7eb";
+// Por debajo de esto las categorias se agrupan en "otros" para que el grafico se lea.
+const MIN_SLICE_PCT = 2;
+
+function slicePath(start: number, end: number) {
+  const c = SIZE / 2;
+  const point = (fraction: number) => {
+    const angle = fraction * 2 * Math.PI - Math.PI / 2;
+    return `${c + RADIUS * Math.cos(angle)} ${c + RADIUS * Math.sin(angle)}`;
+  };
+  const large = end - start > 0.5 ? 1 : 0;
+  return `M ${c} ${c} L ${point(start)} A ${RADIUS} ${RADIUS} 0 ${large} 1 ${point(end)} Z`;
+}
+
+// Tarta de superficie por uso del suelo (urban.landuse_areas del analisis).
+export default function LanduseChart({ areas }: { areas: LanduseAreas & { truncated?: boolean } }) {
+  const { t } = useLocale();
+  const main = areas.categories.filter((c) => c.pct >= MIN_SLICE_PCT);
+  const otherPct = Math.round(areas.categories.filter((c) => c.pct < MIN_SLICE_PCT).reduce((sum, c) => sum + c.pct, 0) * 10) / 10;
+  const slices = [
+    ...main.map((c) => ({ key: c.key, label: t.landuseValues[c.value] ?? `${c.tag}=${c.value}`, pct: c.pct, color: landuseColor(c.key) })),
+    ...(otherPct > 0 ? [{ key: "other", label: t.landuseOther, pct: otherPct, color: "#a8a29e" }] : []),
+    ...(areas.unclassified_pct > 0
+      ? [{ key: "unclassified", label: t.landuseUnclassified, pct: areas.unclassified_pct, color: UNCLASSIFIED_COLOR }]
+      : []),
+  ];
+
+  let offset = 0;
+  const paths = slices.map((slice) => {
+    const start = offset;
+    offset += slice.pct / 100;
+    return { ...slice, start, end: Math.min(1, offset) };
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold">{t.landuseAreas}</div>
+      {!areas.categories.length ? (
+        <div className="text-xs text-muted-foreground">{t.landuseAreasEmpty}</div>
+      ) : (
+        <div className="flex items-start gap-4">
+          <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} className="shrink-0" role="img" aria-label={t.landuseAreas}>
+            {paths.map((slice) =>
+              slice.end - slice.start >= 0.9999 ? (
+                <circle key={slice.key} cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill={slice.color} />
+              ) : (
+                <path key={slice.key} d={slicePath(slice.start, slice.end)} fill={slice.color} stroke="#fff" strokeWidth={1} />
+              )
+            )}
+          </svg>
+          <ul className="space-y-1 text-xs">
+            {slices.map((slice) => (
+              <li key={slice.key} className="flex items-center gap-2">
+                <span className="inline-block h-2.5 w-2.5 shrink-0 rounded-full" style={{ background: slice.color }} />
+                <span>{slice.label}</span>
+                <span className="text-muted-foreground">{slice.pct.toLocaleString()} %</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="text-[11px] text-muted-foreground">{t.landuseAreasNote(areas.cell_m)}</div>
+      {areas.truncated && <div className="text-[11px] text-amber-700">{t.landuseAreasTruncated}</div>}
+    </div>
+  );
+}
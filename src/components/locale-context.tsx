@@ -0,0 +1,15 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n";
+import { UI_MESSAGES } from "@/lib/ui-messages";
+
+// Idioma elegido en GeoAssistant; las vistas lo leen sin recibirlo por props.
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export const LocaleProvider = LocaleContext.Provider;
+
+export function useLocale() {
+  const locale = useContext(LocaleContext);
+  return { locale, t: UI_MESSAGES[locale] };
+}
@@ -5,14 +5,74 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import "leaflet/dist/leaflet.css";
 import "leaflet-defaulticon-compatibility/dist/leaflet-defaulticon-compatibility.css";
 
-import type { LatLngTuple } from "leaflet";
-import { MapContainer, TileLayer, Marker, Popup, WMSTileLayer, useMap, useMapEvents } from "react-leaflet";
+import { divIcon, type LatLngTuple, type Map as LeafletMap } from "leaflet";
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Polygon,
+  Polyline,
+  CircleMarker,
+  Rectangle,
+  Tooltip as LeafletTooltip,
+  WMSTileLayer,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useLocale } from "@/components/locale-context";
+import {
+  UrbanLayers,
+  UrbanLayersToggle,
+  useUrbanGeometry,
+  type UrbanLayerKey,
+  type UrbanLayersData,
+} from "@/components/urban-layers";
+import type { Bbox } from "@/lib/tools/suitabilityGrid";
+import type { SuitabilityGridCell } from "@/lib/types";
 
 type MapStyle = "standard" | "satellite" | "pollution";
+
+// Marcador con la etiqueta de la ciudad para distinguir varias en la comparacion.
+function compareIcon(label: string) {
+  return divIcon({
+    className: "",
+    html: `<div style="display:flex;align-items:center;justify-content:center;width:26px;height:26px;border-radius:9999px;background:#1d4ed8;color:#fff;font:600 12px/1 sans-serif;border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.4)">${label}</div>`,
+    iconSize: [26, 26],
+    iconAnchor: [13, 13],
+    popupAnchor: [0, -14],
+  });
+}
+// Rojo (0) -> amarillo (50) -> verde (100).
+function heatColor(score: number | null) {
+  if (score === null) return "#9ca3af";
+  return `hsl(${Math.round((score / 100) * 120)}, 75%, 45%)`;
+}
+
+function bboxOf(map: LeafletMap): Bbox {
+  const b = map.getBounds();
+  return { minLat: b.getSouth(), minLon: b.getWest(), maxLat: b.getNorth(), maxLon: b.getEast() };
+}
+
+// Informa del bbox visible (para el mapa de idoneidad) al montar y tras cada movimiento.
+// Va fuera de MapView para no remontarse (y volver a avisar) en cada render.
+function BoundsTracker({ onChange }: { onChange: (bbox: Bbox) => void }) {
+  const map = useMap();
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+  useMapEvents({ moveend: () => onChangeRef.current(bboxOf(map)) });
+  useEffect(() => {
+    onChangeRef.current(bboxOf(map));
+  }, [map]);
+  return null;
+}
+
 type ComparePoint = {
-  id: "A" | "B";
+  id: string;
   coords: { lat: number; lon: number };
   locationName?: string | null;
   locationLines?: string[];
@@ -30,6 +90,12 @@ export default function MapView(props: {
   analyzeLabel?: string;
   analyzeTooltip?: string;
   panZoom?: number | null;
+  areaPoints?: { lat: number; lon: number }[];
+  drawingArea?: boolean;
+  onAreaPoint?: (p: { lat: number; lon: number }) => void;
+  heatmapCells?: SuitabilityGridCell[];
+  onBoundsChange?: (bbox: Bbox) => void;
+  urbanLayers?: UrbanLayersData | null;
 }) {
   useEffect(() => {
     import("leaflet-defaulticon-compatibility");
@@ -48,8 +114,29 @@ export default function MapView(props: {
     onAnalyze,
     analyzeLabel,
     analyzeTooltip,
+    areaPoints,
+    drawingArea,
+    onAreaPoint,
+    heatmapCells,
+    onBoundsChange,
+    urbanLayers,
   } = props;
+  const { t } = useLocale();
   const [floodLoading, setFloodLoading] = useState(false);
+  const [urbanVisible, setUrbanVisible] = useState<Record<UrbanLayerKey, boolean>>({
+    radius: true,
+    // Pide mas datos a Overpass: solo bajo demanda.
+    geometry: false,
+    walk: true,
+    bike: false,
+    routes: true,
+    health: true,
+    education: true,
+    transport: true,
+    emergency: true,
+    fuel: true,
+  });
+  const urbanGeometry = useUrbanGeometry(urbanLayers, urbanVisible.geometry);
   const initialCenter = useMemo<LatLngTuple>(() => [39.4699, -0.3763], []);
   const initialZoom = 12;
   const minZoom = 3;
@@ -174,16 +261,63 @@ export default function MapView(props: {
           />
         )}
 
-      <ClickHandler onPick={onPick} />
+      <ClickHandler onPick={drawingArea && onAreaPoint ? onAreaPoint : onPick} />
       <FocusOnCoords coords={coords} panRequestId={panRequestId} panZoom={panZoom} />
       <DisableTap />
+      {onBoundsChange && <BoundsTracker onChange={onBoundsChange} />}
+
+        {heatmapCells?.map((cell) => (
+          <Rectangle
+            key={`${cell.row}-${cell.col}`}
+            bounds={[
+              [cell.bounds.minLat, cell.bounds.minLon],
+              [cell.bounds.maxLat, cell.bounds.maxLon],
+            ]}
+            pathOptions={{ stroke: false, fillColor: heatColor(cell.total), fillOpacity: 0.45 }}
+          >
+            <LeafletTooltip sticky>
+              <div className="text-xs">
+                <div className="font-medium">{t.suitability}: {cell.total ?? t.noScoreData}</div>
+                <div>{t.scoreLabels.services}: {cell.services ?? t.noScoreData}</div>
+                <div>{t.scoreLabels.transport}: {cell.transport ?? t.noScoreData}</div>
+                <div>{t.scoreLabels.environmental_risk}: {cell.environmental_risk ?? t.noScoreData}</div>
+              </div>
+            </LeafletTooltip>
+          </Rectangle>
+        ))}
+
+        {urbanLayers && <UrbanLayers data={urbanLayers} visible={urbanVisible} geometry={urbanGeometry.geojson} />}
+
+        {areaPoints && areaPoints.length > 0 && (
+          drawingArea ? (
+            <>
+              <Polyline
+                positions={areaPoints.map((p) => [p.lat, p.lon] as LatLngTuple)}
+                pathOptions={{ color: "#0f766e", dashArray: "6 6", weight: 2 }}
+              />
+              {areaPoints.map((p, idx) => (
+                <CircleMarker
+                  key={`${p.lat}-${p.lon}-${idx}`}
+                  center={[p.lat, p.lon]}
+                  radius={4}
+                  pathOptions={{ color: "#0f766e", fillOpacity: 1 }}
+                />
+              ))}
+            </>
+          ) : (
+            <Polygon
+              positions={areaPoints.map((p) => [p.lat, p.lon] as LatLngTuple)}
+              pathOptions={{ color: "#0f766e", weight: 2, fillOpacity: 0.15 }}
+            />
+          )
+        )}
 
         {comparePoints && comparePoints.length > 0 ? (
           comparePoints.map((point) => (
-            <Marker key={point.id} position={[point.coords.lat, point.coords.lon]}>
+            <Marker key={point.id} position={[point.coords.lat, point.coords.lon]} icon={compareIcon(point.id)}>
               <Popup>
                 <div className="space-y-2">
-                  <div className="text-sm font-medium">Ciudad {point.id}</div>
+                  <div className="text-sm font-medium">{t.city(point.id)}</div>
                   <div className="text-xs">
                     {point.coords.lat.toFixed(6)}, {point.coords.lon.toFixed(6)}
                   </div>
@@ -207,7 +341,7 @@ export default function MapView(props: {
           <Marker position={[coords.lat, coords.lon]}>
             <Popup>
               <div className="space-y-2">
-                <div className="text-sm font-medium">Punto seleccionado</div>
+                <div className="text-sm font-medium">{t.pointSelected}</div>
                 <div className="text-xs">
                   {coords.lat.toFixed(6)}, {coords.lon.toFixed(6)}
                 </div>
@@ -227,11 +361,11 @@ export default function MapView(props: {
                   <Tooltip>
                   <TooltipTrigger asChild>
                     <Button size="sm" onClick={() => onAnalyze(coords)}>
-                      {analyzeLabel ?? "Analizar aqui"}
+                      {analyzeLabel ?? t.analyzeHere}
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent side="top" align="center" sideOffset={6}>
-                    {analyzeTooltip ?? "Genera informe"}
+                    {analyzeTooltip ?? t.generateReport}
                   </TooltipContent>
                 </Tooltip>
                   <Tooltip>
@@ -244,11 +378,11 @@ export default function MapView(props: {
                           void navigator.clipboard.writeText(`${coords.lat},${coords.lon}`).catch(() => {});
                         }}
                       >
-                        Copiar coords
+                        {t.copyCoords}
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent side="top" align="center" sideOffset={6}>
-                      Copia lat/lon
+                      {t.copyCoordsTooltip}
                     </TooltipContent>
                   </Tooltip>
                 </div>
@@ -258,11 +392,43 @@ export default function MapView(props: {
         ) : null}
       </MapContainer>
 
+      {drawingArea && (
+        <div className="absolute left-1/2 top-3 z-[800] -translate-x-1/2">
+          <div className="rounded-md bg-foreground text-background px-3 py-2 text-xs shadow-sm">
+            {t.drawingAreaHint(areaPoints?.length ?? 0)}
+          </div>
+        </div>
+      )}
+
+      {heatmapCells && heatmapCells.length > 0 && (
+        <div className="absolute bottom-6 left-3 z-[800]">
+          <div className="rounded-md bg-background/90 px-3 py-2 text-xs shadow-sm">
+            <div className="font-medium">{t.suitability}</div>
+            <div className="mt-1 h-2 w-32 rounded-full" style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(50)}, ${heatColor(100)})` }} />
+            <div className="flex w-32 justify-between text-muted-foreground">
+              <span>0</span>
+              <span>100</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {urbanLayers && (
+        <div className="absolute bottom-8 right-3 z-[800]">
+          <UrbanLayersToggle
+            data={urbanLayers}
+            visible={urbanVisible}
+            geometry={urbanGeometry}
+            onChange={(key, value) => setUrbanVisible((prev) => ({ ...prev, [key]: value }))}
+          />
+        </div>
+      )}
+
       {showFloodLayer && floodLoading && (
         <div className="absolute right-3 top-3 z-[800]">
           <div className="rounded-md bg-foreground text-background px-3 py-2 text-xs shadow-sm">
             <div className="flex items-center gap-2">
-              <span className="font-medium">Cargando inundacion</span>
+              <span className="font-medium">{t.loadingFlood}</span>
               <span className="h-1 w-16 overflow-hidden rounded-full bg-white/30">
                 <span className="block h-full w-1/2 rounded-full bg-white/80 animate-pulse" />
               </span>
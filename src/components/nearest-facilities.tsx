@@ -0,0 +1,58 @@
+"use client";
+
+import type { AccessResult } from "@/lib/tools/accesibilidad";
+import { useLocale } from "@/components/locale-context";
+
+// A partir de este rodeo (camino / linea recta) se resalta la fila: rio, vias, autovia...
+const DETOUR_WARNING = 2;
+
+// Equipamiento mas cercano de cada categoria por la red de calles (accesibilidad.nearest_facilities).
+export default function NearestFacilities({ access }: { access: AccessResult }) {
+  const { t } = useLocale();
+  if (!access.ok || !access.nearest_facilities) return null;
+
+  const meters = (m: number) => (m >= 1000 ? `${(Math.round(m / 100) / 10).toLocaleString()} km` : `${m} m`);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold">{t.nearestFacilities}</div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 font-normal" />
+            <th className="py-1 text-right font-normal">{t.facilityNetwork}</th>
+            <th className="py-1 text-right font-normal">{t.facilityCrow}</th>
+            <th className="py-1 text-right font-normal">{t.accessModes.walk}</th>
+            <th className="py-1 text-right font-normal">{t.facilityDrive}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {access.nearest_facilities.map((f) =>
+            f.found ? (
+              <tr
+                key={f.category}
+                className={`border-t ${f.detour_ratio !== null && f.detour_ratio >= DETOUR_WARNING ? "text-amber-700" : ""}`}
+                title={f.detour_ratio !== null ? t.facilityDetour(f.detour_ratio) : undefined}
+              >
+                <td className="py-1">
+                  <div>{t.facilityCategories[f.category] ?? f.category}</div>
+                  {f.name && <div className="text-[11px] text-muted-foreground">{f.name}</div>}
+                </td>
+                <td className="py-1 text-right">{f.walk ? meters(f.walk.distance_m) : "-"}</td>
+                <td className="py-1 text-right">{meters(f.crow_distance_m)}</td>
+                <td className="py-1 text-right">{f.walk ? t.accessMinutes(f.walk.minutes) : "-"}</td>
+                <td className="py-1 text-right">{f.drive ? t.accessMinutes(f.drive.minutes) : "-"}</td>
+              </tr>
+            ) : (
+              <tr key={f.category} className="border-t text-muted-foreground" title={f.reason}>
+                <td className="py-1">{t.facilityCategories[f.category] ?? f.category}</td>
+                <td className="py-1 text-right" colSpan={4}>{t.facilityNotFound(f.search_radius_m / 1000)}</td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+      <div className="text-[11px] text-muted-foreground">{t.nearestFacilitiesNote}</div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { toast } from "sonner";
+import type { ChatMessage, ChatResponse, ChatToolResult } from "@/lib/types";
+import { useLocale } from "@/components/locale-context";
+
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+type ChatEntry = ChatMessage & { tools?: string[]; unverified?: number };
+
+export default function ReportChat(props: {
+  kind: "analyze" | "compare" | "history";
+  // Respuesta completa de la ruta que genero el informe.
+  data: { report_markdown?: string } & Record<string, unknown>;
+}) {
+  const { kind, data } = props;
+  const { locale, t } = useLocale();
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [toolResults, setToolResults] = useState<ChatToolResult[]>([]);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+
+  async function send() {
+    const text = draft.trim();
+    if (!text || sending) return;
+    const history: ChatEntry[] = [...entries, { role: "user", content: text }];
+    setEntries(history);
+    setDraft("");
+    setSending(true);
+
+    try {
+      const res = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        cache: "no-store",
+        body: JSON.stringify({
+          kind,
+          context: data,
+          report_markdown: data.report_markdown ?? "",
+          messages: history.map(({ role, content }) => ({ role, content })),
+          // Solo los mas recientes: el contexto del modelo es limitado.
+          tool_results: toolResults.slice(-20),
+          locale,
+        }),
+      });
+      const json = (await res.json()) as ChatResponse;
+      if (!res.ok || json?.ok === false) {
+        throw new Error(json?.error ?? t.unknownError("/api/chat"));
+      }
+      const calls = json.tool_results ?? [];
+      setToolResults((prev) => [...prev, ...calls]);
+      setEntries((prev) => [
+        ...prev,
+        {
+          role: "assistant",
+          content: json.reply ?? "",
+          tools: calls.map((c) => c.name),
+          unverified: json.grounding?.unverified.length ?? 0,
+        },
+      ]);
+    } catch (e: any) {
+      const msg = e?.message ?? t.chatFailed;
+      toast.error(msg);
+      // Se quita la pregunta para que pueda reenviarse.
+      setEntries((prev) => prev.slice(0, -1));
+      setDraft(text);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <Card className="p-3 space-y-3">
+      <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.chatTitle}</div>
+
+      {entries.length === 0 && (
+        <div className="text-xs text-muted-foreground">{t.chatHint}</div>
+      )}
+
+      <div className="space-y-2">
+        {entries.map((entry, idx) => (
+          <div
+            key={idx}
+            className={entry.role === "user" ? "ml-8 rounded-md bg-muted p-2 text-xs" : "mr-4 rounded-md border p-2"}
+          >
+            {entry.role === "user" ? (
+              entry.content
+            ) : (
+              <>
+                {entry.tools && entry.tools.length > 0 && (
+                  <div className="mb-1 flex flex-wrap gap-1">
+                    {entry.tools.map((tool, i) => (
+                      <Badge key={`${tool}-${i}`} variant="secondary" className="text-[10px]">
+                        {t.toolLabels[tool] ?? tool}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="prose prose-sm max-w-none">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{entry.content || t.noReply}</ReactMarkdown>
+                </div>
+                {entry.unverified ? (
+                  <div className="mt-1 text-[11px] text-amber-700">
+                    {t.unverifiedClaims(entry.unverified)}
+                  </div>
+                ) : null}
+              </>
+            )}
+          </div>
+        ))}
+        {sending && <div className="text-xs text-muted-foreground">{t.thinking}</div>}
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+      >
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t.chatPlaceholder}
+          maxLength={4000}
+          disabled={sending}
+        />
+        <Button type="submit" size="sm" disabled={sending || !draft.trim()}>
+          {t.send}
+        </Button>
+      </form>
+    </Card>
+  );
+}
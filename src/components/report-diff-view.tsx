@@ -0,0 +1,121 @@
+"use client";
+
+import type { EventRef, PlaceDiff, PoiRef, ReportDiff } from "@/lib/report-diff";
+import { useLocale } from "@/components/locale-context";
+
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+
+function formatValue(value: number | string | null) {
+  if (value === null) return "-";
+  return typeof value === "number" ? value.toLocaleString() : value;
+}
+
+function ValueRow({ label, before, after }: { label: string; before: number | string | null; after: number | string | null }) {
+  const changed = before !== after;
+  return (
+    <tr className={`border-t align-top ${changed ? "bg-muted font-semibold" : ""}`}>
+      <td className="py-1 pr-2">{label}</td>
+      <td className="py-1 pr-2">{formatValue(before)}</td>
+      <td className="py-1">{formatValue(after)}</td>
+    </tr>
+  );
+}
+
+function PoiList({ title, pois }: { title: string; pois: PoiRef[] }) {
+  if (!pois.length) return null;
+  return (
+    <div className="space-y-1">
+      <div className="font-semibold">{title}</div>
+      <ul className="space-y-0.5">
+        {pois.map((poi) => (
+          <li key={poi.osm}>
+            {poi.name ?? poi.category} <span className="text-muted-foreground">({poi.category}{poi.distance_m !== null ? `, ${poi.distance_m} m` : ""})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function EventList({ title, events }: { title: string; events: EventRef[] }) {
+  if (!events.length) return null;
+  return (
+    <div className="space-y-1">
+      <div className="font-semibold">{title}</div>
+      <ul className="space-y-0.5">
+        {events.map((ev) => (
+          <li key={ev.id || ev.title}>
+            {ev.title} {ev.date && <span className="text-muted-foreground">({ev.date.slice(0, 10)})</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function PlaceDiffView({ place }: { place: PlaceDiff }) {
+  const { t } = useLocale();
+  return (
+    <div className="space-y-2 text-xs">
+      {place.label && <div className="font-semibold">{place.label}</div>}
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 pr-2">{t.indicator}</th>
+            <th className="py-1 pr-2">{t.diffBefore}</th>
+            <th className="py-1">{t.diffAfter}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {place.counts.map((row) => (
+            <ValueRow key={row.key} label={t.diffCounts[row.key] ?? row.key} before={row.before} after={row.after} />
+          ))}
+          <ValueRow label={t.diffPopulation} before={place.population.before} after={place.population.after} />
+          <ValueRow
+            label={t.diffFlood}
+            before={place.flood.before ?? t.diffNoFlood}
+            after={place.flood.after ?? t.diffNoFlood}
+          />
+          <ValueRow label={t.suitability} before={place.suitability.before} after={place.suitability.after} />
+        </tbody>
+      </table>
+      {place.pois && <PoiList title={t.diffPoisAdded(place.pois.added.length)} pois={place.pois.added} />}
+      {place.pois && <PoiList title={t.diffPoisRemoved(place.pois.removed.length)} pois={place.pois.removed} />}
+      {place.events && <EventList title={t.diffEventsAdded(place.events.added.length)} events={place.events.added} />}
+      {place.events && <EventList title={t.diffEventsRemoved(place.events.removed.length)} events={place.events.removed} />}
+    </div>
+  );
+}
+
+// Diferencias de una re-ejecucion: datos de las tools por lugar y, debajo, las
+// secciones del informe que cambian (antes a la izquierda, ahora a la derecha).
+export default function ReportDiffView({ diff }: { diff: ReportDiff }) {
+  const { t } = useLocale();
+  const changedSections = diff.sections.filter((section) => section.status !== "same");
+  const sameSections = diff.sections.length - changedSections.length;
+
+  return (
+    <div className="space-y-3">
+      {diff.places.map((place, index) => (
+        <PlaceDiffView key={`${place.label}-${index}`} place={place} />
+      ))}
+
+      <Separator />
+      <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.diffSections}</div>
+      {changedSections.map((section) => (
+        <div key={section.heading} className="space-y-1 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold">{section.heading || t.diffIntro}</span>
+            <Badge variant="secondary">{t.diffSectionStatus[section.status]}</Badge>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="rounded border p-2 whitespace-pre-wrap text-muted-foreground">{section.before ?? "-"}</div>
+            <div className="rounded border p-2 whitespace-pre-wrap">{section.after ?? "-"}</div>
+          </div>
+        </div>
+      ))}
+      {sameSections > 0 && <div className="text-xs text-muted-foreground">{t.diffSameSections(sameSections)}</div>}
+    </div>
+  );
+}
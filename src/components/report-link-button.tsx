@@ -0,0 +1,29 @@
+"use client";
+
+import { toast } from "sonner";
+import { useLocale } from "@/components/locale-context";
+import { Button } from "@/components/ui/button";
+
+// Copia el enlace permanente del informe guardado (/reports/[id]).
+export default function ReportLinkButton({ reportId }: { reportId: string }) {
+  const { t } = useLocale();
+  return (
+    <Button
+      variant="secondary"
+      size="sm"
+      onClick={() => {
+        const url = `${window.location.origin}/reports/${reportId}`;
+        if (!navigator?.clipboard?.writeText) {
+          toast.message(url);
+          return;
+        }
+        navigator.clipboard.writeText(url).then(
+          () => toast.success(t.reportLinkCopied, { description: url }),
+          () => toast.error(t.reportLinkFailed, { description: url })
+        );
+      }}
+    >
+      {t.copyReportLink}
+    </Button>
+  );
+}
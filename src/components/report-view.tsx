@@ -3,9 +3,15 @@
 import { useMemo, useRef } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { AnalyzeResponse } from "@/lib/types";
+import type { AnalyzeProgressStep, AnalyzeResponse } from "@/lib/types";
 
 import { openReportPdf, formatReportDate } from "@/lib/report-export";
+import { useLocale } from "@/components/locale-context";
+import ReportLinkButton from "@/components/report-link-button";
+import { ScoreBreakdown } from "@/components/score-breakdown";
+import LanduseChart from "@/components/landuse-chart";
+import AccessSummary from "@/components/access-summary";
+import NearestFacilities from "@/components/nearest-facilities";
 
 // shadcn/ui
 import { Card } from "@/components/ui/card";
@@ -15,10 +21,49 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 
-export default function ReportView({ data }: { data: AnalyzeResponse }) {
+function ProgressList({ steps, streaming }: { steps: AnalyzeProgressStep[]; streaming: boolean }) {
+  const { t } = useLocale();
+  return (
+    <ul className="space-y-1 text-xs">
+      {steps.map((step) => (
+        <li key={step.id} className="flex items-center justify-between gap-2">
+          <span className={step.status === "failed" ? "text-destructive" : undefined}>
+            {step.status === "running" ? "…" : step.status === "done" ? "✓" : "✗"} {t.toolLabels[step.name] ?? step.name}
+          </span>
+          <span className="text-muted-foreground">
+            {step.status === "running"
+              ? t.stepRunning
+              : step.status === "failed"
+                ? (step.error ?? t.stepFailed)
+                : typeof step.duration_ms === "number"
+                  ? `${(step.duration_ms / 1000).toFixed(1)} s`
+                  : null}
+          </span>
+        </li>
+      ))}
+      {streaming && steps.every((step) => step.status !== "running") && (
+        <li className="text-muted-foreground">{t.writingReport}</li>
+      )}
+    </ul>
+  );
+}
+
+export default function ReportView({
+  data,
+  progress,
+  streaming = false,
+  createdAt,
+}: {
+  data: AnalyzeResponse;
+  progress?: AnalyzeProgressStep[];
+  streaming?: boolean;
+  // Fecha del informe guardado; sin ella se usa la de ahora.
+  createdAt?: string;
+}) {
+  const { locale, t } = useLocale();
   const reportRef = useRef<HTMLDivElement | null>(null);
-  const reportDate = useMemo(() => new Date(), [data.report_markdown]);
-  const dateLabel = useMemo(() => formatReportDate(reportDate), [reportDate]);
+  const reportDate = useMemo(() => (createdAt ? new Date(createdAt) : new Date()), [createdAt, data.report_markdown]);
+  const dateLabel = useMemo(() => formatReportDate(reportDate, locale), [reportDate, locale]);
   const zoneLabel = useMemo(() => {
     const displayName = data.coords?.display_name?.trim();
     if (displayName) return displayName;
@@ -36,39 +81,68 @@ export default function ReportView({ data }: { data: AnalyzeResponse }) {
     if (typeof data.coords?.lat === "number" && typeof data.coords?.lon === "number") {
       return `${data.coords.lat.toFixed(6)}, ${data.coords.lon.toFixed(6)}`;
     }
-    return "Zona sin nombre";
-  }, [data.coords]);
+    return t.unnamedZone;
+  }, [data.coords, t]);
 
   return (
     <Card className="p-3">
       <div className="flex items-start justify-between gap-2">
         <div>
-          <div className="text-sm font-semibold">Informe</div>
+          <div className="text-sm font-semibold">{t.report}</div>
+          {streaming && <div className="text-xs text-muted-foreground">{t.generatingLive}</div>}
         </div>
       </div>
 
       <Separator className="my-3" />
 
+      {progress && progress.length > 0 && (streaming || progress.some((step) => step.status === "failed")) && (
+        <>
+          <ProgressList steps={progress} streaming={streaming} />
+          <Separator className="my-3" />
+        </>
+      )}
+
       <Tabs defaultValue="report">
-        <TabsList className="grid grid-cols-4">
-          <TabsTrigger value="report">Informe</TabsTrigger>
-          <TabsTrigger value="data">Datos</TabsTrigger>
-          <TabsTrigger value="sources">Fuentes</TabsTrigger>
-          <TabsTrigger value="limits">Limitaciones</TabsTrigger>
+        <TabsList className="grid grid-cols-5">
+          <TabsTrigger value="report">{t.tabReport}</TabsTrigger>
+          <TabsTrigger value="score">{t.tabScore}</TabsTrigger>
+          <TabsTrigger value="data">{t.tabData}</TabsTrigger>
+          <TabsTrigger value="sources">{t.tabSources}</TabsTrigger>
+          <TabsTrigger value="limits">{t.tabLimits}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="report" className="mt-3">
           <div ref={reportRef} className="prose prose-sm max-w-none">
             <ReactMarkdown remarkPlugins={[remarkGfm]}>
-              {data.report_markdown ?? "No hay informe."}
+              {data.report_markdown || (streaming ? t.waitingTools : t.noReport)}
             </ReactMarkdown>
           </div>
         </TabsContent>
 
+        <TabsContent value="score" className="mt-3">
+          <ScoreBreakdown score={data.suitability} />
+          {data.access && (
+            <>
+              <Separator className="my-3" />
+              <AccessSummary access={data.access} />
+            </>
+          )}
+        </TabsContent>
+
         <TabsContent value="data" className="mt-3">
+          {data.access?.ok && (
+            <div className="mb-3">
+              <NearestFacilities access={data.access} />
+            </div>
+          )}
+          {data.urban?.landuse_areas?.ok && (
+            <div className="mb-3">
+              <LanduseChart areas={data.urban.landuse_areas} />
+            </div>
+          )}
           <Accordion type="single" collapsible className="w-full">
             <AccordionItem value="urban">
-              <AccordionTrigger>capasUrbanismo (resumen)</AccordionTrigger>
+              <AccordionTrigger>{t.urbanSummary}</AccordionTrigger>
               <AccordionContent>
                 <pre className="text-xs whitespace-pre-wrap">
                   {JSON.stringify(data.urban, null, 2)}
@@ -77,7 +151,7 @@ export default function ReportView({ data }: { data: AnalyzeResponse }) {
             </AccordionItem>
 
             <AccordionItem value="flood">
-              <AccordionTrigger>riesgoInundacion (resumen)</AccordionTrigger>
+              <AccordionTrigger>{t.floodSummary}</AccordionTrigger>
               <AccordionContent>
                 <pre className="text-xs whitespace-pre-wrap">
                   {JSON.stringify(data.flood, null, 2)}
@@ -86,7 +160,7 @@ export default function ReportView({ data }: { data: AnalyzeResponse }) {
             </AccordionItem>
 
             <AccordionItem value="raw">
-              <AccordionTrigger>raw (debug)</AccordionTrigger>
+              <AccordionTrigger>{t.rawDebug}</AccordionTrigger>
               <AccordionContent>
                 <pre className="text-xs whitespace-pre-wrap">
                   {JSON.stringify(data.debug ?? null, null, 2)}
@@ -118,24 +192,27 @@ export default function ReportView({ data }: { data: AnalyzeResponse }) {
 
       <Separator className="my-3" />
       <div className="flex items-center justify-between gap-2">
-        <div className="text-xs text-muted-foreground">
-          Exporta el informe en PDF con formato presentable.
+        <div className="text-xs text-muted-foreground">{t.exportAnalysisHint}</div>
+        <div className="flex items-center gap-2">
+          {data.report_id && <ReportLinkButton reportId={data.report_id} />}
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={streaming}
+            onClick={() => {
+              openReportPdf({
+                title: t.analysisPdfTitle(dateLabel),
+                subtitle: zoneLabel,
+                dateLabel,
+                reportHtml: reportRef.current?.innerHTML ?? null,
+                reportMarkdown: data.report_markdown ?? null,
+                locale
+              });
+            }}
+          >
+            {t.downloadPdf}
+          </Button>
         </div>
-        <Button
-          variant="secondary"
-          size="sm"
-          onClick={() => {
-            openReportPdf({
-              title: `Informe de analisis - ${dateLabel}`,
-              subtitle: zoneLabel,
-              dateLabel,
-              reportHtml: reportRef.current?.innerHTML ?? null,
-              reportMarkdown: data.report_markdown ?? null
-            });
-          }}
-        >
-          Descargar PDF
-        </Button>
       </div>
     </Card>
   );
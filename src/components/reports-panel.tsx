@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { ReportKind, ReportSummary, StoredReport } from "@/lib/reports";
+import { diffReports, type ReportDiff } from "@/lib/report-diff";
+import { formatReportDate } from "@/lib/report-export";
+import { cancelJob, waitForJob, type JobView } from "@/lib/job-client";
+import { useLocale } from "@/components/locale-context";
+import ReportDiffView from "@/components/report-diff-view";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+
+type Filters = { kind: ReportKind | ""; q: string; from: string; to: string };
+
+// Espera tras la ultima tecla en la busqueda por lugar antes de pedir el listado.
+const SEARCH_DEBOUNCE_MS = 300;
+
+type Rerun = {
+  source: ReportSummary;
+  job: JobView | null;
+  diff: ReportDiff | null;
+  newId: string | null;
+  error: string | null;
+};
+
+async function getJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json();
+  if (!res.ok || json?.ok === false) throw new Error(json?.error ?? `Error ${res.status} en ${url}`);
+  return json;
+}
+
+// "Mis informes": listado de informes guardados con filtros y re-ejecucion con
+// las mismas entradas para ver que ha cambiado en los datos y en el informe.
+export default function ReportsPanel({ active }: { active: boolean }) {
+  const { locale, t } = useLocale();
+  const [filters, setFilters] = useState<Filters>({ kind: "", q: "", from: "", to: "" });
+  const [search, setSearch] = useState("");
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [rerun, setRerun] = useState<Rerun | null>(null);
+  const rerunAbort = useRef<AbortController | null>(null);
+
+  const running = rerun !== null && !rerun.diff && !rerun.error;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(filters.q), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.q]);
+
+  const { kind, from, to } = filters;
+  useEffect(() => {
+    if (!active) return;
+    const controller = new AbortController();
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries({ kind, q: search, from, to })) if (value) params.set(key, value);
+    setLoading(true);
+    getJson(`/api/reports?${params}`, { signal: controller.signal })
+      .then((json) => {
+        setReports(json.reports as ReportSummary[]);
+        setError(null);
+      })
+      .catch((e: Error) => {
+        if (!controller.signal.aborted) setError(e.message || t.reportsLoadFailed);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [active, kind, search, from, to, reloadKey, t]);
+
+  useEffect(() => () => rerunAbort.current?.abort(), []);
+
+  async function startRerun(source: ReportSummary) {
+    rerunAbort.current?.abort();
+    const controller = new AbortController();
+    rerunAbort.current = controller;
+    setRerun({ source, job: null, diff: null, newId: null, error: null });
+    const update = (patch: Partial<Rerun>) => {
+      if (!controller.signal.aborted) setRerun((prev) => (prev ? { ...prev, ...patch } : prev));
+    };
+
+    try {
+      const id = encodeURIComponent(source.id);
+      const [before, started] = await Promise.all([
+        getJson(`/api/reports?id=${id}`).then((json) => json.report as StoredReport),
+        getJson(`/api/reports?id=${id}&action=rerun`, { method: "POST" }).then((json) => json.job as JobView),
+      ]);
+      update({ job: started });
+      const final = await waitForJob(started.id, (job) => update({ job }), controller.signal);
+      if (final.status !== "done") throw new Error(final.error ?? t.rerunFailed);
+
+      const after = final.result as StoredReport["payload"];
+      update({ diff: diffReports(source.kind, before.payload, after), newId: after.report_id ?? null });
+      toast.success(t.rerunDone);
+      setReloadKey((key) => key + 1);
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      update({ error: e?.message ?? t.rerunFailed });
+      toast.error(t.rerunFailed);
+    }
+  }
+
+  async function cancelRerun(id: string) {
+    try {
+      await cancelJob(id);
+    } catch (e: any) {
+      toast.error(t.jobCancelFailed(e?.message ?? t.unknownError("/api/jobs")));
+    }
+  }
+
+  const setFilter = (key: keyof Filters) => (e: { target: { value: string } }) =>
+    setFilters((prev) => ({ ...prev, [key]: e.target.value }));
+
+  return (
+    <>
+      <Card className="p-3 space-y-3">
+        <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.reports}</div>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <label className="space-y-1">
+            <span className="text-muted-foreground">{t.reportsKind}</span>
+            <select
+              className="h-9 w-full rounded-md border bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+              value={filters.kind}
+              onChange={setFilter("kind")}
+            >
+              <option value="">{t.reportsKindAll}</option>
+              {(["analyze", "compare", "history"] as const).map((kind) => (
+                <option key={kind} value={kind}>
+                  {t.reportKinds[kind]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">{t.reportsPlace}</span>
+            <Input value={filters.q} onChange={setFilter("q")} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">{t.reportsFrom}</span>
+            <Input type="date" value={filters.from} onChange={setFilter("from")} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">{t.reportsTo}</span>
+            <Input type="date" value={filters.to} onChange={setFilter("to")} />
+          </label>
+        </div>
+      </Card>
+
+      {error && (
+        <Alert className="p-3">
+          <div className="text-sm">
+            <span className="font-semibold">{t.error}</span> {error}
+          </div>
+        </Alert>
+      )}
+
+      <Card className="p-3 space-y-2">
+        {!loading && !reports.length && <div className="text-xs text-muted-foreground">{t.reportsEmpty}</div>}
+        {reports.map((report) => (
+          <div key={report.id} className="space-y-1 border-b pb-2 text-xs last:border-b-0 last:pb-0">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">{t.reportKinds[report.kind] ?? report.kind}</Badge>
+              <span className="text-muted-foreground">{formatReportDate(new Date(report.created_at), locale)}</span>
+            </div>
+            <div className="font-semibold">{report.label}</div>
+            <div className="flex gap-2">
+              <Button asChild variant="secondary" size="sm">
+                <a href={`/reports/${report.id}`} target="_blank" rel="noreferrer">
+                  {t.reportsOpen}
+                </a>
+              </Button>
+              <Button variant="secondary" size="sm" disabled={running} onClick={() => void startRerun(report)}>
+                {t.reportsRerun}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </Card>
+
+      {rerun && (
+        <Card className="p-3 space-y-3">
+          <div className="text-sm font-semibold">
+            {t.rerunTitle(formatReportDate(new Date(rerun.source.created_at), locale))}
+          </div>
+          <div className="text-xs text-muted-foreground">{rerun.source.label}</div>
+
+          {running && (
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span>
+                {rerun.job?.status === "queued"
+                  ? t.jobQueued
+                  : rerun.job?.progress.total
+                    ? t.jobProgress(rerun.job.progress.done, rerun.job.progress.total)
+                    : t.jobRunning}
+              </span>
+              {rerun.job && (
+                <Button variant="secondary" size="sm" onClick={() => void cancelRerun(rerun.job!.id)}>
+                  {t.jobCancel}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {rerun.error && <div className="text-xs text-destructive">{rerun.error}</div>}
+
+          {rerun.diff && <ReportDiffView diff={rerun.diff} />}
+
+          {rerun.newId && (
+            <Button asChild variant="secondary" size="sm">
+              <a href={`/reports/${rerun.newId}`} target="_blank" rel="noreferrer">
+                {t.rerunOpenNew}
+              </a>
+            </Button>
+          )}
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import Link from "next/link";
+import type { StoredReport } from "@/lib/reports";
+import type { AnalyzeResponse, CompareResponse, HistoryResponse } from "@/lib/types";
+import { formatReportDate } from "@/lib/report-export";
+import { UI_MESSAGES } from "@/lib/ui-messages";
+import { LocaleProvider } from "@/components/locale-context";
+import ReportView from "@/components/report-view";
+import CompareView from "@/components/compare-view";
+import HistoryView from "@/components/history-view";
+
+import { Button } from "@/components/ui/button";
+
+// Vista de solo lectura de un informe guardado, en el idioma con el que se genero.
+export default function SavedReport({ report }: { report: StoredReport }) {
+  const t = UI_MESSAGES[report.locale];
+  const model = [report.llm.provider, report.llm.model].filter(Boolean).join(" / ");
+
+  return (
+    <LocaleProvider value={report.locale}>
+      <div className="mx-auto max-w-4xl space-y-3 p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t.savedReport}</div>
+            <div className="text-lg font-semibold">{report.label}</div>
+            <div className="text-xs text-muted-foreground">
+              {t.savedReportMeta(formatReportDate(new Date(report.created_at), report.locale), model)}
+            </div>
+          </div>
+          <Button asChild variant="secondary" size="sm">
+            <Link href="/">{t.savedReportOpenApp}</Link>
+          </Button>
+        </div>
+
+        {report.kind === "analyze" && (
+          <ReportView data={report.payload as AnalyzeResponse} createdAt={report.created_at} />
+        )}
+        {report.kind === "compare" && (
+          <CompareView data={report.payload as CompareResponse} createdAt={report.created_at} />
+        )}
+        {report.kind === "history" && (
+          <HistoryView data={report.payload as HistoryResponse} createdAt={report.created_at} />
+        )}
+      </div>
+    </LocaleProvider>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  MAX_SCORE_WEIGHT,
+  SCORE_KEYS,
+  SCORING_PRESETS,
+  reweightSuitability,
+  type ScoreKey,
+  type ScoreWeights,
+  type SuitabilityScore,
+} from "@/lib/scoring";
+import { REPORT_TEMPLATE_IDS, REPORT_TEMPLATES, type ReportTemplateId } from "@/lib/report-templates";
+import { useLocale } from "@/components/locale-context";
+
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+function scoreColor(score: number | null) {
+  if (score === null) return "bg-muted";
+  if (score >= 70) return "bg-emerald-500";
+  if (score >= 40) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+export function ScoreBar({ score }: { score: number | null }) {
+  return (
+    <div className="h-2 w-full rounded-full bg-muted">
+      <div className={`h-2 rounded-full ${scoreColor(score)}`} style={{ width: `${score ?? 0}%` }} />
+    </div>
+  );
+}
+
+// Preset y pesos editables; el estado vive en el padre para poder compartirlo entre ciudades.
+function WeightControls({
+  preset,
+  weights,
+  onPreset,
+  onWeight,
+}: {
+  preset: ReportTemplateId | null;
+  weights: ScoreWeights;
+  onPreset: (preset: ReportTemplateId) => void;
+  onWeight: (key: ScoreKey, value: number) => void;
+}) {
+  const { locale, t } = useLocale();
+  return (
+    <div className="space-y-2">
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">{t.weightsPreset}</div>
+        <select
+          className="h-9 w-full rounded-md border bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+          value={preset ?? ""}
+          onChange={(e) => onPreset(e.target.value as ReportTemplateId)}
+        >
+          {preset === null && <option value="">-</option>}
+          {REPORT_TEMPLATE_IDS.map((id) => (
+            <option key={id} value={id}>
+              {REPORT_TEMPLATES[id].label[locale]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-5 gap-1">
+        {SCORE_KEYS.map((key) => (
+          <label key={key} className="text-[11px] text-muted-foreground">
+            <span className="block truncate">{t.scoreLabels[key] ?? key}</span>
+            <Input
+              type="number"
+              min={0}
+              max={MAX_SCORE_WEIGHT}
+              step={1}
+              value={weights[key]}
+              aria-label={`${t.weight}: ${t.scoreLabels[key] ?? key}`}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value)) onWeight(key, Math.min(MAX_SCORE_WEIGHT, Math.max(0, value)));
+              }}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Estado de pesos comun a las dos vistas: preset elegido o pesos editados a mano (preset null).
+function useWeights(initial: SuitabilityScore | null | undefined) {
+  const [preset, setPreset] = useState<ReportTemplateId | null>(initial?.preset ?? "general");
+  const [weights, setWeights] = useState<ScoreWeights>(initial?.weights ?? SCORING_PRESETS.general);
+  // Un resultado nuevo (otro analisis) vuelve a sus pesos de servidor.
+  const [source, setSource] = useState(initial);
+  if (initial !== source) {
+    setSource(initial);
+    setPreset(initial?.preset ?? "general");
+    setWeights(initial?.weights ?? SCORING_PRESETS.general);
+  }
+  return {
+    preset,
+    weights,
+    onPreset: (next: ReportTemplateId) => {
+      setPreset(next);
+      setWeights(SCORING_PRESETS[next]);
+    },
+    onWeight: (key: ScoreKey, value: number) => {
+      setPreset(null);
+      setWeights((prev) => ({ ...prev, [key]: value }));
+    },
+  };
+}
+
+export function ScoreBreakdown({ score }: { score: SuitabilityScore | null | undefined }) {
+  const { t } = useLocale();
+  const controls = useWeights(score);
+  const current = useMemo(() => (score ? reweightSuitability(score, controls.weights) : null), [score, controls.weights]);
+
+  if (!current) return <div className="text-xs text-muted-foreground">{t.noScore}</div>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <div className="text-sm font-semibold">{t.suitability}</div>
+        <div className="text-2xl font-semibold">{current.total ?? "-"}<span className="text-xs text-muted-foreground">/100</span></div>
+      </div>
+
+      <ul className="space-y-2">
+        {current.sub_scores.map((sub) => (
+          <li key={sub.key} className="space-y-1" title={sub.detail}>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span>{t.scoreLabels[sub.key] ?? sub.key}</span>
+              <span className={sub.score === null ? "text-muted-foreground" : "font-semibold"}>
+                {sub.score ?? t.noScoreData}
+                <span className="ml-2 font-normal text-muted-foreground">{t.weight} {sub.weight}</span>
+              </span>
+            </div>
+            <ScoreBar score={sub.score} />
+          </li>
+        ))}
+      </ul>
+
+      <WeightControls {...controls} />
+      <div className="text-[11px] text-muted-foreground">{t.suitabilityNote}</div>
+    </div>
+  );
+}
+
+// Comparacion: mismos pesos para todas las ciudades, una fila de barras por ciudad.
+export function ScoreComparison({ cities }: { cities: { label: string; suitability?: SuitabilityScore | null }[] }) {
+  const { t } = useLocale();
+  const scored = useMemo(() => cities.filter((city) => city.suitability), [cities]);
+  const controls = useWeights(scored[0]?.suitability);
+  const rows = useMemo(
+    () =>
+      scored
+        .map((city) => ({ label: city.label, score: reweightSuitability(city.suitability!, controls.weights) }))
+        .sort((a, b) => (b.score.total ?? -1) - (a.score.total ?? -1)),
+    [scored, controls.weights]
+  );
+
+  if (!rows.length) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-semibold">{t.suitability}</div>
+      <ul className="space-y-3">
+        {rows.map(({ label, score }) => (
+          <li key={label} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <Badge variant="secondary">{label}</Badge>
+              <span className="font-semibold">{score.total ?? "-"}</span>
+            </div>
+            <ScoreBar score={score.total} />
+            <div className="grid grid-cols-5 gap-1">
+              {score.sub_scores.map((sub) => (
+                <div key={sub.key} className="text-[10px] text-muted-foreground" title={sub.detail}>
+                  <div className="truncate">{t.scoreLabels[sub.key] ?? sub.key}</div>
+                  <div className={`h-1 rounded-full ${scoreColor(sub.score)}`} style={{ width: `${sub.score ?? 100}%` }} />
+                  <div>{sub.score ?? t.noScoreData}</div>
+                </div>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <WeightControls {...controls} />
+      <div className="text-[11px] text-muted-foreground">{t.suitabilityNote}</div>
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { divIcon } from "leaflet";
+import { Circle, CircleMarker, GeoJSON, Marker, Polygon, Polyline, Popup, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import { useLocale } from "@/components/locale-context";
+import { landuseColor, landuseKeyOf } from "@/lib/landuse-areas";
+import type { OsmFeature, OsmFeatureCollection } from "@/lib/osm-geojson";
+import type { AccessMode } from "@/lib/tools/accesibilidad";
+
+// Capas del analisis sobre el mapa: radio de busqueda de capasUrbanismo y sus
+// equipamientos (`nearest`) agrupados por categoria, con clustering por rejilla
+// de pixeles cuando se solapan. La geometria OSM completa (vias y usos del suelo)
+// se pide aparte a /api/urban solo cuando se activa su capa. Las isocronas a pie y
+// en bici y las rutas al equipamiento mas cercano vienen ya calculadas en el analisis
+// (tool accesibilidad).
+
+export const POI_CATEGORIES = ["health", "education", "transport", "emergency", "fuel"] as const;
+export type PoiCategory = (typeof POI_CATEGORIES)[number];
+
+export type UrbanLayerKey = "radius" | "geometry" | "routes" | AccessMode | PoiCategory;
+
+export type UrbanPoi = {
+  lat: number;
+  lon: number;
+  distance_m?: number | null;
+  type?: string;
+  tags?: Record<string, string>;
+};
+
+export type IsochroneBand = { minutes: number; polygon: { type: "Polygon"; coordinates: number[][][] } | null };
+
+type RouteLine = { type: "LineString"; coordinates: number[][] } | null;
+
+export type FacilityRoute = {
+  category: string;
+  name: string | null;
+  lat: number;
+  lon: number;
+  walk: { minutes: number } | null;
+  drive: { minutes: number } | null;
+  route: { walk: RouteLine; drive: RouteLine } | null;
+};
+
+export type UrbanLayersData = {
+  center: { lat: number; lon: number };
+  // null cuando el analisis fue sobre un area dibujada (ya se pinta el poligono).
+  radius_m: number | null;
+  pois: UrbanPoi[];
+  area?: { type: "Polygon"; coordinates: number[][][] } | null;
+  isochrones?: Partial<Record<AccessMode, IsochroneBand[]>> | null;
+  routes?: FacilityRoute[] | null;
+};
+
+export type UrbanGeometryState = {
+  geojson: OsmFeatureCollection | null;
+  loading: boolean;
+  error: string | null;
+  truncated: boolean;
+};
+
+const CATEGORY_STYLE: Record<PoiCategory, { color: string; glyph: string }> = {
+  health: { color: "#dc2626", glyph: "✚" },
+  education: { color: "#7c3aed", glyph: "🎓" },
+  transport: { color: "#2563eb", glyph: "🚌" },
+  emergency: { color: "#0f172a", glyph: "🚓" },
+  fuel: { color: "#d97706", glyph: "⛽" },
+};
+
+// Del anillo de 5 min (mas oscuro) al de 15 min.
+const ISOCHRONE_COLORS: Record<AccessMode, string[]> = {
+  walk: ["#15803d", "#22c55e", "#86efac"],
+  bike: ["#1d4ed8", "#3b82f6", "#93c5fd"],
+};
+
+const ROUTE_STYLE = {
+  walk: { color: "#16a34a", weight: 3, opacity: 0.85 },
+  drive: { color: "#dc2626", weight: 3, opacity: 0.85, dashArray: "8 6" },
+};
+
+// Celda de la rejilla de clustering en pixeles de pantalla.
+const CLUSTER_PX = 44;
+const MAX_POPUP_TAGS = 12;
+
+export function poiCategory(tags: Record<string, string> = {}): PoiCategory | null {
+  const amenity = tags.amenity;
+  if (amenity === "hospital" || amenity === "clinic" || amenity === "doctors" || amenity === "pharmacy") return "health";
+  if (amenity === "school" || amenity === "university" || amenity === "college" || amenity === "kindergarten") return "education";
+  if (amenity === "police" || amenity === "fire_station") return "emergency";
+  if (amenity === "fuel") return "fuel";
+  if (tags.public_transport || tags.railway === "station" || tags.highway === "bus_stop") return "transport";
+  return null;
+}
+
+function categoryIcon(category: PoiCategory) {
+  const { color, glyph } = CATEGORY_STYLE[category];
+  return divIcon({
+    className: "",
+    html: `<div style="display:flex;align-items:center;justify-content:center;width:24px;height:24px;border-radius:9999px;background:${color};color:#fff;font:600 12px/1 sans-serif;border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.4)">${glyph}</div>`,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+    popupAnchor: [0, -12],
+  });
+}
+
+function clusterIcon(count: number, color: string) {
+  const size = count < 10 ? 30 : 36;
+  return divIcon({
+    className: "",
+    html: `<div style="display:flex;align-items:center;justify-content:center;width:${size}px;height:${size}px;border-radius:9999px;background:${color};color:#fff;font:700 12px/1 sans-serif;border:3px solid rgba(255,255,255,.85);box-shadow:0 1px 6px rgba(0,0,0,.45)">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+type CategorizedPoi = UrbanPoi & { category: PoiCategory };
+
+function geometryStyle(feature?: { properties?: OsmFeature["properties"] }) {
+  const tags = feature?.properties?.tags ?? {};
+  const landuse = landuseKeyOf(tags);
+  if (landuse) {
+    const color = landuseColor(`${landuse.tag}=${landuse.value}`);
+    return { color, weight: 1, fillColor: color, fillOpacity: 0.25 };
+  }
+  const major = ["motorway", "trunk", "primary", "secondary"].includes(tags.highway ?? "");
+  return { color: major ? "#ea580c" : "#475569", weight: major ? 3 : 1.5, fillOpacity: 0 };
+}
+
+const EMPTY_GEOMETRY: UrbanGeometryState = { geojson: null, loading: false, error: null, truncated: false };
+
+// Pide la geometria OSM de la zona analizada mientras la capa este activa (en
+// servidor queda en la cache de Overpass, asi que reactivarla es barato).
+export function useUrbanGeometry(data: UrbanLayersData | null | undefined, enabled: boolean): UrbanGeometryState {
+  // Resultado junto con la peticion a la que responde: si no coincide, esta cargando.
+  const [result, setResult] = useState<{ body: string; state: UrbanGeometryState } | null>(null);
+  const body = useMemo(
+    () =>
+      data ? JSON.stringify({ ...data.center, radius_m: data.radius_m, area: data.area ?? null, geometry: true }) : null,
+    [data]
+  );
+
+  useEffect(() => {
+    if (!enabled || !body) return;
+    const controller = new AbortController();
+    fetch("/api/urban", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      signal: controller.signal,
+    })
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok || json?.ok === false) throw new Error(json?.error ?? `Error ${res.status} en /api/urban`);
+        const truncated = Boolean(json.data.truncated);
+        setResult({ body, state: { geojson: json.data.geojson, loading: false, error: null, truncated } });
+      })
+      .catch((e: Error) => {
+        if (!controller.signal.aborted) setResult({ body, state: { ...EMPTY_GEOMETRY, error: e.message } });
+      });
+    return () => controller.abort();
+  }, [enabled, body]);
+
+  if (!enabled || !body) return EMPTY_GEOMETRY;
+  return result?.body === body ? result.state : { ...EMPTY_GEOMETRY, loading: true };
+}
+
+export function UrbanLayers({
+  data,
+  visible,
+  geometry,
+}: {
+  data: UrbanLayersData;
+  visible: Record<UrbanLayerKey, boolean>;
+  geometry?: OsmFeatureCollection | null;
+}) {
+  const { t } = useLocale();
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const pois = useMemo(
+    () =>
+      data.pois
+        .map((poi) => ({ ...poi, category: poiCategory(poi.tags) }))
+        .filter((poi): poi is CategorizedPoi => poi.category !== null && visible[poi.category]),
+    [data.pois, visible]
+  );
+
+  // Agrupa por celda de pantalla al zoom actual; en el zoom maximo no se agrupa.
+  const groups = useMemo(() => {
+    if (zoom >= map.getMaxZoom()) return pois.map((poi) => [poi]);
+    const cells = new Map<string, CategorizedPoi[]>();
+    for (const poi of pois) {
+      const p = map.project([poi.lat, poi.lon], zoom);
+      const key = `${Math.floor(p.x / CLUSTER_PX)}:${Math.floor(p.y / CLUSTER_PX)}`;
+      cells.set(key, [...(cells.get(key) ?? []), poi]);
+    }
+    return [...cells.values()];
+  }, [pois, zoom, map]);
+
+  return (
+    <>
+      {(["bike", "walk"] as const).map((mode) =>
+        visible[mode]
+          ? [...(data.isochrones?.[mode] ?? [])]
+              .reverse()
+              .map((band, i, bands) =>
+                band.polygon ? (
+                  // Se pintan de mayor a menor para que las pequenas queden encima.
+                  <Polygon
+                    key={`iso-${mode}-${band.minutes}`}
+                    positions={band.polygon.coordinates[0].map(([lon, lat]) => [lat, lon] as [number, number])}
+                    pathOptions={{
+                      color: ISOCHRONE_COLORS[mode][bands.length - 1 - i] ?? ISOCHRONE_COLORS[mode][2],
+                      weight: 1.5,
+                      fillOpacity: 0.15,
+                    }}
+                  >
+                    <Popup>{t.isochroneBand(t.accessModes[mode], band.minutes)}</Popup>
+                  </Polygon>
+                ) : null
+              )
+          : null
+      )}
+
+      {visible.routes &&
+        data.routes?.map((facility) => {
+          const label = t.facilityCategories[facility.category] ?? facility.category;
+          return (
+            <Fragment key={`route-${facility.category}`}>
+              {(["drive", "walk"] as const).map((mode) => {
+                const line = facility.route?.[mode];
+                const leg = facility[mode];
+                if (!line || !leg) return null;
+                return (
+                  <Polyline
+                    key={mode}
+                    positions={line.coordinates.map(([lon, lat]) => [lat, lon] as [number, number])}
+                    pathOptions={ROUTE_STYLE[mode]}
+                  >
+                    <Tooltip sticky>
+                      {t.routeTooltip(label, mode === "walk" ? t.accessModes.walk : t.facilityDrive, leg.minutes)}
+                    </Tooltip>
+                  </Polyline>
+                );
+              })}
+              <CircleMarker
+                center={[facility.lat, facility.lon]}
+                radius={5}
+                pathOptions={{ color: "#fff", weight: 2, fillColor: "#0f172a", fillOpacity: 1 }}
+              >
+                <Tooltip>{facility.name ? `${label}: ${facility.name}` : label}</Tooltip>
+              </CircleMarker>
+            </Fragment>
+          );
+        })}
+
+      {visible.geometry && geometry && (
+        // Los nodos ya se pintan como equipamientos: aqui solo lineas y poligonos.
+        <GeoJSON
+          key={`${geometry.features.length}-${geometry.features[0]?.id}`}
+          data={geometry}
+          style={geometryStyle}
+          filter={(feature) => feature.geometry.type !== "Point"}
+          onEachFeature={(feature, layer) => {
+            const tags = (feature.properties as OsmFeature["properties"]).tags;
+            const label = tags.name ?? tags.highway ?? tags.landuse ?? tags.leisure ?? tags.natural;
+            if (label) layer.bindTooltip(label, { sticky: true });
+          }}
+        />
+      )}
+
+      {visible.radius && data.radius_m !== null && (
+        <Circle
+          center={[data.center.lat, data.center.lon]}
+          radius={data.radius_m}
+          pathOptions={{ color: "#0f766e", weight: 2, dashArray: "6 6", fillOpacity: 0.05 }}
+          interactive={false}
+        />
+      )}
+
+      {groups.map((group) => {
+        if (group.length > 1) {
+          const lat = group.reduce((sum, poi) => sum + poi.lat, 0) / group.length;
+          const lon = group.reduce((sum, poi) => sum + poi.lon, 0) / group.length;
+          const categories = new Set(group.map((poi) => poi.category));
+          const color = categories.size === 1 ? CATEGORY_STYLE[group[0].category].color : "#334155";
+          return (
+            <Marker
+              key={`cluster-${lat}-${lon}`}
+              position={[lat, lon]}
+              icon={clusterIcon(group.length, color)}
+              title={t.poiCluster(group.length)}
+              eventHandlers={{
+                click: () => map.fitBounds(group.map((poi) => [poi.lat, poi.lon] as [number, number]), { padding: [40, 40] }),
+              }}
+            />
+          );
+        }
+
+        const poi = group[0];
+        const tags = Object.entries(poi.tags ?? {});
+        return (
+          <Marker key={`poi-${poi.lat}-${poi.lon}-${poi.category}`} position={[poi.lat, poi.lon]} icon={categoryIcon(poi.category)}>
+            <Popup>
+              <div className="space-y-1 text-xs">
+                <div className="text-sm font-medium">{poi.tags?.name ?? t.poiCategories[poi.category]}</div>
+                <div className="text-muted-foreground">{t.poiCategories[poi.category]}</div>
+                {typeof poi.distance_m === "number" && <div>{t.poiDistance(poi.distance_m)}</div>}
+                <ul className="space-y-0.5 break-all">
+                  {tags.slice(0, MAX_POPUP_TAGS).map(([key, value]) => (
+                    <li key={key}>
+                      <span className="text-muted-foreground">{key}</span> = {value}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
+
+// Casillas para mostrar u ocultar cada capa; solo las categorias con algun equipamiento.
+export function UrbanLayersToggle({
+  data,
+  visible,
+  geometry,
+  onChange,
+}: {
+  data: UrbanLayersData;
+  visible: Record<UrbanLayerKey, boolean>;
+  geometry: UrbanGeometryState;
+  onChange: (key: UrbanLayerKey, value: boolean) => void;
+}) {
+  const { t } = useLocale();
+  const counts = useMemo(() => {
+    const out: Partial<Record<PoiCategory, number>> = {};
+    for (const poi of data.pois) {
+      const category = poiCategory(poi.tags);
+      if (category) out[category] = (out[category] ?? 0) + 1;
+    }
+    return out;
+  }, [data.pois]);
+
+  return (
+    <div className="rounded-md bg-background/90 px-3 py-2 text-xs shadow-sm space-y-1">
+      <div className="font-medium">{t.urbanLayers}</div>
+      {data.radius_m !== null && (
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={visible.radius} onChange={(e) => onChange("radius", e.target.checked)} />
+          {t.layerRadius(data.radius_m)}
+        </label>
+      )}
+      {POI_CATEGORIES.filter((category) => counts[category]).map((category) => (
+        <label key={category} className="flex items-center gap-2">
+          <input type="checkbox" checked={visible[category]} onChange={(e) => onChange(category, e.target.checked)} />
+          <span
+            className="inline-block h-2.5 w-2.5 rounded-full"
+            style={{ background: CATEGORY_STYLE[category].color }}
+          />
+          {t.poiCategories[category]} ({counts[category]})
+        </label>
+      ))}
+      {(["walk", "bike"] as const)
+        .filter((mode) => data.isochrones?.[mode]?.some((band) => band.polygon))
+        .map((mode) => (
+          <label key={mode} className="flex items-center gap-2">
+            <input type="checkbox" checked={visible[mode]} onChange={(e) => onChange(mode, e.target.checked)} />
+            <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ background: ISOCHRONE_COLORS[mode][1] }} />
+            {t.layerIsochrones(t.accessModes[mode])}
+          </label>
+        ))}
+      {data.routes?.some((facility) => facility.route) && (
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={visible.routes} onChange={(e) => onChange("routes", e.target.checked)} />
+          <span className="inline-block h-0.5 w-3" style={{ background: ROUTE_STYLE.drive.color }} />
+          {t.layerRoutes}
+        </label>
+      )}
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={visible.geometry} onChange={(e) => onChange("geometry", e.target.checked)} />
+        {t.layerGeometry}
+      </label>
+      {visible.geometry && (
+        <div className="pl-5 text-muted-foreground">
+          {geometry.loading
+            ? t.layerGeometryLoading
+            : geometry.error
+              ? <span className="text-destructive">{geometry.error}</span>
+              : geometry.geojson && t.layerGeometryCount(geometry.geojson.features.length)}
+          {geometry.truncated && <div className="text-amber-700">{t.layerGeometryTruncated}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,714 @@
+import { z } from "zod";
+import { llm, type LlmMessageParam } from "@/lib/llm";
+import { saveReport } from "@/lib/reports";
+import type {
+  AirQualityResult,
+  AnalyzeResponse,
+  AnalyzeStreamEvent,
+  CityStatsResult,
+  FloodResult,
+  ReverseResult,
+  RunDebug,
+  ToolFailure,
+  UrbanResult,
+} from "@/lib/types";
+
+import { cachedTools } from "@/lib/tools/cached";
+import { accessForModel, type AccessResult } from "@/lib/tools/accesibilidad";
+import { urbanForModel } from "@/lib/tools/capasUrbanismo";
+import { ANALYZE_TOOL_NAMES, toolDefinitions } from "@/lib/tools/definitions";
+import { describeStaleCache, type CacheMeta } from "@/lib/cache";
+import { AreaGeoJsonSchema, areaToGeoJson, summarizeArea, toAreaOfInterest, type AreaOfInterest } from "@/lib/area";
+import { ReportFormatSchema, writeStructuredReport, type AnalyzeReport } from "@/lib/structured-report";
+import { describeUnverified, groundReport } from "@/lib/grounding";
+import {
+  REPORT_TEMPLATE_IDS,
+  getReportTemplate,
+  hasTemplateHeadings,
+  templateHeadings,
+  templatePromptBlock,
+  type ReportTemplate,
+} from "@/lib/report-templates";
+import { DEFAULT_LOCALE, FIXED_HEADINGS, LocaleSchema, languageRule, type Locale } from "@/lib/i18n";
+import { ScoringOptionsSchema, computeSuitability, type SuitabilityScore } from "@/lib/scoring";
+
+export const AnalyzeBodySchema = z.object({
+  address: z.string().nullable().optional(),
+  lat: z.number().nullable().optional(),
+  lon: z.number().nullable().optional(),
+  radius_m: z.number().int().min(200).max(5000).nullable().optional(),
+  // Area de interes dibujada en el mapa (GeoJSON Polygon o Feature); sustituye a lat/lon + radio.
+  area: AreaGeoJsonSchema.nullable().optional(),
+  // Pregunta libre del usuario; si viene, el modelo decide que tools llamar (modo agentico).
+  question: z.string().trim().max(500).nullable().optional(),
+  // "structured" devuelve ademas `report` (JSON tipado) y renderiza el Markdown desde el.
+  report_format: ReportFormatSchema.optional(),
+  // Plantilla de caso de uso (encabezados, enfoque y criterios); "general" por defecto.
+  template: z.enum(REPORT_TEMPLATE_IDS).nullable().optional(),
+  // Idioma del informe, de los nombres de Nominatim y de las etiquetas de Wikidata.
+  locale: LocaleSchema.optional(),
+  // Pesos de la puntuacion de idoneidad; sin preset se usa el de la plantilla.
+  scoring: ScoringOptionsSchema.nullable().optional(),
+});
+
+const SOURCES = [
+  { name: "Nominatim (OSM)", url: "https://nominatim.org/release-docs/latest/develop/overview/" },
+  { name: "Overpass API (OSM)", url: "https://wiki.openstreetmap.org/wiki/Overpass_API" },
+  { name: "IGN API Features", url: "https://api-features.ign.es/" },
+  { name: "Wikidata SPARQL", url: "https://query.wikidata.org/" },
+  { name: "Wikidata EntityData", url: "https://www.wikidata.org/wiki/Special:EntityData/" },
+  { name: "Copernicus EFAS WMS", url: "https://european-flood.emergency.copernicus.eu/api/wms/" },
+  { name: "Open-Meteo Air Quality", url: "https://open-meteo.com/en/docs/air-quality-api" },
+];
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function clampNumber(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function pickPlaceName(address: Record<string, string> | null | undefined, displayName?: string | null) {
+  if (address) {
+    const name =
+      address.city ||
+      address.town ||
+      address.village ||
+      address.municipality ||
+      address.county ||
+      address.state ||
+      address.region;
+    if (name) return name;
+  }
+  if (displayName) {
+    return displayName.split(",")[0]?.trim() ?? null;
+  }
+  return null;
+}
+
+type Orchestration = "deterministic" | "agentic";
+
+type Coords = NonNullable<AnalyzeResponse["coords"]>;
+
+// Campos comunes de las salidas de tools que deciden el estado de tool_end.
+type ToolStatus = { ok?: boolean; found?: boolean; error?: string | null; reason?: string | null };
+
+function systemPrompt(area: AreaOfInterest | null, orchestration: Orchestration, template: ReportTemplate, locale: Locale) {
+  const areaRules = area
+    ? `
+- El analisis es sobre un AREA dibujada (poligono), no alrededor de un punto: describe el area, su superficie (ha/km2) y su perimetro usando los datos de area.
+- capasUrbanismo y riesgoInundacion ya se calculan sobre el poligono completo; las distancias se miden desde su centroide.`
+    : "";
+
+  return `
+Eres un analista GIS.
+REGLAS DURAS:
+- Debes usar SOLO los datos devueltos por las tools.
+- No inventes fuentes ni datos.
+- Si una tool falla o no hay cobertura: dilo en "${FIXED_HEADINGS[locale].limitations}".
+${languageRule(locale)}
+${
+  orchestration === "agentic"
+    ? `- Si el usuario ya manda lat/lon: NO llames buscarCoordenadas.
+- Siempre llama reverseGeocode, capasUrbanismo, riesgoInundacion, cityStats, airQuality y accesibilidad antes de redactar el informe final.
+- Si el usuario hace una pregunta, respondela dentro de las secciones del informe; puedes repetir tools con otros parametros si lo necesitas.`
+    : `- Las salidas de las tools ya se han ejecutado y se incluyen en el mensaje del usuario; no hay mas datos disponibles.`
+}
+- Si urbanismo falla o hay pocos datos, usa reverseGeocode para describir la calle/zona mas cercana.
+- Para "${template.sections[locale].uses}" apoyate en urban.landuse_areas (porcentaje de la superficie por uso del suelo); counts.landuse y landuse_breakdown solo cuentan elementos, no superficie.
+- Cita la nota de ciudad de 15 minutos (access.fifteen_minute.score, 0-100) y los minutos a pie/en bici por categoria de access.fifteen_minute.categories; son tiempos por la red de calles, no distancias en linea recta.
+- Para la distancia a hospital, farmacia, colegio, bomberos, policia o estacion usa access.nearest_facilities (distancia por la red y minutos a pie/en coche), no distance_m de urban.nearest (linea recta); si detour_ratio es alto (p. ej. un rio o una autovia obligan a rodear), dilo. search_radius_m es el radio en el que se busco cada uno: si found es false, di que no hay ninguno a menos de ese radio, no que no exista.
+- La puntuacion de idoneidad (suitability, 0-100) se calcula en servidor con estas tools; si se te da, citala en "${FIXED_HEADINGS[locale].recommendation}" sin recalcularla.
+- Si hay datos de poblacion/superficie (cityStats), incluyelos en "${template.sections[locale].zone}" e indica la fuente (usa stats.source_url si esta disponible).${areaRules}
+
+${templatePromptBlock(template, locale)}
+
+Devuelve el informe en Markdown con estas secciones exactas:
+${templateHeadings(template, locale).map((h) => `## ${h}`).join("\n")}
+
+Bibliografia permitida (usa solo estas):
+${SOURCES.map((s) => `- ${s.name}: ${s.url}`).join("\n")}
+`.trim();
+}
+
+export type AnalyzeBody = z.infer<typeof AnalyzeBodySchema>;
+export type AnalyzeResult = { status: number; payload: AnalyzeResponse };
+
+type AnalyzeOptions = {
+  onEvent?: (event: AnalyzeStreamEvent) => void;
+};
+
+export async function runAnalyze(body: AnalyzeBody, options: AnalyzeOptions = {}): Promise<AnalyzeResult> {
+  const emit = options.onEvent ?? (() => {});
+
+  try {
+    let area: AreaOfInterest | null = null;
+    if (body.area) {
+      try {
+        area = toAreaOfInterest(body.area);
+      } catch (e: any) {
+        return { status: 400, payload: { ok: false, error: e?.message ?? "Area invalida" } };
+      }
+      body = { ...body, lat: area.centroid.lat, lon: area.centroid.lon };
+    }
+
+    const radius = body.radius_m ?? 1200;
+    const template = getReportTemplate(body.template);
+    const locale = body.locale ?? DEFAULT_LOCALE;
+
+    const hasCoords = typeof body.lat === "number" && typeof body.lon === "number";
+    const hasAddress = typeof body.address === "string" && body.address.trim().length > 0;
+    const geocodeRequired = hasAddress && !hasCoords;
+
+    if (!hasCoords && !hasAddress) {
+      return { status: 400, payload: { ok: false, error: "Debes enviar address o lat/lon" } };
+    }
+
+    const question = body.question?.trim() || null;
+    const orchestration: Orchestration = question ? "agentic" : "deterministic";
+
+    let coords: Coords | null = hasCoords ? { lat: body.lat!, lon: body.lon!, display_name: null } : null;
+    let urban: UrbanResult | null = null;
+    let flood: FloodResult | null = null;
+    let reverse: ReverseResult | null = null;
+    let stats: CityStatsResult | null = null;
+    let air: AirQualityResult | null = null;
+    let access: AccessResult | null = null;
+    let geocodeFailed = false;
+    let geocodeUsed = !geocodeRequired;
+    let reverseUsed = false;
+
+    const messages: LlmMessageParam[] = [];
+    const limitations: string[] = [];
+    const debug: RunDebug & { llm_calls: number; tool_calls: { name: string; args: Record<string, unknown> }[] } = {
+      orchestration,
+      llm_calls: 0,
+      tool_calls: [],
+      cache: [],
+    };
+    const toolStarts = new Map<string, { name: string; startedAt: number }>();
+
+    const startTool = (id: string, name: string, args: Record<string, unknown>) => {
+      toolStarts.set(id, { name, startedAt: Date.now() });
+      emit({ type: "tool_start", id, name, args });
+    };
+
+    const endTool = (id: string, result: unknown) => {
+      const started = toolStarts.get(id);
+      if (!started) return;
+      toolStarts.delete(id);
+      const out = result as ToolStatus | null;
+      const ok = out?.ok !== false && out?.found !== false;
+      emit({
+        type: "tool_end",
+        id,
+        name: started.name,
+        ok,
+        duration_ms: Date.now() - started.startedAt,
+        error: ok ? null : (out?.error ?? out?.reason ?? null),
+      });
+    };
+
+    const noteCache = (tool: string, meta: CacheMeta) => {
+      debug.cache.push({ tool, ...meta });
+      const stale = describeStaleCache(tool, meta);
+      if (stale) limitations.push(stale);
+    };
+
+    const pushToolResult = (id: string, out: unknown) => {
+      messages.push({ role: "tool", tool_call_id: id, content: JSON.stringify(out) });
+      endTool(id, out);
+    };
+
+    const geocodeFailure = (): AnalyzeResult => ({
+      status: 422,
+      payload: { ok: false, error: "No se pudo geocodificar la direccion. Verifica el texto ingresado." },
+    });
+
+    // Ejecuta una tool y actualiza el estado compartido; lo usan los dos modos de orquestacion.
+    const executeTool = async (name: string, args: Record<string, unknown>) => {
+      debug.tool_calls.push({ name, args });
+
+      if (name === "buscarCoordenadas") {
+        if (hasCoords) {
+          limitations.push("Se omitio buscarCoordenadas porque el usuario ya dio coordenadas.");
+          return { ok: false, error: "coords ya presentes; buscarCoordenadas omitida" };
+        }
+
+        geocodeUsed = true;
+        const direccion =
+          typeof args.direccion === "string" && args.direccion.trim()
+            ? args.direccion
+            : typeof args.address === "string" && args.address.trim()
+              ? args.address
+              : typeof body.address === "string"
+                ? body.address
+                : "";
+
+        if (!direccion) {
+          geocodeFailed = true;
+          limitations.push("Geocoding: no se recibio direccion valida.");
+          return { ok: false, error: "Falta direccion para buscarCoordenadas" };
+        }
+
+        const { value: out, cache } = await cachedTools.buscarCoordenadas(direccion, "es", 1, locale);
+        noteCache("buscarCoordenadas", cache);
+        if (out?.found === false) limitations.push("Geocoding: no hubo resultados en Nominatim.");
+        if (out?.found === false) geocodeFailed = true;
+
+        if (out?.found && typeof out.lat === "number" && typeof out.lon === "number") {
+          coords = {
+            lat: out.lat,
+            lon: out.lon,
+            display_name: out.display_name ?? null,
+            address: out.address ?? null
+          };
+        } else if (out?.found) {
+          geocodeFailed = true;
+          limitations.push("Geocoding: respuesta sin lat/lon validos.");
+        }
+        return out;
+      }
+
+      if (name === "capasUrbanismo") {
+        const latArg = toNumber(args.lat) ?? coords?.lat ?? (hasCoords ? body.lat! : null);
+        const lonArg = toNumber(args.lon) ?? coords?.lon ?? (hasCoords ? body.lon! : null);
+        const radiusArg = toNumber(args.radius_m) ?? radius;
+
+        if (latArg === null || lonArg === null) {
+          limitations.push("capasUrbanismo: lat/lon invalidos.");
+          urban = { ok: false, error: "lat/lon invalidos para capasUrbanismo" };
+          return urban;
+        }
+
+        const safeRadius = clampNumber(radiusArg, 200, 5000);
+        const { value: out, cache } = area
+          ? await cachedTools.capasUrbanismo(area.centroid.lat, area.centroid.lon, null, area)
+          : await cachedTools.capasUrbanismo(latArg, lonArg, safeRadius);
+        noteCache("capasUrbanismo", cache);
+        // La superficie por uso del suelo solo la usa el analisis (compare, lotes y chat no la piden).
+        const areas = area
+          ? await cachedTools.landuseAreas(area.centroid.lat, area.centroid.lon, null, area)
+          : await cachedTools.landuseAreas(latArg, lonArg, safeRadius);
+        noteCache("landuseAreas", areas.cache);
+        urban = { ...out, landuse_areas: areas.value };
+        if (!coords) coords = { lat: latArg, lon: lonArg, display_name: null };
+
+        if (out?.ign_admin?.ok === false && out?.admin_source === "ign") {
+          limitations.push("IGN: no se pudo obtener unidad administrativa (best-effort).");
+        }
+        return urbanForModel(urban);
+      }
+
+      if (name === "riesgoInundacion") {
+        const latArg = toNumber(args.lat) ?? coords?.lat ?? (hasCoords ? body.lat! : null);
+        const lonArg = toNumber(args.lon) ?? coords?.lon ?? (hasCoords ? body.lon! : null);
+
+        if (latArg === null || lonArg === null) {
+          limitations.push("riesgoInundacion: lat/lon invalidos.");
+          flood = { ok: false, error: "lat/lon invalidos para riesgoInundacion" };
+          return flood;
+        }
+
+        const { value: out, cache } = area
+          ? await cachedTools.riesgoInundacionArea(area)
+          : await cachedTools.riesgoInundacion(latArg, lonArg);
+        noteCache("riesgoInundacion", cache);
+        flood = out;
+        if (!coords) coords = { lat: latArg, lon: lonArg, display_name: null };
+
+        if (out?.fallback_used) {
+          limitations.push("Copernicus EFAS: resultado degradado/fallback (ver detalle).");
+        }
+        return out;
+      }
+
+      if (name === "reverseGeocode") {
+        reverseUsed = true;
+        const latArg = toNumber(args.lat) ?? coords?.lat ?? (hasCoords ? body.lat! : null);
+        const lonArg = toNumber(args.lon) ?? coords?.lon ?? (hasCoords ? body.lon! : null);
+        const zoomArg = toNumber(args.zoom);
+
+        if (latArg === null || lonArg === null) {
+          limitations.push("reverseGeocode: lat/lon invalidos.");
+          reverse = { ok: false, error: "lat/lon invalidos para reverseGeocode" };
+          return reverse;
+        }
+
+        const { value: out, cache } = await cachedTools.reverseGeocode(latArg, lonArg, zoomArg ?? 18, locale);
+        noteCache("reverseGeocode", cache);
+        reverse = out;
+        if (!coords) coords = { lat: latArg, lon: lonArg, display_name: null };
+        if (out?.ok) {
+          coords.display_name = out.display_name ?? coords.display_name ?? null;
+          coords.address = out.address ?? coords.address ?? null;
+        } else {
+          limitations.push("reverseGeocode: no se pudo obtener direccion cercana.");
+        }
+        return out;
+      }
+
+      if (name === "cityStats") {
+        const latArg = toNumber(args.lat) ?? coords?.lat ?? (hasCoords ? body.lat! : null);
+        const lonArg = toNumber(args.lon) ?? coords?.lon ?? (hasCoords ? body.lon! : null);
+
+        if (latArg === null || lonArg === null) {
+          limitations.push("cityStats: lat/lon invalidos.");
+          stats = { ok: false, error: "lat/lon invalidos para cityStats" };
+          return stats;
+        }
+
+        const reverseOk = reverse?.ok ? reverse : null;
+        const address = reverseOk?.address ?? coords?.address ?? null;
+        const displayName = reverseOk?.display_name ?? coords?.display_name ?? null;
+        const nameHintArg = typeof args.name_hint === "string" && args.name_hint.trim() ? args.name_hint : null;
+        const nameHint =
+          nameHintArg ?? pickPlaceName(address, displayName) ?? (typeof body.address === "string" ? body.address : null);
+        const countryCodeArg = typeof args.country_code === "string" ? args.country_code : null;
+        const countryCode = countryCodeArg ?? address?.country_code ?? null;
+        const wikidataIdArg = typeof args.wikidata_id === "string" ? args.wikidata_id : null;
+        const wikidataId = wikidataIdArg ?? reverseOk?.extratags?.wikidata ?? null;
+
+        const { value: out, cache } = await cachedTools.cityStats(latArg, lonArg, { nameHint, countryCode, wikidataId, language: locale });
+        noteCache("cityStats", cache);
+        stats = out;
+        if (!coords) coords = { lat: latArg, lon: lonArg, display_name: displayName ?? null };
+
+        if (!out?.ok) {
+          limitations.push("Poblacion/superficie: no se pudieron obtener datos.");
+        } else {
+          if (out?.city?.population == null) limitations.push("Poblacion: no disponible en fuentes.");
+          if (out?.city?.area_km2 == null) limitations.push("Superficie: no disponible en fuentes.");
+          if (out?.city?.area_estimated) limitations.push("Superficie: valor estimado por unidad no explicita.");
+        }
+        return out;
+      }
+
+      if (name === "airQuality") {
+        const latArg = toNumber(args.lat) ?? coords?.lat ?? (hasCoords ? body.lat! : null);
+        const lonArg = toNumber(args.lon) ?? coords?.lon ?? (hasCoords ? body.lon! : null);
+
+        if (latArg === null || lonArg === null) {
+          limitations.push("airQuality: lat/lon invalidos.");
+          air = { ok: false, error: "lat/lon invalidos para airQuality" };
+          return air;
+        }
+
+        const { value: out, cache } = await cachedTools.airQuality(latArg, lonArg);
+        noteCache("airQuality", cache);
+        air = out;
+        if (!coords) coords = { lat: latArg, lon: lonArg, display_name: null };
+        if (!out?.ok) limitations.push("Calidad del aire: no se pudieron obtener datos.");
+        return out;
+      }
+
+      if (name === "accesibilidad") {
+        const latArg = toNumber(args.lat) ?? coords?.lat ?? (hasCoords ? body.lat! : null);
+        const lonArg = toNumber(args.lon) ?? coords?.lon ?? (hasCoords ? body.lon! : null);
+
+        if (latArg === null || lonArg === null) {
+          limitations.push("accesibilidad: lat/lon invalidos.");
+          access = { ok: false, error: "lat/lon invalidos para accesibilidad" };
+          return access;
+        }
+
+        const { value: out, cache } = await cachedTools.accesibilidad(latArg, lonArg);
+        noteCache("accesibilidad", cache);
+        access = out;
+        if (!coords) coords = { lat: latArg, lon: lonArg, display_name: null };
+        if (!out?.ok) limitations.push("Isocronas: no se pudo calcular la accesibilidad por la red de calles.");
+        else if (out.services_truncated) limitations.push("Isocronas: la consulta de equipamientos llego al limite; puede haber mas.");
+        // Los poligonos de las isocronas solo van al mapa.
+        return accessForModel(out);
+      }
+
+      limitations.push(`Tool desconocida solicitada por el modelo: ${name}`);
+      return { ok: false, error: `Tool desconocida: ${name}` };
+    };
+
+    const safeExecuteTool = async (name: string, args: Record<string, unknown>) => {
+      try {
+        return await executeTool(name, args);
+      } catch (e: any) {
+        const out: ToolFailure = { ok: false, error: e?.message ?? "Error ejecutando tool" };
+        if (name === "capasUrbanismo") urban = out;
+        if (name === "riesgoInundacion") flood = out;
+        if (name === "reverseGeocode") reverse = out;
+        if (name === "cityStats") stats = out;
+        if (name === "airQuality") air = out;
+        if (name === "accesibilidad") access = out;
+        if (name === "buscarCoordenadas") geocodeFailed = true;
+        limitations.push(`${name} fallo: ${out.error}`);
+        return out;
+      }
+    };
+
+    // Tools declaradas en el historial (modo agentico); hacen falta para volver a llamar al modelo.
+    const tools: ReturnType<typeof toolDefinitions> | undefined =
+      orchestration === "agentic" ? toolDefinitions(ANALYZE_TOOL_NAMES) : undefined;
+
+    // Se calcula una vez con las tools ya ejecutadas (antes de redactar en modo determinista).
+    let suitability: SuitabilityScore | null = null;
+    const scoreSite = () => {
+      const score = computeSuitability({ urban, flood, air, stats }, body.scoring, template.id);
+      if (score.missing.length) {
+        limitations.push(`Puntuacion de idoneidad sin datos para: ${score.missing.join(", ")}.`);
+      }
+      return score;
+    };
+
+    const finalize = async (draft: string, draftReport: AnalyzeReport | null = null): Promise<AnalyzeResult> => {
+      let report = draftReport;
+      suitability ??= scoreSite();
+      const evidence = {
+        coords,
+        area: area ? summarizeArea(area) : null,
+        reverse,
+        urban,
+        flood,
+        stats,
+        air,
+        access: accessForModel(access),
+        suitability,
+      };
+      const { markdown: report_markdown, grounding } = await groundReport(
+        { markdown: draft, evidence, sources: SOURCES, allowed: [radius] },
+        async (feedback) => {
+          if (report) {
+            const written = await writeStructuredReport(
+              "analyze",
+              [...messages, { role: "user", content: feedback }],
+              { tools, sections: template.sections[locale], locale }
+            );
+            debug.llm_calls += written.llm_calls;
+            if (!written.ok) return null;
+            report = written.report;
+            emit({ type: "report_reset" });
+            emit({ type: "report_delta", text: written.markdown });
+            return written.markdown;
+          }
+
+          const last = messages[messages.length - 1];
+          if (!(last?.role === "assistant" && last.content === draft)) messages.push({ role: "assistant", content: draft });
+          messages.push({ role: "user", content: feedback });
+          emit({ type: "report_reset" });
+          debug.llm_calls++;
+          const msg = await llm.stream(
+            { messages, ...(tools ? { tools, tool_choice: "none" as const } : {}), temperature: 0.2 },
+            (text) => emit({ type: "report_delta", text })
+          );
+          return hasTemplateHeadings(msg.content ?? "", template, locale) ? msg.content : null;
+        }
+      );
+      if (grounding?.unverified.length) limitations.push(...describeUnverified(grounding.unverified));
+
+      const payload: AnalyzeResponse = {
+        ok: true,
+        coords: coords ?? undefined,
+        area: area ? { ...summarizeArea(area), geojson: areaToGeoJson(area) } : null,
+        urban,
+        flood,
+        stats,
+        air,
+        access,
+        suitability,
+        template: template.id,
+        report_markdown,
+        report,
+        grounding,
+        sources: SOURCES,
+        limitations: limitations.length ? limitations : ["Sin incidencias destacables reportadas por las tools."],
+        debug: { ...debug, reverse, llm: { provider: llm.name, model: llm.model } },
+      };
+      payload.report_id = await saveReport("analyze", body, payload);
+      return { status: 200, payload };
+    };
+
+    // Devuelve null si el JSON no valida; el llamador sigue con el informe en Markdown.
+    const writeStructured = async (writeTools?: ReturnType<typeof toolDefinitions>) => {
+      const written = await writeStructuredReport("analyze", messages, { tools: writeTools, sections: template.sections[locale], locale });
+      debug.llm_calls += written.llm_calls;
+      if (!written.ok) {
+        limitations.push(`Informe estructurado no valido (${written.error}); se entrega solo en Markdown.`);
+        return null;
+      }
+      emit({ type: "report_reset" });
+      emit({ type: "report_delta", text: written.markdown });
+      return finalize(written.markdown, written.report);
+    };
+
+    messages.push({ role: "system", content: systemPrompt(area, orchestration, template, locale) });
+
+    if (orchestration === "deterministic") {
+      let seq = 0;
+      const runServerTool = async (name: string, args: Record<string, unknown>) => {
+        const id = `server_${++seq}`;
+        startTool(id, name, args);
+        const out = await safeExecuteTool(name, args);
+        endTool(id, out);
+        return out;
+      };
+
+      if (geocodeRequired) await runServerTool("buscarCoordenadas", { direccion: body.address });
+      if (!coords) return geocodeFailure();
+      await runServerTool("reverseGeocode", { lat: coords.lat, lon: coords.lon, zoom: 18 });
+      await Promise.all([
+        runServerTool("capasUrbanismo", { lat: coords.lat, lon: coords.lon, radius_m: radius }),
+        runServerTool("riesgoInundacion", { lat: coords.lat, lon: coords.lon }),
+        runServerTool("cityStats", { lat: coords.lat, lon: coords.lon }),
+        runServerTool("airQuality", { lat: coords.lat, lon: coords.lon }),
+        runServerTool("accesibilidad", { lat: coords.lat, lon: coords.lon }),
+      ]);
+      suitability = scoreSite();
+
+      const toolData = {
+        coords,
+        area: area ? summarizeArea(area) : null,
+        reverse,
+        urban: urbanForModel(urban),
+        flood,
+        stats,
+        air,
+        access: accessForModel(access),
+        suitability,
+      };
+      messages.push({
+        role: "user",
+        content: `${
+          area
+            ? "Analiza el area dibujada por el usuario."
+            : hasAddress && !hasCoords
+              ? `Analiza la direccion "${body.address}".`
+              : "Analiza el punto seleccionado por el usuario."
+        }\nSalidas de las tools:\n${JSON.stringify(toolData)}`,
+      });
+
+      if (body.report_format === "structured") {
+        const structured = await writeStructured();
+        if (structured) return structured;
+      }
+
+      // Una sola llamada de redaccion; solo se repite si el formato no cumple.
+      let report_markdown = "";
+      for (let attempt = 0; attempt < 2; attempt++) {
+        if (attempt > 0) emit({ type: "report_reset" });
+        debug.llm_calls++;
+        const msg = await llm.stream({ messages, temperature: 0.2 }, (text) => emit({ type: "report_delta", text }));
+        report_markdown = msg.content ?? "";
+        if (hasTemplateHeadings(report_markdown, template, locale)) break;
+        messages.push(msg, {
+          role: "user",
+          content:
+            "El informe no cumple el formato. Devuelve SOLO el informe en Markdown con estas secciones exactas: " +
+            templateHeadings(template, locale).map((h) => `## ${h}`).join(", "),
+        });
+      }
+      return finalize(report_markdown);
+    }
+
+    const questionHint = question ? ` Pregunta del usuario: "${question}".` : "";
+    messages.push({
+      role: "user",
+      content: (area
+        ? `El usuario dibujo un area en el mapa: ${JSON.stringify(summarizeArea(area))}. Usa lat=${body.lat}, lon=${body.lon} (centroide). Ejecuta reverseGeocode, capasUrbanismo, riesgoInundacion, cityStats, airQuality y accesibilidad.`
+        : hasCoords
+        ? `El usuario selecciono un punto en el mapa: lat=${body.lat}, lon=${body.lon}. Ejecuta reverseGeocode, capasUrbanismo, riesgoInundacion, cityStats, airQuality y accesibilidad.`
+        : `El usuario escribio una direccion: "${body.address}". Primero usa buscarCoordenadas; luego usa reverseGeocode, capasUrbanismo, riesgoInundacion, cityStats, airQuality y accesibilidad.`) + questionHint,
+    });
+
+    for (let step = 0; step < 6; step++) {
+      debug.llm_calls++;
+      const msg = await llm.stream(
+        {
+          messages,
+          tools,
+          tool_choice: "auto",
+          temperature: 0.2,
+        },
+        (text) => emit({ type: "report_delta", text })
+      );
+
+      messages.push(msg);
+
+      const toolCalls = msg.tool_calls ?? [];
+
+      if (!toolCalls.length) {
+        const report_markdown = msg.content ?? "";
+        if (geocodeRequired && !coords && geocodeFailed) return geocodeFailure();
+
+        const missingTools = [
+          geocodeRequired && !geocodeUsed ? "buscarCoordenadas" : null,
+          coords && !reverseUsed ? "reverseGeocode" : null,
+          urban ? null : "capasUrbanismo",
+          flood ? null : "riesgoInundacion",
+          coords ? (stats ? null : "cityStats") : null,
+          coords ? (air ? null : "airQuality") : null,
+          coords ? (access ? null : "accesibilidad") : null,
+        ].filter(Boolean) as string[];
+
+        if (missingTools.length) {
+          if (report_markdown) emit({ type: "report_reset" });
+          const coordHint = coords ?? (hasCoords ? { lat: body.lat, lon: body.lon } : null);
+          messages.push({
+            role: "user",
+            content: `Aun faltan tools obligatorias (${missingTools.join(
+              ", "
+            )}). No redactes el informe final hasta llamarlas. ${coordHint ? `Usa lat=${coordHint.lat}, lon=${coordHint.lon}.` : ""}`.trim(),
+          });
+          continue;
+        }
+
+        if (body.report_format === "structured") {
+          const structured = await writeStructured(tools);
+          if (structured) return structured;
+        }
+
+        if (!hasTemplateHeadings(report_markdown, template, locale)) {
+          emit({ type: "report_reset" });
+          messages.push({
+            role: "user",
+            content:
+              "El informe no cumple el formato. Devuelve SOLO el informe en Markdown con estas secciones exactas: " +
+              templateHeadings(template, locale).map((h) => `## ${h}`).join(", "),
+          });
+          continue;
+        }
+
+        return finalize(report_markdown);
+      }
+
+      for (const call of toolCalls) {
+        if (call.type !== "function") continue;
+
+        const name = call.function.name;
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(call.function.arguments || "{}");
+        } catch {
+          startTool(call.id, name, {});
+          limitations.push(`Args invalidos para ${name}`);
+          pushToolResult(call.id, { ok: false, error: "Argumentos JSON invalidos para tool" });
+          continue;
+        }
+
+        startTool(call.id, name, args);
+        pushToolResult(call.id, await safeExecuteTool(name, args));
+      }
+
+      if (geocodeRequired && !coords && geocodeFailed) return geocodeFailure();
+    }
+
+    return {
+      status: 500,
+      payload: { ok: false, error: "El modelo no finalizo el informe (demasiados pasos)", debug },
+    };
+  } catch (e: any) {
+    return { status: 500, payload: { ok: false, error: e?.message ?? "Error en analyze" } };
+  }
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import {
+  type LatLon,
+  openRing,
+  pointInPolygon,
+  polygonAreaM2,
+  polygonBbox,
+  polygonCentroid,
+  polygonPerimeterM,
+} from "@/lib/geo";
+
+const PositionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+
+const PolygonSchema = z.object({
+  type: z.literal("Polygon"),
+  // Solo se usa el anillo exterior; los huecos se ignoran.
+  coordinates: z.array(z.array(PositionSchema).min(4).max(500)).min(1),
+});
+
+// Acepta una geometria Polygon de GeoJSON o un Feature que la contenga.
+export const AreaGeoJsonSchema = z.union([
+  PolygonSchema,
+  z.object({ type: z.literal("Feature"), geometry: PolygonSchema, properties: z.unknown().optional() }),
+]);
+
+export type AreaGeoJson = z.infer<typeof AreaGeoJsonSchema>;
+
+export type AreaOfInterest = {
+  ring: LatLon[];
+  centroid: LatLon;
+  bbox: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+  area_m2: number;
+  perimeter_m: number;
+  vertices: number;
+};
+
+// Por encima de esto Overpass tarda demasiado y el informe deja de ser "de zona".
+export const MAX_AREA_M2 = 25_000_000;
+
+export function toAreaOfInterest(input: AreaGeoJson): AreaOfInterest {
+  const polygon = input.type === "Feature" ? input.geometry : input;
+  const ring = openRing(polygon.coordinates[0].map(([lon, lat]) => ({ lat, lon })));
+  if (ring.length < 3) throw new Error("El poligono necesita al menos 3 vertices distintos");
+
+  const area_m2 = polygonAreaM2(ring);
+  if (area_m2 > MAX_AREA_M2) {
+    throw new Error(`El area dibujada es demasiado grande (${(area_m2 / 1_000_000).toFixed(1)} km2, maximo ${MAX_AREA_M2 / 1_000_000} km2)`);
+  }
+
+  return {
+    ring,
+    centroid: polygonCentroid(ring),
+    bbox: polygonBbox(ring),
+    area_m2,
+    perimeter_m: polygonPerimeterM(ring),
+    vertices: ring.length,
+  };
+}
+
+export function areaToGeoJson(area: AreaOfInterest) {
+  const coords = area.ring.map((p) => [p.lon, p.lat]);
+  return { type: "Polygon" as const, coordinates: [[...coords, coords[0]]] };
+}
+
+// Filtro `poly:"lat lon lat lon ..."` de Overpass.
+export function overpassPolyFilter(area: AreaOfInterest) {
+  return `poly:"${area.ring.map((p) => `${p.lat.toFixed(6)} ${p.lon.toFixed(6)}`).join(" ")}"`;
+}
+
+export function summarizeArea(area: AreaOfInterest) {
+  return {
+    area_m2: Math.round(area.area_m2),
+    area_ha: Math.round(area.area_m2 / 100) / 100,
+    perimeter_m: Math.round(area.perimeter_m),
+    vertices: area.vertices,
+    centroid: area.centroid,
+    bbox: area.bbox,
+  };
+}
+
+// Puntos representativos dentro del area: centroide y vertices acercados al centroide.
+export function sampleAreaPoints(area: AreaOfInterest, max = 5) {
+  const points: LatLon[] = [];
+  if (pointInPolygon(area.centroid, area.ring)) points.push(area.centroid);
+
+  const step = Math.max(1, Math.floor(area.ring.length / (max - 1)));
+  for (let i = 0; i < area.ring.length && points.length < max; i += step) {
+    const v = area.ring[i];
+    const p = {
+      lat: area.centroid.lat + (v.lat - area.centroid.lat) * 0.6,
+      lon: area.centroid.lon + (v.lon - area.centroid.lon) * 0.6,
+    };
+    if (pointInPolygon(p, area.ring)) points.push(p);
+  }
+
+  return points.length ? points : [area.centroid];
+}
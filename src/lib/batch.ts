@@ -0,0 +1,395 @@
+import { z } from "zod";
+import { llm } from "@/lib/llm";
+import { cachedTools } from "@/lib/tools/cached";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { computeSuitability } from "@/lib/scoring";
+import { DEFAULT_LOCALE, LocaleSchema, languageRule, type Locale } from "@/lib/i18n";
+import type { JobContext } from "@/lib/jobs";
+
+// Analisis por lotes: cada fila (direccion o lat/lon) pasa por geocodificacion y
+// las tools de /api/analyze sin redactar informe; opcionalmente un resumen corto
+// del LLM. Se ejecuta como trabajo en segundo plano (lib/jobs, tipo "batch").
+
+export const BATCH_MAX_ROWS = 500;
+// Filas en paralelo; Nominatim ademas va serializado a 1 req/s por su scheduler.
+const BATCH_CONCURRENCY = 2;
+const BATCH_RADIUS_M = 1200;
+
+export const BatchBodySchema = z.object({
+  format: z.enum(["csv", "geojson"]),
+  // Contenido del fichero subido (texto).
+  content: z.string().min(1).max(2_000_000),
+  // Resumen de 1-2 frases por fila redactado por el LLM.
+  summary: z.boolean().optional(),
+  locale: LocaleSchema.optional(),
+  // Pais (ISO 3166-1 alfa-2) para geocodificar las filas sin columna de pais; sin el,
+  // Nominatim busca en todo el mundo.
+  country: z.string().regex(/^[a-z]{2}$/i).nullish(),
+});
+
+export type BatchBody = z.infer<typeof BatchBodySchema>;
+
+export type BatchInput = {
+  // Fila del fichero (1 = primera fila de datos) o indice de la feature.
+  row: number;
+  id: string | null;
+  address: string | null;
+  // Codigo ISO de 2 letras en minusculas, de la columna de pais.
+  country: string | null;
+  lat: number | null;
+  lon: number | null;
+  error: string | null;
+};
+
+export type FloodStatus = "sin_senal" | "posible_exposicion" | "sin_datos";
+
+export type BatchResult = {
+  row: number;
+  id: string | null;
+  input: string;
+  ok: boolean;
+  error: string | null;
+  lat: number | null;
+  lon: number | null;
+  display_name: string | null;
+  municipality: string | null;
+  hospitals: number | null;
+  pharmacies: number | null;
+  schools: number | null;
+  transport: number | null;
+  flood_status: FloodStatus;
+  population: number | null;
+  area_km2: number | null;
+  european_aqi: number | null;
+  pm2_5: number | null;
+  suitability: number | null;
+  summary: string | null;
+};
+
+// Resultado del trabajo (tambien parcial mientras avanza): filas terminadas en orden de entrada.
+export type BatchPayload = {
+  ok: boolean;
+  error?: string;
+  total: number;
+  done: number;
+  summary: boolean;
+  llm_calls: number;
+  results: BatchResult[];
+};
+
+type BatchRun = { summary: boolean; locale: Locale; country: string | null; llm_calls: number };
+
+// Feature GeoJSON de entrada, sin validar (solo los campos que se leen).
+type GeoJsonFeature = {
+  geometry?: { type?: string; coordinates?: unknown[] } | null;
+  properties?: Record<string, unknown> | null;
+};
+
+const ADDRESS_COLUMNS = ["address", "direccion", "dirección", "adresse", "adreça", "addr"];
+const LAT_COLUMNS = ["lat", "latitude", "latitud", "y"];
+const LON_COLUMNS = ["lon", "lng", "long", "longitude", "longitud", "x"];
+const ID_COLUMNS = ["id", "name", "nombre", "nom", "ref"];
+const COUNTRY_COLUMNS = ["country", "country_code", "pais", "país", "pays"];
+
+// Filas que hay que geocodificar: sin coordenadas validas, con direccion.
+const GeocodeRowSchema = z.object({
+  address: z.string().min(1),
+  country: z.string().regex(/^[a-z]{2}$/).nullable(),
+});
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    // Admite coma decimal ("39,47") de hojas de calculo en espanol.
+    const n = Number(value.trim().replace(",", "."));
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function validCoords(lat: number | null, lon: number | null) {
+  return lat !== null && lon !== null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+function checkRow(row: Omit<BatchInput, "error">): BatchInput {
+  const input = { ...row, country: row.country?.toLowerCase() ?? null };
+  if (input.country && !/^[a-z]{2}$/.test(input.country)) {
+    return { ...input, error: "Pais no valido: usa el codigo ISO de 2 letras (es, fr, pt...)." };
+  }
+  if (validCoords(input.lat, input.lon)) return { ...input, error: null };
+  if (input.address) return { ...input, lat: null, lon: null, error: null };
+  return { ...input, error: "Fila sin direccion ni lat/lon validos." };
+}
+
+function parseCsvRows(content: string): BatchInput[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error("CSV vacio.");
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const find = (names: string[]) => columns.findIndex((c) => names.includes(c));
+  const addressCol = find(ADDRESS_COLUMNS);
+  const latCol = find(LAT_COLUMNS);
+  const lonCol = find(LON_COLUMNS);
+  const idCol = find(ID_COLUMNS);
+  const countryCol = find(COUNTRY_COLUMNS);
+  if (addressCol < 0 && (latCol < 0 || lonCol < 0)) {
+    throw new Error("El CSV necesita una columna address/direccion o las columnas lat y lon.");
+  }
+
+  return rows.map((cells, i) =>
+    checkRow({
+      row: i + 1,
+      id: idCol >= 0 ? cells[idCol]?.trim() || null : null,
+      address: addressCol >= 0 ? cells[addressCol]?.trim() || null : null,
+      country: countryCol >= 0 ? cells[countryCol]?.trim() || null : null,
+      lat: latCol >= 0 ? toNumber(cells[latCol]) : null,
+      lon: lonCol >= 0 ? toNumber(cells[lonCol]) : null,
+    })
+  );
+}
+
+function parseGeoJsonRows(content: string): BatchInput[] {
+  let json;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error("GeoJSON invalido: no es JSON.");
+  }
+  const features =
+    json?.type === "FeatureCollection"
+      ? (json.features ?? [])
+      : json?.type === "Feature"
+        ? [json]
+        : json?.type === "Point"
+          ? [{ type: "Feature", geometry: json, properties: {} }]
+          : [];
+  if (!features.length) throw new Error("GeoJSON sin features de tipo Point.");
+
+  return features.map((feature: GeoJsonFeature | null, i: number): BatchInput => {
+    const props = feature?.properties ?? {};
+    const propOf = (names: string[]) => {
+      const key = Object.keys(props).find((k) => names.includes(k.toLowerCase()));
+      return key && props[key] !== null && props[key] !== undefined ? String(props[key]).trim() || null : null;
+    };
+    const base = { row: i + 1, id: propOf(ID_COLUMNS), address: propOf(ADDRESS_COLUMNS), country: propOf(COUNTRY_COLUMNS) };
+    if (feature?.geometry?.type !== "Point") {
+      return { ...base, lat: null, lon: null, error: "Geometria no soportada: solo Point." };
+    }
+    const [lon, lat] = feature.geometry.coordinates ?? [];
+    return checkRow({ ...base, lat: toNumber(lat), lon: toNumber(lon) });
+  });
+}
+
+export function parseBatchInput(format: BatchBody["format"], content: string) {
+  const rows = format === "csv" ? parseCsvRows(content) : parseGeoJsonRows(content);
+  if (!rows.length) throw new Error("El fichero no tiene filas.");
+  if (rows.length > BATCH_MAX_ROWS) {
+    throw new Error(`Demasiadas filas (${rows.length}); el maximo es ${BATCH_MAX_ROWS}.`);
+  }
+  return rows;
+}
+
+function pickPlaceName(address: Record<string, string> | null | undefined) {
+  if (!address) return null;
+  return address.city || address.town || address.village || address.municipality || address.county || null;
+}
+
+function finiteOrNull(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+// Las tools que fallan no tumban la fila: se anota el dato como ausente.
+async function settle<T>(fn: () => Promise<{ value: T }>) {
+  try {
+    return (await fn()).value;
+  } catch (e: any) {
+    return { ok: false, error: e?.message ?? "Error en tool" } as const;
+  }
+}
+
+async function writeSummary(result: BatchResult, locale: Locale) {
+  const msg = await llm.complete({
+    messages: [
+      {
+        role: "system",
+        content: `Eres un analista GIS. Resume en 1-2 frases (maximo 300 caracteres) la idoneidad del emplazamiento usando SOLO los datos dados; no inventes cifras.\n${languageRule(locale)}`,
+      },
+      { role: "user", content: JSON.stringify({ ...result, summary: undefined }) },
+    ],
+    temperature: 0.2,
+  });
+  return (msg.content ?? "").trim().slice(0, 400) || null;
+}
+
+async function analyzeRow(input: BatchInput, job: BatchRun): Promise<BatchResult> {
+  const label = input.address ?? (validCoords(input.lat, input.lon) ? `${input.lat},${input.lon}` : "");
+  const empty: BatchResult = {
+    row: input.row,
+    id: input.id,
+    input: label,
+    ok: false,
+    error: input.error,
+    lat: input.lat,
+    lon: input.lon,
+    display_name: null,
+    municipality: null,
+    hospitals: null,
+    pharmacies: null,
+    schools: null,
+    transport: null,
+    flood_status: "sin_datos",
+    population: null,
+    area_km2: null,
+    european_aqi: null,
+    pm2_5: null,
+    suitability: null,
+    summary: null,
+  };
+  if (input.error) return empty;
+
+  let lat = input.lat;
+  let lon = input.lon;
+  let displayName: string | null = null;
+  if (!validCoords(lat, lon)) {
+    const target = GeocodeRowSchema.safeParse(input);
+    if (!target.success) return { ...empty, error: "Fila sin direccion ni lat/lon validos." };
+    const { address, country } = target.data;
+    const geo = await settle(() => cachedTools.buscarCoordenadas(address, country ?? job.country, 1, job.locale));
+    if (!("found" in geo) || !geo.found || typeof geo.lat !== "number" || typeof geo.lon !== "number") {
+      return { ...empty, error: "No se pudo geocodificar la direccion." };
+    }
+    lat = geo.lat;
+    lon = geo.lon;
+    displayName = geo.display_name ?? null;
+  }
+
+  const reverse = await settle(() => cachedTools.reverseGeocode(lat!, lon!, 12, job.locale));
+  const reverseOk = reverse.ok ? reverse : null;
+  const [urban, flood, stats, air] = await Promise.all([
+    settle(() => cachedTools.capasUrbanismo(lat!, lon!, BATCH_RADIUS_M)),
+    settle(() => cachedTools.riesgoInundacion(lat!, lon!)),
+    settle(() =>
+      cachedTools.cityStats(lat!, lon!, {
+        nameHint: pickPlaceName(reverseOk?.address),
+        countryCode: reverseOk?.address?.country_code ?? null,
+        wikidataId: reverseOk?.extratags?.wikidata ?? null,
+        language: job.locale,
+      })
+    ),
+    settle(() => cachedTools.airQuality(lat!, lon!)),
+  ]);
+
+  const suitability = computeSuitability({ urban, flood, air, stats }, null);
+  const urbanOk = "counts" in urban ? urban : null;
+  const statsOk = stats.ok ? stats : null;
+  const airOk = air.ok ? air : null;
+  const floodScore = suitability.sub_scores.find((s) => s.key === "environmental_risk")?.score ?? null;
+
+  const result: BatchResult = {
+    ...empty,
+    ok: true,
+    error: null,
+    lat,
+    lon,
+    display_name: displayName ?? reverseOk?.display_name ?? null,
+    municipality: pickPlaceName(reverseOk?.address) ?? statsOk?.city?.label ?? null,
+    hospitals: finiteOrNull(urbanOk?.counts.hospitals),
+    pharmacies: finiteOrNull(urbanOk?.counts.pharmacies),
+    schools: finiteOrNull(urbanOk?.counts.schools),
+    transport: finiteOrNull(urbanOk?.counts.transport),
+    flood_status: floodScore === null ? "sin_datos" : floodScore === 100 ? "sin_senal" : "posible_exposicion",
+    population: finiteOrNull(statsOk?.city?.population),
+    area_km2: finiteOrNull(statsOk?.city?.area_km2),
+    european_aqi: finiteOrNull(airOk?.current?.european_aqi),
+    pm2_5: finiteOrNull(airOk?.current?.pm2_5),
+    suitability: suitability.total,
+  };
+
+  if (job.summary) {
+    try {
+      job.llm_calls++;
+      result.summary = await writeSummary(result, job.locale);
+    } catch (e: any) {
+      result.summary = null;
+      result.error = `Resumen no disponible: ${e?.message ?? "error LLM"}`;
+    }
+  }
+  return result;
+}
+
+export async function runBatch(body: BatchBody, ctx: JobContext): Promise<{ status: number; payload: BatchPayload }> {
+  const run: BatchRun = {
+    summary: body.summary ?? false,
+    locale: body.locale ?? DEFAULT_LOCALE,
+    country: body.country?.toLowerCase() ?? null,
+    llm_calls: 0,
+  };
+  const rows = parseBatchInput(body.format, body.content);
+  // Mismo orden que la entrada; null mientras la fila no se ha procesado.
+  const results: (BatchResult | null)[] = rows.map(() => null);
+  let done = 0;
+  const payload = (): BatchPayload => ({
+    ok: true,
+    total: rows.length,
+    done,
+    summary: run.summary,
+    llm_calls: run.llm_calls,
+    results: results.filter((r): r is BatchResult => r !== null),
+  });
+
+  ctx.progress({ done: 0, total: rows.length });
+  await mapWithConcurrency(rows, BATCH_CONCURRENCY, async (row, index) => {
+    if (ctx.signal.aborted) return;
+    try {
+      results[index] = await analyzeRow(row, run);
+    } catch (e: any) {
+      results[index] = await analyzeRow({ ...row, error: e?.message ?? "Error en fila" }, run);
+    }
+    done++;
+    ctx.progress({ done }, payload());
+  });
+
+  return { status: 200, payload: payload() };
+}
+
+const CSV_COLUMNS: (keyof BatchResult)[] = [
+  "row",
+  "id",
+  "input",
+  "ok",
+  "error",
+  "lat",
+  "lon",
+  "display_name",
+  "municipality",
+  "hospitals",
+  "pharmacies",
+  "schools",
+  "transport",
+  "flood_status",
+  "population",
+  "area_km2",
+  "european_aqi",
+  "pm2_5",
+  "suitability",
+  "summary",
+];
+
+export function batchToCsv(results: BatchResult[]) {
+  return toCsv(
+    CSV_COLUMNS,
+    results.map((r) => CSV_COLUMNS.map((key) => r[key]))
+  );
+}
+
+// Las filas sin coordenadas salen con geometry null (GeoJSON lo permite).
+export function batchToGeoJson(results: BatchResult[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: results.map(({ lat, lon, ...properties }) => ({
+      type: "Feature" as const,
+      geometry: lat !== null && lon !== null ? { type: "Point" as const, coordinates: [lon, lat] } : null,
+      properties,
+    })),
+  };
+}
@@ -0,0 +1,231 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "@/lib/env";
+import { currentJobScope } from "@/lib/request-context";
+
+export type CacheSource =
+  | "nominatim"
+  | "overpass"
+  | "efas_capabilities"
+  | "efas_featureinfo"
+  | "wikidata"
+  | "air_quality"
+  | "historical_weather"
+  | "eonet";
+
+type CachePolicy = { ttlMs: number; staleMs: number };
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// ttlMs: tiempo en que el dato se sirve como fresco.
+// staleMs: margen extra en que se sirve caducado si la fuente falla.
+const POLICIES: Record<CacheSource, CachePolicy> = {
+  nominatim: { ttlMs: 7 * DAY, staleMs: 30 * DAY },
+  overpass: { ttlMs: DAY, staleMs: 14 * DAY },
+  efas_capabilities: { ttlMs: DAY, staleMs: 7 * DAY },
+  efas_featureinfo: { ttlMs: 6 * HOUR, staleMs: 2 * DAY },
+  wikidata: { ttlMs: 30 * DAY, staleMs: 180 * DAY },
+  air_quality: { ttlMs: 15 * MINUTE, staleMs: 3 * HOUR },
+  historical_weather: { ttlMs: 21 * DAY, staleMs: 90 * DAY },
+  eonet: { ttlMs: DAY, staleMs: 14 * DAY },
+};
+
+type CacheEntry = { value: unknown; stored_at: number };
+
+type CacheStore = {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+};
+
+export type CacheMeta = {
+  source: CacheSource;
+  status: "hit" | "miss" | "stale";
+  stored_at: string | null;
+  age_s: number | null;
+  ttl_s: number;
+  error?: string;
+};
+
+function createMemoryStore(maxEntries: number): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      // LRU: al leer se mueve al final del orden de insercion.
+      entries.delete(key);
+      entries.set(key, entry);
+      // Copia: los llamadores pueden mutar el resultado sin tocar la cache.
+      return structuredClone(entry);
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, structuredClone(entry));
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+function createFileStore(dir: string): CacheStore {
+  const fileOf = (key: string) => path.join(dir, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileOf(key), "utf8")) as CacheEntry;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, entry) {
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(fileOf(key), JSON.stringify(entry), "utf8");
+      } catch {
+        // El disco es best-effort: la cache en memoria sigue funcionando.
+      }
+    },
+  };
+}
+
+// Memoria delante; disco opcional detras para sobrevivir reinicios y compartir entre procesos.
+function createLayeredStore(front: CacheStore, back: CacheStore | null): CacheStore {
+  if (!back) return front;
+  return {
+    async get(key) {
+      const hit = await front.get(key);
+      if (hit) return hit;
+      const stored = await back.get(key);
+      if (stored) await front.set(key, stored);
+      return stored;
+    },
+    async set(key, entry) {
+      await front.set(key, entry);
+      await back.set(key, entry);
+    },
+  };
+}
+
+const store = createLayeredStore(
+  createMemoryStore(env.CACHE_MAX_ENTRIES ?? 500),
+  env.CACHE_BACKEND === "file" ? createFileStore(path.resolve(process.cwd(), env.CACHE_DIR ?? ".geodata-cache")) : null
+);
+
+const inFlight = new Map<string, Promise<{ value: unknown; meta: CacheMeta }>>();
+
+function roundArgs(value: unknown): unknown {
+  if (typeof value === "number") return Number.isInteger(value) ? value : Number(value.toFixed(5));
+  if (Array.isArray(value)) return value.map(roundArgs);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, roundArgs(v)])
+    );
+  }
+  return value;
+}
+
+export function cacheKey(source: CacheSource, parts: unknown) {
+  return `${source}:${JSON.stringify(roundArgs(parts))}`;
+}
+
+function describeError(e: unknown) {
+  if (e instanceof Error) return e.name === "AbortError" ? "Timeout consultando API externa." : e.message;
+  return "Fallo consultando API externa.";
+}
+
+// Devuelve el valor cacheado si esta fresco; si no (o con `refresh`), lo recarga.
+// Si la recarga falla (excepcion o resultado no cacheable) y hay una entrada
+// dentro del margen stale, se sirve esa entrada marcada como "stale".
+export async function cacheGetOrLoad<T>(
+  source: CacheSource,
+  parts: unknown,
+  load: () => Promise<T>,
+  options: { cacheable?: (value: T) => boolean; refresh?: boolean } = {}
+): Promise<{ value: T; meta: CacheMeta }> {
+  const policy = POLICIES[source];
+  const key = cacheKey(source, parts);
+  const cacheable = options.cacheable ?? (() => true);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<{ value: T; meta: CacheMeta }>;
+
+  const run = async () => {
+    const now = Date.now();
+    const entry = await store.get(key);
+    const age = entry ? now - entry.stored_at : null;
+    const metaFor = (status: CacheMeta["status"], e: CacheEntry | null, error?: string): CacheMeta => ({
+      source,
+      status,
+      stored_at: e ? new Date(e.stored_at).toISOString() : null,
+      age_s: e ? Math.round((now - e.stored_at) / 1000) : null,
+      ttl_s: Math.round(policy.ttlMs / 1000),
+      ...(error ? { error } : {}),
+    });
+
+    if (!options.refresh && entry && age !== null && age <= policy.ttlMs) {
+      return { value: entry.value as T, meta: metaFor("hit", entry) };
+    }
+
+    const canServeStale = entry !== null && age !== null && age <= policy.ttlMs + policy.staleMs;
+
+    let value: T;
+    try {
+      value = await load();
+    } catch (e) {
+      if (canServeStale) return { value: entry.value as T, meta: metaFor("stale", entry, describeError(e)) };
+      throw e;
+    }
+
+    if (!cacheable(value)) {
+      if (canServeStale) return { value: entry.value as T, meta: metaFor("stale", entry, "La fuente devolvio un error.") };
+      return { value, meta: metaFor("miss", null) };
+    }
+
+    await store.set(key, { value, stored_at: now });
+    return { value, meta: metaFor("miss", null) };
+  };
+
+  const promise = run().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+export type Cached<T> = { value: T; cache: CacheMeta };
+
+export function withCache<A extends unknown[], T>(
+  source: CacheSource,
+  name: string,
+  fn: (...args: A) => Promise<T>,
+  options: { cacheable?: (value: T) => boolean } = {}
+) {
+  return async (...args: A): Promise<Cached<T>> => {
+    // Dentro de un trabajo: se corta si lo han cancelado y se reutiliza lo ya obtenido en un intento anterior.
+    const job = currentJobScope();
+    job?.signal.throwIfAborted();
+    const key = cacheKey(source, [name, ...args]);
+    const saved = job?.partials.get(key);
+    if (saved) return saved as Cached<T>;
+
+    const { value, meta } = await cacheGetOrLoad(source, [name, ...args], () => fn(...args), {
+      ...options,
+      refresh: job?.refresh,
+    });
+    const out = { value, cache: meta };
+    if (job && (options.cacheable?.(value) ?? true)) job.savePartial(key, out);
+    return out;
+  };
+}
+
+export function describeStaleCache(label: string, meta: CacheMeta) {
+  if (meta.status !== "stale") return null;
+  const hours = meta.age_s !== null ? Math.max(1, Math.round(meta.age_s / 3600)) : null;
+  return `${label}: la fuente no respondio; se usan datos en cache${hours !== null ? ` de hace ${hours} h` : ""} (caducados).`;
+}
@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { llm, type LlmMessageParam } from "@/lib/llm";
+import { cachedTools } from "@/lib/tools/cached";
+import { accessForModel } from "@/lib/tools/accesibilidad";
+import { urbanForModel } from "@/lib/tools/capasUrbanismo";
+import { ALL_TOOL_NAMES, toolDefinitions } from "@/lib/tools/definitions";
+import { describeStaleCache, type CacheMeta } from "@/lib/cache";
+import { describeUnverified, groundingMode, verifyGrounding } from "@/lib/grounding";
+import { getReport } from "@/lib/reports";
+import type { ChatResponse, ChatToolResult, RunDebug, SourceRef } from "@/lib/types";
+import { DEFAULT_LOCALE, LocaleSchema, languageRule, type Locale } from "@/lib/i18n";
+
+// Conversacion sobre un informe ya generado. Es sin estado: el cliente reenvia la
+// respuesta original de la ruta, el historial y los resultados de tools de turnos previos.
+// Si la respuesta trae `report_id` de un informe guardado, se usa el guardado en el
+// servidor; lo que envia el cliente se puede alterar, y la verificacion de cifras lo indica.
+
+const ToolResultSchema = z.object({
+  name: z.string(),
+  args: z.record(z.string(), z.unknown()),
+  result: z.unknown(),
+});
+
+export const ChatBodySchema = z.object({
+  kind: z.enum(["analyze", "compare", "history"]),
+  // Respuesta JSON de /api/analyze, /api/compare o /api/history.
+  context: z.record(z.string(), z.unknown()),
+  report_markdown: z.string().max(60_000),
+  messages: z
+    .array(z.object({ role: z.enum(["user", "assistant"]), content: z.string().min(1).max(4000) }))
+    .min(1)
+    .max(30)
+    .refine((list) => list[list.length - 1]?.role === "user", "El ultimo mensaje debe ser del usuario"),
+  tool_results: z.array(ToolResultSchema).max(20).optional(),
+  locale: LocaleSchema.optional(),
+});
+
+export type ChatBody = z.infer<typeof ChatBodySchema>;
+
+const KIND_LABELS: Record<ChatBody["kind"], string> = {
+  analyze: "analisis de zona",
+  compare: "comparacion de ciudades",
+  history: "informe historico (ultimos 5 anos)",
+};
+
+const MAX_STEPS = 4;
+const MAX_CONTEXT_CHARS = 60_000;
+const MAX_ARRAY_ITEMS = 40;
+
+// Recorta arrays largos (elementos OSM, eventos...) para no desbordar el contexto del modelo.
+function compactForPrompt(value: unknown) {
+  const json = JSON.stringify(value, (key, v) => {
+    if (key === "debug" || key === "report_markdown") return undefined;
+    if (Array.isArray(v) && v.length > MAX_ARRAY_ITEMS) {
+      return [...v.slice(0, MAX_ARRAY_ITEMS), `... ${v.length - MAX_ARRAY_ITEMS} elementos omitidos`];
+    }
+    return v;
+  });
+  return json.length > MAX_CONTEXT_CHARS ? `${json.slice(0, MAX_CONTEXT_CHARS)}... (recortado)` : json;
+}
+
+function systemPrompt(kind: ChatBody["kind"], locale: Locale) {
+  return `
+Eres un analista GIS. Conversas con el usuario sobre un ${KIND_LABELS[kind]} ya generado.
+REGLAS DURAS:
+- Usa SOLO los datos del contexto (salidas de tools de la ejecucion original y de turnos previos) y de las tools que llames ahora.
+- No inventes datos, distancias ni fuentes. Si un dato no esta, dilo o llama a la tool adecuada.
+- Puedes volver a llamar a las tools con otros parametros (p. ej. un radio mayor en capasUrbanismo, mas anos en historicalWeather).
+- Responde en Markdown breve. Si el usuario pide reescribir una seccion del informe, devuelve solo esa seccion con su encabezado "## ...".
+${languageRule(locale)}
+`.trim();
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function clampNumber(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+  locale: Locale,
+  noteCache: (tool: string, meta: CacheMeta) => void
+) {
+  if (name === "buscarCoordenadas") {
+    const direccion = typeof args.direccion === "string" ? args.direccion.trim() : "";
+    if (!direccion) return { ok: false, error: "Falta direccion para buscarCoordenadas" };
+    const { value, cache } = await cachedTools.buscarCoordenadas(direccion, "es", 1, locale);
+    noteCache(name, cache);
+    return value;
+  }
+
+  const lat = toNumber(args.lat);
+  const lon = toNumber(args.lon);
+  if (lat === null || lon === null) return { ok: false, error: `lat/lon invalidos para ${name}` };
+
+  if (name === "capasUrbanismo") {
+    const radius = clampNumber(toNumber(args.radius_m) ?? 1200, 200, 5000);
+    const { value, cache } = await cachedTools.capasUrbanismo(lat, lon, radius);
+    noteCache(name, cache);
+    return urbanForModel(value);
+  }
+  if (name === "riesgoInundacion") {
+    const { value, cache } = await cachedTools.riesgoInundacion(lat, lon);
+    noteCache(name, cache);
+    return value;
+  }
+  if (name === "reverseGeocode") {
+    const { value, cache } = await cachedTools.reverseGeocode(lat, lon, toNumber(args.zoom) ?? 18, locale);
+    noteCache(name, cache);
+    return value;
+  }
+  if (name === "cityStats") {
+    const { value, cache } = await cachedTools.cityStats(lat, lon, {
+      nameHint: typeof args.name_hint === "string" ? args.name_hint : null,
+      countryCode: typeof args.country_code === "string" ? args.country_code : null,
+      wikidataId: typeof args.wikidata_id === "string" ? args.wikidata_id : null,
+      language: locale,
+    });
+    noteCache(name, cache);
+    return value;
+  }
+  if (name === "airQuality") {
+    const { value, cache } = await cachedTools.airQuality(lat, lon);
+    noteCache(name, cache);
+    return value;
+  }
+  if (name === "accesibilidad") {
+    const { value, cache } = await cachedTools.accesibilidad(lat, lon);
+    noteCache(name, cache);
+    return accessForModel(value);
+  }
+  if (name === "historicalWeather") {
+    const years = clampNumber(Math.round(toNumber(args.years) ?? 5), 1, 10);
+    const { value, cache } = await cachedTools.historicalWeather(lat, lon, years);
+    noteCache(name, cache);
+    return value;
+  }
+  if (name === "historicalEvents") {
+    const years = clampNumber(Math.round(toNumber(args.years) ?? 5), 1, 10);
+    const { value, cache } = await cachedTools.historicalEvents(lat, lon, years, 1.0, null);
+    noteCache(name, cache);
+    return value;
+  }
+
+  return { ok: false, error: `Tool desconocida: ${name}` };
+}
+
+export type ChatResult = { status: number; payload: ChatResponse };
+
+async function storedContext(body: ChatBody) {
+  const id = body.context.report_id;
+  if (typeof id !== "string") return null;
+  const report = await getReport(id);
+  return report?.kind === body.kind ? (report.payload as Record<string, unknown>) : null;
+}
+
+export async function runChat(body: ChatBody): Promise<ChatResult> {
+  try {
+    const previous = body.tool_results ?? [];
+    const stored = await storedContext(body);
+    const context = stored ?? body.context;
+    // Datos de la verificacion que no salen del servidor: respuesta sin informe guardado o tools de turnos previos.
+    const clientEvidence = !stored || previous.length > 0;
+    const locale = body.locale ?? DEFAULT_LOCALE;
+    const newResults: ChatToolResult[] = [];
+    const limitations: string[] = [];
+    const debug: RunDebug & { llm_calls: number } = { llm_calls: 0, cache: [] };
+    const noteCache = (tool: string, meta: CacheMeta) => {
+      debug.cache.push({ tool, ...meta });
+      const stale = describeStaleCache(tool, meta);
+      if (stale) limitations.push(stale);
+    };
+
+    const tools = toolDefinitions(ALL_TOOL_NAMES);
+    const messages: LlmMessageParam[] = [
+      { role: "system", content: systemPrompt(body.kind, locale) },
+      {
+        role: "user",
+        content: [
+          `Informe generado:\n${body.report_markdown}`,
+          `Datos de la ejecucion original (JSON):\n${compactForPrompt(context)}`,
+          ...(previous.length ? [`Resultados de tools de turnos previos (JSON):\n${compactForPrompt(previous)}`] : []),
+        ].join("\n\n"),
+      },
+      { role: "assistant", content: "Entendido. Respondere sobre este informe usando solo esos datos." },
+      ...body.messages,
+    ];
+
+    for (let step = 0; step < MAX_STEPS; step++) {
+      debug.llm_calls++;
+      // En el ultimo paso se fuerza respuesta en texto.
+      const last = step === MAX_STEPS - 1;
+      const msg = await llm.complete({ messages, tools, tool_choice: last ? "none" : "auto", temperature: 0.2 });
+      messages.push(msg);
+      const toolCalls = msg.tool_calls ?? [];
+
+      if (!toolCalls.length) {
+        const reply = msg.content ?? "";
+        let grounding = null;
+        if (groundingMode() !== "off") {
+          const checked = verifyGrounding({
+            markdown: reply,
+            evidence: { context, previous, tools: newResults },
+            sources: Array.isArray(context.sources) ? (context.sources as SourceRef[]) : [],
+          });
+          grounding = { ...checked, regenerated: false, client_evidence: clientEvidence };
+          limitations.push(...describeUnverified(checked.unverified));
+          if (clientEvidence) {
+            limitations.push(
+              "Las cifras se han contrastado con datos enviados por el cliente (informe sin guardar o tools de turnos previos), no con un informe guardado en el servidor."
+            );
+          }
+        }
+        return {
+          status: 200,
+          payload: { ok: true, reply, tool_results: newResults, grounding, limitations, debug },
+        };
+      }
+
+      for (const call of toolCalls) {
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(call.function.arguments || "{}");
+        } catch {
+          messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify({ ok: false, error: "Argumentos JSON invalidos para tool" }) });
+          continue;
+        }
+
+        let result: unknown;
+        try {
+          result = await executeTool(call.function.name, args, locale, noteCache);
+        } catch (e: any) {
+          const error = e?.message ?? "Error ejecutando tool";
+          result = { ok: false, error };
+          limitations.push(`${call.function.name} fallo: ${error}`);
+        }
+        newResults.push({ name: call.function.name, args, result });
+        messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(result) });
+      }
+    }
+
+    return { status: 500, payload: { ok: false, error: "El modelo no respondio (demasiados pasos)", debug } };
+  } catch (e: any) {
+    return { status: 500, payload: { ok: false, error: e?.message ?? "Error en chat" } };
+  }
+}
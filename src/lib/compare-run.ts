@@ -0,0 +1,330 @@
+import { z } from "zod";
+import { llm, type LlmMessageParam } from "@/lib/llm";
+import { saveReport } from "@/lib/reports";
+import { cachedTools } from "@/lib/tools/cached";
+import type { capasUrbanismo } from "@/lib/tools/capasUrbanismo";
+import { describeStaleCache, type Cached, type CacheMeta } from "@/lib/cache";
+import { ReportFormatSchema, writeStructuredReport, type CompareReport } from "@/lib/structured-report";
+import { describeUnverified, groundReport } from "@/lib/grounding";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  COMPARE_HEADINGS,
+  DEFAULT_LOCALE,
+  FIXED_HEADINGS,
+  LocaleSchema,
+  compareHeadings,
+  hasCitySubheadings,
+  hasHeadings,
+  languageRule,
+  type Locale,
+} from "@/lib/i18n";
+import {
+  COMPARE_MAX_CITIES,
+  COMPARE_MIN_CITIES,
+  cityLabel,
+  computeCompareRanking,
+  type CompareRanking,
+} from "@/lib/compare";
+import { ScoringOptionsSchema, computeSuitability, type ScoringOptions } from "@/lib/scoring";
+import type { CompareResponse, ReverseResult } from "@/lib/types";
+
+export const CompareBodySchema = z.object({
+  cities: z
+    .array(z.object({ lat: z.number(), lon: z.number() }))
+    .min(COMPARE_MIN_CITIES)
+    .max(COMPARE_MAX_CITIES),
+  report_format: ReportFormatSchema.optional(),
+  locale: LocaleSchema.optional(),
+  // Pesos de la puntuacion de idoneidad de cada ciudad; preset "general" por defecto.
+  scoring: ScoringOptionsSchema.nullable().optional(),
+});
+
+// Radio de capasUrbanismo alrededor del punto de cada ciudad (servicios y transporte).
+const CITY_URBAN_RADIUS_M = 1200;
+
+// Ciudades construidas a la vez; Nominatim ya va serializado por su scheduler.
+const CITY_CONCURRENCY = 3;
+
+const SOURCES = [
+  { name: "Nominatim (OSM)", url: "https://nominatim.org/release-docs/latest/develop/overview/" },
+  { name: "Overpass API (OSM)", url: "https://wiki.openstreetmap.org/wiki/Overpass_API" },
+  { name: "Wikidata SPARQL", url: "https://query.wikidata.org/" },
+  { name: "Wikidata EntityData", url: "https://www.wikidata.org/wiki/Special:EntityData/" },
+  { name: "Open-Meteo Air Quality", url: "https://open-meteo.com/en/docs/air-quality-api" },
+  { name: "Copernicus EFAS WMS", url: "https://european-flood.emergency.copernicus.eu/api/wms/" },
+];
+
+function hasRequiredHeadings(report: string, labels: string[], locale: Locale) {
+  return hasHeadings(report, compareHeadings(locale)) && hasCitySubheadings(report, labels, locale);
+}
+
+function pickPlaceName(reverse: ReverseResult | null) {
+  if (!reverse?.ok) return null;
+  const address = reverse.address ?? null;
+  const name =
+    address?.city ||
+    address?.town ||
+    address?.village ||
+    address?.municipality ||
+    address?.county ||
+    address?.state ||
+    address?.region ||
+    null;
+
+  if (name) return name;
+  const display = typeof reverse.display_name === "string" ? reverse.display_name : null;
+  if (display) return display.split(",")[0]?.trim() ?? null;
+  return null;
+}
+
+function systemPrompt(labels: string[], locale: Locale) {
+  const h = COMPARE_HEADINGS[locale];
+  const [summary, ...rest] = compareHeadings(locale);
+  return `
+Eres un analista GIS y urbano.
+REGLAS DURAS:
+- Debes usar SOLO los datos proporcionados.
+- No inventes datos ni fuentes.
+- Si falta un dato, indicalo en "${FIXED_HEADINGS[locale].limitations}".
+ - Para poblacion y superficie, indica la fuente (usa stats.source_url de cada ciudad si esta disponible).
+- Compara ${labels.length} ciudades (${labels.map((l) => `${h.city} ${l}`).join(", ")}); ninguna puede quedar fuera.
+- "${h.table}" es una tabla Markdown con una fila por ciudad, en el orden del ranking proporcionado.
+- "${h.winners}" usa SOLO los ganadores calculados en ranking.indicators; no recalcules. Los indicadores con better null (poblacion, superficie) son informativos: no tienen ganador ni cuentan en la puntuacion.
+- La idoneidad (suitability, 0-100) de cada ciudad ya viene calculada; citala sin recalcularla.
+${languageRule(locale)}
+
+Devuelve el informe en Markdown con estas secciones exactas:
+## ${summary}
+${labels.map((l) => `### ${h.city} ${l} - <nombre>`).join("\n")}
+${rest.map((heading) => `## ${heading}`).join("\n")}
+
+Bibliografia permitida (usa solo estas):
+${SOURCES.map((s) => `- ${s.name}: ${s.url}`).join("\n")}
+`.trim();
+}
+
+function normalizeToolError(e: unknown) {
+  if (e instanceof Error && e.name === "AbortError") return "Timeout consultando API externa.";
+  return e instanceof Error ? e.message : "Fallo inesperado consultando API externa.";
+}
+
+async function safeToolCall<T>(
+  cache: { tool: string; meta: CacheMeta }[],
+  tool: string,
+  fallback: (e: unknown) => T,
+  fn: () => Promise<Cached<T>>
+) {
+  try {
+    const { value, cache: meta } = await fn();
+    cache.push({ tool, meta });
+    return value;
+  } catch (e) {
+    return fallback(e);
+  }
+}
+
+async function buildCity(lat: number, lon: number, locale: Locale, scoring: ScoringOptions | null | undefined) {
+  const cache: { tool: string; meta: CacheMeta }[] = [];
+  const reverse = await safeToolCall(
+    cache,
+    "reverseGeocode",
+    (e) => ({ ok: false, source: "nominatim", error: normalizeToolError(e) }),
+    () => cachedTools.reverseGeocode(lat, lon, 12, locale)
+  );
+  const nameHint = pickPlaceName(reverse);
+  const countryCode = reverse?.address?.country_code ?? null;
+  const wikidataId = reverse?.extratags?.wikidata ?? null;
+  const stats = await safeToolCall(
+    cache,
+    "cityStats",
+    (e) => ({ ok: false, source: "wikidata", error: normalizeToolError(e) }),
+    () => cachedTools.cityStats(lat, lon, { nameHint, countryCode, wikidataId, language: locale })
+  );
+  if (stats?.ok && stats.city?.population && stats.city?.area_km2) {
+    stats.city = {
+      ...stats.city,
+      population_density_km2: Number((stats.city.population / stats.city.area_km2).toFixed(2))
+    };
+  }
+  const air = await safeToolCall(
+    cache,
+    "airQuality",
+    (e) => ({ ok: false, source: "open-meteo", error: normalizeToolError(e) }),
+    () => cachedTools.airQuality(lat, lon)
+  );
+  const flood = await safeToolCall(
+    cache,
+    "riesgoInundacion",
+    (e) => ({
+      ok: false,
+      method: "copernicus_wms",
+      reason: normalizeToolError(e),
+      note: "No se pudo consultar EFAS WMS",
+      fallback_used: true
+    }),
+    () => cachedTools.riesgoInundacion(lat, lon)
+  );
+  const urbanFull = await safeToolCall<Awaited<ReturnType<typeof capasUrbanismo>> | { ok: false; error: string }>(
+    cache,
+    "capasUrbanismo",
+    (e) => ({ ok: false, error: normalizeToolError(e) }),
+    () => cachedTools.capasUrbanismo(lat, lon, CITY_URBAN_RADIUS_M)
+  );
+  // Solo conteos y distancias: el listado de elementos no aporta a la comparacion y engorda el prompt.
+  const urban =
+    "counts" in urbanFull
+      ? {
+          ok: true,
+          radius_m: urbanFull.radius_m,
+          counts: urbanFull.counts,
+          nearest_m: urbanFull.nearest_m,
+          raw_count: urbanFull.raw_count,
+          truncated: urbanFull.truncated
+        }
+      : urbanFull;
+
+  return {
+    city: {
+      coords: { lat, lon },
+      reverse,
+      stats,
+      air,
+      flood,
+      urban,
+      suitability: computeSuitability({ urban, flood, air, stats }, scoring)
+    },
+    cache
+  };
+}
+
+// Datos de cada ciudad en la respuesta de /api/compare.
+export type CompareCity = Awaited<ReturnType<typeof buildCity>>["city"] & { label: string };
+
+function describeCityLimitations(prefix: string, city: CompareCity) {
+  const limitations: string[] = [];
+  if (!city.reverse?.ok) limitations.push(`${prefix}: sin reverse geocode.`);
+  if (!city.stats?.ok) {
+    limitations.push(`${prefix}: sin datos de poblacion/superficie.`);
+  } else {
+    if (city.stats?.city?.population == null) limitations.push(`${prefix}: poblacion no disponible.`);
+    if (city.stats?.city?.area_km2 == null) limitations.push(`${prefix}: superficie no disponible.`);
+    if (city.stats?.city?.area_estimated) limitations.push(`${prefix}: superficie estimada por unidad no explicita.`);
+  }
+  if (!city.air?.ok) limitations.push(`${prefix}: sin datos de calidad del aire.`);
+  if (city.flood?.fallback_used) limitations.push(`${prefix}: riesgo inundacion con fallback EFAS.`);
+  if (city.urban?.ok === false) limitations.push(`${prefix}: sin equipamientos ni transporte (capasUrbanismo).`);
+  if (city.suitability?.missing.length) {
+    limitations.push(`${prefix}: idoneidad sin datos para ${city.suitability.missing.join(", ")}.`);
+  }
+  return limitations;
+}
+
+export type CompareBody = z.infer<typeof CompareBodySchema>;
+export type CompareResult = { status: number; payload: CompareResponse };
+
+type CompareOptions = {
+  // Se llama al terminar de construir cada ciudad (progreso de los trabajos en segundo plano).
+  onCityDone?: (done: number, total: number) => void;
+};
+
+export async function runCompare(body: CompareBody, options: CompareOptions = {}): Promise<CompareResult> {
+  try {
+    const locale = body.locale ?? DEFAULT_LOCALE;
+
+    let citiesDone = 0;
+    const built = await mapWithConcurrency(body.cities, CITY_CONCURRENCY, async (point, index) => {
+      const { city, cache } = await buildCity(point.lat, point.lon, locale, body.scoring);
+      options.onCityDone?.(++citiesDone, body.cities.length);
+      return { label: cityLabel(index), city: { label: cityLabel(index), ...city }, cache };
+    });
+    const cities = built.map((entry) => entry.city);
+    const labels = built.map((entry) => entry.label);
+
+    const limitations: string[] = [];
+    for (const entry of built) {
+      for (const cached of entry.cache) {
+        const stale = describeStaleCache(`Ciudad ${entry.label} (${cached.tool})`, cached.meta);
+        if (stale) limitations.push(stale);
+      }
+    }
+    for (const entry of built) {
+      limitations.push(...describeCityLimitations(`Ciudad ${entry.label}`, entry.city));
+    }
+
+    const ranking: CompareRanking = computeCompareRanking(
+      built.map((entry) => ({ label: entry.label, name: pickPlaceName(entry.city.reverse), city: entry.city }))
+    );
+
+    const messages: LlmMessageParam[] = [
+      { role: "system", content: systemPrompt(labels, locale) },
+      {
+        role: "user",
+        content: [
+          "Datos para comparar:",
+          ...cities.map((city) => `Ciudad ${city.label}:\n${JSON.stringify(city)}`),
+          `Ranking calculado:\n${JSON.stringify(ranking)}`,
+        ].join("\n\n"),
+      },
+    ];
+
+    let report = "";
+    let structured: CompareReport | null = null;
+    if (body.report_format === "structured") {
+      const written = await writeStructuredReport("compare", messages, { locale });
+      if (written.ok) {
+        structured = written.report;
+        report = written.markdown;
+      } else {
+        limitations.push(`Informe estructurado no valido (${written.error}); se entrega solo en Markdown.`);
+      }
+    }
+    for (let attempt = 0; !structured && attempt < 2; attempt++) {
+      const completion = await llm.complete({
+        messages,
+        temperature: 0.2,
+      });
+      report = completion.content ?? "";
+      if (hasRequiredHeadings(report, labels, locale)) break;
+      messages.push({
+        role: "user",
+        content: "El informe no cumple el formato. Devuelve SOLO el informe con las secciones exactas requeridas."
+      });
+    }
+
+    const { markdown, grounding } = await groundReport(
+      { markdown: report, evidence: { cities, ranking }, sources: SOURCES, allowed: [cities.length] },
+      async (feedback) => {
+        const retry: LlmMessageParam[] = [...messages, { role: "assistant", content: report }, { role: "user", content: feedback }];
+        if (structured) {
+          const written = await writeStructuredReport("compare", retry, { locale });
+          if (!written.ok) return null;
+          structured = written.report;
+          return written.markdown;
+        }
+        const completion = await llm.complete({ messages: retry, temperature: 0.2 });
+        return hasRequiredHeadings(completion.content ?? "", labels, locale) ? completion.content : null;
+      }
+    );
+    if (grounding?.unverified.length) limitations.push(...describeUnverified(grounding.unverified));
+
+    const payload: CompareResponse = {
+      ok: true,
+      report_markdown: markdown,
+      report: structured,
+      grounding,
+      cities,
+      ranking,
+      sources: SOURCES,
+      limitations: limitations.length ? limitations : ["Sin incidencias destacables reportadas por las tools."],
+      debug: {
+        cache: built.flatMap((entry) =>
+          entry.cache.map((cached) => ({ city: entry.label, tool: cached.tool, ...cached.meta }))
+        ),
+      },
+    };
+    payload.report_id = await saveReport("compare", body, payload);
+    return { status: 200, payload };
+  } catch (e: any) {
+    return { status: 500, payload: { ok: false, error: e?.message ?? "Error en compare" } };
+  }
+}
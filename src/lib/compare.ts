@@ -0,0 +1,125 @@
+// Ranking determinista para la comparacion de N ciudades. Se calcula en servidor
+// para que la tabla y los ganadores no dependan del LLM.
+
+export const COMPARE_MIN_CITIES = 2;
+export const COMPARE_MAX_CITIES = 10;
+
+export const CITY_LABELS = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J"] as const;
+
+export function cityLabel(index: number) {
+  return CITY_LABELS[index] ?? String(index + 1);
+}
+
+// Subconjunto de los datos de cada ciudad que usa el ranking.
+type CompareCityData = {
+  stats?: { city?: Record<string, unknown> | null } | null;
+  air?: { current?: Record<string, unknown> | null } | null;
+  suitability?: { total: number | null } | null;
+};
+
+// null: indicador informativo, sin ganador ni peso en la puntuacion.
+type Better = "max" | "min" | null;
+
+// Los nombres de los indicadores estan en ui-messages (indicatorLabels), por `key`.
+type IndicatorDef = {
+  key: string;
+  unit: string;
+  better: Better;
+  read: (city: CompareCityData) => unknown;
+};
+
+// La idoneidad ya incluye la densidad (mas densidad puntua mas, ver scoring) y el aire
+// (EAQI o PM2.5): esos indicadores se muestran como informativos para no contarlos dos
+// veces ni con sentidos opuestos.
+const INDICATORS: IndicatorDef[] = [
+  { key: "population", unit: "hab", better: null, read: (c) => c?.stats?.city?.population },
+  { key: "area_km2", unit: "km2", better: null, read: (c) => c?.stats?.city?.area_km2 },
+  { key: "population_density_km2", unit: "hab/km2", better: null, read: (c) => c?.stats?.city?.population_density_km2 },
+  { key: "suitability", unit: "0-100", better: "max", read: (c) => c?.suitability?.total },
+  { key: "european_aqi", unit: "EAQI", better: null, read: (c) => c?.air?.current?.european_aqi },
+  { key: "pm2_5", unit: "ug/m3", better: null, read: (c) => c?.air?.current?.pm2_5 },
+  { key: "pm10", unit: "ug/m3", better: null, read: (c) => c?.air?.current?.pm10 },
+  { key: "nitrogen_dioxide", unit: "ug/m3", better: null, read: (c) => c?.air?.current?.nitrogen_dioxide },
+];
+
+export type CompareIndicator = {
+  key: string;
+  unit: string;
+  better: Better;
+  // Un valor por ciudad, en el mismo orden que `cities`.
+  values: (number | null)[];
+  // Etiquetas de las ciudades con el mejor valor (empates incluidos); vacio si no hay datos o es informativo.
+  winners: string[];
+};
+
+export type CompareRankingRow = {
+  label: string;
+  name: string | null;
+  rank: number;
+  // 0-100: media de la posicion relativa en los indicadores con dato (sin los informativos).
+  score: number | null;
+  indicators_with_data: number;
+  wins: string[];
+};
+
+export type CompareRanking = {
+  indicators: CompareIndicator[];
+  ranking: CompareRankingRow[];
+};
+
+function finiteOrNull(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function computeCompareRanking(cities: { label: string; name: string | null; city: CompareCityData }[]): CompareRanking {
+  const indicators: CompareIndicator[] = INDICATORS.map((def) => {
+    const values = cities.map(({ city }) => finiteOrNull(def.read(city)));
+    const present = values.filter((v): v is number => v !== null);
+    const best =
+      present.length && def.better ? (def.better === "max" ? Math.max(...present) : Math.min(...present)) : null;
+    return {
+      key: def.key,
+      unit: def.unit,
+      better: def.better,
+      values,
+      winners: best === null ? [] : cities.filter((_, i) => values[i] === best).map((c) => c.label),
+    };
+  });
+
+  const partial = cities.map((entry, i) => {
+    const positions: number[] = [];
+    for (const indicator of indicators) {
+      const value = indicator.values[i];
+      if (!indicator.better) continue;
+      const present = indicator.values.filter((v): v is number => v !== null);
+      if (value === null || present.length < 2) continue;
+      const min = Math.min(...present);
+      const max = Math.max(...present);
+      if (max === min) {
+        positions.push(1);
+        continue;
+      }
+      const relative = (value - min) / (max - min);
+      positions.push(indicator.better === "max" ? relative : 1 - relative);
+    }
+    const score = positions.length
+      ? Math.round((positions.reduce((acc, p) => acc + p, 0) / positions.length) * 100)
+      : null;
+    return {
+      label: entry.label,
+      name: entry.name,
+      score,
+      indicators_with_data: positions.length,
+      wins: indicators.filter((ind) => ind.winners.includes(entry.label)).map((ind) => ind.key),
+    };
+  });
+
+  const sorted = [...partial].sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+  const ranking = sorted.map((row) => ({
+    ...row,
+    // Empates comparten posicion (1, 1, 3...).
+    rank: 1 + sorted.filter((other) => (other.score ?? -1) > (row.score ?? -1)).length,
+  }));
+
+  return { indicators, ranking };
+}
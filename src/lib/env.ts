@@ -1,26 +1,97 @@
 import { z } from "zod";
 
-const EnvSchema = z.object({
-  OPENAI_API_KEY: z.string().min(1),
-  OPENAI_MODEL: z.string().min(1),
-  APP_USER_AGENT: z.string().min(10),
+const EnvSchema = z
+  .object({
+    // Proveedor LLM: "openai" (API hospedada), "openai-compatible" (llama.cpp, Ollama, vLLM...)
+    // o "scripted" (respuestas deterministas para tests y demos sin red).
+    LLM_PROVIDER: z.enum(["openai", "openai-compatible", "scripted"]).default("openai"),
+    OPENAI_API_KEY: z.string().min(1).optional(),
+    OPENAI_MODEL: z.string().min(1).optional(),
+    APP_USER_AGENT: z.string().min(10),
 
-  // Opcionales (NO obligatorias en .env.local)
-  NOMINATIM_BASE_URL: z.string().optional(),
-  OVERPASS_INTERPRETER_URL: z.string().optional(),
-  IGN_FEATURES_BASE_URL: z.string().optional(),
-  COPERNICUS_EFAS_WMS_URL: z.string().optional(),
-});
+    // Opcionales (NO obligatorias en .env.local)
+    LLM_BASE_URL: z.string().optional(),
+    LLM_API_KEY: z.string().optional(),
+    LLM_MODEL: z.string().optional(),
+    LLM_SCRIPT_PATH: z.string().optional(),
+    NOMINATIM_BASE_URL: z.string().optional(),
+    NOMINATIM_MIN_INTERVAL_MS: z.coerce.number().int().min(0).optional(),
+    OVERPASS_INTERPRETER_URL: z.string().optional(),
+    IGN_FEATURES_BASE_URL: z.string().optional(),
+    COPERNICUS_EFAS_WMS_URL: z.string().optional(),
+    GEODATA_FIXTURES: z.enum(["off", "record", "replay", "strict"]).optional(),
+    GEODATA_FIXTURES_DIR: z.string().optional(),
+    CACHE_BACKEND: z.enum(["memory", "file"]).optional(),
+    CACHE_DIR: z.string().optional(),
+    CACHE_MAX_ENTRIES: z.coerce.number().int().min(10).optional(),
+    // Carpeta donde se guardan los trabajos en segundo plano (ver lib/jobs).
+    JOBS_DIR: z.string().optional(),
+    JOBS_CONCURRENCY: z.coerce.number().int().min(1).optional(),
+    // Carpeta de los informes guardados con enlace permanente (ver lib/reports).
+    REPORTS_DIR: z.string().optional(),
+    RATE_LIMIT_STORE: z.enum(["memory", "redis-rest"]).optional(),
+    RATE_LIMIT_REDIS_URL: z.string().optional(),
+    RATE_LIMIT_REDIS_TOKEN: z.string().optional(),
+    RATE_LIMIT_LLM_PER_MIN: z.coerce.number().int().min(1).optional(),
+    RATE_LIMIT_GEODATA_PER_MIN: z.coerce.number().int().min(1).optional(),
+    RATE_LIMIT_HEATMAP_PER_MIN: z.coerce.number().int().min(1).optional(),
+    RATE_LIMIT_POLL_PER_MIN: z.coerce.number().int().min(1).optional(),
+    // Proxies de confianza delante de la app (ver clientId en lib/rate-limit).
+    TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).max(10).optional(),
+    // Verificacion de cifras/URLs del informe: "flag" las anota, "regenerate" pide una correccion.
+    GROUNDING_MODE: z.enum(["off", "flag", "regenerate"]).optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.LLM_PROVIDER === "openai") {
+      if (!value.OPENAI_API_KEY) {
+        ctx.addIssue({ code: "custom", path: ["OPENAI_API_KEY"], message: "Requerida con LLM_PROVIDER=openai" });
+      }
+      if (!value.OPENAI_MODEL) {
+        ctx.addIssue({ code: "custom", path: ["OPENAI_MODEL"], message: "Requerida con LLM_PROVIDER=openai" });
+      }
+    }
+    if (value.LLM_PROVIDER === "openai-compatible") {
+      if (!value.LLM_BASE_URL) {
+        ctx.addIssue({ code: "custom", path: ["LLM_BASE_URL"], message: "Requerida con LLM_PROVIDER=openai-compatible" });
+      }
+      if (!value.LLM_MODEL && !value.OPENAI_MODEL) {
+        ctx.addIssue({ code: "custom", path: ["LLM_MODEL"], message: "Requerida con LLM_PROVIDER=openai-compatible" });
+      }
+    }
+  });
 
 const rawEnv = {
+  LLM_PROVIDER: process.env.LLM_PROVIDER || undefined,
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
   OPENAI_MODEL: process.env.OPENAI_MODEL,
   APP_USER_AGENT: process.env.APP_USER_AGENT,
 
+  LLM_BASE_URL: process.env.LLM_BASE_URL,
+  LLM_API_KEY: process.env.LLM_API_KEY,
+  LLM_MODEL: process.env.LLM_MODEL,
+  LLM_SCRIPT_PATH: process.env.LLM_SCRIPT_PATH,
   NOMINATIM_BASE_URL: process.env.NOMINATIM_BASE_URL,
+  NOMINATIM_MIN_INTERVAL_MS: process.env.NOMINATIM_MIN_INTERVAL_MS || undefined,
   OVERPASS_INTERPRETER_URL: process.env.OVERPASS_INTERPRETER_URL,
   IGN_FEATURES_BASE_URL: process.env.IGN_FEATURES_BASE_URL,
   COPERNICUS_EFAS_WMS_URL: process.env.COPERNICUS_EFAS_WMS_URL,
+  GEODATA_FIXTURES: process.env.GEODATA_FIXTURES || undefined,
+  GEODATA_FIXTURES_DIR: process.env.GEODATA_FIXTURES_DIR,
+  CACHE_BACKEND: process.env.CACHE_BACKEND || undefined,
+  CACHE_DIR: process.env.CACHE_DIR,
+  CACHE_MAX_ENTRIES: process.env.CACHE_MAX_ENTRIES || undefined,
+  JOBS_DIR: process.env.JOBS_DIR,
+  JOBS_CONCURRENCY: process.env.JOBS_CONCURRENCY || undefined,
+  REPORTS_DIR: process.env.REPORTS_DIR,
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || undefined,
+  RATE_LIMIT_REDIS_URL: process.env.RATE_LIMIT_REDIS_URL,
+  RATE_LIMIT_REDIS_TOKEN: process.env.RATE_LIMIT_REDIS_TOKEN,
+  RATE_LIMIT_LLM_PER_MIN: process.env.RATE_LIMIT_LLM_PER_MIN || undefined,
+  RATE_LIMIT_GEODATA_PER_MIN: process.env.RATE_LIMIT_GEODATA_PER_MIN || undefined,
+  RATE_LIMIT_HEATMAP_PER_MIN: process.env.RATE_LIMIT_HEATMAP_PER_MIN || undefined,
+  RATE_LIMIT_POLL_PER_MIN: process.env.RATE_LIMIT_POLL_PER_MIN || undefined,
+  TRUSTED_PROXY_HOPS: process.env.TRUSTED_PROXY_HOPS || undefined,
+  GROUNDING_MODE: process.env.GROUNDING_MODE || undefined,
 };
 
 const parsed = EnvSchema.safeParse(rawEnv);
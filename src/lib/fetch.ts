@@ -1,13 +1,15 @@
+import { fetchWithFixtures } from "@/lib/fixtures";
+
 export async function fetchWithTimeout(input: RequestInfo | URL, init: RequestInit & { timeoutMs?: number } = {}) {
     const { timeoutMs = 12000, ...rest } = init;
     const controller = new AbortController();
     const t = setTimeout(() => controller.abort(), timeoutMs);
   
     try {
-      const res = await fetch(input, { ...rest, signal: controller.signal, cache: "no-store" });
-      return res;
+      return await fetchWithFixtures(input, rest, () =>
+        fetch(input, { ...rest, signal: controller.signal, cache: "no-store" })
+      );
     } finally {
       clearTimeout(t);
     }
   }
-  
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "@/lib/env";
+
+export type FixtureMode = "off" | "record" | "replay" | "strict";
+
+type FixtureFile = {
+  request: { method: string; url: string; body: string | null };
+  recorded_at: string;
+  response: { status: number; status_text: string; headers: Record<string, string>; body: string };
+};
+
+// Parametros que cambian con la fecha actual (ventanas de "ultimos N anos").
+// Se neutralizan en la clave para que una grabacion siga valiendo otro dia.
+const VOLATILE_PARAMS = new Set(["start", "end", "start_date", "end_date"]);
+
+export function fixtureMode(): FixtureMode {
+  return env.GEODATA_FIXTURES ?? "off";
+}
+
+function fixturesDir() {
+  return path.resolve(process.cwd(), env.GEODATA_FIXTURES_DIR ?? "fixtures/geodata");
+}
+
+function normalizeParams(params: URLSearchParams) {
+  const entries = [...params.entries()].map(([k, v]) => [k, VOLATILE_PARAMS.has(k) ? "*" : v] as const);
+  entries.sort(([a, va], [b, vb]) => a.localeCompare(b) || va.localeCompare(vb));
+  return entries.map(([k, v]) => `${k}=${v}`).join("&");
+}
+
+function normalizeBody(body: RequestInit["body"]) {
+  if (body === undefined || body === null) return null;
+  if (typeof body === "string") {
+    // Overpass recibe `data=<query>` como form-urlencoded: se compara la query sin espacios sobrantes.
+    if (body.includes("=")) {
+      const params = new URLSearchParams(body);
+      for (const [k, v] of params.entries()) params.set(k, v.replace(/\s+/g, " ").trim());
+      return normalizeParams(params);
+    }
+    return body.trim();
+  }
+  if (body instanceof URLSearchParams) return normalizeParams(body);
+  return String(body);
+}
+
+export function normalizeRequest(input: RequestInfo | URL, init: RequestInit = {}) {
+  const url = new URL(typeof input === "string" || input instanceof URL ? input : input.url);
+  const method = (init.method ?? "GET").toUpperCase();
+  const query = normalizeParams(url.searchParams);
+  const normalizedUrl = `${url.protocol}//${url.host.toLowerCase()}${url.pathname}${query ? `?${query}` : ""}`;
+  return { method, url: normalizedUrl, body: normalizeBody(init.body), host: url.host.toLowerCase() };
+}
+
+function fixturePath(request: ReturnType<typeof normalizeRequest>) {
+  const hash = createHash("sha256")
+    .update(`${request.method} ${request.url}\n${request.body ?? ""}`)
+    .digest("hex")
+    .slice(0, 20);
+  return path.join(fixturesDir(), request.host.replace(/[^a-z0-9.-]/g, "_"), `${hash}.json`);
+}
+
+async function readFixture(file: string) {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as FixtureFile;
+  } catch {
+    return null;
+  }
+}
+
+function toResponse(fixture: FixtureFile) {
+  const { status, status_text, headers, body } = fixture.response;
+  const emptyBody = status === 204 || status === 304;
+  return new Response(emptyBody ? null : body, { status, statusText: status_text, headers });
+}
+
+async function recordFixture(file: string, request: ReturnType<typeof normalizeRequest>, res: Response) {
+  const fixture: FixtureFile = {
+    request: { method: request.method, url: request.url, body: request.body },
+    recorded_at: new Date().toISOString(),
+    response: {
+      status: res.status,
+      status_text: res.statusText,
+      headers: Object.fromEntries(res.headers.entries()),
+      body: await res.clone().text(),
+    },
+  };
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+}
+
+// Capa de grabacion/reproduccion para las llamadas a APIs de geodatos.
+// - record: siempre va a red y (re)graba la respuesta.
+// - replay: usa la grabacion si existe; si no, va a red sin grabar.
+// - strict: solo grabaciones; una peticion no grabada es un error.
+export async function fetchWithFixtures(
+  input: RequestInfo | URL,
+  init: RequestInit,
+  doFetch: () => Promise<Response>
+) {
+  const mode = fixtureMode();
+  if (mode === "off") return doFetch();
+
+  const request = normalizeRequest(input, init);
+  const file = fixturePath(request);
+
+  if (mode === "replay" || mode === "strict") {
+    const fixture = await readFixture(file);
+    if (fixture) return toResponse(fixture);
+    if (mode === "strict") {
+      throw new Error(`Fixture no grabada (modo strict): ${request.method} ${request.url}`);
+    }
+    return doFetch();
+  }
+
+  const res = await doFetch();
+  await recordFixture(file, request, res);
+  return res;
+}
@@ -23,4 +23,90 @@ export function haversineMeters(a: { lat: number; lon: number }, b: { lat: numbe
     const maxLon = lon + deltaDeg;
     return { minLat, minLon, maxLat, maxLon };
   }
-  
\ No newline at end of file
+  
+  export type LatLon = { lat: number; lon: number };
+
+  // Anillo exterior sin repetir el primer punto al final.
+  export function openRing(ring: LatLon[]) {
+    if (ring.length > 1) {
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if (first.lat === last.lat && first.lon === last.lon) return ring.slice(0, -1);
+    }
+    return ring;
+  }
+
+  export function polygonAreaM2(ring: LatLon[]) {
+    // Area esferica (Chamberlain & Duquette), suficiente para parcelas y municipios.
+    const R = 6371000;
+    const toRad = (x: number) => (x * Math.PI) / 180;
+    const pts = openRing(ring);
+    if (pts.length < 3) return 0;
+
+    let sum = 0;
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[i];
+      const b = pts[(i + 1) % pts.length];
+      sum += toRad(b.lon - a.lon) * (2 + Math.sin(toRad(a.lat)) + Math.sin(toRad(b.lat)));
+    }
+    return Math.abs((sum * R * R) / 2);
+  }
+
+  export function polygonPerimeterM(ring: LatLon[]) {
+    const pts = openRing(ring);
+    if (pts.length < 2) return 0;
+    let total = 0;
+    for (let i = 0; i < pts.length; i++) {
+      total += haversineMeters(pts[i], pts[(i + 1) % pts.length]);
+    }
+    return total;
+  }
+
+  export function polygonCentroid(ring: LatLon[]): LatLon {
+    const pts = openRing(ring);
+    // Centroide plano (lon/lat); con degenerados se cae a la media de vertices.
+    let area = 0;
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[i];
+      const b = pts[(i + 1) % pts.length];
+      const cross = a.lon * b.lat - b.lon * a.lat;
+      area += cross;
+      cx += (a.lon + b.lon) * cross;
+      cy += (a.lat + b.lat) * cross;
+    }
+    if (Math.abs(area) < 1e-12) {
+      const n = pts.length || 1;
+      return {
+        lat: pts.reduce((acc, p) => acc + p.lat, 0) / n,
+        lon: pts.reduce((acc, p) => acc + p.lon, 0) / n,
+      };
+    }
+    return { lat: cy / (3 * area), lon: cx / (3 * area) };
+  }
+
+  export function polygonBbox(ring: LatLon[]) {
+    const lats = ring.map((p) => p.lat);
+    const lons = ring.map((p) => p.lon);
+    return {
+      minLat: Math.min(...lats),
+      minLon: Math.min(...lons),
+      maxLat: Math.max(...lats),
+      maxLon: Math.max(...lons),
+    };
+  }
+
+  export function pointInPolygon(point: LatLon, ring: LatLon[]) {
+    const pts = openRing(ring);
+    let inside = false;
+    for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+      const a = pts[i];
+      const b = pts[j];
+      const crosses =
+        a.lat > point.lat !== b.lat > point.lat &&
+        point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon;
+      if (crosses) inside = !inside;
+    }
+    return inside;
+  }
@@ -0,0 +1,280 @@
+import { env } from "@/lib/env";
+import type { SourceRef } from "@/lib/types";
+
+// Verificador posterior a la generacion: toda cifra, URL y fuente con nombre del
+// informe debe poder trazarse a las salidas de las tools o a la bibliografia de la ruta.
+
+export type GroundingClaim = {
+  kind: "number" | "url" | "source";
+  claim: string;
+  // Linea del informe donde aparece, recortada.
+  context: string;
+};
+
+export type GroundingResult = {
+  checked: number;
+  unverified: GroundingClaim[];
+  regenerated: boolean;
+};
+
+type GroundingInput = {
+  markdown: string;
+  // Salidas de tools (cualquier JSON); se recorren sus URLs y las cifras de los campos de valores.
+  evidence: unknown;
+  sources: SourceRef[];
+  // Cifras que vienen de la peticion o del prompt (radio, anos del historico...).
+  allowed?: number[];
+};
+
+const URL_RE = /https?:\/\/[^\s)\]>"'`]+/g;
+const NUMBER_RE = /\d[\d.,]*\d|\d/g;
+
+// Solo se toman cifras de campos con valores medidos: los ids de OSM/Wikidata, las
+// coordenadas, los codigos postales o las etiquetas de OSM no respaldan nada. Un
+// campo de la lista marca tambien todo lo que cuelga de el (p. ej. `counts`).
+const VALUE_KEY_RE =
+  /(_m|_km|_m2|_ha|_km2|_pct|_min|_c|_mm|_cm|_kmh|_ratio)$|^(days_.*|.*_total|total|total_.*|count|counts|candidates|population|score|weight|weights|inputs|detail|rank|values|pct|days|years|minutes|services|current|parsed|summary|landuse_breakdown|events_inside_area|samples_with_data|raw_count|indicators_with_data)$/;
+// Dentro de un campo de valores se saltan igualmente ids, coordenadas y metadatos.
+const SKIPPED_KEY_RE =
+  /^(id|fid|gml:id|osm|osm_id|osm_type|place_id|wikidata_id|lat|lon|latitude|longitude|x|y|centroid|coords|coordinates|bbox|geojson|geometry|polygon|route|srs|crs|epsg|time|interval|timezone|version|numberMatched|numberReturned|timeStamp|xmlns.*)$/i;
+// De las fechas solo cuenta el ano.
+const DATE_KEY_RE = /^(start|end|date_start|date_end|population_date)$/;
+
+// Conversiones que admite cada unidad segun el sufijo del campo (m -> km, m2 -> ha/km2...).
+// Las densidades (hab/km2) y el resto de campos solo se comparan tal cual.
+const UNIT_CONVERSIONS: [RegExp, number[]][] = [
+  [/density/, [1]],
+  [/_m$/, [1, 1 / 1000]],
+  [/_km$/, [1, 1000]],
+  [/_m2$/, [1, 1 / 10_000, 1 / 1_000_000]],
+  [/_ha$/, [1, 10_000, 1 / 100]],
+  [/_km2$/, [1, 100, 1_000_000]],
+];
+
+// "12 mil", "3,2 millones", "12 thousand", "1,5 milions"... en los idiomas de informe.
+const SCALE_WORDS: [RegExp, number][] = [
+  [/^\s*(mil|mille|thousand)(?!\p{L})/u, 1000],
+  [/^\s*(mill[oó]n(es)?|milions?|milió|millions?|million)(?!\p{L})/u, 1_000_000],
+];
+
+// Organismos y proveedores de datos que el modelo suele citar ("segun el INE"). Se detecta
+// cualquier alias en el informe y basta con que uno del grupo aparezca en los datos.
+// Las siglas (todo mayusculas) se buscan distinguiendo mayusculas en el informe.
+const KNOWN_SOURCES: string[][] = [
+  ["INE", "Instituto Nacional de Estadistica", "Instituto Nacional de Estadística"],
+  ["Idescat", "Institut d'Estadística de Catalunya"],
+  ["INSEE"],
+  ["Eurostat"],
+  ["Catastro", "Cadastre"],
+  ["IGN", "Instituto Geografico Nacional", "Instituto Geográfico Nacional", "CNIG"],
+  ["OpenStreetMap", "OSM", "Overpass", "Nominatim"],
+  ["Wikidata", "Wikipedia"],
+  ["Copernicus", "EFAS", "CEMS"],
+  ["Open-Meteo", "Open Meteo"],
+  ["NASA", "EONET"],
+  ["AEMET"],
+  ["MITECO", "SNCZI", "Ministerio para la Transicion Ecologica", "Ministerio para la Transición Ecológica"],
+  ["EEA", "Agencia Europea de Medio Ambiente", "European Environment Agency"],
+  ["OMS", "WHO", "Organizacion Mundial de la Salud", "Organización Mundial de la Salud", "World Health Organization"],
+  ["Corine Land Cover", "CORINE"],
+  ["SIOSE"],
+  ["DGT", "Direccion General de Trafico", "Dirección General de Tráfico"],
+  ["Google Maps", "Google"],
+  ["Idealista"],
+  ["Fotocasa"],
+  ["Banco de Espana", "Banco de España"],
+];
+
+function aliasRegex(alias: string, caseSensitive: boolean) {
+  const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\p{L}\\d])${escaped}(?![\\p{L}\\d])`, caseSensitive ? "u" : "iu");
+}
+
+function isAcronym(alias: string) {
+  return /^[A-Z]{2,6}$/.test(alias);
+}
+
+function trimUrl(url: string) {
+  return url.replace(/[.,;:]+$/, "");
+}
+
+// Devuelve las lecturas posibles de un numero escrito en es/en ("1.234" puede ser 1234 o 1,234).
+function numberCandidates(token: string): { value: number; decimals: number }[] {
+  const grouped = /^\d{1,3}([.,])\d{3}(?:\1\d{3})*$/.exec(token);
+  const out: { value: number; decimals: number }[] = [];
+  if (grouped) {
+    out.push({ value: Number(token.replace(/[.,]/g, "")), decimals: 0 });
+    if (!token.slice(token.indexOf(grouped[1]) + 1).includes(grouped[1])) {
+      out.push({ value: Number(token.replace(",", ".")), decimals: 3 });
+    }
+    return out;
+  }
+
+  const lastSep = Math.max(token.lastIndexOf("."), token.lastIndexOf(","));
+  if (lastSep === -1) return [{ value: Number(token), decimals: 0 }];
+  const intPart = token.slice(0, lastSep).replace(/[.,]/g, "");
+  const decPart = token.slice(lastSep + 1);
+  const value = Number(`${intPart}.${decPart}`);
+  return Number.isFinite(value) ? [{ value, decimals: decPart.length }] : [];
+}
+
+type EvidenceSink = { numbers: Set<number>; urls: Set<string>; texts: string[] };
+
+function addNumber(sink: EvidenceSink, value: number, unit: number[]) {
+  for (const factor of unit) sink.numbers.add(Math.abs(value) * factor);
+}
+
+// Todas las URLs y textos (para las fuentes citadas por nombre); numeros solo bajo
+// campos de valores. `unit` son las conversiones del campo con unidad mas cercano
+// (`nearest_m.schools` va en metros).
+function collectEvidence(value: unknown, sink: EvidenceSink, key = "", numeric = false, unit = [1], depth = 0) {
+  if (depth > 12 || value == null) return;
+  const skipped = SKIPPED_KEY_RE.test(key);
+  const counts = numeric && !skipped;
+  if (typeof value === "number") {
+    if (counts && Number.isFinite(value)) addNumber(sink, value, unit);
+    return;
+  }
+  if (typeof value === "string") {
+    sink.texts.push(value);
+    for (const url of value.match(URL_RE) ?? []) sink.urls.add(trimUrl(url));
+    if (DATE_KEY_RE.test(key)) {
+      const year = /^\d{4}/.exec(value);
+      if (year) sink.numbers.add(Number(year[0]));
+      return;
+    }
+    if (!counts) return;
+    for (const token of value.replace(URL_RE, " ").match(NUMBER_RE) ?? []) {
+      for (const c of numberCandidates(token)) addNumber(sink, c.value, unit);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) collectEvidence(item, sink, key, counts, unit, depth + 1);
+    return;
+  }
+  if (typeof value === "object") {
+    for (const [child, item] of Object.entries(value as Record<string, unknown>)) {
+      const childUnit = UNIT_CONVERSIONS.find(([re]) => re.test(child))?.[1] ?? unit;
+      collectEvidence(item, sink, child, counts || VALUE_KEY_RE.test(child), childUnit, depth + 1);
+    }
+  }
+}
+
+function isSupported(candidate: { value: number; decimals: number }, evidence: number[]) {
+  const tolerance = 0.5 * 10 ** -candidate.decimals + 1e-9;
+  return evidence.some((v) => {
+    if (Math.abs(v - candidate.value) <= tolerance) return true;
+    // Redondeos tipo "unos 12.000 habitantes" sobre 12.043.
+    return candidate.value >= 100 && Math.abs(v - candidate.value) / candidate.value <= 0.01;
+  });
+}
+
+function shorten(line: string) {
+  const clean = line.trim();
+  return clean.length > 140 ? `${clean.slice(0, 137)}...` : clean;
+}
+
+export function verifyGrounding(input: GroundingInput): Omit<GroundingResult, "regenerated"> {
+  const sink: EvidenceSink = { numbers: new Set((input.allowed ?? []).map((n) => Math.abs(n))), urls: new Set(), texts: [] };
+  collectEvidence(input.evidence, sink);
+  const { urls, texts } = sink;
+  const evidence = [...sink.numbers];
+  const sourceUrls = input.sources.map((s) => trimUrl(s.url));
+  // Nombres y URLs de las salidas y de la bibliografia, para las fuentes citadas por nombre.
+  const sourceText = [...texts, ...input.sources.flatMap((s) => [s.name, s.url])].join("\n");
+  const citedSources = KNOWN_SOURCES.filter((group) => group.some((alias) => aliasRegex(alias, false).test(sourceText)));
+
+  const unverified: GroundingClaim[] = [];
+  const seen = new Set<string>();
+  let checked = 0;
+
+  for (const line of input.markdown.split("\n")) {
+    // Los encabezados son fijos del prompt ("ultimos 5 anos") y no se verifican.
+    if (/^\s*#/.test(line) || /^\s*\|?[\s:|-]+\|?\s*$/.test(line)) continue;
+
+    for (const raw of line.match(URL_RE) ?? []) {
+      const url = trimUrl(raw);
+      checked++;
+      const known = urls.has(url) || sourceUrls.some((s) => url.startsWith(s) || s.startsWith(url));
+      if (!known && !seen.has(`url:${url}`)) {
+        seen.add(`url:${url}`);
+        unverified.push({ kind: "url", claim: url, context: shorten(line) });
+      }
+    }
+
+    const text = line.replace(URL_RE, " ");
+    for (const group of KNOWN_SOURCES) {
+      const named = group.find((alias) => aliasRegex(alias, isAcronym(alias)).test(text));
+      if (!named) continue;
+      checked++;
+      if (citedSources.includes(group) || seen.has(`src:${group[0]}`)) continue;
+      seen.add(`src:${group[0]}`);
+      unverified.push({ kind: "source", claim: named, context: shorten(line) });
+    }
+
+    for (const match of text.matchAll(NUMBER_RE)) {
+      const token = match[0];
+      const before = text[match.index - 1] ?? "";
+      // PM2.5, NO2, Q12345... son identificadores, no cifras.
+      if (/[\p{L}_]/u.test(before)) continue;
+      const after = text.slice(match.index + token.length, match.index + token.length + 12).toLowerCase();
+      const candidates = numberCandidates(token);
+      const scale = SCALE_WORDS.find(([re]) => re.test(after));
+      if (scale) {
+        candidates.push(...candidates.map((c) => ({ value: c.value * scale[1], decimals: 0 })));
+      }
+      if (!candidates.length) continue;
+      checked++;
+      if (candidates.some((c) => isSupported(c, evidence))) continue;
+      const key = `num:${token}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      unverified.push({ kind: "number", claim: token, context: shorten(line) });
+    }
+  }
+
+  return { checked, unverified };
+}
+
+export function groundingMode() {
+  return env.GROUNDING_MODE ?? "flag";
+}
+
+export function describeUnverified(claims: GroundingClaim[]) {
+  return claims.map((c) =>
+    c.kind === "url"
+      ? `URL no verificada (no esta en las fuentes): ${c.claim}`
+      : c.kind === "source"
+        ? `Fuente citada que no aparece en los datos de las tools: "${c.claim}" en "${c.context}"`
+        : `Cifra no verificada en los datos de las tools: "${c.claim}" en "${c.context}"`
+  );
+}
+
+export function groundingFeedback(claims: GroundingClaim[]) {
+  return (
+    "Estas cifras, URLs o fuentes del informe no aparecen en los datos de las tools ni en la bibliografia permitida: " +
+    claims.map((c) => `"${c.claim}"`).join(", ") +
+    ". Corrigelas usando solo los datos proporcionados o eliminalas (no atribuyas datos a fuentes que no se han consultado), y devuelve el informe completo con el mismo formato."
+  );
+}
+
+// Verifica el informe y, en modo "regenerate", pide una version corregida una vez.
+// `regenerate` recibe el feedback y devuelve el nuevo Markdown (o null si no se pudo).
+// Con GROUNDING_MODE=off no se verifica y `grounding` es null.
+export async function groundReport(
+  input: GroundingInput,
+  regenerate?: (feedback: string) => Promise<string | null>
+): Promise<{ markdown: string; grounding: GroundingResult | null }> {
+  const mode = groundingMode();
+  if (mode === "off") return { markdown: input.markdown, grounding: null };
+
+  const first = verifyGrounding(input);
+  if (!first.unverified.length || !regenerate || mode !== "regenerate") {
+    return { markdown: input.markdown, grounding: { ...first, regenerated: false } };
+  }
+
+  const next = await regenerate(groundingFeedback(first.unverified));
+  if (!next) return { markdown: input.markdown, grounding: { ...first, regenerated: false } };
+  return { markdown: next, grounding: { ...verifyGrounding({ ...input, markdown: next }), regenerated: true } };
+}
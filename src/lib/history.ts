@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { llm, type LlmMessageParam } from "@/lib/llm";
+import { saveReport } from "@/lib/reports";
+
+import { cachedTools } from "@/lib/tools/cached";
+import { describeStaleCache, type CacheMeta } from "@/lib/cache";
+import { ReportFormatSchema, writeStructuredReport, type HistoryReport } from "@/lib/structured-report";
+import { describeUnverified, groundReport } from "@/lib/grounding";
+import { AreaGeoJsonSchema, summarizeArea, toAreaOfInterest } from "@/lib/area";
+import { DEFAULT_LOCALE, FIXED_HEADINGS, LocaleSchema, hasHeadings, historyHeadings, languageRule, type Locale } from "@/lib/i18n";
+import type { HistoryResponse } from "@/lib/types";
+
+export const HistoryBodySchema = z.object({
+  address: z.string().nullable().optional(),
+  lat: z.number().nullable().optional(),
+  lon: z.number().nullable().optional(),
+  area: AreaGeoJsonSchema.nullable().optional(),
+  report_format: ReportFormatSchema.optional(),
+  locale: LocaleSchema.optional(),
+});
+
+const SOURCES = [
+  { name: "Nominatim (OSM)", url: "https://nominatim.org/release-docs/latest/develop/overview/" },
+  { name: "Open-Meteo Archive", url: "https://open-meteo.com/en/docs/historical-weather-api" },
+  { name: "NASA EONET", url: "https://eonet.gsfc.nasa.gov/docs/v3" },
+];
+
+function hasRequiredHeadings(report: string, locale: Locale) {
+  return hasHeadings(report, historyHeadings(locale));
+}
+
+function systemPrompt(locale: Locale) {
+  const fixed = FIXED_HEADINGS[locale];
+  return `
+Eres un analista GIS con enfoque historico (ultimos 5 anos).
+REGLAS DURAS:
+- Debes usar SOLO los datos proporcionados.
+- No inventes datos ni eventos.
+- Si no hay registros, indicalo claramente en "${fixed.limitations}".
+- Usa los datos de weather.summary para temperatura y lluvias.
+- Usa events (NASA EONET) para incendios, inundaciones y otros peligros.
+- Cita la fuente con su URL en "${fixed.sources}".
+${languageRule(locale)}
+
+Devuelve el informe en Markdown con estas secciones exactas:
+${historyHeadings(locale).map((h) => `## ${h}`).join("\n")}
+
+Bibliografia permitida (usa solo estas):
+${SOURCES.map((s) => `- ${s.name}: ${s.url}`).join("\n")}
+`.trim();
+}
+
+export type HistoryBody = z.infer<typeof HistoryBodySchema>;
+export type HistoryResult = { status: number; payload: HistoryResponse };
+
+export async function runHistory(body: HistoryBody): Promise<HistoryResult> {
+  try {
+    const locale = body.locale ?? DEFAULT_LOCALE;
+    let area = null;
+    if (body.area) {
+      try {
+        area = toAreaOfInterest(body.area);
+      } catch (e: any) {
+        return { status: 400, payload: { ok: false, error: e?.message ?? "Area invalida" } };
+      }
+      body = { ...body, lat: area.centroid.lat, lon: area.centroid.lon };
+    }
+    const hasCoords = typeof body.lat === "number" && typeof body.lon === "number";
+    const hasAddress = typeof body.address === "string" && body.address.trim().length > 0;
+
+    if (!hasCoords && !hasAddress) {
+      return { status: 400, payload: { ok: false, error: "Debes enviar address o lat/lon" } };
+    }
+
+    let coords: NonNullable<HistoryResponse["coords"]> | null = hasCoords ? { lat: body.lat!, lon: body.lon!, display_name: null } : null;
+    const limitations: string[] = [];
+    const cache: (CacheMeta & { tool: string })[] = [];
+    const noteCache = (tool: string, meta: CacheMeta) => {
+      cache.push({ tool, ...meta });
+      const stale = describeStaleCache(tool, meta);
+      if (stale) limitations.push(stale);
+    };
+
+    if (!coords) {
+      const { value: geo, cache: geoCache } = await cachedTools.buscarCoordenadas(body.address!, "es", 1, locale);
+      noteCache("buscarCoordenadas", geoCache);
+      if (!geo?.found || typeof geo.lat !== "number" || typeof geo.lon !== "number") {
+        return {
+          status: 422,
+          payload: { ok: false, error: "No se pudo geocodificar la direccion. Verifica el texto ingresado." }
+        };
+      }
+      coords = {
+        lat: geo.lat,
+        lon: geo.lon,
+        display_name: geo.display_name ?? null,
+        address: geo.address ?? null
+      };
+    }
+
+    const { value: reverse, cache: reverseCache } = await cachedTools.reverseGeocode(coords.lat, coords.lon, 16, locale);
+    noteCache("reverseGeocode", reverseCache);
+    if (reverse?.ok) {
+      coords.display_name = reverse.display_name ?? coords.display_name ?? null;
+      coords.address = reverse.address ?? coords.address ?? null;
+    } else {
+      limitations.push("reverseGeocode: no se pudo obtener direccion cercana.");
+    }
+
+    const { value: weather, cache: weatherCache } = await cachedTools.historicalWeather(coords.lat, coords.lon, 5);
+    noteCache("historicalWeather", weatherCache);
+    if (!weather?.ok) limitations.push("Clima: no se pudo obtener historico de Open-Meteo.");
+
+    const { value: events, cache: eventsCache } = await cachedTools.historicalEvents(coords.lat, coords.lon, 5, 1.0, area);
+    noteCache("historicalEvents", eventsCache);
+    if (!events?.ok) limitations.push("EONET: no se pudieron consultar eventos historicos.");
+    if (events?.ok && events.total_events === 0) limitations.push("EONET: sin eventos registrados en el area.");
+
+    const messages: LlmMessageParam[] = [
+      { role: "system", content: systemPrompt(locale) },
+      {
+        role: "user",
+        content: [
+          `Coordenadas: ${coords.lat}, ${coords.lon}`,
+          `Zona: ${coords.display_name ?? "Sin nombre"}`,
+          ...(area ? [`Area dibujada (usa estos datos, no "alrededor de un punto"): ${JSON.stringify(summarizeArea(area))}`] : []),
+          `Datos (JSON):`,
+          JSON.stringify({ coords, reverse, weather, events })
+        ].join("\n")
+      },
+    ];
+
+    let report = "";
+    let structured: HistoryReport | null = null;
+    if (body.report_format === "structured") {
+      const written = await writeStructuredReport("history", messages, { locale });
+      if (written.ok) {
+        structured = written.report;
+        report = written.markdown;
+      } else {
+        limitations.push(`Informe estructurado no valido (${written.error}); se entrega solo en Markdown.`);
+      }
+    }
+    for (let attempt = 0; !structured && attempt < 2; attempt++) {
+      const completion = await llm.complete({
+        messages,
+        temperature: 0.2,
+      });
+      report = completion.content ?? "";
+      if (hasRequiredHeadings(report, locale)) break;
+      messages.push({
+        role: "user",
+        content: "El informe no cumple el formato. Devuelve SOLO el informe con las secciones exactas requeridas."
+      });
+    }
+
+    const { markdown, grounding } = await groundReport(
+      { markdown: report, evidence: { coords, reverse, weather, events, area: area ? summarizeArea(area) : null }, sources: SOURCES, allowed: [5] },
+      async (feedback) => {
+        const retry: LlmMessageParam[] = [...messages, { role: "assistant", content: report }, { role: "user", content: feedback }];
+        if (structured) {
+          const written = await writeStructuredReport("history", retry, { locale });
+          if (!written.ok) return null;
+          structured = written.report;
+          return written.markdown;
+        }
+        const completion = await llm.complete({ messages: retry, temperature: 0.2 });
+        return hasRequiredHeadings(completion.content ?? "", locale) ? completion.content : null;
+      }
+    );
+    if (grounding?.unverified.length) limitations.push(...describeUnverified(grounding.unverified));
+
+    const payload: HistoryResponse = {
+      ok: true,
+      coords,
+      reverse,
+      weather,
+      events,
+      report_markdown: markdown,
+      report: structured,
+      grounding,
+      sources: SOURCES,
+      limitations: limitations.length ? limitations : ["Sin incidencias destacables en los datos consultados."],
+      debug: { cache },
+    };
+    payload.report_id = await saveReport("history", body, payload);
+    return { status: 200, payload };
+  } catch (e: any) {
+    return { status: 500, payload: { ok: false, error: e?.message ?? "Error en history" } };
+  }
+}
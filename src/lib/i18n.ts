@@ -0,0 +1,238 @@
+import { z } from "zod";
+
+// Idiomas de los informes y de la interfaz. Los prompts siguen en espanol; solo
+// cambia el idioma de salida y los encabezados exactos que se validan.
+
+export const LOCALES = ["es", "en", "ca", "fr"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const LocaleSchema = z.enum(LOCALES);
+export const DEFAULT_LOCALE: Locale = "es";
+
+export type LocalizedText = Record<Locale, string>;
+
+// Etiquetas BCP 47 para Intl y Nominatim (accept-language).
+export const LOCALE_TAGS: LocalizedText = { es: "es-ES", en: "en-GB", ca: "ca-ES", fr: "fr-FR" };
+
+export const LOCALE_NAMES: LocalizedText = { es: "Espanol", en: "English", ca: "Catala", fr: "Francais" };
+
+const LANGUAGE_IN_PROMPT: LocalizedText = {
+  es: "espanol",
+  en: "ingles (English)",
+  ca: "catalan (catala)",
+  fr: "frances (francais)",
+};
+
+export function resolveLocale(locale: string | null | undefined): Locale {
+  return LOCALES.includes(locale as Locale) ? (locale as Locale) : DEFAULT_LOCALE;
+}
+
+// Regla de idioma para los prompts de sistema.
+export function languageRule(locale: Locale) {
+  return `- Redacta toda la respuesta en ${LANGUAGE_IN_PROMPT[locale]}; usa los encabezados exactamente como se indican.`;
+}
+
+export const FIXED_HEADINGS: Record<Locale, { recommendation: string; sources: string; limitations: string }> = {
+  es: { recommendation: "Recomendacion final", sources: "Fuentes consultadas", limitations: "Limitaciones" },
+  en: { recommendation: "Final recommendation", sources: "Sources consulted", limitations: "Limitations" },
+  ca: { recommendation: "Recomanació final", sources: "Fonts consultades", limitations: "Limitacions" },
+  fr: { recommendation: "Recommandation finale", sources: "Sources consultées", limitations: "Limites" },
+};
+
+export type CompareHeadings = {
+  summary: string;
+  table: string;
+  population: string;
+  area: string;
+  pollution: string;
+  flood: string;
+  other: string;
+  winners: string;
+  // Prefijo de las subsecciones "### Ciudad A - <nombre>".
+  city: string;
+};
+
+export const COMPARE_HEADINGS: Record<Locale, CompareHeadings> = {
+  es: {
+    summary: "Resumen de ciudades",
+    table: "Tabla comparativa",
+    population: "Poblacion",
+    area: "Superficie",
+    pollution: "Contaminacion",
+    flood: "Riesgos de inundacion",
+    other: "Otros indicadores",
+    winners: "Ganadores por indicador",
+    city: "Ciudad",
+  },
+  en: {
+    summary: "City summary",
+    table: "Comparison table",
+    population: "Population",
+    area: "Area",
+    pollution: "Pollution",
+    flood: "Flood risks",
+    other: "Other indicators",
+    winners: "Winners by indicator",
+    city: "City",
+  },
+  ca: {
+    summary: "Resum de ciutats",
+    table: "Taula comparativa",
+    population: "Població",
+    area: "Superfície",
+    pollution: "Contaminació",
+    flood: "Riscos d'inundació",
+    other: "Altres indicadors",
+    winners: "Guanyadors per indicador",
+    city: "Ciutat",
+  },
+  fr: {
+    summary: "Résumé des villes",
+    table: "Tableau comparatif",
+    population: "Population",
+    area: "Superficie",
+    pollution: "Pollution",
+    flood: "Risques d'inondation",
+    other: "Autres indicateurs",
+    winners: "Gagnants par indicateur",
+    city: "Ville",
+  },
+};
+
+export type HistoryHeadings = {
+  summary: string;
+  temperature: string;
+  rain: string;
+  fires: string;
+  floods: string;
+  other: string;
+};
+
+export const HISTORY_HEADINGS: Record<Locale, HistoryHeadings> = {
+  es: {
+    summary: "Resumen de zona",
+    temperature: "Temperatura (ultimos 5 anos)",
+    rain: "Lluvias (ultimos 5 anos)",
+    fires: "Incendios registrados",
+    floods: "Inundaciones registradas",
+    other: "Otros peligros relevantes",
+  },
+  en: {
+    summary: "Area summary",
+    temperature: "Temperature (last 5 years)",
+    rain: "Rainfall (last 5 years)",
+    fires: "Recorded wildfires",
+    floods: "Recorded floods",
+    other: "Other relevant hazards",
+  },
+  ca: {
+    summary: "Resum de la zona",
+    temperature: "Temperatura (últims 5 anys)",
+    rain: "Pluja (últims 5 anys)",
+    fires: "Incendis registrats",
+    floods: "Inundacions registrades",
+    other: "Altres perills rellevants",
+  },
+  fr: {
+    summary: "Résumé de la zone",
+    temperature: "Température (5 dernières années)",
+    rain: "Précipitations (5 dernières années)",
+    fires: "Incendies enregistrés",
+    floods: "Inondations enregistrées",
+    other: "Autres dangers pertinents",
+  },
+};
+
+export function compareHeadings(locale: Locale) {
+  const h = COMPARE_HEADINGS[locale];
+  const fixed = FIXED_HEADINGS[locale];
+  return [h.summary, h.table, h.population, h.area, h.pollution, h.flood, h.other, h.winners, fixed.recommendation, fixed.sources, fixed.limitations];
+}
+
+export function historyHeadings(locale: Locale) {
+  const h = HISTORY_HEADINGS[locale];
+  const fixed = FIXED_HEADINGS[locale];
+  return [h.summary, h.temperature, h.rain, h.fires, h.floods, h.other, fixed.sources, fixed.limitations];
+}
+
+// Etiquetas del Markdown renderizado desde el informe estructurado.
+export const REPORT_LABELS: Record<
+  Locale,
+  {
+    verdict: string;
+    verdicts: Record<"favorable" | "con_reservas" | "desfavorable" | "sin_datos", string>;
+    level: string;
+    levels: Record<"bajo" | "medio" | "alto" | "desconocido", string>;
+    riskLevel: string;
+    source: string;
+    preferredCity: string;
+    noData: string;
+    noLimitations: string;
+  }
+> = {
+  es: {
+    verdict: "Valoracion",
+    verdicts: { favorable: "favorable", con_reservas: "con reservas", desfavorable: "desfavorable", sin_datos: "sin datos" },
+    level: "nivel",
+    levels: { bajo: "bajo", medio: "medio", alto: "alto", desconocido: "desconocido" },
+    riskLevel: "Nivel de riesgo",
+    source: "fuente",
+    preferredCity: "Ciudad preferida",
+    noData: "sin datos",
+    noLimitations: "Sin limitaciones indicadas.",
+  },
+  en: {
+    verdict: "Assessment",
+    verdicts: { favorable: "favourable", con_reservas: "with reservations", desfavorable: "unfavourable", sin_datos: "no data" },
+    level: "level",
+    levels: { bajo: "low", medio: "medium", alto: "high", desconocido: "unknown" },
+    riskLevel: "Risk level",
+    source: "source",
+    preferredCity: "Preferred city",
+    noData: "no data",
+    noLimitations: "No limitations reported.",
+  },
+  ca: {
+    verdict: "Valoració",
+    verdicts: { favorable: "favorable", con_reservas: "amb reserves", desfavorable: "desfavorable", sin_datos: "sense dades" },
+    level: "nivell",
+    levels: { bajo: "baix", medio: "mitjà", alto: "alt", desconocido: "desconegut" },
+    riskLevel: "Nivell de risc",
+    source: "font",
+    preferredCity: "Ciutat preferida",
+    noData: "sense dades",
+    noLimitations: "Sense limitacions indicades.",
+  },
+  fr: {
+    verdict: "Évaluation",
+    verdicts: { favorable: "favorable", con_reservas: "avec réserves", desfavorable: "défavorable", sin_datos: "sans données" },
+    level: "niveau",
+    levels: { bajo: "faible", medio: "moyen", alto: "élevé", desconocido: "inconnu" },
+    riskLevel: "Niveau de risque",
+    source: "source",
+    preferredCity: "Ville préférée",
+    noData: "sans données",
+    noLimitations: "Aucune limite signalée.",
+  },
+};
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Sin tildes ni mayusculas: el modelo a veces acentua "Poblacion" o "Resume".
+function foldText(text: string) {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+export function hasHeadings(report: string, headings: string[]) {
+  if (!report) return false;
+  const folded = foldText(report);
+  return headings.every((heading) => new RegExp(`^##\\s+${escapeRegExp(foldText(heading))}\\s*$`, "m").test(folded));
+}
+
+// Subsecciones "### Ciudad A ..." (no exigen fin de linea: llevan el nombre detras).
+export function hasCitySubheadings(report: string, labels: string[], locale: Locale) {
+  const folded = foldText(report);
+  const city = escapeRegExp(foldText(COMPARE_HEADINGS[locale].city));
+  return labels.every((label) => new RegExp(`^###\\s+${city} ${escapeRegExp(foldText(label))}\\b`, "m").test(folded));
+}
@@ -0,0 +1,85 @@
+import type { JobKind, JobView } from "@/lib/jobs";
+
+// Cliente de /api/jobs para la UI. Los ids de los trabajos sin terminar se
+// guardan en localStorage para volver a engancharse tras recargar la pagina.
+
+const ACTIVE_JOBS_KEY = "geoai_active_jobs";
+const POLL_MS = 1500;
+// Espera maxima entre consultas cuando el servidor responde 429.
+const MAX_BACKOFF_MS = 60_000;
+const FINISHED = new Set<JobView["status"]>(["done", "error", "cancelled", "interrupted"]);
+
+export type { JobKind, JobView };
+
+async function jobFrom(res: Response, url: string): Promise<JobView> {
+  const json = await res.json();
+  if (!res.ok || json?.ok === false) throw new Error(json?.error ?? `Error ${res.status} en ${url}`);
+  return json.job as JobView;
+}
+
+async function request(url: string, init?: RequestInit): Promise<JobView> {
+  return jobFrom(await fetch(url, { cache: "no-store", ...init }), url);
+}
+
+export function createJob(kind: JobKind, input: unknown) {
+  return request("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ kind, input }),
+  });
+}
+
+export function fetchJob(id: string) {
+  return request(`/api/jobs?id=${encodeURIComponent(id)}`);
+}
+
+export function cancelJob(id: string) {
+  return request(`/api/jobs?id=${encodeURIComponent(id)}&action=cancel`, { method: "POST" });
+}
+
+export function retryJob(id: string) {
+  return request(`/api/jobs?id=${encodeURIComponent(id)}&action=retry`, { method: "POST" });
+}
+
+export function isFinished(job: JobView) {
+  return FINISHED.has(job.status);
+}
+
+// Consulta el trabajo hasta que termina; onUpdate recibe cada estado intermedio.
+// Abortar `signal` deja de consultar (el trabajo sigue en el servidor). Un 429 no
+// es un fallo del trabajo: se espera lo que diga Retry-After (o el doble que la
+// vez anterior) y se vuelve a consultar.
+export async function waitForJob(id: string, onUpdate?: (job: JobView) => void, signal?: AbortSignal) {
+  const url = `/api/jobs?id=${encodeURIComponent(id)}`;
+  let delay = POLL_MS;
+  for (;;) {
+    signal?.throwIfAborted();
+    const res = await fetch(url, { cache: "no-store" });
+    signal?.throwIfAborted();
+    if (res.status === 429) {
+      const retryAfterS = Number(res.headers.get("Retry-After"));
+      delay = Math.min(MAX_BACKOFF_MS, retryAfterS > 0 ? retryAfterS * 1000 : delay * 2);
+    } else {
+      const job = await jobFrom(res, url);
+      onUpdate?.(job);
+      if (isFinished(job)) return job;
+      delay = POLL_MS;
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+export function rememberedJobs(): Partial<Record<JobKind, string>> {
+  try {
+    return JSON.parse(localStorage.getItem(ACTIVE_JOBS_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function rememberJob(kind: JobKind, id: string | null) {
+  const jobs = rememberedJobs();
+  if (id) jobs[kind] = id;
+  else delete jobs[kind];
+  localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(jobs));
+}
@@ -0,0 +1,42 @@
+import { AnalyzeBodySchema, runAnalyze } from "@/lib/analyze";
+import { BatchBodySchema, parseBatchInput, runBatch } from "@/lib/batch";
+import { CompareBodySchema, runCompare } from "@/lib/compare-run";
+import { HistoryBodySchema, runHistory } from "@/lib/history";
+import type { JobKind, JobRunner } from "@/lib/jobs";
+
+// Cada tipo de trabajo usa el mismo schema y la misma funcion que su ruta sincrona.
+export const JOB_RUNNERS: Record<JobKind, JobRunner> = {
+  analyze: (input, ctx) => {
+    let done = 0;
+    return runAnalyze(AnalyzeBodySchema.parse(input), {
+      onEvent: (event) => {
+        if (event.type === "tool_start") ctx.progress({ message: event.name });
+        if (event.type === "tool_end") ctx.progress({ done: ++done });
+      },
+    });
+  },
+  compare: (input, ctx) => {
+    const body = CompareBodySchema.parse(input);
+    ctx.progress({ total: body.cities.length });
+    return runCompare(body, { onCityDone: (done, total) => ctx.progress({ done, total }) });
+  },
+  history: (input) => runHistory(HistoryBodySchema.parse(input)),
+  batch: (input, ctx) => runBatch(BatchBodySchema.parse(input), ctx),
+};
+
+// Valida la entrada antes de encolar: los errores de formato se devuelven con la peticion, no en el trabajo.
+export function parseJobInput(kind: JobKind, input: unknown) {
+  switch (kind) {
+    case "analyze":
+      return AnalyzeBodySchema.parse(input);
+    case "compare":
+      return CompareBodySchema.parse(input);
+    case "history":
+      return HistoryBodySchema.parse(input);
+    case "batch": {
+      const body = BatchBodySchema.parse(input);
+      parseBatchInput(body.format, body.content);
+      return body;
+    }
+  }
+}
@@ -0,0 +1,394 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "@/lib/env";
+import { runWithRequestContext, type JobScope } from "@/lib/request-context";
+
+// Trabajos en segundo plano: el analisis sigue aunque el cliente cierre la
+// pestana o corte la peticion. Cada trabajo se guarda como JSON en JOBS_DIR
+// (estado, progreso, resultado y un resumen de las tools ya obtenidas) y su
+// entrada, que en lotes puede ocupar megas, aparte y una sola vez. Las salidas
+// completas de las tools se anaden a <id>.partials.jsonl segun llegan; si el
+// proceso se reinicia, los que estaban en marcha quedan "interrupted" y al
+// reintentarlos solo se pide lo que falta. Solo el navegador que creo un trabajo
+// (cookie de lib/owner) puede verlo, cancelarlo o reintentarlo.
+
+export const JOB_KINDS = ["analyze", "compare", "history", "batch"] as const;
+export type JobKind = (typeof JOB_KINDS)[number];
+
+export type JobStatus = "queued" | "running" | "done" | "error" | "cancelled" | "interrupted";
+
+export type JobProgress = { done: number; total: number | null; message: string | null };
+
+// Resumen de cada salida de tool en el registro del trabajo; el valor va en el .jsonl.
+type PartialSummary = { ok: boolean; cache: string | null };
+
+type JobRecord = {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  // IP que lo creo (reparto de Nominatim) y token del navegador dueno (ver lib/owner).
+  client_id: string;
+  owner_id: string | null;
+  // Proceso que lo ejecuta: si al leerlo de disco es otro, el que lo llevaba ya no existe.
+  pid: number | null;
+  // Solo en memoria; en disco va en <id>.input.json (ver saveInput).
+  input: unknown;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  attempts: number;
+  // Pide de nuevo a las fuentes aunque haya datos frescos en cache.
+  refresh?: boolean;
+  progress: JobProgress;
+  // Payload final (o parcial mientras corre, si el runner lo publica).
+  result: unknown;
+  error: string | null;
+  // Resumen de las salidas de tools por clave de cache (ver withCache).
+  partials: Record<string, PartialSummary>;
+};
+
+// Lo que ve el cliente: sin la entrada (ya la tiene), las salidas guardadas ni quien lo creo.
+export type JobView = Omit<JobRecord, "client_id" | "owner_id" | "pid" | "input" | "partials"> & { partials_saved: number };
+
+export type JobOwner = { clientId: string; ownerId: string | null };
+
+export type JobContext = {
+  signal: AbortSignal;
+  progress(update: Partial<JobProgress>, partialResult?: unknown): void;
+};
+
+// Mismo contrato que runAnalyze/runCompare/runHistory: status HTTP y payload.
+export type JobRunner = (input: unknown, ctx: JobContext) => Promise<{ status: number; payload: unknown }>;
+
+const JOBS_DIR = path.resolve(process.cwd(), env.JOBS_DIR ?? ".jobs");
+const JOBS_CONCURRENCY = env.JOBS_CONCURRENCY ?? 2;
+// Guardado en disco como mucho cada 5 s mientras el trabajo avanza; las consultas
+// de estado leen el trabajo en memoria, asi que no esperan a este guardado.
+const SAVE_THROTTLE_MS = 5000;
+const JOB_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+const FINISHED: JobStatus[] = ["done", "error", "cancelled", "interrupted"];
+
+// En memoria solo los trabajos en cola o en marcha; los terminados se leen de disco.
+const live = new Map<string, JobRecord>();
+const controllers = new Map<string, AbortController>();
+const queue: { id: string; runner: JobRunner }[] = [];
+const saveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Escrituras pendientes en el .jsonl de cada trabajo, en orden (las tools terminan a la vez).
+const partialWrites = new Map<string, Promise<void>>();
+let lastPrune = 0;
+
+function fileOf(id: string) {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function inputFileOf(id: string) {
+  return path.join(JOBS_DIR, `${id}.input.json`);
+}
+
+function partialsFileOf(id: string) {
+  return path.join(JOBS_DIR, `${id}.partials.jsonl`);
+}
+
+function now() {
+  return new Date().toISOString();
+}
+
+async function saveNow(job: JobRecord) {
+  const timer = saveTimers.get(job.id);
+  if (timer) clearTimeout(timer);
+  saveTimers.delete(job.id);
+  try {
+    await mkdir(JOBS_DIR, { recursive: true });
+    // Escritura atomica: un lector nunca ve el JSON a medias.
+    const tmp = `${fileOf(job.id)}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify({ ...job, input: undefined }), "utf8");
+    await rename(tmp, fileOf(job.id));
+  } catch {
+    // El disco es best-effort: el trabajo sigue en memoria mientras corre.
+  }
+}
+
+// La entrada no cambia: se escribe al crear el trabajo y se lee solo para reintentarlo.
+async function saveInput(job: JobRecord) {
+  try {
+    await mkdir(JOBS_DIR, { recursive: true });
+    await writeFile(inputFileOf(job.id), JSON.stringify(job.input ?? null), "utf8");
+  } catch {
+    // Sin entrada en disco el trabajo corre igual; solo no se podra reintentar tras un reinicio.
+  }
+}
+
+async function readInput(id: string) {
+  try {
+    return JSON.parse(await readFile(inputFileOf(id), "utf8")) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+function scheduleSave(job: JobRecord) {
+  job.updated_at = now();
+  if (saveTimers.has(job.id)) return;
+  saveTimers.set(
+    job.id,
+    setTimeout(() => {
+      saveTimers.delete(job.id);
+      void saveNow(job);
+    }, SAVE_THROTTLE_MS)
+  );
+}
+
+// Una linea {key, value} por salida de tool; solo se anade, nunca se reescribe.
+function appendPartial(id: string, key: string, value: unknown) {
+  const line = `${JSON.stringify({ key, value })}\n`;
+  const write = (partialWrites.get(id) ?? Promise.resolve())
+    .then(() => mkdir(JOBS_DIR, { recursive: true }))
+    .then(() => appendFile(partialsFileOf(id), line, "utf8"))
+    .catch(() => {
+      // Best-effort: sin la linea, el reintento vuelve a pedir esa tool.
+    });
+  partialWrites.set(id, write);
+  void write.finally(() => {
+    if (partialWrites.get(id) === write) partialWrites.delete(id);
+  });
+}
+
+async function readPartials(id: string) {
+  await partialWrites.get(id);
+  const values = new Map<string, unknown>();
+  let text = "";
+  try {
+    text = await readFile(partialsFileOf(id), "utf8");
+  } catch {
+    return values;
+  }
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as { key: string; value: unknown };
+      values.set(entry.key, entry.value);
+    } catch {
+      // Linea cortada por un reinicio a mitad de escritura: se ignora.
+    }
+  }
+  return values;
+}
+
+async function dropPartials(id: string) {
+  await partialWrites.get(id);
+  await unlink(partialsFileOf(id)).catch(() => {});
+}
+
+async function readJob(id: string): Promise<JobRecord | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  const current = live.get(id);
+  if (current) return current;
+  try {
+    const job = JSON.parse(await readFile(fileOf(id), "utf8")) as JobRecord;
+    // En disco como activo pero de otro proceso: el que lo llevaba se reinicio o murio.
+    if (!FINISHED.includes(job.status) && job.pid !== process.pid) {
+      job.status = "interrupted";
+      job.error = "El servidor se reinicio mientras el trabajo estaba en marcha.";
+      job.finished_at = now();
+      await saveNow(job);
+    }
+    return job;
+  } catch {
+    return null;
+  }
+}
+
+function toView(job: JobRecord): JobView {
+  const { id, kind, status, created_at, updated_at, finished_at, attempts, progress, result, error } = job;
+  return {
+    id,
+    kind,
+    status,
+    created_at,
+    updated_at,
+    finished_at,
+    attempts,
+    progress,
+    result,
+    error,
+    partials_saved: Object.keys(job.partials).length,
+  };
+}
+
+async function pruneOldJobs() {
+  if (Date.now() - lastPrune < PRUNE_INTERVAL_MS) return;
+  lastPrune = Date.now();
+  try {
+    for (const name of await readdir(JOBS_DIR)) {
+      const file = path.join(JOBS_DIR, name);
+      const info = await stat(file);
+      if (Date.now() - info.mtimeMs > JOB_MAX_AGE_MS) await unlink(file);
+    }
+  } catch {
+    // Sin carpeta todavia o sin permisos: nada que limpiar.
+  }
+}
+
+async function execute(job: JobRecord, runner: JobRunner) {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  job.status = "running";
+  job.pid = process.pid;
+  job.attempts++;
+  job.error = null;
+  await saveNow(job);
+
+  const scope: JobScope = {
+    signal: controller.signal,
+    refresh: job.refresh ?? false,
+    partials: await readPartials(job.id),
+    savePartial(key, value) {
+      // Tras cancelar, el trabajo puede haberse reintentado con otro registro: no se pisa.
+      if (controller.signal.aborted) return;
+      scope.partials.set(key, value);
+      appendPartial(job.id, key, value);
+      const saved = value as { value?: { ok?: boolean } | null; cache?: { status?: string } } | null;
+      job.partials[key] = { ok: saved?.value?.ok !== false, cache: saved?.cache?.status ?? null };
+      scheduleSave(job);
+    },
+  };
+  const ctx: JobContext = {
+    signal: controller.signal,
+    progress(update, partialResult) {
+      if (controller.signal.aborted) return;
+      job.progress = { ...job.progress, ...update };
+      if (partialResult !== undefined) job.result = partialResult;
+      scheduleSave(job);
+    },
+  };
+
+  try {
+    const context = { clientId: job.client_id, ownerId: job.owner_id ?? undefined, job: scope };
+    const { status, payload } = await runWithRequestContext(context, () => runner(job.input, ctx));
+    if (controller.signal.aborted) return;
+    const out = payload as { ok?: boolean; error?: string } | null;
+    const failed = status >= 400 || out?.ok === false;
+    job.status = failed ? "error" : "done";
+    job.result = payload;
+    job.error = failed ? (out?.error ?? `HTTP ${status}`) : null;
+  } catch (e: any) {
+    if (controller.signal.aborted) return;
+    job.status = "error";
+    job.error = e?.message ?? "Error en el trabajo";
+  } finally {
+    if (controllers.get(job.id) === controller) controllers.delete(job.id);
+    // Terminado bien no se puede reintentar: sus salidas ya no hacen falta.
+    if (job.status === "done") await dropPartials(job.id);
+    if (!controller.signal.aborted) {
+      job.finished_at = now();
+      live.delete(job.id);
+      await saveNow(job);
+    }
+    pump();
+  }
+}
+
+function pump() {
+  while (controllers.size < JOBS_CONCURRENCY && queue.length) {
+    const next = queue.shift()!;
+    const job = live.get(next.id);
+    if (job?.status === "queued") void execute(job, next.runner);
+  }
+}
+
+async function enqueue(job: JobRecord, runner: JobRunner) {
+  job.status = "queued";
+  job.pid = process.pid;
+  job.updated_at = now();
+  live.set(job.id, job);
+  await saveNow(job);
+  queue.push({ id: job.id, runner });
+  pump();
+  return toView(job);
+}
+
+export async function createJob(
+  kind: JobKind,
+  input: unknown,
+  owner: JobOwner,
+  runner: JobRunner,
+  options: { refresh?: boolean } = {}
+) {
+  void pruneOldJobs();
+  const created = now();
+  const job: JobRecord = {
+    id: randomUUID(),
+    kind,
+    status: "queued",
+    client_id: owner.clientId,
+    owner_id: owner.ownerId,
+    pid: process.pid,
+    input,
+    created_at: created,
+    updated_at: created,
+    finished_at: null,
+    attempts: 0,
+    refresh: options.refresh ?? false,
+    progress: { done: 0, total: null, message: null },
+    result: null,
+    error: null,
+    partials: {},
+  };
+  await saveInput(job);
+  return enqueue(job, runner);
+}
+
+// Un trabajo de otro navegador se trata como inexistente (404), sin revelar que existe.
+async function readOwnJob(id: string, ownerId: string | null) {
+  if (!ownerId) return null;
+  const job = await readJob(id);
+  return job && job.owner_id === ownerId ? job : null;
+}
+
+export async function getJob(id: string, ownerId: string | null) {
+  const job = await readOwnJob(id, ownerId);
+  return job ? toView(job) : null;
+}
+
+export async function getJobKind(id: string, ownerId: string | null) {
+  return (await readOwnJob(id, ownerId))?.kind ?? null;
+}
+
+// Las salidas de tools guardadas se conservan: el reintento solo pide lo que falta.
+export async function retryJob(id: string, ownerId: string | null, runner: JobRunner) {
+  const job = await readOwnJob(id, ownerId);
+  if (!job) return null;
+  if (job.status !== "error" && job.status !== "cancelled" && job.status !== "interrupted") {
+    throw new Error(`Solo se pueden reintentar trabajos terminados con error, cancelados o interrumpidos (estado: ${job.status}).`);
+  }
+  // Los terminados se leen de disco, sin la entrada.
+  job.input ??= await readInput(id);
+  if (job.input === undefined) throw new Error("La entrada del trabajo ya no esta disponible; lanzalo de nuevo.");
+  job.result = null;
+  job.error = null;
+  job.finished_at = null;
+  job.progress = { done: 0, total: null, message: null };
+  return enqueue(job, runner);
+}
+
+export async function cancelJob(id: string, ownerId: string | null) {
+  const job = await readOwnJob(id, ownerId);
+  if (!job) return null;
+  if (FINISHED.includes(job.status)) return toView(job);
+
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  const queued = queue.findIndex((entry) => entry.id === id);
+  if (queued >= 0) queue.splice(queued, 1);
+
+  job.status = "cancelled";
+  job.error = "Cancelado por el usuario.";
+  job.finished_at = now();
+  live.delete(id);
+  await saveNow(job);
+  pump();
+  return toView(job);
+}
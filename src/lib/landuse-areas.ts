@@ -0,0 +1,206 @@
+import { polygonBbox, type LatLon } from "@/lib/geo";
+import type { OsmFeatureCollection } from "@/lib/osm-geojson";
+
+// Superficie por uso del suelo (landuse/leisure/natural) dentro del radio o del
+// area dibujada. Los poligonos se rasterizan sobre una rejilla de ~200 celdas de
+// lado recortada a la zona: asi los solapes no se cuentan dos veces (gana el
+// poligono mas pequeno, p. ej. un parque dentro de un residencial) y el recorte
+// contra un area no convexa sale gratis. El error es del orden de una celda.
+
+export const LANDUSE_TAGS = ["landuse", "leisure", "natural"] as const;
+export type LanduseTag = (typeof LANDUSE_TAGS)[number];
+
+export type LanduseArea = {
+  // "landuse=residential", "leisure=park"...
+  key: string;
+  tag: LanduseTag;
+  value: string;
+  area_m2: number;
+  pct: number;
+};
+
+export type LanduseAreas = {
+  ok: true;
+  method: "raster";
+  cell_m: number;
+  total_m2: number;
+  categories: LanduseArea[];
+  // Parte de la zona sin ningun poligono de uso del suelo en OSM.
+  unclassified_pct: number;
+  polygons: number;
+};
+
+export type LanduseClip = { center: LatLon; radius_m: number } | { ring: LatLon[] };
+
+const GRID_SIDE = 200;
+const MIN_CELL_M = 2;
+const METERS_PER_DEG_LAT = 111_320;
+
+const LANDUSE_COLORS: Record<string, string> = {
+  "landuse=residential": "#f59e0b",
+  "landuse=commercial": "#ec4899",
+  "landuse=retail": "#db2777",
+  "landuse=industrial": "#8b5cf6",
+  "landuse=construction": "#a16207",
+  "landuse=railway": "#64748b",
+  "landuse=farmland": "#ca8a04",
+  "landuse=orchard": "#84cc16",
+  "landuse=vineyard": "#a3e635",
+  "landuse=meadow": "#65a30d",
+  "landuse=grass": "#4ade80",
+  "landuse=forest": "#15803d",
+  "landuse=cemetery": "#94a3b8",
+  "leisure=park": "#22c55e",
+  "leisure=pitch": "#10b981",
+  "leisure=garden": "#34d399",
+  "natural=wood": "#166534",
+  "natural=water": "#0ea5e9",
+  "natural=scrub": "#4d7c0f",
+  "natural=grassland": "#86efac",
+  "natural=beach": "#fde68a",
+};
+const FALLBACK_COLORS: Record<LanduseTag, string> = { landuse: "#0d9488", leisure: "#059669", natural: "#3f6212" };
+
+export function landuseColor(key: string) {
+  return LANDUSE_COLORS[key] ?? FALLBACK_COLORS[key.split("=")[0] as LanduseTag] ?? "#0d9488";
+}
+
+export function landuseKeyOf(tags: Record<string, string>): { tag: LanduseTag; value: string } | null {
+  for (const tag of LANDUSE_TAGS) if (tags[tag]) return { tag, value: tags[tag] };
+  return null;
+}
+
+type Projected = [number, number][];
+
+// Area (m2) de un anillo ya proyectado.
+function ringArea(ring: Projected) {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  return Math.abs(sum / 2);
+}
+
+// Columnas [from, to) de cada fila cuyo centro cae dentro de los anillos (par-impar, asi los huecos restan).
+function fillRows(rings: Projected[], cell: number, rows: number, cols: number, paint: (row: number, from: number, to: number) => void) {
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const ring of rings) {
+    for (const [, y] of ring) {
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  const firstRow = Math.max(0, Math.ceil(minY / cell - 0.5));
+  const lastRow = Math.min(rows - 1, Math.floor(maxY / cell - 0.5));
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const y = (row + 0.5) * cell;
+    const xs: number[] = [];
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > y !== yj > y) xs.push(xi + ((y - yi) * (xj - xi)) / (yj - yi));
+      }
+    }
+    xs.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < xs.length; k += 2) {
+      const from = Math.max(0, Math.ceil(xs[k] / cell - 0.5));
+      const to = Math.min(cols, Math.floor(xs[k + 1] / cell - 0.5) + 1);
+      if (to > from) paint(row, from, to);
+    }
+  }
+}
+
+export function computeLanduseAreas(collection: OsmFeatureCollection, clip: LanduseClip): LanduseAreas {
+  let bbox: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+  if ("ring" in clip) {
+    bbox = polygonBbox(clip.ring);
+  } else {
+    const dLat = clip.radius_m / METERS_PER_DEG_LAT;
+    const dLon = clip.radius_m / (METERS_PER_DEG_LAT * Math.cos((clip.center.lat * Math.PI) / 180));
+    bbox = { minLat: clip.center.lat - dLat, minLon: clip.center.lon - dLon, maxLat: clip.center.lat + dLat, maxLon: clip.center.lon + dLon };
+  }
+  const { minLat, minLon, maxLat, maxLon } = bbox;
+  const metersPerDegLon = METERS_PER_DEG_LAT * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  // Proyeccion local equirectangular con origen en la esquina suroeste (suficiente a escala de barrio).
+  const project = ([lon, lat]: [number, number]): [number, number] => [
+    (lon - minLon) * metersPerDegLon,
+    (lat - minLat) * METERS_PER_DEG_LAT,
+  ];
+  const width = (maxLon - minLon) * metersPerDegLon;
+  const height = (maxLat - minLat) * METERS_PER_DEG_LAT;
+  const cell = Math.max(MIN_CELL_M, Math.max(width, height) / GRID_SIDE);
+  const cols = Math.max(1, Math.ceil(width / cell));
+  const rows = Math.max(1, Math.ceil(height / cell));
+
+  // 0 = fuera de la zona, 1 = dentro sin uso, 2 + indice = categoria del poligono que la cubre.
+  const grid = new Uint16Array(rows * cols);
+  if ("ring" in clip) {
+    const ring = clip.ring.map((p) => project([p.lon, p.lat]));
+    fillRows([ring], cell, rows, cols, (row, from, to) => grid.fill(1, row * cols + from, row * cols + to));
+  } else {
+    const [cx, cy] = project([clip.center.lon, clip.center.lat]);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const dx = (col + 0.5) * cell - cx;
+        const dy = (row + 0.5) * cell - cy;
+        if (dx * dx + dy * dy <= clip.radius_m * clip.radius_m) grid[row * cols + col] = 1;
+      }
+    }
+  }
+
+  const keys: string[] = [];
+  const polygons: { category: number; rings: Projected[]; area: number }[] = [];
+  for (const feature of collection.features) {
+    const { geometry } = feature;
+    if (geometry.type !== "Polygon" && geometry.type !== "MultiPolygon") continue;
+    const landuse = landuseKeyOf(feature.properties.tags);
+    if (!landuse) continue;
+    const key = `${landuse.tag}=${landuse.value}`;
+    let category = keys.indexOf(key);
+    if (category === -1) category = keys.push(key) - 1;
+    const parts = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+    for (const part of parts) {
+      const rings = part.map((ring) => ring.map(project));
+      polygons.push({ category, rings, area: ringArea(rings[0]) - rings.slice(1).reduce((sum, r) => sum + ringArea(r), 0) });
+    }
+  }
+
+  // De mayor a menor: lo pintado despues (mas pequeno) prevalece en los solapes.
+  polygons.sort((a, b) => b.area - a.area);
+  for (const polygon of polygons) {
+    fillRows(polygon.rings, cell, rows, cols, (row, from, to) => {
+      for (let i = row * cols + from; i < row * cols + to; i++) if (grid[i]) grid[i] = polygon.category + 2;
+    });
+  }
+
+  const counts = new Array<number>(keys.length + 1).fill(0);
+  let inside = 0;
+  for (const value of grid) {
+    if (!value) continue;
+    inside++;
+    if (value > 1) counts[value - 2]++;
+  }
+
+  const cellArea = cell * cell;
+  const pct = (n: number) => (inside ? Math.round((n / inside) * 1000) / 10 : 0);
+  const categories = keys
+    .map((key, index) => {
+      const [tag, value] = key.split("=") as [LanduseTag, string];
+      return { key, tag, value, area_m2: Math.round(counts[index] * cellArea), pct: pct(counts[index]) };
+    })
+    .filter((c) => c.area_m2 > 0)
+    .sort((a, b) => b.area_m2 - a.area_m2);
+  const classified = categories.reduce((sum, c) => sum + counts[keys.indexOf(c.key)], 0);
+
+  return {
+    ok: true,
+    method: "raster",
+    cell_m: Math.round(cell * 10) / 10,
+    total_m2: Math.round(inside * cellArea),
+    categories,
+    unclassified_pct: pct(inside - classified),
+    polygons: polygons.length,
+  };
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs";
+import { env } from "@/lib/env";
+import { currentJobScope } from "@/lib/request-context";
+import { createOpenAIProvider } from "@/lib/llm/openai";
+import { createScriptedProvider, LlmScriptSchema } from "@/lib/llm/scripted";
+import type { LlmProvider } from "@/lib/llm/types";
+
+export type {
+  LlmMessage,
+  LlmMessageParam,
+  LlmProvider,
+  LlmRequest,
+  LlmResponseFormat,
+  LlmTool,
+} from "@/lib/llm/types";
+
+function loadScript(path: string | undefined) {
+  if (!path) return LlmScriptSchema.parse({});
+  return LlmScriptSchema.parse(JSON.parse(readFileSync(path, "utf8")));
+}
+
+function createProvider(): LlmProvider {
+  if (env.LLM_PROVIDER === "scripted") {
+    return createScriptedProvider(loadScript(env.LLM_SCRIPT_PATH), env.LLM_MODEL ?? "scripted");
+  }
+
+  if (env.LLM_PROVIDER === "openai-compatible") {
+    return createOpenAIProvider({
+      name: "openai-compatible",
+      model: env.LLM_MODEL ?? env.OPENAI_MODEL ?? "",
+      // Los servidores locales suelen ignorar la clave, pero el SDK exige una.
+      apiKey: env.LLM_API_KEY ?? env.OPENAI_API_KEY ?? "local",
+      baseURL: env.LLM_BASE_URL,
+    });
+  }
+
+  return createOpenAIProvider({
+    name: "openai",
+    model: env.LLM_MODEL ?? env.OPENAI_MODEL ?? "",
+    apiKey: env.OPENAI_API_KEY ?? "",
+    baseURL: env.LLM_BASE_URL,
+  });
+}
+
+// Un trabajo cancelado no debe gastar mas llamadas al LLM.
+function guardCancelled(provider: LlmProvider): LlmProvider {
+  return {
+    ...provider,
+    complete(request) {
+      currentJobScope()?.signal.throwIfAborted();
+      return provider.complete(request);
+    },
+    stream(request, onDelta) {
+      currentJobScope()?.signal.throwIfAborted();
+      return provider.stream(request, onDelta);
+    },
+  };
+}
+
+export const llm = guardCancelled(createProvider());
@@ -0,0 +1,72 @@
+import OpenAI from "openai";
+import type { LlmMessage, LlmProvider, LlmRequest, LlmToolCall } from "@/lib/llm/types";
+
+type OpenAIProviderOptions = {
+  name: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string | null;
+};
+
+function toLlmMessage(message: OpenAI.Chat.Completions.ChatCompletionMessage): LlmMessage {
+  const calls = (message.tool_calls ?? []).filter((call): call is LlmToolCall => call.type === "function");
+  return {
+    role: "assistant",
+    content: message.content ?? null,
+    ...(calls.length ? { tool_calls: calls } : {}),
+  };
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): LlmProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+  });
+
+  async function complete(request: LlmRequest) {
+    const completion = await client.chat.completions.create({ model: options.model, ...request });
+    const message = completion.choices[0]?.message;
+    if (!message) throw new Error(`${options.name} no devolvio message`);
+    return toLlmMessage(message);
+  }
+
+  // Ejecuta la completion en modo stream y reconstruye el mensaje final
+  // (contenido + tool_calls) como lo haria la API sin stream.
+  async function stream(request: LlmRequest, onDelta?: (text: string) => void): Promise<LlmMessage> {
+    const chunks = await client.chat.completions.create({ model: options.model, ...request, stream: true });
+
+    let content = "";
+    const toolCalls: LlmToolCall[] = [];
+
+    for await (const chunk of chunks) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onDelta?.(delta.content);
+      }
+
+      for (const part of delta.tool_calls ?? []) {
+        const current = toolCalls[part.index] ?? {
+          id: "",
+          type: "function" as const,
+          function: { name: "", arguments: "" },
+        };
+        if (part.id) current.id = part.id;
+        if (part.function?.name) current.function.name += part.function.name;
+        if (part.function?.arguments) current.function.arguments += part.function.arguments;
+        toolCalls[part.index] = current;
+      }
+    }
+
+    const calls = toolCalls.filter(Boolean);
+    return {
+      role: "assistant",
+      content: content || null,
+      ...(calls.length ? { tool_calls: calls } : {}),
+    };
+  }
+
+  return { name: options.name, model: options.model, complete, stream };
+}
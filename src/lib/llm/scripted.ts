@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { LlmMessage, LlmMessageParam, LlmProvider, LlmRequest } from "@/lib/llm/types";
+
+const ScriptRuleSchema = z.object({
+  // Todas las condiciones presentes deben cumplirse (regex sin distinguir mayusculas).
+  when: z
+    .object({
+      system: z.string().optional(),
+      user: z.string().optional(),
+      has_tools: z.boolean().optional(),
+      after_tool: z.boolean().optional(),
+    })
+    .default({}),
+  reply: z.object({
+    content: z.string().nullable().optional(),
+    tool_calls: z
+      .array(z.object({ name: z.string(), arguments: z.record(z.string(), z.unknown()).default({}) }))
+      .optional(),
+  }),
+});
+
+export const LlmScriptSchema = z.object({
+  rules: z.array(ScriptRuleSchema).default([]),
+});
+
+export type LlmScript = z.infer<typeof LlmScriptSchema>;
+
+function textOf(message: LlmMessageParam | undefined) {
+  if (!message) return "";
+  const content = message.content;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content.map((part) => ("text" in part && typeof part.text === "string" ? part.text : "")).join("\n");
+  }
+  return "";
+}
+
+function matches(pattern: string | undefined, text: string) {
+  if (pattern === undefined) return true;
+  return new RegExp(pattern, "i").test(text);
+}
+
+// Sin regla aplicable se devuelve un informe vacio que respeta los encabezados
+// "## ..." pedidos por el prompt de sistema, para que la validacion de formato pase.
+function skeletonReport(system: string) {
+  const headings = system
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => /^##\s+\S/.test(line));
+  if (!headings.length) return "Respuesta generada por el proveedor scripted.";
+  return headings.map((heading) => `${heading}\nSin contenido (proveedor scripted).`).join("\n\n");
+}
+
+// Con response_format json_schema se devuelve un objeto minimo que cumple el esquema:
+// strings con el texto de relleno, arrays vacios, enums con su primer valor.
+type SchemaNode = {
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: SchemaNode[];
+  oneOf?: SchemaNode[];
+  type?: string | string[];
+  properties?: Record<string, unknown>;
+};
+
+function skeletonFromSchema(value: unknown): unknown {
+  if (!value || typeof value !== "object") return null;
+  const schema = value as SchemaNode;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants) && variants.length) {
+    return skeletonFromSchema(variants.find((v) => v?.type !== "null") ?? variants[0]);
+  }
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+  if (type === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema.properties ?? {})) out[key] = skeletonFromSchema(value);
+    return out;
+  }
+  if (type === "array") return [];
+  if (type === "string") return "Sin contenido (proveedor scripted).";
+  if (type === "number" || type === "integer") return 0;
+  if (type === "boolean") return false;
+  return null;
+}
+
+function skeletonContent(request: LlmRequest, system: string) {
+  const format = request.response_format;
+  if (format?.type === "json_schema") return JSON.stringify(skeletonFromSchema(format.json_schema.schema));
+  if (format?.type === "json_object") return "{}";
+  return skeletonReport(system);
+}
+
+export function createScriptedProvider(script: LlmScript, model = "scripted"): LlmProvider {
+  function complete(request: LlmRequest): Promise<LlmMessage> {
+    const system = textOf(request.messages.find((m) => m.role === "system"));
+    const lastUser = textOf([...request.messages].reverse().find((m) => m.role === "user"));
+    const last = request.messages[request.messages.length - 1];
+    const hasTools = Boolean(request.tools?.length);
+    const round = request.messages.filter((m) => m.role === "assistant").length;
+
+    const rule = script.rules.find(
+      (r) =>
+        matches(r.when.system, system) &&
+        matches(r.when.user, lastUser) &&
+        (r.when.has_tools === undefined || r.when.has_tools === hasTools) &&
+        (r.when.after_tool === undefined || r.when.after_tool === (last?.role === "tool"))
+    );
+
+    if (!rule) {
+      return Promise.resolve({ role: "assistant", content: skeletonContent(request, system) });
+    }
+
+    const calls = hasTools
+      ? (rule.reply.tool_calls ?? []).map((call, index) => ({
+          id: `call_${round}_${index}`,
+          type: "function" as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        }))
+      : [];
+
+    return Promise.resolve({
+      role: "assistant",
+      content: rule.reply.content ?? (calls.length ? null : skeletonContent(request, system)),
+      ...(calls.length ? { tool_calls: calls } : {}),
+    });
+  }
+
+  async function stream(request: LlmRequest, onDelta?: (text: string) => void) {
+    const message = await complete(request);
+    if (message.content && onDelta) {
+      // Trocea por palabras para que el cliente vea el mismo flujo que con un modelo real.
+      for (const piece of message.content.match(/\S+\s*/g) ?? []) onDelta(piece);
+    }
+    return message;
+  }
+
+  return { name: "scripted", model, complete, stream };
+}
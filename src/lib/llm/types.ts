@@ -0,0 +1,37 @@
+import type {
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources/chat/completions";
+import type { ResponseFormatJSONObject, ResponseFormatJSONSchema, ResponseFormatText } from "openai/resources/shared";
+
+// El formato de mensajes/tools de OpenAI es el comun denominador: lo hablan
+// tanto la API hospedada como los servidores compatibles (llama.cpp, Ollama, vLLM).
+export type LlmMessageParam = ChatCompletionMessageParam;
+export type LlmTool = ChatCompletionTool;
+export type LlmToolCall = ChatCompletionMessageFunctionToolCall;
+export type LlmResponseFormat = ResponseFormatText | ResponseFormatJSONObject | ResponseFormatJSONSchema;
+
+export type LlmRequest = {
+  messages: LlmMessageParam[];
+  tools?: LlmTool[];
+  tool_choice?: ChatCompletionToolChoiceOption;
+  temperature?: number;
+  // Salida estructurada; los servidores compatibles que no la soporten la ignoran.
+  response_format?: LlmResponseFormat;
+};
+
+export type LlmMessage = {
+  role: "assistant";
+  content: string | null;
+  tool_calls?: LlmToolCall[];
+};
+
+export type LlmProvider = {
+  name: string;
+  model: string;
+  complete(request: LlmRequest): Promise<LlmMessage>;
+  // Igual que complete, pero reenvia los deltas de texto segun llegan.
+  stream(request: LlmRequest, onDelta?: (text: string) => void): Promise<LlmMessage>;
+};
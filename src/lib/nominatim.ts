@@ -0,0 +1,99 @@
+import { env } from "@/lib/env";
+import { fetchWithTimeout } from "@/lib/fetch";
+import { fixtureMode } from "@/lib/fixtures";
+import { currentClientId } from "@/lib/request-context";
+
+type Snapshot = { status: number; statusText: string; headers: [string, string][]; body: string };
+
+type Task = {
+  run: () => Promise<Snapshot>;
+  resolve: (value: Snapshot) => void;
+  reject: (reason: unknown) => void;
+};
+
+// Politica de uso de nominatim.openstreetmap.org: como maximo 1 peticion por segundo.
+// Una instancia propia puede bajar el intervalo con NOMINATIM_MIN_INTERVAL_MS.
+const minIntervalMs = env.NOMINATIM_MIN_INTERVAL_MS ?? 1000;
+
+// Una cola FIFO por cliente; el despachador las recorre por turnos (round robin)
+// para que un usuario con muchas peticiones no bloquee a los demas.
+const queues = new Map<string, Task[]>();
+const inFlight = new Map<string, Promise<Snapshot>>();
+let lastStartedAt = 0;
+let pumping = false;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function pump() {
+  if (pumping) return;
+  pumping = true;
+  try {
+    while (queues.size) {
+      const wait = lastStartedAt + minIntervalMs - Date.now();
+      if (wait > 0) await sleep(wait);
+
+      const [client, queue] = queues.entries().next().value as [string, Task[]];
+      const task = queue.shift()!;
+      queues.delete(client);
+      if (queue.length) queues.set(client, queue);
+
+      lastStartedAt = Date.now();
+      try {
+        task.resolve(await task.run());
+      } catch (e) {
+        task.reject(e);
+      }
+    }
+  } finally {
+    pumping = false;
+  }
+}
+
+function enqueue(clientId: string, run: () => Promise<Snapshot>) {
+  return new Promise<Snapshot>((resolve, reject) => {
+    const queue = queues.get(clientId) ?? [];
+    queue.push({ run, resolve, reject });
+    queues.set(clientId, queue);
+    void pump();
+  });
+}
+
+async function takeSnapshot(res: Response): Promise<Snapshot> {
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    headers: [...res.headers.entries()],
+    body: await res.text(),
+  };
+}
+
+function requestKey(url: URL, init: RequestInit) {
+  const headers = new Headers(init.headers);
+  return `${(init.method ?? "GET").toUpperCase()} ${url.toString()} ${headers.get("accept-language") ?? ""}`;
+}
+
+// Todas las llamadas a Nominatim pasan por aqui: se serializan respetando el
+// intervalo minimo y las peticiones identicas en vuelo comparten una sola llamada.
+export async function nominatimFetch(url: URL, init: RequestInit & { timeoutMs?: number } = {}) {
+  const key = requestKey(url, init);
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    const run = () => fetchWithTimeout(url, init).then(takeSnapshot);
+    // En modo strict no hay red: no tiene sentido esperar turno.
+    pending = (fixtureMode() === "strict" ? run() : enqueue(currentClientId(), run)).finally(() =>
+      inFlight.delete(key)
+    );
+    inFlight.set(key, pending);
+  }
+
+  const snapshot = await pending;
+  const emptyBody = snapshot.status === 204 || snapshot.status === 304;
+  return new Response(emptyBody ? null : snapshot.body, {
+    status: snapshot.status,
+    statusText: snapshot.statusText,
+    headers: snapshot.headers,
+  });
+}
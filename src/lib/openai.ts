@@ -1,6 +0,0 @@
-import OpenAI from "openai";
-import { env } from "@/lib/env";
-
-export const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
@@ -0,0 +1,140 @@
+import type { OverpassElement } from "@/lib/overpass";
+import { pointInPolygon, type LatLon } from "@/lib/geo";
+
+// Conversion de la salida `out geom` de Overpass a GeoJSON: nodos a Point, vias
+// a LineString o Polygon (si estan cerradas y sus etiquetas son de superficie) y
+// relaciones multipolygon a MultiPolygon uniendo los tramos de sus miembros.
+
+type Position = [number, number];
+
+export type OsmGeometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+export type OsmFeature = {
+  type: "Feature";
+  id: string;
+  geometry: OsmGeometry;
+  properties: { osm_type: OverpassElement["type"]; osm_id: number; tags: Record<string, string> };
+};
+
+export type OsmFeatureCollection = { type: "FeatureCollection"; features: OsmFeature[] };
+
+// Etiquetas que hacen de una via cerrada una superficie (y no una linea).
+const AREA_KEYS = ["landuse", "leisure", "natural", "building", "amenity", "place", "water", "aeroway"];
+const LINEAR_NATURAL = new Set(["coastline", "tree_row", "cliff", "ridge"]);
+
+function position(p: LatLon): Position {
+  return [Math.round(p.lon * 1e7) / 1e7, Math.round(p.lat * 1e7) / 1e7];
+}
+
+function samePoint(a: LatLon, b: LatLon) {
+  return a.lat === b.lat && a.lon === b.lon;
+}
+
+function isAreaWay(tags: Record<string, string>) {
+  if (tags.area === "yes") return true;
+  if (tags.area === "no" || tags.highway || tags.barrier) return false;
+  if (tags.natural && LINEAR_NATURAL.has(tags.natural)) return false;
+  return AREA_KEYS.some((key) => key in tags);
+}
+
+function cleanPath(path: ({ lat: number; lon: number } | null)[] | undefined): LatLon[] | null {
+  if (!path?.length || path.some((p) => p === null)) return null;
+  return path as LatLon[];
+}
+
+// Une tramos abiertos por sus extremos hasta cerrar anillos; los que no cierran se descartan.
+export function joinRings(segments: LatLon[][]): LatLon[][] {
+  const pending = segments.filter((s) => s.length >= 2).map((s) => [...s]);
+  const rings: LatLon[][] = [];
+
+  while (pending.length) {
+    let ring = pending.shift()!;
+    let extended = true;
+    while (!samePoint(ring[0], ring[ring.length - 1]) && extended) {
+      extended = false;
+      const end = ring[ring.length - 1];
+      for (let i = 0; i < pending.length; i++) {
+        const s = pending[i];
+        if (samePoint(s[0], end)) ring = [...ring, ...s.slice(1)];
+        else if (samePoint(s[s.length - 1], end)) ring = [...ring, ...[...s].reverse().slice(1)];
+        else continue;
+        pending.splice(i, 1);
+        extended = true;
+        break;
+      }
+    }
+    if (ring.length >= 4 && samePoint(ring[0], ring[ring.length - 1])) rings.push(ring);
+  }
+  return rings;
+}
+
+function multipolygonOf(el: OverpassElement): OsmGeometry | null {
+  const members = el.members ?? [];
+  const byRole = (role: string) =>
+    members
+      .filter((m) => m.type === "way" && (m.role || "outer") === role)
+      .map((m) => cleanPath(m.geometry))
+      .filter((path): path is LatLon[] => path !== null);
+
+  const outers = joinRings(byRole("outer"));
+  if (!outers.length) return null;
+  const inners = joinRings(byRole("inner"));
+
+  // Cada hueco va con el primer anillo exterior que lo contiene.
+  const polygons = outers.map((outer) => [outer]);
+  for (const inner of inners) {
+    const owner = polygons.find(([outer]) => pointInPolygon(inner[0], outer));
+    owner?.push(inner);
+  }
+  return { type: "MultiPolygon", coordinates: polygons.map((rings) => rings.map((ring) => ring.map(position))) };
+}
+
+export function elementToGeometry(el: OverpassElement): OsmGeometry | null {
+  if (el.type === "node") {
+    return typeof el.lat === "number" && typeof el.lon === "number"
+      ? { type: "Point", coordinates: position({ lat: el.lat, lon: el.lon }) }
+      : null;
+  }
+  if (el.type === "way") {
+    const path = cleanPath(el.geometry);
+    if (!path || path.length < 2) return null;
+    const closed = path.length >= 4 && samePoint(path[0], path[path.length - 1]);
+    return closed && isAreaWay(el.tags ?? {})
+      ? { type: "Polygon", coordinates: [path.map(position)] }
+      : { type: "LineString", coordinates: path.map(position) };
+  }
+  const kind = el.tags?.type;
+  return kind === "multipolygon" || kind === "boundary" ? multipolygonOf(el) : null;
+}
+
+// Convierte y deduplica por tipo/id (los mosaicos de la consulta se solapan en
+// las vias que cruzan su borde). `skipped` cuenta lo que no se pudo convertir.
+export function toFeatureCollection(elements: OverpassElement[]) {
+  const seen = new Set<string>();
+  const features: OsmFeature[] = [];
+  let skipped = 0;
+
+  for (const el of elements) {
+    const id = `${el.type}/${el.id}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const geometry = elementToGeometry(el);
+    if (!geometry) {
+      skipped++;
+      continue;
+    }
+    features.push({
+      type: "Feature",
+      id,
+      geometry,
+      properties: { osm_type: el.type, osm_id: el.id, tags: el.tags ?? {} },
+    });
+  }
+
+  const collection: OsmFeatureCollection = { type: "FeatureCollection", features };
+  return { collection, skipped };
+}
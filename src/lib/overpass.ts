@@ -0,0 +1,77 @@
+import { env } from "@/lib/env";
+import { fetchWithTimeout } from "@/lib/fetch";
+
+export type OverpassElement = {
+  // "count": resultado de `out count` (el total va en tags.total).
+  type: "node" | "way" | "relation" | "count";
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+  // Con `out body`: ids de los nodos de la via, en orden.
+  nodes?: number[];
+  // Solo con `out geom`: vertices de la via y miembros (con su geometria) de la relacion.
+  geometry?: ({ lat: number; lon: number } | null)[];
+  members?: { type: "node" | "way" | "relation"; ref: number; role: string; geometry?: ({ lat: number; lon: number } | null)[] }[];
+};
+
+export const DEFAULT_OVERPASS_URL = "https://overpass-api.de/api/interpreter";
+const FALLBACK_OVERPASS_URLS = [
+  "https://overpass.kumi.systems/api/interpreter",
+  "https://overpass.nchc.org.tw/api/interpreter"
+];
+
+function uniqueEndpoints(endpoints: string[]) {
+  const seen = new Set<string>();
+  return endpoints.filter((url) => {
+    if (seen.has(url)) return false;
+    seen.add(url);
+    return true;
+  });
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function pickPoint(el: OverpassElement) {
+  if (el.type === "node" && typeof el.lat === "number" && typeof el.lon === "number") return { lat: el.lat, lon: el.lon };
+  if (el.center) return { lat: el.center.lat, lon: el.center.lon };
+  return null;
+}
+
+// Ejecuta la consulta probando el endpoint configurado y luego los espejos publicos.
+export async function runOverpassQuery(query: string, timeoutMs = 20000) {
+  const endpoints = uniqueEndpoints([env.OVERPASS_INTERPRETER_URL ?? DEFAULT_OVERPASS_URL, ...FALLBACK_OVERPASS_URLS]);
+
+  let res: Response | null = null;
+  let usedEndpoint = endpoints[0] ?? DEFAULT_OVERPASS_URL;
+  let lastStatus: number | null = null;
+
+  for (const endpoint of endpoints) {
+    usedEndpoint = endpoint;
+    res = await fetchWithTimeout(endpoint, {
+      method: "POST",
+      timeoutMs,
+      headers: { "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" },
+      body: `data=${encodeURIComponent(query)}`
+    });
+
+    if (res.ok) break;
+    lastStatus = res.status;
+    if (res.status === 429) await sleep(1200);
+  }
+
+  if (!res || !res.ok) {
+    throw new Error(`Overpass fallo: HTTP ${lastStatus ?? "unknown"}`);
+  }
+
+  const json = await res.json();
+  const elements: OverpassElement[] = json?.elements ?? [];
+  return {
+    elements,
+    endpoint: usedEndpoint,
+    fallback_used: usedEndpoint !== (env.OVERPASS_INTERPRETER_URL ?? DEFAULT_OVERPASS_URL)
+  };
+}
@@ -0,0 +1,28 @@
+import { randomUUID } from "node:crypto";
+
+// Token por navegador (cookie httpOnly) que identifica al dueno de los trabajos y
+// de los informes guardados. No depende de la IP: detras de un mismo NAT o proxy
+// cada navegador tiene el suyo.
+
+const OWNER_COOKIE = "geoai_owner";
+const OWNER_PATTERN = /^[0-9a-f-]{36}$/;
+const OWNER_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+// `fresh`: no venia en la peticion y hay que enviarlo en la respuesta.
+export function ownerFromRequest(req: Request) {
+  const cookies = req.headers.get("cookie") ?? "";
+  const value = cookies
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === OWNER_COOKIE)?.[1];
+  return value && OWNER_PATTERN.test(value) ? { id: value, fresh: false } : { id: randomUUID(), fresh: true };
+}
+
+export function setOwnerCookie(req: Request, res: Response, id: string) {
+  const secure = req.headers.get("x-forwarded-proto") === "https" || new URL(req.url).protocol === "https:";
+  res.headers.append(
+    "Set-Cookie",
+    `${OWNER_COOKIE}=${id}; Path=/; Max-Age=${OWNER_MAX_AGE_S}; HttpOnly; SameSite=Lax${secure ? "; Secure" : ""}`
+  );
+  return res;
+}
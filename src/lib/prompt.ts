@@ -1,24 +1,28 @@
 import type { SourceRef } from "@/lib/types";
+import { REPORT_TEMPLATES, templateHeadings, templatePromptBlock, type ReportTemplate } from "@/lib/report-templates";
+import { DEFAULT_LOCALE, FIXED_HEADINGS, languageRule, type Locale } from "@/lib/i18n";
 
-export function buildSystemInstructions(sources: SourceRef[]) {
+export function buildSystemInstructions(
+  sources: SourceRef[],
+  template: ReportTemplate = REPORT_TEMPLATES.general,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const fixed = FIXED_HEADINGS[locale];
   const srcText = sources.map((s) => `- ${s.name}: ${s.url}`).join("\n");
 
   return `
 Eres un asistente GIS profesional.
 REGLAS DURAS:
 - NO inventes datos. Solo usa datos devueltos por las herramientas y el contexto del usuario.
-- SI una API falla o no hay cobertura: decláralo explícitamente en "Limitaciones" y usa fallback solo si se marca como estimación.
-- El informe debe citar "Fuentes consultadas" usando únicamente esta bibliografía:
+- SI una API falla o no hay cobertura: decláralo explícitamente en "${fixed.limitations}" y usa fallback solo si se marca como estimación.
+${languageRule(locale)}
+- El informe debe citar "${fixed.sources}" usando únicamente esta bibliografía:
 
 ${srcText}
 
+${templatePromptBlock(template, locale)}
+
 FORMATO (obligatorio, en Markdown):
-## Descripción de zona
-## Infraestructura cercana
-## Riesgos relevantes
-## Posibles usos urbanos
-## Recomendación final
-## Fuentes consultadas
-## Limitaciones
+${templateHeadings(template, locale).map((h) => `## ${h}`).join("\n")}
 `.trim();
 }
@@ -1,17 +1,143 @@
-const buckets = new Map<string, { count: number; resetAt: number }>();
+import { NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import { ownerFromRequest, setOwnerCookie } from "@/lib/owner";
+import { runWithRequestContext } from "@/lib/request-context";
 
-export function rateLimit(ip: string, { limit, windowMs }: { limit: number; windowMs: number }) {
-  const now = Date.now();
-  const b = buckets.get(ip);
+export type RateLimitStore = {
+  // Suma un hit a la ventana actual de `key` y devuelve el total y cuando se reinicia.
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+};
 
-  if (!b || now > b.resetAt) {
-    buckets.set(ip, { count: 1, resetAt: now + windowMs });
-    return { ok: true, remaining: limit - 1 };
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const b = buckets.get(key);
+
+      if (!b || now > b.resetAt) {
+        // Limpieza perezosa para que el mapa no crezca sin limite.
+        for (const [k, v] of buckets) if (now > v.resetAt) buckets.delete(k);
+        const fresh = { count: 1, resetAt: now + windowMs };
+        buckets.set(key, fresh);
+        return fresh;
+      }
+
+      b.count += 1;
+      return { ...b };
+    },
+  };
+}
+
+// Store compartido entre instancias via la API REST de Redis (Upstash o compatible):
+// INCR + PEXPIRE NX + PTTL en un solo pipeline.
+export function createRedisRestRateLimitStore(options: { url: string; token: string }): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const res = await fetch(`${options.url.replace(/\/$/, "")}/pipeline`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${options.token}`, "Content-Type": "application/json" },
+        body: JSON.stringify([
+          ["INCR", `ratelimit:${key}`],
+          ["PEXPIRE", `ratelimit:${key}`, String(windowMs), "NX"],
+          ["PTTL", `ratelimit:${key}`],
+        ]),
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`Rate limit store HTTP ${res.status}`);
+
+      const json = (await res.json()) as { result?: number }[];
+      const count = Number(json?.[0]?.result ?? 0);
+      const ttl = Number(json?.[2]?.result ?? windowMs);
+      return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) };
+    },
+  };
+}
+
+function createStore(): RateLimitStore {
+  if (env.RATE_LIMIT_STORE === "redis-rest" && env.RATE_LIMIT_REDIS_URL && env.RATE_LIMIT_REDIS_TOKEN) {
+    return createRedisRestRateLimitStore({ url: env.RATE_LIMIT_REDIS_URL, token: env.RATE_LIMIT_REDIS_TOKEN });
   }
+  return createMemoryRateLimitStore();
+}
+
+const defaultStore = createStore();
+
+export async function rateLimit(
+  ip: string,
+  { limit, windowMs, store = defaultStore }: { limit: number; windowMs: number; store?: RateLimitStore }
+) {
+  const { count, resetAt } = await store.hit(ip, windowMs);
+  const retryAfterS = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+
+  if (count > limit) return { ok: false, limit, remaining: 0, resetAt, retryAfterS };
+  return { ok: true, limit, remaining: limit - count, resetAt, retryAfterS };
+}
+
+// Presupuestos por tipo de ruta: las que llaman al LLM cuestan dinero;
+// las de geodatos son baratas pero comparten la cuota de Nominatim/Overpass.
+// El mapa de idoneidad es una consulta Overpass de hasta 30 km mas 9 llamadas EFAS.
+// La consulta del estado de un trabajo solo lee memoria o disco; cada trabajo en
+// marcha la hace 40 veces por minuto y puede haber varios a la vez.
+export const RATE_LIMIT_BUDGETS = {
+  llm: { limit: env.RATE_LIMIT_LLM_PER_MIN ?? 10, windowMs: 60_000 },
+  geodata: { limit: env.RATE_LIMIT_GEODATA_PER_MIN ?? 60, windowMs: 60_000 },
+  heatmap: { limit: env.RATE_LIMIT_HEATMAP_PER_MIN ?? 4, windowMs: 60_000 },
+  poll: { limit: env.RATE_LIMIT_POLL_PER_MIN ?? 240, windowMs: 60_000 },
+};
+
+export type RateLimitBudget = keyof typeof RATE_LIMIT_BUDGETS;
+
+// Cada proxy anade a la derecha de X-Forwarded-For la direccion desde la que le llego la
+// peticion; lo que queda a la izquierda lo escribe el cliente. Con TRUSTED_PROXY_HOPS
+// proxies delante, la direccion real es la que anadio el mas externo. Sin proxies (0),
+// Next.js rellena la cabecera con la direccion de la conexion y se toma la ultima entrada.
+export function clientId(req: Request) {
+  const chain = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const hops = Math.max(1, env.TRUSTED_PROXY_HOPS ?? 0);
+  // Con menos entradas que proxies la cadena esta incompleta: la de mas a la izquierda es la mas externa.
+  return chain[Math.max(0, chain.length - hops)] ?? "unknown";
+}
+
+function applyHeaders(res: Response, result: Awaited<ReturnType<typeof rateLimit>>) {
+  res.headers.set("X-RateLimit-Limit", String(result.limit));
+  res.headers.set("X-RateLimit-Remaining", String(result.remaining));
+  res.headers.set("X-RateLimit-Reset", String(Math.ceil(result.resetAt / 1000)));
+  if (!result.ok) res.headers.set("Retry-After", String(result.retryAfterS));
+  return res;
+}
+
+export function withRateLimit(budget: RateLimitBudget, handler: (req: Request) => Promise<Response>) {
+  return async (req: Request) => {
+    const client = clientId(req);
+    const owner = ownerFromRequest(req);
+    const run = async () => {
+      const res = await runWithRequestContext({ clientId: client, ownerId: owner.id }, () => handler(req));
+      return owner.fresh ? setOwnerCookie(req, res, owner.id) : res;
+    };
+
+    let result: Awaited<ReturnType<typeof rateLimit>>;
+    try {
+      result = await rateLimit(`${budget}:${client}`, RATE_LIMIT_BUDGETS[budget]);
+    } catch {
+      // Si el store compartido no responde se deja pasar: mejor sin limite que sin servicio.
+      return run();
+    }
 
-  if (b.count >= limit) return { ok: false, remaining: 0 };
+    if (!result.ok) {
+      return applyHeaders(
+        NextResponse.json(
+          { ok: false, error: `Demasiadas peticiones. Reintenta en ${result.retryAfterS} s.` },
+          { status: 429 }
+        ),
+        result
+      );
+    }
 
-  b.count += 1;
-  buckets.set(ip, b);
-  return { ok: true, remaining: limit - b.count };
+    return applyHeaders(await run(), result);
+  };
 }
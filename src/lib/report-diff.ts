@@ -0,0 +1,198 @@
+import type { ReportKind } from "@/lib/reports";
+import type { AnalyzeResponse, CompareResponse, HistoryResponse } from "@/lib/types";
+
+// Diferencias entre dos ejecuciones del mismo informe (original y re-ejecucion):
+// datos de las tools por lugar y secciones del informe. Se calcula en el cliente
+// a partir de los dos payloads, sin volver a llamar a nada.
+
+export type ValueChange<T> = { before: T | null; after: T | null; changed: boolean };
+
+export type PoiRef = { osm: string; name: string | null; category: string; lat: number; lon: number; distance_m: number | null };
+
+export type EventRef = { id: string; title: string; date: string | null };
+
+export type PlaceDiff = {
+  // Nombre del lugar, o "A: ..." en comparaciones.
+  label: string;
+  counts: { key: string; before: number | null; after: number | null }[];
+  // Solo si los dos payloads traen `urban.pois` (analisis): las comparaciones llevan solo
+  // conteos y los informes guardados antes de existir `pois` no se pueden comparar.
+  pois: { added: PoiRef[]; removed: PoiRef[] } | null;
+  population: ValueChange<number>;
+  flood: ValueChange<string>;
+  suitability: ValueChange<number>;
+  // Solo en historicos (NASA EONET).
+  events: { added: EventRef[]; removed: EventRef[] } | null;
+};
+
+export type SectionDiff = {
+  heading: string;
+  before: string | null;
+  after: string | null;
+  status: "same" | "changed" | "added" | "removed";
+};
+
+export type ReportDiff = { places: PlaceDiff[]; sections: SectionDiff[] };
+
+const COUNT_KEYS = ["hospitals", "pharmacies", "schools", "transport", "landuse", "shops", "parking", "parks"];
+
+function numberOrNull(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function change<T>(before: T | null, after: T | null): ValueChange<T> {
+  return { before, after, changed: before !== after };
+}
+
+function poisOf(value: unknown): PoiRef[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.filter(
+    (poi): poi is PoiRef => typeof poi?.osm === "string" && typeof poi?.lat === "number" && typeof poi?.lon === "number"
+  );
+}
+
+// Por categoria y, dentro de cada una, de mas cerca a mas lejos.
+function byCategory(a: PoiRef, b: PoiRef) {
+  return a.category.localeCompare(b.category) || (a.distance_m ?? Infinity) - (b.distance_m ?? Infinity);
+}
+
+function addedAndRemoved<T>(before: T[], after: T[], key: (item: T) => string) {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter((item) => !beforeKeys.has(key(item))),
+    removed: before.filter((item) => !afterKeys.has(key(item))),
+  };
+}
+
+type FloodData = {
+  ok?: boolean;
+  fallback_used?: boolean;
+  summary?: unknown;
+  parsed?: unknown;
+  layer?: { name?: string | null } | null;
+};
+
+type EventsData = {
+  ok?: boolean;
+  events?: { id?: unknown; title?: unknown; date_start?: string | null; date_end?: string | null }[] | null;
+};
+
+// Resumen comparable del resultado EFAS (capa y resumen); null si no hubo datos.
+function floodLabel(flood: FloodData | null | undefined) {
+  if (!flood || flood.ok === false || flood.fallback_used) return null;
+  const summary = typeof flood.summary === "string" ? flood.summary : JSON.stringify(flood.summary ?? flood.parsed ?? null);
+  return `${flood.layer?.name ?? "EFAS"}: ${summary}`;
+}
+
+function eventsOf(events: EventsData | null | undefined): EventRef[] | null {
+  if (!events?.ok || !Array.isArray(events.events)) return null;
+  return events.events.map((ev) => ({
+    id: String(ev?.id ?? ""),
+    title: String(ev?.title ?? ""),
+    date: ev?.date_end ?? ev?.date_start ?? null,
+  }));
+}
+
+// Subconjunto de los datos de cada lugar que se compara.
+type PlaceData = {
+  label: string;
+  urban?: { ok?: boolean; counts?: Record<string, unknown> | null; pois?: unknown } | null;
+  stats?: { city?: { population?: unknown } | null } | null;
+  flood?: FloodData | null;
+  suitability?: { total: number | null } | null;
+  events?: EventsData | null;
+};
+
+function diffPlace(label: string, before: PlaceData | null, after: PlaceData | null): PlaceDiff {
+  const beforePois = poisOf(before?.urban?.pois);
+  const afterPois = poisOf(after?.urban?.pois);
+  const pois = beforePois && afterPois ? addedAndRemoved(beforePois, afterPois, (poi) => poi.osm) : null;
+  const beforeEvents = eventsOf(before?.events);
+  const afterEvents = eventsOf(after?.events);
+
+  return {
+    label,
+    counts: before?.urban?.counts || after?.urban?.counts
+      ? COUNT_KEYS.map((key) => ({
+          key,
+          before: numberOrNull(before?.urban?.counts?.[key]),
+          after: numberOrNull(after?.urban?.counts?.[key]),
+        }))
+      : [],
+    pois: pois ? { added: pois.added.sort(byCategory), removed: pois.removed.sort(byCategory) } : null,
+    population: change(numberOrNull(before?.stats?.city?.population), numberOrNull(after?.stats?.city?.population)),
+    flood: change(floodLabel(before?.flood), floodLabel(after?.flood)),
+    suitability: change(numberOrNull(before?.suitability?.total), numberOrNull(after?.suitability?.total)),
+    events:
+      beforeEvents || afterEvents
+        ? addedAndRemoved(beforeEvents ?? [], afterEvents ?? [], (ev) => ev.id || `${ev.title}|${ev.date}`)
+        : null,
+  };
+}
+
+function placesOf(kind: ReportKind, payload: AnalyzeResponse | CompareResponse | HistoryResponse): PlaceData[] {
+  if (kind === "compare") {
+    return ((payload as CompareResponse).cities ?? []).map((city) => ({
+      ...city,
+      label: `${city.label}: ${city.stats?.city?.label ?? city.reverse?.display_name ?? "?"}`,
+    }));
+  }
+  const data = payload as AnalyzeResponse & HistoryResponse;
+  return [{ ...data, label: data.coords?.display_name ?? "" }];
+}
+
+// Parte el Markdown por encabezados (#, ## o ###); el texto previo al primero va como "".
+function sectionsOf(markdown: string | undefined) {
+  const sections = new Map<string, string>();
+  let heading = "";
+  let lines: string[] = [];
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    if (text || heading) sections.set(heading, text);
+  };
+  for (const line of (markdown ?? "").split("\n")) {
+    const match = /^#{1,3}\s+(.+?)\s*#*\s*$/.exec(line);
+    if (match) {
+      flush();
+      heading = match[1];
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+function normalizeText(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function diffSections(before: string | undefined, after: string | undefined): SectionDiff[] {
+  const a = sectionsOf(before);
+  const b = sectionsOf(after);
+  const headings = [...b.keys(), ...[...a.keys()].filter((heading) => !b.has(heading))];
+  return headings.map((heading) => {
+    const left = a.get(heading) ?? null;
+    const right = b.get(heading) ?? null;
+    const status =
+      left === null ? "added" : right === null ? "removed" : normalizeText(left) === normalizeText(right) ? "same" : "changed";
+    return { heading, before: left, after: right, status };
+  });
+}
+
+export function diffReports(
+  kind: ReportKind,
+  before: AnalyzeResponse | CompareResponse | HistoryResponse,
+  after: AnalyzeResponse | CompareResponse | HistoryResponse
+): ReportDiff {
+  const beforePlaces = placesOf(kind, before);
+  const afterPlaces = placesOf(kind, after);
+  const places = Array.from({ length: Math.max(beforePlaces.length, afterPlaces.length) }, (_, index) => {
+    const left = beforePlaces[index] ?? null;
+    const right = afterPlaces[index] ?? null;
+    return diffPlace(right?.label || left?.label || "", left, right);
+  });
+  return { places, sections: diffSections(before.report_markdown, after.report_markdown) };
+}
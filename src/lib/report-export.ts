@@ -1,9 +1,13 @@
+import { DEFAULT_LOCALE, LOCALE_TAGS, type Locale } from "@/lib/i18n";
+import { UI_MESSAGES } from "@/lib/ui-messages";
+
 export type ReportExportOptions = {
   title: string;
   subtitle?: string | null;
   dateLabel: string;
   reportHtml?: string | null;
   reportMarkdown?: string | null;
+  locale?: Locale;
 };
 
 function escapeHtml(value: string) {
@@ -19,20 +23,22 @@ function sanitizeTitle(value: string) {
   return value.replace(/[\\/:*?"<>|]+/g, "-").trim();
 }
 
-function resolveReportHtml(reportHtml?: string | null, reportMarkdown?: string | null) {
+function resolveReportHtml(locale: Locale, reportHtml?: string | null, reportMarkdown?: string | null) {
   if (reportHtml && reportHtml.trim()) return reportHtml;
   if (reportMarkdown && reportMarkdown.trim()) {
     return `<pre class="markdown-fallback">${escapeHtml(reportMarkdown)}</pre>`;
   }
-  return "<p>No hay informe disponible.</p>";
+  return `<p>${escapeHtml(UI_MESSAGES[locale].pdfEmpty)}</p>`;
 }
 
-export function formatReportDate(date: Date) {
-  return new Intl.DateTimeFormat("es-ES", { dateStyle: "long", timeStyle: "short" }).format(date);
+export function formatReportDate(date: Date, locale: Locale = DEFAULT_LOCALE) {
+  return new Intl.DateTimeFormat(LOCALE_TAGS[locale], { dateStyle: "long", timeStyle: "short" }).format(date);
 }
 
 export function openReportPdf(options: ReportExportOptions) {
-  const reportHtml = resolveReportHtml(options.reportHtml, options.reportMarkdown);
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const t = UI_MESSAGES[locale];
+  const reportHtml = resolveReportHtml(locale, options.reportHtml, options.reportMarkdown);
   const safeTitle = escapeHtml(options.title);
   const safeSubtitle = options.subtitle ? escapeHtml(options.subtitle) : "";
   const safeDate = escapeHtml(options.dateLabel);
@@ -44,7 +50,7 @@ export function openReportPdf(options: ReportExportOptions) {
 
   const html = `
 <!doctype html>
-<html lang="es">
+<html lang="${locale}">
   <head>
     <meta charset="utf-8" />
     <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -187,8 +193,8 @@ export function openReportPdf(options: ReportExportOptions) {
         <h1 class="title">${safeTitle}</h1>
         ${safeSubtitle ? `<p class="subtitle">${safeSubtitle}</p>` : ""}
         <div class="meta">
-          <span>Fecha: ${safeDate}</span>
-          <span>Formato PDF</span>
+          <span>${escapeHtml(t.pdfDate)}: ${safeDate}</span>
+          <span>${escapeHtml(t.pdfFormat)}</span>
         </div>
       </header>
       <section class="report">
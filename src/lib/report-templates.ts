@@ -0,0 +1,208 @@
+import type { ToolName } from "@/lib/tools/definitions";
+import { FIXED_HEADINGS, hasHeadings, type Locale, type LocalizedText } from "@/lib/i18n";
+
+// Plantillas de informe de /api/analyze por caso de uso. Todas tienen cuatro
+// secciones narrativas (zona, entorno, riesgos, usos) seguidas de las tres fijas;
+// asi el informe estructurado mantiene los mismos campos con otros encabezados.
+
+export const REPORT_TEMPLATE_IDS = ["general", "residential", "retail", "school", "due_diligence", "emergency"] as const;
+export type ReportTemplateId = (typeof REPORT_TEMPLATE_IDS)[number];
+
+export type TemplateSections = {
+  zone: string;
+  infrastructure: string;
+  risks: string;
+  uses: string;
+};
+
+export type ReportTemplate = {
+  id: ReportTemplateId;
+  label: LocalizedText;
+  description: LocalizedText;
+  sections: Record<Locale, TemplateSections>;
+  // Datos a los que el informe debe dar mas peso.
+  emphasize: { tool: ToolName; what: string }[];
+  // Criterios con los que se justifica la recomendacion final.
+  criteria: string[];
+};
+
+export const REPORT_TEMPLATES: Record<ReportTemplateId, ReportTemplate> = {
+  general: {
+    id: "general",
+    label: { es: "General", en: "General", ca: "General", fr: "Général" },
+    description: {
+      es: "Descripcion urbana y de riesgos sin un uso concreto.",
+      en: "Urban and risk description without a specific use.",
+      ca: "Descripció urbana i de riscos sense un ús concret.",
+      fr: "Description urbaine et des risques sans usage précis.",
+    },
+    sections: {
+      es: { zone: "Descripcion de zona", infrastructure: "Infraestructura cercana", risks: "Riesgos relevantes", uses: "Posibles usos urbanos" },
+      en: { zone: "Area description", infrastructure: "Nearby infrastructure", risks: "Relevant risks", uses: "Potential urban uses" },
+      ca: { zone: "Descripció de la zona", infrastructure: "Infraestructura propera", risks: "Riscos rellevants", uses: "Possibles usos urbans" },
+      fr: { zone: "Description de la zone", infrastructure: "Infrastructures à proximité", risks: "Risques pertinents", uses: "Usages urbains possibles" },
+    },
+    emphasize: [
+      { tool: "capasUrbanismo", what: "equipamientos, transporte y usos del suelo" },
+      { tool: "riesgoInundacion", what: "indicadores de inundacion" },
+    ],
+    criteria: ["Equilibrio entre servicios disponibles y riesgos detectados."],
+  },
+  residential: {
+    id: "residential",
+    label: { es: "Promocion residencial", en: "Residential development", ca: "Promoció residencial", fr: "Promotion résidentielle" },
+    description: {
+      es: "Viabilidad de vivienda: servicios de proximidad, transporte y riesgos.",
+      en: "Housing feasibility: local services, transport and risks.",
+      ca: "Viabilitat d'habitatge: serveis de proximitat, transport i riscos.",
+      fr: "Faisabilité du logement : services de proximité, transports et risques.",
+    },
+    sections: {
+      es: { zone: "Descripcion de zona", infrastructure: "Servicios y equipamientos de proximidad", risks: "Riesgos relevantes", uses: "Viabilidad residencial" },
+      en: { zone: "Area description", infrastructure: "Local services and amenities", risks: "Relevant risks", uses: "Residential feasibility" },
+      ca: { zone: "Descripció de la zona", infrastructure: "Serveis i equipaments de proximitat", risks: "Riscos rellevants", uses: "Viabilitat residencial" },
+      fr: { zone: "Description de la zone", infrastructure: "Services et équipements de proximité", risks: "Risques pertinents", uses: "Faisabilité résidentielle" },
+    },
+    emphasize: [
+      { tool: "capasUrbanismo", what: "colegios, sanidad, comercios (counts.shops), parques (counts.parks) y paradas de transporte" },
+      { tool: "cityStats", what: "poblacion y densidad del municipio" },
+      { tool: "riesgoInundacion", what: "exposicion a inundaciones de viviendas" },
+    ],
+    criteria: [
+      "Cobertura de servicios basicos (educacion, sanidad, comercio) a distancia caminable.",
+      "Acceso a transporte publico.",
+      "Ausencia de riesgo de inundacion relevante.",
+      "Uso del suelo residencial o compatible en el entorno.",
+    ],
+  },
+  retail: {
+    id: "retail",
+    label: { es: "Implantacion comercial", en: "Retail site", ca: "Implantació comercial", fr: "Implantation commerciale" },
+    description: {
+      es: "Seleccion de local: demanda, competencia y accesibilidad.",
+      en: "Store location: demand, competition and accessibility.",
+      ca: "Selecció de local: demanda, competència i accessibilitat.",
+      fr: "Choix d'un local : demande, concurrence et accessibilité.",
+    },
+    sections: {
+      es: { zone: "Descripcion de zona", infrastructure: "Actividad comercial y competencia", risks: "Riesgos relevantes", uses: "Potencial comercial" },
+      en: { zone: "Area description", infrastructure: "Retail activity and competition", risks: "Relevant risks", uses: "Retail potential" },
+      ca: { zone: "Descripció de la zona", infrastructure: "Activitat comercial i competència", risks: "Riscos rellevants", uses: "Potencial comercial" },
+      fr: { zone: "Description de la zone", infrastructure: "Activité commerciale et concurrence", risks: "Risques pertinents", uses: "Potentiel commercial" },
+    },
+    emphasize: [
+      { tool: "capasUrbanismo", what: "comercios existentes (counts.shops, competencia), transporte y aparcamientos (counts.parking)" },
+      { tool: "cityStats", what: "poblacion y densidad como proxy de demanda" },
+    ],
+    criteria: [
+      "Poblacion y densidad suficientes para la demanda.",
+      "Nivel de competencia cercana (saturacion o polo comercial).",
+      "Accesibilidad en transporte publico.",
+    ],
+  },
+  school: {
+    id: "school",
+    label: { es: "Ubicacion de centro educativo", en: "School location", ca: "Ubicació de centre educatiu", fr: "Implantation d'un établissement scolaire" },
+    description: {
+      es: "Idoneidad para un colegio: entorno seguro, accesible y con demanda.",
+      en: "Suitability for a school: safe, accessible surroundings with demand.",
+      ca: "Idoneïtat per a una escola: entorn segur, accessible i amb demanda.",
+      fr: "Adéquation pour une école : environnement sûr, accessible et avec de la demande.",
+    },
+    sections: {
+      es: { zone: "Descripcion de zona", infrastructure: "Accesibilidad y entorno escolar", risks: "Riesgos relevantes", uses: "Idoneidad para centro educativo" },
+      en: { zone: "Area description", infrastructure: "Accessibility and school environment", risks: "Relevant risks", uses: "Suitability for a school" },
+      ca: { zone: "Descripció de la zona", infrastructure: "Accessibilitat i entorn escolar", risks: "Riscos rellevants", uses: "Idoneïtat per a un centre educatiu" },
+      fr: { zone: "Description de la zone", infrastructure: "Accessibilité et environnement scolaire", risks: "Risques pertinents", uses: "Adéquation pour un établissement scolaire" },
+    },
+    emphasize: [
+      { tool: "capasUrbanismo", what: "colegios existentes, parques (counts.parks), transporte y vias principales" },
+      { tool: "cityStats", what: "poblacion del municipio" },
+      { tool: "riesgoInundacion", what: "riesgo de inundacion del emplazamiento" },
+    ],
+    criteria: [
+      "Oferta educativa existente cercana (cobertura o saturacion).",
+      "Acceso a pie y en transporte publico.",
+      "Entorno seguro: sin riesgo de inundacion relevante.",
+      "Zonas verdes proximas.",
+    ],
+  },
+  due_diligence: {
+    id: "due_diligence",
+    label: { es: "Due diligence inmobiliaria", en: "Real estate due diligence", ca: "Due diligence immobiliària", fr: "Due diligence immobilière" },
+    description: {
+      es: "Revision de un activo: condicionantes, riesgos y datos verificables.",
+      en: "Asset review: constraints, risks and verifiable data.",
+      ca: "Revisió d'un actiu: condicionants, riscos i dades verificables.",
+      fr: "Revue d'un actif : contraintes, risques et données vérifiables.",
+    },
+    sections: {
+      es: { zone: "Descripcion de zona", infrastructure: "Infraestructura y servicios", risks: "Riesgos y condicionantes", uses: "Usos y valoracion del emplazamiento" },
+      en: { zone: "Area description", infrastructure: "Infrastructure and services", risks: "Risks and constraints", uses: "Uses and site assessment" },
+      ca: { zone: "Descripció de la zona", infrastructure: "Infraestructura i serveis", risks: "Riscos i condicionants", uses: "Usos i valoració de l'emplaçament" },
+      fr: { zone: "Description de la zone", infrastructure: "Infrastructures et services", risks: "Risques et contraintes", uses: "Usages et évaluation du site" },
+    },
+    emphasize: [
+      { tool: "reverseGeocode", what: "direccion y unidad administrativa" },
+      { tool: "riesgoInundacion", what: "riesgo de inundacion y su fiabilidad" },
+      { tool: "capasUrbanismo", what: "usos del suelo del entorno" },
+    ],
+    criteria: [
+      "Riesgos fisicos documentados (inundacion) y su grado de certeza.",
+      "Coherencia del uso actual del suelo con el uso previsto.",
+      "Datos no disponibles que exigen comprobacion adicional.",
+    ],
+  },
+  emergency: {
+    id: "emergency",
+    label: { es: "Planificacion de emergencias", en: "Emergency planning", ca: "Planificació d'emergències", fr: "Planification des urgences" },
+    description: {
+      es: "Exposicion a peligros y recursos de respuesta cercanos.",
+      en: "Hazard exposure and nearby response resources.",
+      ca: "Exposició a perills i recursos de resposta propers.",
+      fr: "Exposition aux dangers et ressources d'intervention à proximité.",
+    },
+    sections: {
+      es: { zone: "Descripcion de zona", infrastructure: "Recursos de emergencia cercanos", risks: "Peligros y exposicion", uses: "Planificacion de respuesta" },
+      en: { zone: "Area description", infrastructure: "Nearby emergency resources", risks: "Hazards and exposure", uses: "Response planning" },
+      ca: { zone: "Descripció de la zona", infrastructure: "Recursos d'emergència propers", risks: "Perills i exposició", uses: "Planificació de la resposta" },
+      fr: { zone: "Description de la zone", infrastructure: "Ressources d'urgence à proximité", risks: "Dangers et exposition", uses: "Planification de la réponse" },
+    },
+    emphasize: [
+      { tool: "riesgoInundacion", what: "indicadores de inundacion" },
+      { tool: "capasUrbanismo", what: "hospitales, centros de salud, bomberos, policia y vias de evacuacion" },
+      { tool: "accesibilidad", what: "tiempo real por la red de calles al hospital, bomberos y policia mas cercanos (nearest_facilities)" },
+      { tool: "cityStats", what: "poblacion expuesta" },
+    ],
+    criteria: [
+      "Poblacion expuesta y nivel de peligro.",
+      "Distancia a hospitales y servicios de emergencia.",
+      "Vias de acceso y evacuacion disponibles.",
+    ],
+  },
+};
+
+export function getReportTemplate(id: ReportTemplateId | null | undefined) {
+  return REPORT_TEMPLATES[id ?? "general"] ?? REPORT_TEMPLATES.general;
+}
+
+export function templateHeadings(template: ReportTemplate, locale: Locale) {
+  const { zone, infrastructure, risks, uses } = template.sections[locale];
+  const fixed = FIXED_HEADINGS[locale];
+  return [zone, infrastructure, risks, uses, fixed.recommendation, fixed.sources, fixed.limitations];
+}
+
+export function hasTemplateHeadings(report: string, template: ReportTemplate, locale: Locale) {
+  return hasHeadings(report, templateHeadings(template, locale));
+}
+
+// Bloque del prompt de sistema con el enfoque de la plantilla.
+export function templatePromptBlock(template: ReportTemplate, locale: Locale) {
+  return `
+Caso de uso: ${template.label.es}. ${template.description.es}
+Datos a priorizar:
+${template.emphasize.map((e) => `- ${e.tool}: ${e.what}`).join("\n")}
+Criterios para "${FIXED_HEADINGS[locale].recommendation}" (valora cada uno con los datos disponibles):
+${template.criteria.map((c) => `- ${c}`).join("\n")}
+`.trim();
+}
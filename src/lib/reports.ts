@@ -0,0 +1,163 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "@/lib/env";
+import { llm } from "@/lib/llm";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n";
+import { currentOwnerId } from "@/lib/request-context";
+import type { AnalyzeResponse, CompareResponse, HistoryResponse } from "@/lib/types";
+
+// Informes guardados con enlace permanente (/reports/[id]). Cada informe es un
+// JSON en REPORTS_DIR con la peticion, la respuesta completa (salidas de tools,
+// fuentes y limitaciones), el modelo y la fecha; index.jsonl lleva una linea
+// resumen por informe para listarlos sin abrirlos todos. El listado solo muestra
+// los informes del navegador que los genero (cookie de lib/owner); el enlace
+// permanente sigue abierto a quien lo tenga.
+
+export const REPORT_KINDS = ["analyze", "compare", "history"] as const;
+export type ReportKind = (typeof REPORT_KINDS)[number];
+
+type ReportPayloads = {
+  analyze: AnalyzeResponse;
+  compare: CompareResponse;
+  history: HistoryResponse;
+};
+
+export type ReportSummary = {
+  id: string;
+  kind: ReportKind;
+  created_at: string;
+  // Lugar (o lugares, en comparaciones) para mostrar y filtrar.
+  label: string;
+  points: { lat: number; lon: number }[];
+  locale: Locale;
+  template: string | null;
+};
+
+// Linea de index.jsonl: el resumen mas el dueno, que no sale del servidor.
+type IndexEntry = ReportSummary & { owner_id: string | null };
+
+export type StoredReport<K extends ReportKind = ReportKind> = ReportSummary & {
+  kind: K;
+  llm: { provider: string; model: string };
+  input: unknown;
+  payload: ReportPayloads[K];
+};
+
+const REPORTS_DIR = path.resolve(process.cwd(), env.REPORTS_DIR ?? ".reports");
+const INDEX_FILE = path.join(REPORTS_DIR, "index.jsonl");
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function fileOf(id: string) {
+  return path.join(REPORTS_DIR, `${id}.json`);
+}
+
+function placeOf(coords: { lat: number; lon: number; display_name?: string | null } | undefined) {
+  if (!coords) return null;
+  return coords.display_name || `${coords.lat.toFixed(5)}, ${coords.lon.toFixed(5)}`;
+}
+
+function describe<K extends ReportKind>(kind: K, payload: ReportPayloads[K]) {
+  if (kind === "compare") {
+    const cities = (payload as CompareResponse).cities ?? [];
+    return {
+      label: cities.map((city) => `${city.label}: ${city.stats?.city?.label ?? city.reverse?.display_name ?? "?"}`).join(" · "),
+      points: cities
+        .filter((city) => typeof city.coords?.lat === "number" && typeof city.coords?.lon === "number")
+        .map((city) => ({ lat: city.coords.lat, lon: city.coords.lon })),
+    };
+  }
+  const { coords } = payload as AnalyzeResponse | HistoryResponse;
+  return {
+    label: placeOf(coords) ?? "?",
+    points: coords ? [{ lat: coords.lat, lon: coords.lon }] : [],
+  };
+}
+
+// Guarda el informe y devuelve su id; null si no se pudo escribir (best-effort:
+// el usuario recibe igualmente el informe, solo que sin enlace permanente).
+export async function saveReport<K extends ReportKind>(kind: K, input: unknown, payload: ReportPayloads[K]) {
+  const body = input as { locale?: Locale; template?: string } | null;
+  const id = randomUUID();
+  const report: StoredReport<K> = {
+    id,
+    kind,
+    created_at: new Date().toISOString(),
+    ...describe(kind, payload),
+    locale: body?.locale ?? DEFAULT_LOCALE,
+    template: kind === "analyze" ? ((payload as AnalyzeResponse).template ?? body?.template ?? null) : null,
+    llm: { provider: llm.name, model: llm.model },
+    input,
+    // Con su propio id, para que la vista guardada tambien ofrezca el enlace.
+    payload: { ...payload, report_id: id },
+  };
+  const { created_at, label, points, locale, template } = report;
+  const entry: IndexEntry = { id, kind, created_at, label, points, locale, template, owner_id: currentOwnerId() };
+
+  try {
+    await mkdir(REPORTS_DIR, { recursive: true });
+    const tmp = `${fileOf(id)}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(report), "utf8");
+    await rename(tmp, fileOf(id));
+    await appendFile(INDEX_FILE, `${JSON.stringify(entry)}\n`, "utf8");
+    return id;
+  } catch {
+    return null;
+  }
+}
+
+export async function getReport(id: string): Promise<StoredReport | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(fileOf(id), "utf8")) as StoredReport;
+  } catch {
+    return null;
+  }
+}
+
+export type ReportFilters = {
+  kind?: ReportKind | null;
+  // Texto a buscar en el lugar, sin distinguir mayusculas ni acentos.
+  q?: string | null;
+  // Fechas YYYY-MM-DD, ambas incluidas.
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+};
+
+function fold(text: string) {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Informes de ownerId, del mas reciente al mas antiguo. Los guardados antes de
+// registrar el dueno no aparecen en ningun listado.
+export async function listReports(ownerId: string | null, filters: ReportFilters = {}): Promise<ReportSummary[]> {
+  if (!ownerId) return [];
+  let lines: string[];
+  try {
+    lines = (await readFile(INDEX_FILE, "utf8")).split("\n");
+  } catch {
+    return [];
+  }
+
+  const q = filters.q?.trim() ? fold(filters.q.trim()) : null;
+  const out: ReportSummary[] = [];
+  for (let i = lines.length - 1; i >= 0 && out.length < (filters.limit ?? 200); i--) {
+    let entry: IndexEntry;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      // Linea vacia o cortada por una escritura interrumpida.
+      continue;
+    }
+    const { owner_id, ...summary } = entry;
+    if (owner_id !== ownerId) continue;
+    const day = summary.created_at.slice(0, 10);
+    if (filters.kind && summary.kind !== filters.kind) continue;
+    if (filters.from && day < filters.from) continue;
+    if (filters.to && day > filters.to) continue;
+    if (q && !fold(summary.label).includes(q)) continue;
+    out.push(summary);
+  }
+  return out;
+}
@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Ambito de un trabajo en segundo plano (ver lib/jobs): permite cancelarlo y
+// guarda las salidas de las tools para no repetirlas al reintentarlo (ver lib/jobs).
+export type JobScope = {
+  signal: AbortSignal;
+  // Ignora la cache fresca de geodatos (re-ejecuciones de informes guardados).
+  refresh: boolean;
+  partials: Map<string, unknown>;
+  savePartial(key: string, value: unknown): void;
+};
+
+// ownerId: token del navegador (ver lib/owner); decide de quien son trabajos e informes.
+type RequestContext = { clientId: string; ownerId?: string; job?: JobScope };
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Propaga datos de la peticion HTTP (p. ej. quien la hizo) hasta las tools
+// sin tener que pasarlos como argumento por todo el pipeline.
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T) {
+  return storage.run(context, fn);
+}
+
+export function currentClientId() {
+  return storage.getStore()?.clientId ?? "anonymous";
+}
+
+export function currentOwnerId() {
+  return storage.getStore()?.ownerId ?? null;
+}
+
+export function currentJobScope() {
+  return storage.getStore()?.job ?? null;
+}
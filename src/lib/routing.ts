@@ -0,0 +1,282 @@
+import { haversineMeters, type LatLon } from "@/lib/geo";
+import type { OverpassElement } from "@/lib/overpass";
+
+// Grafo de calles a partir de las vias `highway` de Overpass (`out body; >; out skel`)
+// y caminos minimos (Dijkstra) en segundos para ir a pie, en bici o en coche.
+// Es un modelo simple: velocidad constante a pie y en bici, velocidad tipica por
+// tipo de via en coche, sentidos unicos y accesos prohibidos; sin semaforos ni pendientes.
+
+export type TravelMode = "walk" | "bike" | "drive";
+
+export const TRAVEL_MODES: TravelMode[] = ["walk", "bike", "drive"];
+
+export const WALK_SPEED_KMH = 4.8;
+export const BIKE_SPEED_KMH = 15;
+
+// Velocidades tipicas en ciudad (km/h) por tipo de via; las que no estan no admiten coches.
+const DRIVE_SPEED_KMH: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 50,
+  primary_link: 40,
+  secondary: 45,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 35,
+  residential: 30,
+  living_street: 10,
+  service: 15,
+};
+
+const NO_WALK = new Set(["motorway", "motorway_link", "trunk", "trunk_link"]);
+const NO_BIKE = new Set([...NO_WALK, "steps"]);
+// Vias peatonales donde la bici solo entra si se indica expresamente.
+const FOOT_ONLY = new Set(["footway", "pedestrian", "path", "corridor"]);
+
+// Tipos de `highway` que forman parte de la red (para el filtro de la consulta Overpass).
+export const ROUTABLE_HIGHWAYS = [
+  ...Object.keys(DRIVE_SPEED_KMH),
+  "road",
+  "track",
+  "footway",
+  "pedestrian",
+  "path",
+  "cycleway",
+  "steps",
+  "corridor",
+  "bridleway",
+];
+
+const MODE_BIT: Record<TravelMode, number> = { walk: 1, bike: 2, drive: 4 };
+
+type Edge = { to: number; length_m: number; modes: number; drive_mps: number };
+
+export type RoadGraph = {
+  ids: number[];
+  points: LatLon[];
+  edges: Edge[][];
+  edgeCount: number;
+};
+
+const NO = new Set(["no", "private"]);
+const YES = new Set(["yes", "designated", "permissive"]);
+
+function modesOf(tags: Record<string, string>) {
+  const highway = tags.highway;
+  const restricted = NO.has(tags.access ?? "");
+  const walk = !NO_WALK.has(highway) && !NO.has(tags.foot ?? "") && (!restricted || YES.has(tags.foot ?? ""));
+  const bike =
+    !NO_BIKE.has(highway) &&
+    !NO.has(tags.bicycle ?? "") &&
+    (!FOOT_ONLY.has(highway) || YES.has(tags.bicycle ?? "")) &&
+    (!restricted || YES.has(tags.bicycle ?? ""));
+  const drive =
+    highway in DRIVE_SPEED_KMH && !restricted && !NO.has(tags.motor_vehicle ?? "") && !NO.has(tags.motorcar ?? "");
+  return { walk, bike, drive };
+}
+
+// 1 = solo en el sentido de la via, -1 = solo en contra, 0 = doble sentido.
+function onewayOf(tags: Record<string, string>) {
+  if (tags.oneway === "-1") return -1;
+  if (tags.oneway === "yes" || tags.oneway === "1" || tags.oneway === "true") return 1;
+  if (tags.junction === "roundabout" || tags.highway === "motorway") return tags.oneway === "no" ? 0 : 1;
+  return 0;
+}
+
+export function buildRoadGraph(elements: OverpassElement[]): RoadGraph {
+  const coords = new Map<number, LatLon>();
+  for (const el of elements) {
+    if (el.type === "node" && typeof el.lat === "number" && typeof el.lon === "number") coords.set(el.id, { lat: el.lat, lon: el.lon });
+  }
+
+  const index = new Map<number, number>();
+  const graph: RoadGraph = { ids: [], points: [], edges: [], edgeCount: 0 };
+  const nodeIndex = (id: number) => {
+    let i = index.get(id);
+    if (i === undefined) {
+      i = graph.ids.push(id) - 1;
+      graph.points.push(coords.get(id)!);
+      graph.edges.push([]);
+      index.set(id, i);
+    }
+    return i;
+  };
+
+  for (const el of elements) {
+    if (el.type !== "way" || !el.nodes?.length || !el.tags?.highway) continue;
+    const tags = el.tags;
+    const modes = modesOf(tags);
+    if (!modes.walk && !modes.bike && !modes.drive) continue;
+
+    const oneway = onewayOf(tags);
+    const bikeOneway = tags["oneway:bicycle"] === "no" ? 0 : oneway;
+    const driveMps = ((DRIVE_SPEED_KMH[tags.highway] ?? 0) * 1000) / 3600;
+    const forward = (modes.walk ? MODE_BIT.walk : 0) | (modes.bike && bikeOneway !== -1 ? MODE_BIT.bike : 0) | (modes.drive && oneway !== -1 ? MODE_BIT.drive : 0);
+    const backward = (modes.walk ? MODE_BIT.walk : 0) | (modes.bike && bikeOneway !== 1 ? MODE_BIT.bike : 0) | (modes.drive && oneway !== 1 ? MODE_BIT.drive : 0);
+
+    for (let k = 0; k + 1 < el.nodes.length; k++) {
+      if (!coords.has(el.nodes[k]) || !coords.has(el.nodes[k + 1])) continue;
+      const a = nodeIndex(el.nodes[k]);
+      const b = nodeIndex(el.nodes[k + 1]);
+      const length_m = haversineMeters(graph.points[a], graph.points[b]);
+      if (forward) graph.edges[a].push({ to: b, length_m, modes: forward, drive_mps: driveMps });
+      if (backward) graph.edges[b].push({ to: a, length_m, modes: backward, drive_mps: driveMps });
+      graph.edgeCount++;
+    }
+  }
+  return graph;
+}
+
+export function modeSpeedMps(mode: Exclude<TravelMode, "drive">) {
+  return ((mode === "walk" ? WALK_SPEED_KMH : BIKE_SPEED_KMH) * 1000) / 3600;
+}
+
+function edgeSeconds(edge: Edge, mode: TravelMode) {
+  return mode === "drive" ? edge.length_m / edge.drive_mps : edge.length_m / modeSpeedMps(mode);
+}
+
+// Monticulo binario minimo de [coste, nodo] sobre un array.
+type Heap = [number, number][];
+
+function heapPush(heap: Heap, item: [number, number]) {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: Heap) {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = 2 * i + 1;
+      const r = l + 1;
+      let m = i;
+      if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+      if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+      if (m === i) break;
+      [heap[m], heap[i]] = [heap[i], heap[m]];
+      i = m;
+    }
+  }
+  return top;
+}
+
+export type ShortestPaths = { seconds: Float64Array; meters: Float64Array; previous: Int32Array };
+
+// Dijkstra desde `source` (con `startSeconds` ya gastados en llegar a la red) hasta `maxSeconds`.
+export function shortestPaths(graph: RoadGraph, source: number, mode: TravelMode, maxSeconds = Infinity, startSeconds = 0): ShortestPaths {
+  const n = graph.points.length;
+  const seconds = new Float64Array(n).fill(Infinity);
+  const meters = new Float64Array(n).fill(Infinity);
+  const previous = new Int32Array(n).fill(-1);
+  const bit = MODE_BIT[mode];
+  const heap: Heap = [];
+  seconds[source] = startSeconds;
+  meters[source] = 0;
+  heapPush(heap, [startSeconds, source]);
+
+  while (heap.length) {
+    const [cost, u] = heapPop(heap);
+    if (cost > seconds[u]) continue;
+    for (const edge of graph.edges[u]) {
+      if (!(edge.modes & bit)) continue;
+      const next = cost + edgeSeconds(edge, mode);
+      if (next > maxSeconds || next >= seconds[edge.to]) continue;
+      seconds[edge.to] = next;
+      meters[edge.to] = meters[u] + edge.length_m;
+      previous[edge.to] = u;
+      heapPush(heap, [next, edge.to]);
+    }
+  }
+  return { seconds, meters, previous };
+}
+
+// Nodos del camino minimo de la fuente hasta `target` (vacio si no se alcanza).
+export function pathTo(paths: ShortestPaths, target: number) {
+  if (!Number.isFinite(paths.seconds[target])) return [];
+  const path: number[] = [];
+  for (let node = target; node !== -1; node = paths.previous[node]) path.push(node);
+  return path.reverse();
+}
+
+const ISOCHRONE_SECTORS = 72;
+
+// Isocrona como envolvente radial: el punto alcanzado mas lejano del origen en cada
+// sector de 5 grados, incluidos los puntos intermedios de las aristas que se quedan
+// a medias. Sobreestima en zonas con huecos (rios, vias del tren), pero se dibuja bien.
+export function isochronePolygon(graph: RoadGraph, paths: ShortestPaths, origin: LatLon, mode: TravelMode, maxSeconds: number) {
+  const metersPerDegLon = 111_320 * Math.cos((origin.lat * Math.PI) / 180);
+  const far: ({ point: LatLon; d2: number } | null)[] = new Array(ISOCHRONE_SECTORS).fill(null);
+  const bit = MODE_BIT[mode];
+
+  const consider = (point: LatLon) => {
+    const x = (point.lon - origin.lon) * metersPerDegLon;
+    const y = (point.lat - origin.lat) * 111_320;
+    const sector = Math.floor(((Math.atan2(y, x) + Math.PI) / (2 * Math.PI)) * ISOCHRONE_SECTORS) % ISOCHRONE_SECTORS;
+    const d2 = x * x + y * y;
+    if (!far[sector] || d2 > far[sector]!.d2) far[sector] = { point, d2 };
+  };
+
+  for (let u = 0; u < graph.points.length; u++) {
+    const t = paths.seconds[u];
+    if (!(t <= maxSeconds)) continue;
+    consider(graph.points[u]);
+    for (const edge of graph.edges[u]) {
+      if (!(edge.modes & bit)) continue;
+      const full = edgeSeconds(edge, mode);
+      if (t + full <= maxSeconds) continue;
+      const f = (maxSeconds - t) / full;
+      const a = graph.points[u];
+      const b = graph.points[edge.to];
+      consider({ lat: a.lat + (b.lat - a.lat) * f, lon: a.lon + (b.lon - a.lon) * f });
+    }
+  }
+
+  const ring = far.filter((p): p is { point: LatLon; d2: number } => p !== null).map(({ point }) => point);
+  if (ring.length < 3) return null;
+  const coords = ring.map((p) => [Number(p.lon.toFixed(5)), Number(p.lat.toFixed(5))]);
+  return { type: "Polygon" as const, coordinates: [[...coords, coords[0]]] };
+}
+
+const SNAP_CELL_DEG = 0.001;
+
+// Indice en rejilla (~100 m) de los nodos utilizables en un modo, para ajustar muchos
+// puntos (equipamientos) a la red sin recorrer todos los nodos cada vez.
+export function createSnapper(graph: RoadGraph, mode: TravelMode) {
+  const cells = new Map<string, number[]>();
+  const cellKey = (lat: number, lon: number) => `${Math.floor(lat / SNAP_CELL_DEG)}:${Math.floor(lon / SNAP_CELL_DEG)}`;
+  for (let i = 0; i < graph.points.length; i++) {
+    if (!graph.edges[i].some((edge) => edge.modes & MODE_BIT[mode])) continue;
+    const key = cellKey(graph.points[i].lat, graph.points[i].lon);
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(i);
+    else cells.set(key, [i]);
+  }
+
+  return (point: LatLon, maxDistanceM = 300) => {
+    const row = Math.floor(point.lat / SNAP_CELL_DEG);
+    const col = Math.floor(point.lon / SNAP_CELL_DEG);
+    const reach = Math.ceil(maxDistanceM / (SNAP_CELL_DEG * 111_320 * Math.cos((point.lat * Math.PI) / 180)));
+    let best: { node: number; distance_m: number } | null = null;
+    for (let dr = -reach; dr <= reach; dr++) {
+      for (let dc = -reach; dc <= reach; dc++) {
+        for (const i of cells.get(`${row + dr}:${col + dc}`) ?? []) {
+          const d = haversineMeters(point, graph.points[i]);
+          if (d <= maxDistanceM && (!best || d < best.distance_m)) best = { node: i, distance_m: d };
+        }
+      }
+    }
+    return best;
+  };
+}
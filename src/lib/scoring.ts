@@ -0,0 +1,239 @@
+import { z } from "zod";
+import { REPORT_TEMPLATE_IDS, type ReportTemplateId } from "@/lib/report-templates";
+
+// Puntuacion de idoneidad del emplazamiento. Cada subpuntuacion es 0-100 y se
+// calcula solo con salidas de tools; la total es la media ponderada de las que
+// tienen datos, asi una tool caida no hunde la nota sino que reduce su cobertura.
+
+export const SCORE_KEYS = ["services", "transport", "environmental_risk", "air", "density"] as const;
+export type ScoreKey = (typeof SCORE_KEYS)[number];
+export type ScoreWeights = Record<ScoreKey, number>;
+
+export const MAX_SCORE_WEIGHT = 10;
+
+// Pesos por caso de uso (mismos ids que las plantillas de informe).
+export const SCORING_PRESETS: Record<ReportTemplateId, ScoreWeights> = {
+  general: { services: 2, transport: 2, environmental_risk: 2, air: 2, density: 2 },
+  residential: { services: 3, transport: 2, environmental_risk: 3, air: 2, density: 1 },
+  retail: { services: 1, transport: 3, environmental_risk: 1, air: 1, density: 4 },
+  school: { services: 2, transport: 3, environmental_risk: 3, air: 3, density: 1 },
+  due_diligence: { services: 2, transport: 1, environmental_risk: 4, air: 1, density: 1 },
+  emergency: { services: 4, transport: 2, environmental_risk: 4, air: 0, density: 2 },
+};
+
+const WeightSchema = z.number().min(0).max(MAX_SCORE_WEIGHT);
+
+export const ScoringOptionsSchema = z.object({
+  // Preset de pesos; en /api/analyze por defecto es el de la plantilla.
+  preset: z.enum(REPORT_TEMPLATE_IDS).nullable().optional(),
+  // Pesos sueltos que sustituyen a los del preset.
+  weights: z
+    .object({
+      services: WeightSchema.optional(),
+      transport: WeightSchema.optional(),
+      environmental_risk: WeightSchema.optional(),
+      air: WeightSchema.optional(),
+      density: WeightSchema.optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+export type ScoringOptions = z.infer<typeof ScoringOptionsSchema>;
+
+export type SubScore = {
+  key: ScoreKey;
+  // null si la tool fallo o no devolvio el dato necesario.
+  score: number | null;
+  weight: number;
+  // Valores de entrada usados en el calculo (para mostrar y para el grounding).
+  inputs: Record<string, number | string | null>;
+  detail: string;
+};
+
+export type SuitabilityScore = {
+  total: number | null;
+  preset: ReportTemplateId;
+  weights: ScoreWeights;
+  sub_scores: SubScore[];
+  // Subpuntuaciones sin datos (excluidas de la total).
+  missing: ScoreKey[];
+};
+
+type ToolOutput<T> = ({ ok?: boolean } & T) | null | undefined;
+
+type NearestKey = "hospitals" | "pharmacies" | "schools" | "transport";
+
+// Datos de entrada; cada campo es la salida tal cual de su tool (solo los campos usados).
+export type SuitabilityInputs = {
+  urban?: ToolOutput<{ counts?: Record<string, number | null> | null; nearest_m?: Partial<Record<NearestKey, number | null>> | null }>;
+  flood?: ToolOutput<{ parsed?: unknown; layer?: { name?: string | null } | null }>;
+  air?: ToolOutput<{ current?: Record<string, unknown> | null }>;
+  stats?: ToolOutput<{ city?: Record<string, unknown> | null }>;
+};
+
+function finiteOrNull(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+// 100 en `best` o mejor, 0 en `worst` o peor, lineal entre ambos (sirve en los dos sentidos).
+function linearScore(value: number, best: number, worst: number) {
+  const t = (value - worst) / (best - worst);
+  return Math.round(Math.min(1, Math.max(0, t)) * 100);
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+}
+
+export function resolveWeights(options: ScoringOptions | null | undefined, fallback: ReportTemplateId = "general") {
+  const preset = options?.preset ?? fallback;
+  const weights = { ...SCORING_PRESETS[preset] };
+  for (const key of SCORE_KEYS) {
+    const custom = options?.weights?.[key];
+    if (typeof custom === "number") weights[key] = custom;
+  }
+  return { preset, weights };
+}
+
+// Distancia a equipamientos basicos: 100 a 300 m o menos, 0 a 2 km o mas.
+function servicesScore(urban: SuitabilityInputs["urban"]): Omit<SubScore, "key" | "weight"> {
+  const nearest = urban?.nearest_m ?? null;
+  const inputs = {
+    hospitals_m: finiteOrNull(nearest?.hospitals),
+    pharmacies_m: finiteOrNull(nearest?.pharmacies),
+    schools_m: finiteOrNull(nearest?.schools),
+  };
+  if (!urban || urban.ok === false || !nearest) {
+    return { score: null, inputs, detail: "Sin datos de capasUrbanismo." };
+  }
+  // Sin equipamiento en el radio cuenta como el peor caso, no como dato ausente.
+  const parts = Object.values(inputs).map((d) => (d === null ? 0 : linearScore(d, 300, 2000)));
+  return {
+    score: Math.round(mean(parts)!),
+    inputs,
+    detail: "Media de distancia a hospital/centro de salud, farmacia y centro educativo (100 a <=300 m, 0 a >=2 km).",
+  };
+}
+
+// Parada mas cercana (70%) y numero de paradas en el radio (30%, 20 paradas = 100).
+function transportScore(urban: SuitabilityInputs["urban"]): Omit<SubScore, "key" | "weight"> {
+  const nearest = finiteOrNull(urban?.nearest_m?.transport);
+  const count = finiteOrNull(urban?.counts?.transport);
+  const inputs = { nearest_stop_m: nearest, stops_in_radius: count };
+  if (!urban || urban.ok === false || count === null) {
+    return { score: null, inputs, detail: "Sin datos de capasUrbanismo." };
+  }
+  const distance = nearest === null ? 0 : linearScore(nearest, 200, 1500);
+  const coverage = linearScore(count, 20, 0);
+  return {
+    score: Math.round(distance * 0.7 + coverage * 0.3),
+    inputs,
+    detail: "Parada mas cercana (100 a <=200 m, 0 a >=1,5 km) y numero de paradas en el radio.",
+  };
+}
+
+const FLOOD_IGNORED_KEYS = /^(x|y|lat|lon|latitude|longitude|bbox|srs|crs|epsg|id|fid|gml:id|version|numberMatched|numberReturned|timeStamp|xmlns.*)$/i;
+
+// Valores numericos del GetFeatureInfo de EFAS, sin coordenadas ni metadatos.
+function floodValues(parsed: unknown, out: number[] = [], depth = 0) {
+  if (depth > 8 || parsed === null || typeof parsed !== "object") return out;
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (FLOOD_IGNORED_KEYS.test(key)) continue;
+    const n = typeof value === "string" && value.trim() ? Number(value) : value;
+    if (typeof n === "number" && Number.isFinite(n)) out.push(n);
+    else if (value && typeof value === "object") floodValues(value, out, depth + 1);
+  }
+  return out;
+}
+
+// EFAS no da un nivel de riesgo directo: sin valores positivos en el pixel se
+// considera sin senal de inundacion (100); con valores positivos, exposicion (30).
+function environmentalRiskScore(flood: SuitabilityInputs["flood"]): Omit<SubScore, "key" | "weight"> {
+  if (!flood || flood.ok === false) {
+    return { score: null, inputs: { efas_layer: null, positive_values: null }, detail: "Sin respuesta valida de EFAS." };
+  }
+  const values = floodValues(flood.parsed);
+  const positive = values.filter((v) => v > 0).length;
+  return {
+    score: positive ? 30 : 100,
+    inputs: { efas_layer: flood.layer?.name ?? null, positive_values: positive },
+    detail: positive
+      ? "EFAS devuelve valores positivos en el punto: posible exposicion a inundacion."
+      : "EFAS no devuelve valores positivos en el punto.",
+  };
+}
+
+// Indice europeo (20 -> 100, 100 -> 0); si falta, PM2.5 (5 -> 100, 50 -> 0 ug/m3).
+function airScore(air: SuitabilityInputs["air"]): Omit<SubScore, "key" | "weight"> {
+  const eaqi = finiteOrNull(air?.current?.european_aqi);
+  const pm25 = finiteOrNull(air?.current?.pm2_5);
+  const inputs = { european_aqi: eaqi, pm2_5: pm25 };
+  if (!air || air.ok === false || (eaqi === null && pm25 === null)) {
+    return { score: null, inputs, detail: "Sin datos de calidad del aire." };
+  }
+  if (eaqi !== null) {
+    return { score: linearScore(eaqi, 20, 100), inputs, detail: "Indice europeo de calidad del aire actual (20 = 100, 100 = 0)." };
+  }
+  return { score: linearScore(pm25!, 5, 50), inputs, detail: "PM2.5 actual (5 ug/m3 = 100, 50 ug/m3 = 0)." };
+}
+
+// Escala logaritmica: 100 hab/km2 -> 0, 10.000 hab/km2 -> 100.
+function densityScore(stats: SuitabilityInputs["stats"]): Omit<SubScore, "key" | "weight"> {
+  const population = finiteOrNull(stats?.city?.population);
+  const areaKm2 = finiteOrNull(stats?.city?.area_km2);
+  const density =
+    finiteOrNull(stats?.city?.population_density_km2) ??
+    (population !== null && areaKm2 ? Number((population / areaKm2).toFixed(2)) : null);
+  const inputs = { population, area_km2: areaKm2, density_km2: density };
+  if (!stats || stats.ok === false || density === null || density <= 0) {
+    return { score: null, inputs, detail: "Sin poblacion/superficie del municipio." };
+  }
+  return {
+    score: linearScore(Math.log10(density), 4, 2),
+    inputs,
+    detail: "Densidad municipal en escala logaritmica (100 hab/km2 = 0, 10.000 hab/km2 = 100).",
+  };
+}
+
+const SCORERS: Record<ScoreKey, (inputs: SuitabilityInputs) => Omit<SubScore, "key" | "weight">> = {
+  services: (i) => servicesScore(i.urban),
+  transport: (i) => transportScore(i.urban),
+  environmental_risk: (i) => environmentalRiskScore(i.flood),
+  air: (i) => airScore(i.air),
+  density: (i) => densityScore(i.stats),
+};
+
+// Total ponderada sobre las subpuntuaciones con dato; null si ninguna suma peso.
+export function weightedTotal(subScores: Pick<SubScore, "score" | "weight">[]) {
+  let sum = 0;
+  let weights = 0;
+  for (const sub of subScores) {
+    if (sub.score === null || sub.weight <= 0) continue;
+    sum += sub.score * sub.weight;
+    weights += sub.weight;
+  }
+  return weights > 0 ? Math.round(sum / weights) : null;
+}
+
+export function computeSuitability(
+  inputs: SuitabilityInputs,
+  options: ScoringOptions | null | undefined,
+  fallbackPreset: ReportTemplateId = "general"
+): SuitabilityScore {
+  const { preset, weights } = resolveWeights(options, fallbackPreset);
+  const sub_scores = SCORE_KEYS.map((key) => ({ key, weight: weights[key], ...SCORERS[key](inputs) }));
+  return {
+    total: weightedTotal(sub_scores),
+    preset,
+    weights,
+    sub_scores,
+    missing: sub_scores.filter((s) => s.score === null).map((s) => s.key),
+  };
+}
+
+// Recalcula la total con otros pesos sin volver a llamar a las tools (la usa la UI).
+export function reweightSuitability(score: SuitabilityScore, weights: ScoreWeights): SuitabilityScore {
+  const sub_scores = score.sub_scores.map((sub) => ({ ...sub, weight: weights[sub.key] }));
+  return { ...score, weights, sub_scores, total: weightedTotal(sub_scores) };
+}
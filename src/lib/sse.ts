@@ -0,0 +1,52 @@
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+export function encodeSseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseSseBlock(block: string) {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+  if (!dataLines.length) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) as unknown };
+  } catch {
+    return null;
+  }
+}
+
+// Lee un stream text/event-stream (fetch + POST, que EventSource no soporta)
+// y entrega cada evento ya parseado.
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: unknown) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let idx = buffer.indexOf("\n\n");
+    while (idx !== -1) {
+      const parsed = parseSseBlock(buffer.slice(0, idx));
+      buffer = buffer.slice(idx + 2);
+      if (parsed) onEvent(parsed.event, parsed.data);
+      idx = buffer.indexOf("\n\n");
+    }
+  }
+
+  const rest = parseSseBlock(buffer.trim());
+  if (rest) onEvent(rest.event, rest.data);
+}
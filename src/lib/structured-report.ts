@@ -0,0 +1,292 @@
+import { z } from "zod";
+import { llm, type LlmMessageParam, type LlmTool } from "@/lib/llm";
+import { REPORT_TEMPLATES, type TemplateSections } from "@/lib/report-templates";
+import {
+  COMPARE_HEADINGS,
+  DEFAULT_LOCALE,
+  FIXED_HEADINGS,
+  HISTORY_HEADINGS,
+  REPORT_LABELS,
+  type Locale,
+} from "@/lib/i18n";
+
+// Informes como datos: el modelo devuelve JSON validado con Zod y el Markdown se
+// renderiza a partir de esa estructura con los mismos encabezados que el modo texto.
+
+export const ReportFormatSchema = z.enum(["markdown", "structured"]);
+export type ReportFormat = z.infer<typeof ReportFormatSchema>;
+
+const RiskLevelSchema = z.enum(["bajo", "medio", "alto", "desconocido"]);
+
+const KeyFigureSchema = z.object({
+  label: z.string(),
+  value: z.union([z.number(), z.string()]),
+  unit: z.string().nullable(),
+  // Nombre de la fuente (una de las de "Fuentes consultadas") o null.
+  source: z.string().nullable(),
+});
+
+const SectionSchema = z.object({
+  // Markdown sin encabezados.
+  text: z.string(),
+  key_figures: z.array(KeyFigureSchema),
+});
+
+const CitationSchema = z.object({ name: z.string(), url: z.string() });
+
+const RecommendationSchema = z.object({
+  verdict: z.enum(["favorable", "con_reservas", "desfavorable", "sin_datos"]),
+  text: z.string(),
+});
+
+export const AnalyzeReportSchema = z.object({
+  type: z.literal("analyze"),
+  descripcion_zona: SectionSchema,
+  infraestructura_cercana: SectionSchema,
+  riesgos_relevantes: SectionSchema.extend({
+    risks: z.array(z.object({ hazard: z.string(), level: RiskLevelSchema, detail: z.string() })),
+  }),
+  posibles_usos_urbanos: SectionSchema.extend({ uses: z.array(z.string()) }),
+  recomendacion_final: RecommendationSchema,
+  fuentes_consultadas: z.array(CitationSchema),
+  limitaciones: z.array(z.string()),
+});
+
+export const CompareReportSchema = z.object({
+  type: z.literal("compare"),
+  resumen_ciudades: z.array(z.object({ label: z.string(), name: z.string(), text: z.string() })),
+  tabla_comparativa: SectionSchema,
+  poblacion: SectionSchema,
+  superficie: SectionSchema,
+  contaminacion: SectionSchema,
+  riesgos_inundacion: SectionSchema.extend({
+    risks: z.array(z.object({ city: z.string(), level: RiskLevelSchema, detail: z.string() })),
+  }),
+  otros_indicadores: SectionSchema,
+  ganadores_por_indicador: z.array(
+    z.object({ indicator: z.string(), winners: z.array(z.string()), note: z.string() })
+  ),
+  recomendacion_final: RecommendationSchema.extend({ preferred_city: z.string().nullable() }),
+  fuentes_consultadas: z.array(CitationSchema),
+  limitaciones: z.array(z.string()),
+});
+
+const HazardSectionSchema = SectionSchema.extend({ risk_level: RiskLevelSchema });
+
+export const HistoryReportSchema = z.object({
+  type: z.literal("history"),
+  resumen_zona: SectionSchema,
+  temperatura: SectionSchema,
+  lluvias: SectionSchema,
+  incendios: HazardSectionSchema,
+  inundaciones: HazardSectionSchema,
+  otros_peligros: HazardSectionSchema,
+  fuentes_consultadas: z.array(CitationSchema),
+  limitaciones: z.array(z.string()),
+});
+
+const REPORT_SCHEMAS = {
+  analyze: AnalyzeReportSchema,
+  compare: CompareReportSchema,
+  history: HistoryReportSchema,
+};
+
+export type AnalyzeReport = z.infer<typeof AnalyzeReportSchema>;
+export type CompareReport = z.infer<typeof CompareReportSchema>;
+export type HistoryReport = z.infer<typeof HistoryReportSchema>;
+export type ReportType = keyof typeof REPORT_SCHEMAS;
+export type StructuredReport = AnalyzeReport | CompareReport | HistoryReport;
+type ReportOf<T extends ReportType> = z.infer<(typeof REPORT_SCHEMAS)[T]>;
+
+type Labels = (typeof REPORT_LABELS)[Locale];
+
+function renderFigures(figures: z.infer<typeof KeyFigureSchema>[], labels: Labels) {
+  return figures.map((f) => {
+    const unit = f.unit ? ` ${f.unit}` : "";
+    const source = f.source ? ` (${labels.source}: ${f.source})` : "";
+    return `- **${f.label}:** ${f.value}${unit}${source}`;
+  });
+}
+
+function renderSection(heading: string, section: z.infer<typeof SectionSchema>, labels: Labels, extra: string[] = []) {
+  return [`## ${heading}`, section.text.trim(), ...renderFigures(section.key_figures, labels), ...extra]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function renderRecommendation(rec: z.infer<typeof RecommendationSchema>, locale: Locale, extra: string[] = []) {
+  const labels = REPORT_LABELS[locale];
+  return [`## ${FIXED_HEADINGS[locale].recommendation}`, `**${labels.verdict}:** ${labels.verdicts[rec.verdict]}`, ...extra, rec.text.trim()]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function renderCitations(citations: z.infer<typeof CitationSchema>[], locale: Locale) {
+  return [`## ${FIXED_HEADINGS[locale].sources}`, ...citations.map((c) => `- [${c.name}](${c.url})`)].join("\n");
+}
+
+function renderLimitations(items: string[], locale: Locale) {
+  const fallback = `- ${REPORT_LABELS[locale].noLimitations}`;
+  return [`## ${FIXED_HEADINGS[locale].limitations}`, ...(items.length ? items.map((l) => `- ${l}`) : [fallback])].join("\n");
+}
+
+type RenderOptions = {
+  locale?: Locale;
+  // Solo aplica a analyze: encabezados de la plantilla de caso de uso.
+  sections?: TemplateSections;
+};
+
+export function renderReportMarkdown(report: StructuredReport, options: RenderOptions = {}): string {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const labels = REPORT_LABELS[locale];
+  const sections = options.sections ?? REPORT_TEMPLATES.general.sections[locale];
+  if (report.type === "analyze") {
+    return [
+      renderSection(sections.zone, report.descripcion_zona, labels),
+      renderSection(sections.infrastructure, report.infraestructura_cercana, labels),
+      renderSection(
+        sections.risks,
+        report.riesgos_relevantes,
+        labels,
+        report.riesgos_relevantes.risks.map((r) => `- **${r.hazard}** (${labels.level} ${labels.levels[r.level]}): ${r.detail}`)
+      ),
+      renderSection(
+        sections.uses,
+        report.posibles_usos_urbanos,
+        labels,
+        report.posibles_usos_urbanos.uses.map((u) => `- ${u}`)
+      ),
+      renderRecommendation(report.recomendacion_final, locale),
+      renderCitations(report.fuentes_consultadas, locale),
+      renderLimitations(report.limitaciones, locale),
+    ].join("\n\n");
+  }
+
+  if (report.type === "compare") {
+    const h = COMPARE_HEADINGS[locale];
+    return [
+      [
+        `## ${h.summary}`,
+        ...report.resumen_ciudades.map((c) => `### ${h.city} ${c.label} - ${c.name}\n${c.text.trim()}`),
+      ].join("\n"),
+      renderSection(h.table, report.tabla_comparativa, labels),
+      renderSection(h.population, report.poblacion, labels),
+      renderSection(h.area, report.superficie, labels),
+      renderSection(h.pollution, report.contaminacion, labels),
+      renderSection(
+        h.flood,
+        report.riesgos_inundacion,
+        labels,
+        report.riesgos_inundacion.risks.map((r) => `- **${h.city} ${r.city}** (${labels.level} ${labels.levels[r.level]}): ${r.detail}`)
+      ),
+      renderSection(h.other, report.otros_indicadores, labels),
+      [
+        `## ${h.winners}`,
+        ...report.ganadores_por_indicador.map(
+          (w) => `- **${w.indicator}:** ${w.winners.map((l) => `${h.city} ${l}`).join(", ") || labels.noData}${w.note ? ` (${w.note})` : ""}`
+        ),
+      ].join("\n"),
+      renderRecommendation(
+        report.recomendacion_final,
+        locale,
+        report.recomendacion_final.preferred_city ? [`**${labels.preferredCity}:** ${report.recomendacion_final.preferred_city}`] : []
+      ),
+      renderCitations(report.fuentes_consultadas, locale),
+      renderLimitations(report.limitaciones, locale),
+    ].join("\n\n");
+  }
+
+  const h = HISTORY_HEADINGS[locale];
+  const level = (section: z.infer<typeof HazardSectionSchema>) => [`**${labels.riskLevel}:** ${labels.levels[section.risk_level]}`];
+  return [
+    renderSection(h.summary, report.resumen_zona, labels),
+    renderSection(h.temperature, report.temperatura, labels),
+    renderSection(h.rain, report.lluvias, labels),
+    renderSection(h.fires, report.incendios, labels, level(report.incendios)),
+    renderSection(h.floods, report.inundaciones, labels, level(report.inundaciones)),
+    renderSection(h.other, report.otros_peligros, labels, level(report.otros_peligros)),
+    renderCitations(report.fuentes_consultadas, locale),
+    renderLimitations(report.limitaciones, locale),
+  ].join("\n\n");
+}
+
+function sectionHint(sections: TemplateSections) {
+  return (
+    `Los campos corresponden a estas secciones: descripcion_zona = "${sections.zone}", ` +
+    `infraestructura_cercana = "${sections.infrastructure}", riesgos_relevantes = "${sections.risks}", ` +
+    `posibles_usos_urbanos = "${sections.uses}".`
+  );
+}
+
+function parseJsonContent(content: string | null) {
+  if (!content) return null;
+  // Algunos modelos locales envuelven el JSON en un bloque ```json.
+  const text = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+type WriteOptions = {
+  // Con historial de tool calls hay que volver a declarar las tools.
+  tools?: LlmTool[];
+  sections?: TemplateSections;
+  locale?: Locale;
+};
+
+export type StructuredWriteResult<T extends ReportType> =
+  | { ok: true; report: ReportOf<T>; markdown: string; llm_calls: number }
+  | { ok: false; error: string; llm_calls: number };
+
+// Pide el informe como JSON, lo valida y reintenta una vez con los errores de validacion.
+export async function writeStructuredReport<T extends ReportType>(
+  type: T,
+  messages: LlmMessageParam[],
+  options: WriteOptions = {}
+): Promise<StructuredWriteResult<T>> {
+  const schema = REPORT_SCHEMAS[type];
+  // "$schema" sobra para response_format y algunos servidores lo rechazan.
+  const jsonSchema = z.toJSONSchema(schema) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  const conversation: LlmMessageParam[] = [
+    ...messages,
+    {
+      role: "user",
+      content:
+        `Devuelve el informe como un unico objeto JSON (sin Markdown alrededor) que cumpla este JSON Schema. ` +
+        `Cada campo "text" es Markdown sin encabezados; "type" debe ser "${type}".` +
+        (options.locale && options.locale !== DEFAULT_LOCALE ? ` Los textos van en el idioma indicado (${options.locale}); las claves y los enums no se traducen.` : "") +
+        (type === "analyze" && options.sections ? ` ${sectionHint(options.sections)}` : "") +
+        `\n${JSON.stringify(jsonSchema)}`,
+    },
+  ];
+
+  let error = "Respuesta vacia";
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const msg = await llm.complete({
+      messages: conversation,
+      ...(options.tools?.length ? { tools: options.tools, tool_choice: "none" as const } : {}),
+      response_format: { type: "json_schema", json_schema: { name: `${type}_report`, schema: jsonSchema, strict: false } },
+      temperature: 0.2,
+    });
+
+    const parsed = schema.safeParse(parseJsonContent(msg.content));
+    if (parsed.success) {
+      const report = parsed.data as ReportOf<T>;
+      return { ok: true, report, markdown: renderReportMarkdown(report, { locale: options.locale, sections: options.sections }), llm_calls: attempt + 1 };
+    }
+
+    error = parsed.error.issues
+      .slice(0, 8)
+      .map((issue) => `${issue.path.join(".") || "(raiz)"}: ${issue.message}`)
+      .join("; ");
+    conversation.push(
+      { role: "assistant", content: msg.content ?? "" },
+      { role: "user", content: `El JSON no cumple el esquema (${error}). Devuelve SOLO el objeto JSON corregido.` }
+    );
+  }
+
+  return { ok: false, error, llm_calls: 2 };
+}
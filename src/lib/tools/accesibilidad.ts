@@ -0,0 +1,371 @@
+import { haversineMeters, type LatLon } from "@/lib/geo";
+import { runOverpassQuery, pickPoint, type OverpassElement } from "@/lib/overpass";
+import {
+  BIKE_SPEED_KMH,
+  ROUTABLE_HIGHWAYS,
+  WALK_SPEED_KMH,
+  buildRoadGraph,
+  createSnapper,
+  isochronePolygon,
+  modeSpeedMps,
+  pathTo,
+  shortestPaths,
+  type RoadGraph,
+  type ShortestPaths,
+} from "@/lib/routing";
+
+// Accesibilidad por la red de calles: isocronas de 5/10/15 minutos a pie y en
+// bici desde el punto, equipamientos esenciales alcanzables en cada una y una
+// nota de "ciudad de 15 minutos". Ademas, el equipamiento de emergencia/basico mas
+// cercano por distancia de red, con su ruta a pie y en coche. Las distancias de
+// capasUrbanismo son en linea recta; aqui se mide el recorrido real por el grafo de OSM.
+
+export const ISOCHRONE_MINUTES = [5, 10, 15] as const;
+export const ACCESS_MODES = ["walk", "bike"] as const;
+export type AccessMode = (typeof ACCESS_MODES)[number];
+
+export const ACCESS_CATEGORIES = ["pharmacy", "school", "health", "grocery", "transport", "park"] as const;
+export type AccessCategory = (typeof ACCESS_CATEGORIES)[number];
+
+export const FACILITY_CATEGORIES = ["hospital", "pharmacy", "school", "fire_station", "police", "station"] as const;
+export type FacilityCategory = (typeof FACILITY_CATEGORIES)[number];
+
+const MAX_SECONDS = ISOCHRONE_MINUTES[ISOCHRONE_MINUTES.length - 1] * 60;
+// En 15 minutos en bici no se pasa de 3,75 km en linea recta; margen para el ajuste a la red.
+const GRAPH_RADIUS_M = Math.ceil((BIKE_SPEED_KMH * 1000 * MAX_SECONDS) / 3600) + 250;
+const SERVICES_LIMIT = 5000;
+// Distancia maxima del punto (o del equipamiento) a la calle mas cercana.
+const ORIGIN_SNAP_M = 500;
+const SERVICE_SNAP_M = 300;
+// Si un equipamiento no aparece en el radio del grafo se busca solo esa categoria en
+// radios mayores, con una red de vias principales y las calles junto a cada candidato.
+const FACILITY_RADII_M = [10000, 25000];
+const WIDE_CANDIDATES = 3;
+const CANDIDATE_STREETS_M = 1000;
+const MAIN_ROADS = [
+  "motorway",
+  "motorway_link",
+  "trunk",
+  "trunk_link",
+  "primary",
+  "primary_link",
+  "secondary",
+  "secondary_link",
+  "tertiary",
+  "tertiary_link",
+];
+const FACILITY_SELECTORS: Record<FacilityCategory, string> = {
+  hospital: '["amenity"="hospital"]',
+  pharmacy: '["amenity"="pharmacy"]',
+  school: '["amenity"="school"]',
+  fire_station: '["amenity"="fire_station"]',
+  police: '["amenity"="police"]',
+  station: '["railway"~"^(station|halt)$"]',
+};
+
+export function accessCategory(tags: Record<string, string>): AccessCategory | null {
+  if (tags.amenity === "pharmacy") return "pharmacy";
+  if (tags.amenity === "school" || tags.amenity === "kindergarten") return "school";
+  if (tags.amenity === "hospital" || tags.amenity === "clinic" || tags.amenity === "doctors") return "health";
+  if (["supermarket", "convenience", "greengrocer", "bakery", "butcher"].includes(tags.shop)) return "grocery";
+  if (tags.leisure === "park") return "park";
+  if (tags.public_transport || tags.highway === "bus_stop" || ["station", "halt", "tram_stop"].includes(tags.railway)) return "transport";
+  return null;
+}
+
+export function facilityCategory(tags: Record<string, string>): FacilityCategory | null {
+  if (tags.amenity === "hospital") return "hospital";
+  if (tags.amenity === "pharmacy") return "pharmacy";
+  if (tags.amenity === "school") return "school";
+  if (tags.amenity === "fire_station") return "fire_station";
+  if (tags.amenity === "police") return "police";
+  if (tags.railway === "station" || tags.railway === "halt") return "station";
+  return null;
+}
+
+function graphQuery(lat: number, lon: number) {
+  return `
+[out:json][timeout:90];
+way(around:${GRAPH_RADIUS_M},${lat},${lon})["highway"~"^(${ROUTABLE_HIGHWAYS.join("|")})$"];
+out body;
+>;
+out skel qt;
+`.trim();
+}
+
+function servicesQuery(lat: number, lon: number) {
+  const f = `(around:${GRAPH_RADIUS_M},${lat},${lon})`;
+  return `
+[out:json][timeout:25];
+(
+  nwr${f}["amenity"~"^(pharmacy|school|kindergarten|hospital|clinic|doctors|fire_station|police)$"];
+  nwr${f}["shop"~"^(supermarket|convenience|greengrocer|bakery|butcher)$"];
+  nwr${f}["leisure"="park"];
+  node${f}["public_transport"~"^(platform|stop_position)$"];
+  node${f}["highway"="bus_stop"];
+  nwr${f}["railway"~"^(station|halt|tram_stop)$"];
+);
+out center ${SERVICES_LIMIT};
+`.trim();
+}
+
+function facilitiesQuery(lat: number, lon: number, radius: number, categories: FacilityCategory[]) {
+  return `
+[out:json][timeout:25];
+(
+${categories.map((category) => `  nwr(around:${radius},${lat},${lon})${FACILITY_SELECTORS[category]};`).join("\n")}
+);
+out center ${SERVICES_LIMIT};
+`.trim();
+}
+
+function wideRoadsQuery(lat: number, lon: number, radius: number, targets: LatLon[]) {
+  const streets = `["highway"~"^(${ROUTABLE_HIGHWAYS.join("|")})$"]`;
+  return `
+[out:json][timeout:90];
+(
+  way(around:${radius},${lat},${lon})["highway"~"^(${MAIN_ROADS.join("|")})$"];
+${targets.map((p) => `  way(around:${CANDIDATE_STREETS_M},${p.lat},${p.lon})${streets};`).join("\n")}
+);
+out body;
+>;
+out skel qt;
+`.trim();
+}
+
+function emptyCounts() {
+  return Object.fromEntries(ACCESS_CATEGORIES.map((c) => [c, 0])) as Record<AccessCategory, number>;
+}
+
+function toMinutes(seconds: number) {
+  return Math.round((seconds / 60) * 10) / 10;
+}
+
+function modeIsochrones(
+  graph: RoadGraph,
+  origin: { lat: number; lon: number },
+  mode: AccessMode,
+  services: { category: AccessCategory; lat: number; lon: number }[]
+) {
+  const snap = createSnapper(graph, mode);
+  const start = snap(origin, ORIGIN_SNAP_M);
+  if (!start) return { ok: false as const, error: `No hay calles transitables (${mode}) a menos de ${ORIGIN_SNAP_M} m del punto` };
+
+  // El tramo hasta la calle (y de la calle al equipamiento) se hace andando.
+  const walkMps = modeSpeedMps("walk");
+  const paths = shortestPaths(graph, start.node, mode, MAX_SECONDS, start.distance_m / walkMps);
+
+  const nearest = Object.fromEntries(ACCESS_CATEGORIES.map((c) => [c, null])) as Record<AccessCategory, number | null>;
+  const times = services.map((service) => {
+    const hit = snap(service, SERVICE_SNAP_M);
+    const seconds = hit ? paths.seconds[hit.node] + hit.distance_m / walkMps : Infinity;
+    if (seconds <= MAX_SECONDS && (nearest[service.category] === null || seconds < nearest[service.category]! * 60)) {
+      nearest[service.category] = toMinutes(seconds);
+    }
+    return { category: service.category, seconds };
+  });
+
+  const bands = ISOCHRONE_MINUTES.map((minutes) => {
+    const services = emptyCounts();
+    for (const t of times) if (t.seconds <= minutes * 60) services[t.category]++;
+    return { minutes, polygon: isochronePolygon(graph, paths, origin, mode, minutes * 60), services };
+  });
+
+  return {
+    ok: true as const,
+    speed_kmh: mode === "walk" ? WALK_SPEED_KMH : BIKE_SPEED_KMH,
+    snapped_m: Math.round(start.distance_m),
+    bands,
+    nearest_min: nearest,
+  };
+}
+
+type Place = LatLon & { osm: string; tags: Record<string, string> };
+
+function placesOf(elements: OverpassElement[]) {
+  return elements
+    .map((el) => {
+      const point = pickPoint(el);
+      return point ? { ...point, osm: `${el.type}/${el.id}`, tags: el.tags ?? {} } : null;
+    })
+    .filter((p): p is Place => p !== null);
+}
+
+// Mas cercano de cada categoria por distancia a pie por la red (si no se llega andando,
+// por tiempo en coche), con tiempos a pie y en coche y la ruta de cada modo. Los caminos
+// van del punto al equipamiento; en coche se respetan los sentidos unicos en ese sentido.
+// `radius_m` es el radio en el que se buscaron los candidatos.
+function nearestFacilities(
+  graph: RoadGraph,
+  origin: LatLon,
+  places: Place[],
+  categories: readonly FacilityCategory[],
+  radius_m: number
+) {
+  const walkMps = modeSpeedMps("walk");
+  const router = (mode: "walk" | "drive") => {
+    const snap = createSnapper(graph, mode);
+    const start = snap(origin, ORIGIN_SNAP_M);
+    const paths = start ? shortestPaths(graph, start.node, mode, Infinity, start.distance_m / walkMps) : null;
+    return (place: Place) => {
+      const hit = start && paths ? snap(place, SERVICE_SNAP_M) : null;
+      if (!start || !paths || !hit || !Number.isFinite(paths.seconds[hit.node])) return null;
+      return {
+        node: hit.node,
+        paths,
+        distance_m: Math.round(start.distance_m + paths.meters[hit.node] + hit.distance_m),
+        minutes: toMinutes(paths.seconds[hit.node] + hit.distance_m / walkMps),
+      };
+    };
+  };
+  const walkTo = router("walk");
+  const driveTo = router("drive");
+  const line = (leg: { node: number; paths: ShortestPaths }, place: Place) => {
+    const points = [origin, ...pathTo(leg.paths, leg.node).map((i) => graph.points[i]), place];
+    return { type: "LineString" as const, coordinates: points.map((p) => [Number(p.lon.toFixed(5)), Number(p.lat.toFixed(5))]) };
+  };
+
+  return categories.map((category) => {
+    const candidates = places.filter((place) => facilityCategory(place.tags) === category);
+    if (!candidates.length) {
+      return { category, found: false as const, search_radius_m: radius_m, reason: `Sin ${category} en OSM a menos de ${radius_m} m` };
+    }
+
+    let best: { place: Place; rank: number } | null = null;
+    for (const place of candidates) {
+      const walk = walkTo(place);
+      const drive = walk ? null : driveTo(place);
+      // Los alcanzables a pie siempre van por delante de los que solo se alcanzan en coche.
+      const rank = walk ? walk.distance_m : drive ? 1e9 + drive.minutes : Infinity;
+      if (rank < (best?.rank ?? Infinity)) best = { place, rank };
+    }
+    if (!best) {
+      return { category, found: false as const, search_radius_m: radius_m, reason: "Ningun candidato conectado a la red de calles" };
+    }
+
+    const { place } = best;
+    const walk = walkTo(place);
+    const drive = driveTo(place);
+    const crow = Math.round(haversineMeters(origin, place));
+    return {
+      category,
+      found: true as const,
+      name: place.tags.name ?? null,
+      osm: place.osm,
+      lat: place.lat,
+      lon: place.lon,
+      candidates: candidates.length,
+      search_radius_m: radius_m,
+      crow_distance_m: crow,
+      walk: walk ? { distance_m: walk.distance_m, minutes: walk.minutes } : null,
+      drive: drive ? { distance_m: drive.distance_m, minutes: drive.minutes } : null,
+      // Cuantas veces mas largo es el camino a pie que la linea recta (rios, vias del tren, autovias...).
+      detour_ratio: walk && crow >= 50 ? Math.round((walk.distance_m / crow) * 10) / 10 : null,
+      route: { walk: walk ? line(walk, place) : null, drive: drive ? line(drive, place) : null },
+    };
+  });
+}
+
+type FacilityResult = ReturnType<typeof nearestFacilities>[number];
+
+// Busqueda ampliada de las categorias sin resultado: los candidatos mas cercanos en linea
+// recta y una red con las vias principales hasta el mas lejano (mas la del grafo de las isocronas).
+async function widerFacilities(origin: LatLon, network: OverpassElement[], categories: FacilityCategory[], radius: number) {
+  const found = await runOverpassQuery(facilitiesQuery(origin.lat, origin.lon, radius, categories), 30000);
+  const byDistance = (a: Place, b: Place) => haversineMeters(origin, a) - haversineMeters(origin, b);
+  const candidates = categories.flatMap((category) =>
+    placesOf(found.elements)
+      .filter((place) => facilityCategory(place.tags) === category)
+      .sort(byDistance)
+      .slice(0, WIDE_CANDIDATES)
+  );
+  if (!candidates.length) {
+    return { facilities: nearestFacilities(buildRoadGraph([]), origin, [], categories, radius), fallback_used: found.fallback_used };
+  }
+
+  const reach = Math.min(radius, Math.max(...candidates.map((place) => haversineMeters(origin, place)))) + CANDIDATE_STREETS_M;
+  const roads = await runOverpassQuery(wideRoadsQuery(origin.lat, origin.lon, Math.ceil(reach), candidates), 90000);
+  const seen = new Set<string>();
+  const elements = [...network, ...roads.elements].filter((el) => {
+    const key = `${el.type}/${el.id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return {
+    facilities: nearestFacilities(buildRoadGraph(elements), origin, candidates, categories, radius),
+    fallback_used: found.fallback_used || roads.fallback_used,
+  };
+}
+
+// Nota 0-100: cada categoria suma 1 si esta a 15 min andando, 0,5 si solo en bici.
+function fifteenMinuteScore(walk: ReturnType<typeof modeIsochrones>, bike: ReturnType<typeof modeIsochrones>) {
+  const categories = ACCESS_CATEGORIES.map((category) => {
+    const walk_min = walk.ok ? walk.nearest_min[category] : null;
+    const bike_min = bike.ok ? bike.nearest_min[category] : null;
+    return { category, walk_min, bike_min, points: walk_min !== null ? 1 : bike_min !== null ? 0.5 : 0 };
+  });
+  return {
+    score: Math.round((categories.reduce((sum, c) => sum + c.points, 0) / categories.length) * 100),
+    categories,
+    missing_walk: categories.filter((c) => c.walk_min === null).map((c) => c.category),
+  };
+}
+
+export async function accesibilidad(lat: number, lon: number) {
+  try {
+    const network = await runOverpassQuery(graphQuery(lat, lon), 90000);
+    const graph = buildRoadGraph(network.elements);
+    if (!graph.points.length) return { ok: false as const, error: "Sin red de calles en OSM alrededor del punto" };
+
+    const found = await runOverpassQuery(servicesQuery(lat, lon), 30000);
+    const places = placesOf(found.elements);
+    const services = places
+      .map((place) => ({ category: accessCategory(place.tags), lat: place.lat, lon: place.lon }))
+      .filter((s): s is { category: AccessCategory; lat: number; lon: number } => s.category !== null);
+
+    const origin = { lat, lon };
+    const walk = modeIsochrones(graph, origin, "walk", services);
+    const bike = modeIsochrones(graph, origin, "bike", services);
+
+    let facilities: FacilityResult[] = nearestFacilities(graph, origin, places, FACILITY_CATEGORIES, GRAPH_RADIUS_M);
+    let widerFallback = false;
+    for (const radius of FACILITY_RADII_M) {
+      const missing = facilities.filter((f) => !f.found).map((f) => f.category);
+      if (!missing.length) break;
+      const wider = await widerFacilities(origin, network.elements, missing, radius);
+      widerFallback ||= wider.fallback_used;
+      facilities = facilities.map((f) => wider.facilities.find((w) => w.category === f.category) ?? f);
+    }
+
+    return {
+      ok: true as const,
+      origin,
+      minutes: ISOCHRONE_MINUTES,
+      modes: { walk, bike },
+      fifteen_minute: fifteenMinuteScore(walk, bike),
+      nearest_facilities: facilities,
+      graph: { radius_m: GRAPH_RADIUS_M, nodes: graph.points.length, edges: graph.edgeCount },
+      services_found: services.length,
+      services_truncated: found.elements.length >= SERVICES_LIMIT,
+      overpass_used: network.endpoint,
+      overpass_fallback_used: network.fallback_used || found.fallback_used || widerFallback,
+    };
+  } catch (e: any) {
+    return { ok: false as const, error: e?.message ?? "Overpass fallo" };
+  }
+}
+
+export type AccessResult = Awaited<ReturnType<typeof accesibilidad>>;
+
+// Version para el modelo: sin poligonos ni rutas, que solo sirven para el mapa y engordan el prompt.
+export function accessForModel(out: AccessResult | null) {
+  if (!out?.ok) return out;
+  const strip = (mode: ReturnType<typeof modeIsochrones>) =>
+    mode.ok ? { ...mode, bands: mode.bands.map(({ minutes, services }) => ({ minutes, services })) } : mode;
+  return {
+    ...out,
+    modes: { walk: strip(out.modes.walk), bike: strip(out.modes.bike) },
+    nearest_facilities: out.nearest_facilities?.map((facility) => (facility.found ? { ...facility, route: null } : facility)),
+  };
+}
@@ -1,7 +1,13 @@
 import { env } from "@/lib/env";
-import { fetchWithTimeout } from "@/lib/fetch";
+import { nominatimFetch } from "@/lib/nominatim";
 
-export async function buscarCoordenadas(direccion: string, country_code: string | null, limit: number | null) {
+// `language` pide los nombres en ese idioma (cabecera Accept-Language de Nominatim).
+export async function buscarCoordenadas(
+  direccion: string,
+  country_code: string | null,
+  limit: number | null,
+  language: string | null = null
+) {
   const base = env.NOMINATIM_BASE_URL ?? "https://nominatim.openstreetmap.org";
 
   const url = new URL(`${base}/search`);
@@ -13,11 +19,12 @@ export async function buscarCoordenadas(direccion: string, country_code: string
 
   const ua = env.APP_USER_AGENT;
 
-  const res = await fetchWithTimeout(url, {
+  const res = await nominatimFetch(url, {
     timeoutMs: 12000,
     headers: {
       "User-Agent": ua,
-      "Accept": "application/json"
+      "Accept": "application/json",
+      ...(language ? { "Accept-Language": language } : {})
     }
   });
 
@@ -25,9 +32,19 @@ export async function buscarCoordenadas(direccion: string, country_code: string
     throw new Error(`Nominatim search falló: HTTP ${res.status}`);
   }
 
-  const json = (await res.json()) as any[];
+  const json = await res.json();
 
-  if (!json?.length) {
+  // Nominatim puede responder 200 con {"error": ...}: es un fallo, no una busqueda sin resultados.
+  if (!Array.isArray(json)) {
+    return {
+      ok: false,
+      found: false,
+      reason: "Respuesta inesperada de Nominatim",
+      candidates: []
+    };
+  }
+
+  if (!json.length) {
     return {
       found: false,
       reason: "Sin resultados",
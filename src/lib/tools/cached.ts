@@ -0,0 +1,36 @@
+import { withCache } from "@/lib/cache";
+import { accesibilidad } from "@/lib/tools/accesibilidad";
+import { airQuality } from "@/lib/tools/airQuality";
+import { buscarCoordenadas } from "@/lib/tools/buscarCoordenadas";
+import { capasUrbanismo } from "@/lib/tools/capasUrbanismo";
+import { cityStats } from "@/lib/tools/cityStats";
+import { historicalEvents } from "@/lib/tools/historicalEvents";
+import { historicalWeather } from "@/lib/tools/historicalWeather";
+import { landuseAreas } from "@/lib/tools/landuseAreas";
+import { reverseGeocode } from "@/lib/tools/reverseGeocode";
+import { riesgoInundacion, riesgoInundacionArea } from "@/lib/tools/riesgoInundacion";
+import { suitabilityGrid } from "@/lib/tools/suitabilityGrid";
+import { urbanGeometry } from "@/lib/tools/urbanGeometry";
+
+// Los resultados con ok:false no se guardan: asi un fallo puntual no queda cacheado.
+const okOnly = (value: unknown) => (value as { ok?: boolean } | null)?.ok !== false;
+
+// capasUrbanismo devuelve sus datos aunque falle la unidad administrativa (IGN y su
+// respaldo en Nominatim); ese fallo tampoco se guarda.
+const urbanOk = (value: { ign_admin?: { ok?: boolean } | null }) => okOnly(value) && value.ign_admin?.ok !== false;
+
+export const cachedTools = {
+  buscarCoordenadas: withCache("nominatim", "buscarCoordenadas", buscarCoordenadas, { cacheable: okOnly }),
+  reverseGeocode: withCache("nominatim", "reverseGeocode", reverseGeocode, { cacheable: okOnly }),
+  capasUrbanismo: withCache("overpass", "capasUrbanismo", capasUrbanismo, { cacheable: urbanOk }),
+  riesgoInundacion: withCache("efas_featureinfo", "riesgoInundacion", riesgoInundacion, { cacheable: okOnly }),
+  riesgoInundacionArea: withCache("efas_featureinfo", "riesgoInundacionArea", riesgoInundacionArea, { cacheable: okOnly }),
+  cityStats: withCache("wikidata", "cityStats", cityStats, { cacheable: okOnly }),
+  airQuality: withCache("air_quality", "airQuality", airQuality, { cacheable: okOnly }),
+  historicalWeather: withCache("historical_weather", "historicalWeather", historicalWeather, { cacheable: okOnly }),
+  suitabilityGrid: withCache("overpass", "suitabilityGrid", suitabilityGrid, { cacheable: okOnly }),
+  urbanGeometry: withCache("overpass", "urbanGeometry", urbanGeometry, { cacheable: okOnly }),
+  landuseAreas: withCache("overpass", "landuseAreas", landuseAreas, { cacheable: okOnly }),
+  accesibilidad: withCache("overpass", "accesibilidad", accesibilidad, { cacheable: okOnly }),
+  historicalEvents: withCache("eonet", "historicalEvents", historicalEvents, { cacheable: okOnly }),
+};
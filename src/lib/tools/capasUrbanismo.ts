@@ -1,21 +1,9 @@
 import { env } from "@/lib/env";
 import { fetchWithTimeout } from "@/lib/fetch";
+import { nominatimFetch } from "@/lib/nominatim";
+import { pickPoint, runOverpassQuery, type OverpassElement } from "@/lib/overpass";
 import { haversineMeters, bboxAround } from "@/lib/geo";
-
-type OverpassElement = {
-  type: "node" | "way" | "relation";
-  id: number;
-  lat?: number;
-  lon?: number;
-  center?: { lat: number; lon: number };
-  tags?: Record<string, string>;
-};
-
-function pickPoint(el: OverpassElement) {
-  if (el.type === "node" && typeof el.lat === "number" && typeof el.lon === "number") return { lat: el.lat, lon: el.lon };
-  if (el.center) return { lat: el.center.lat, lon: el.center.lon };
-  return null;
-}
+import { overpassPolyFilter, summarizeArea, type AreaOfInterest } from "@/lib/area";
 
 async function reverseAdminFallback(lat: number, lon: number) {
   const base = env.NOMINATIM_BASE_URL ?? "https://nominatim.openstreetmap.org";
@@ -27,7 +15,7 @@ async function reverseAdminFallback(lat: number, lon: number) {
   url.searchParams.set("addressdetails", "1");
 
   const ua = env.APP_USER_AGENT;
-  const res = await fetchWithTimeout(url, {
+  const res = await nominatimFetch(url, {
     timeoutMs: 12000,
     headers: {
       "User-Agent": ua,
@@ -43,69 +31,42 @@ async function reverseAdminFallback(lat: number, lon: number) {
   return { ok: true, source: "nominatim", data: json };
 }
 
-function uniqueEndpoints(endpoints: string[]) {
-  const seen = new Set<string>();
-  return endpoints.filter((url) => {
-    if (seen.has(url)) return false;
-    seen.add(url);
-    return true;
-  });
-}
-
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-export async function capasUrbanismo(lat: number, lon: number, radius_m: number | null) {
-  const defaultOverpass = "https://overpass-api.de/api/interpreter";
-  const fallbackOverpass = [
-    "https://overpass.kumi.systems/api/interpreter",
-    "https://overpass.nchc.org.tw/api/interpreter"
-  ];
-  const overpassEndpoints = uniqueEndpoints([
-    env.OVERPASS_INTERPRETER_URL ?? defaultOverpass,
-    ...fallbackOverpass
-  ]);
+// Con `area` la consulta se limita al poligono (filtro poly: de Overpass) y
+// lat/lon deberia ser su centroide, desde el que se miden las distancias.
+export async function capasUrbanismo(lat: number, lon: number, radius_m: number | null, area: AreaOfInterest | null = null) {
   const r = radius_m ?? 1200;
+  const spatial = area ? overpassPolyFilter(area) : `around:${r},${lat},${lon}`;
 
-  // Consulta razonable para infraestructura + usos (OSM)
+  // Consulta razonable para infraestructura + usos (OSM). Comercios, aparcamientos y
+  // parques solo se cuentan (`out count`): son muchos y agotarian el limite de 200.
   const query = `
 [out:json][timeout:25];
 (
-  node(around:${r},${lat},${lon})["amenity"~"hospital|clinic|doctors|pharmacy|school|university|police|fire_station|fuel|marketplace"];
-  node(around:${r},${lat},${lon})["public_transport"];
-  node(around:${r},${lat},${lon})["railway"="station"];
-  way(around:${r},${lat},${lon})["highway"];
-  way(around:${r},${lat},${lon})["landuse"];
+  node(${spatial})["amenity"~"hospital|clinic|doctors|pharmacy|school|university|police|fire_station|fuel|marketplace"];
+  node(${spatial})["public_transport"];
+  node(${spatial})["railway"="station"];
+  way(${spatial})["highway"];
+  way(${spatial})["landuse"];
 );
 out center 200;
+nwr(${spatial})["shop"];
+out count;
+nwr(${spatial})["amenity"="parking"];
+out count;
+nwr(${spatial})["leisure"="park"];
+out count;
 `.trim();
 
-  let res: Response | null = null;
-  let usedEndpoint = overpassEndpoints[0] ?? defaultOverpass;
-  let lastStatus: number | null = null;
-
-  for (const endpoint of overpassEndpoints) {
-    usedEndpoint = endpoint;
-    res = await fetchWithTimeout(endpoint, {
-      method: "POST",
-      timeoutMs: 20000,
-      headers: { "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" },
-      body: `data=${encodeURIComponent(query)}`
+  const { elements: all, endpoint: usedEndpoint, fallback_used } = await runOverpassQuery(query);
+  const elements = all.filter((el) => el.type !== "count");
+  // Un elemento "count" por cada `out count`, en el orden de la consulta.
+  const [shops, parking, parks] = all
+    .filter((el) => el.type === "count")
+    .map((el) => {
+      const total = Number(el.tags?.total);
+      return Number.isFinite(total) ? total : null;
     });
 
-    if (res.ok) break;
-    lastStatus = res.status;
-    if (res.status === 429) await sleep(1200);
-  }
-
-  if (!res || !res.ok) {
-    throw new Error(`Overpass fallo: HTTP ${lastStatus ?? "unknown"}`);
-  }
-
-  const json = await res.json();
-  const elements: OverpassElement[] = json?.elements ?? [];
-
   const origin = { lat, lon };
 
   const scored = elements
@@ -120,6 +81,7 @@ out center 200;
   scored.sort((a, b) => a.d - b.d);
 
   const nearest = scored.slice(0, 25).map((x) => ({
+    osm: `${x.el.type}/${x.el.id}`,
     distance_m: Math.round(x.d),
     type: x.el.type,
     tags: x.el.tags ?? {},
@@ -127,13 +89,41 @@ out center 200;
     lon: x.p.lon
   }));
 
+  // Todos los equipamientos (sin vias ni usos del suelo) con su id de OSM: `nearest`
+  // son solo los 25 elementos mas cercanos y no sirve para ver altas y bajas.
+  const pois = scored
+    .map((x) => {
+      const t = x.el.tags ?? {};
+      const category = t.amenity ?? (t.public_transport ? "public_transport" : t.railway === "station" ? "station" : null);
+      return category
+        ? { osm: `${x.el.type}/${x.el.id}`, category, name: t.name ?? null, lat: x.p.lat, lon: x.p.lon, distance_m: Math.round(x.d) }
+        : null;
+    })
+    .filter((poi) => poi !== null);
+
   // Conteos simples por categoría
   const counts = {
     hospitals: 0,
     pharmacies: 0,
     schools: 0,
     transport: 0,
-    landuse: 0
+    landuse: 0,
+    shops: shops ?? null,
+    parking: parking ?? null,
+    parks: parks ?? null
+  };
+  const landuseBreakdown: Record<string, number> = {};
+
+  // Distancia al elemento mas cercano de cada categoria (scored ya va ordenado).
+  const nearestOf = (match: (t: Record<string, string>) => boolean) => {
+    const hit = scored.find((x) => match(x.el.tags ?? {}));
+    return hit ? Math.round(hit.d) : null;
+  };
+  const nearestM = {
+    hospitals: nearestOf((t) => t.amenity === "hospital" || t.amenity === "clinic"),
+    pharmacies: nearestOf((t) => t.amenity === "pharmacy"),
+    schools: nearestOf((t) => t.amenity === "school" || t.amenity === "university"),
+    transport: nearestOf((t) => Boolean(t.public_transport) || t.railway === "station")
   };
 
   for (const e of elements) {
@@ -142,7 +132,10 @@ out center 200;
     if (t.amenity === "pharmacy") counts.pharmacies++;
     if (t.amenity === "school" || t.amenity === "university") counts.schools++;
     if (t.public_transport || t.railway === "station") counts.transport++;
-    if (t.landuse) counts.landuse++;
+    if (t.landuse) {
+      counts.landuse++;
+      landuseBreakdown[t.landuse] = (landuseBreakdown[t.landuse] ?? 0) + 1;
+    }
   }
 
   // Intento “oficial” IGN: unidad administrativa por bbox (si falla, lo declaras en limitaciones)
@@ -168,13 +161,24 @@ out center 200;
   }
 
   return {
-    radius_m: r,
+    radius_m: area ? null : r,
+    area: area ? summarizeArea(area) : null,
     counts,
+    landuse_breakdown: landuseBreakdown,
     nearest,
+    nearest_m: nearestM,
+    pois,
     ign_admin: ignAdmin,
     admin_source: ignAdmin?.source ?? "ign",
     overpass_used: usedEndpoint,
-    overpass_fallback_used: usedEndpoint !== (env.OVERPASS_INTERPRETER_URL ?? defaultOverpass),
-    raw_count: elements.length
+    overpass_fallback_used: fallback_used,
+    raw_count: elements.length,
+    // `out center 200`: al llegar al limite faltan elementos (ver urbanGeometry para la geometria completa).
+    truncated: elements.length >= 200
   };
 }
+
+// Version para el modelo: sin `pois`, que solo sirve para comparar informes y engorda el prompt.
+export function urbanForModel<T extends { pois?: unknown }>(out: T | null) {
+  return out ? { ...out, pois: undefined } : out;
+}
@@ -0,0 +1,156 @@
+import type { LlmTool } from "@/lib/llm";
+
+// Declaraciones de las tools que puede pedir el modelo (formato OpenAI function calling).
+
+const DEFINITIONS = {
+  buscarCoordenadas: {
+    type: "function",
+    function: {
+      name: "buscarCoordenadas",
+      description: "Convierte una direccion en coordenadas usando Nominatim (OpenStreetMap).",
+      parameters: {
+        type: "object",
+        properties: { direccion: { type: "string" } },
+        required: ["direccion"],
+        additionalProperties: false,
+      },
+    },
+  },
+  capasUrbanismo: {
+    type: "function",
+    function: {
+      name: "capasUrbanismo",
+      description: "Devuelve infraestructura/urbanismo alrededor del punto (Overpass + intento IGN).",
+      parameters: {
+        type: "object",
+        properties: {
+          lat: { type: "number" },
+          lon: { type: "number" },
+          radius_m: { type: "number" },
+        },
+        required: ["lat", "lon", "radius_m"],
+        additionalProperties: false,
+      },
+    },
+  },
+  riesgoInundacion: {
+    type: "function",
+    function: {
+      name: "riesgoInundacion",
+      description: "Consulta riesgo/indicadores de inundacion (Copernicus EFAS WMS).",
+      parameters: {
+        type: "object",
+        properties: { lat: { type: "number" }, lon: { type: "number" } },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+  reverseGeocode: {
+    type: "function",
+    function: {
+      name: "reverseGeocode",
+      description: "Convierte coordenadas en direccion cercana con datos administrativos (Nominatim reverse).",
+      parameters: {
+        type: "object",
+        properties: {
+          lat: { type: "number" },
+          lon: { type: "number" },
+          zoom: { type: "number" },
+        },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+  cityStats: {
+    type: "function",
+    function: {
+      name: "cityStats",
+      description: "Busca poblacion y superficie de la ciudad/municipio mas cercano (Wikidata).",
+      parameters: {
+        type: "object",
+        properties: {
+          lat: { type: "number" },
+          lon: { type: "number" },
+          name_hint: { type: "string" },
+          country_code: { type: "string" },
+          wikidata_id: { type: "string" },
+        },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+  airQuality: {
+    type: "function",
+    function: {
+      name: "airQuality",
+      description: "Calidad del aire actual en el punto (Open-Meteo Air Quality).",
+      parameters: {
+        type: "object",
+        properties: { lat: { type: "number" }, lon: { type: "number" } },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+  accesibilidad: {
+    type: "function",
+    function: {
+      name: "accesibilidad",
+      description:
+        "Isocronas de 5/10/15 min a pie y en bici por la red de calles (OSM), equipamientos esenciales alcanzables en cada una, nota de ciudad de 15 minutos y hospital, farmacia, colegio, bomberos, policia y estacion mas cercanos por distancia de red (minutos a pie y en coche).",
+      parameters: {
+        type: "object",
+        properties: { lat: { type: "number" }, lon: { type: "number" } },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+  historicalWeather: {
+    type: "function",
+    function: {
+      name: "historicalWeather",
+      description: "Resumen de temperatura y lluvia de los ultimos anos (Open-Meteo Archive).",
+      parameters: {
+        type: "object",
+        properties: { lat: { type: "number" }, lon: { type: "number" }, years: { type: "number" } },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+  historicalEvents: {
+    type: "function",
+    function: {
+      name: "historicalEvents",
+      description: "Eventos naturales registrados cerca del punto (NASA EONET): incendios, inundaciones, tormentas...",
+      parameters: {
+        type: "object",
+        properties: { lat: { type: "number" }, lon: { type: "number" }, years: { type: "number" } },
+        required: ["lat", "lon"],
+        additionalProperties: false,
+      },
+    },
+  },
+} satisfies Record<string, LlmTool>;
+
+export type ToolName = keyof typeof DEFINITIONS;
+
+export const ANALYZE_TOOL_NAMES: ToolName[] = [
+  "buscarCoordenadas",
+  "capasUrbanismo",
+  "riesgoInundacion",
+  "reverseGeocode",
+  "cityStats",
+  "airQuality",
+  "accesibilidad",
+];
+
+export const ALL_TOOL_NAMES = Object.keys(DEFINITIONS) as ToolName[];
+
+export function toolDefinitions(names: readonly ToolName[]): LlmTool[] {
+  return names.map((name) => DEFINITIONS[name]);
+}
@@ -1,5 +1,6 @@
 import { fetchWithTimeout } from "@/lib/fetch";
-import { bboxAround, haversineMeters } from "@/lib/geo";
+import { bboxAround, haversineMeters, pointInPolygon } from "@/lib/geo";
+import { summarizeArea, type AreaOfInterest } from "@/lib/area";
 
 type EventSummary = {
   id: string;
@@ -9,6 +10,7 @@ type EventSummary = {
   date_start: string | null;
   date_end: string | null;
   distance_km: number | null;
+  inside_area?: boolean;
   sources: string[];
 };
 
@@ -47,9 +49,33 @@ function pickDistance(lat: number, lon: number, geometry: any[]) {
   return best !== null ? Math.round(best / 100) / 10 : null;
 }
 
-export async function historicalEvents(lat: number, lon: number, years = 5, deltaDeg = 1.0) {
+function touchesArea(geometry: unknown, area: AreaOfInterest) {
+  if (!Array.isArray(geometry)) return false;
+  return geometry.some((g) => {
+    const coords = g?.coordinates;
+    if (!Array.isArray(coords) || typeof coords[0] !== "number" || typeof coords[1] !== "number") return false;
+    return pointInPolygon({ lat: coords[1], lon: coords[0] }, area.ring);
+  });
+}
+
+// Con `area` se busca en su bbox ampliado `deltaDeg` grados (los eventos EONET
+// son regionales) y se marca que eventos caen dentro del poligono.
+export async function historicalEvents(
+  lat: number,
+  lon: number,
+  years = 5,
+  deltaDeg = 1.0,
+  area: AreaOfInterest | null = null
+) {
   const range = buildDateRange(years);
-  const bb = bboxAround(lat, lon, deltaDeg);
+  const bb = area
+    ? {
+        minLat: area.bbox.minLat - deltaDeg,
+        minLon: area.bbox.minLon - deltaDeg,
+        maxLat: area.bbox.maxLat + deltaDeg,
+        maxLon: area.bbox.maxLon + deltaDeg,
+      }
+    : bboxAround(lat, lon, deltaDeg);
   const bbox = `${bb.minLon},${bb.minLat},${bb.maxLon},${bb.maxLat}`;
   const limit = 200;
 
@@ -100,6 +126,7 @@ export async function historicalEvents(lat: number, lon: number, years = 5, delt
       date_start: start,
       date_end: end,
       distance_km: distance,
+      ...(area ? { inside_area: touchesArea(ev?.geometry ?? [], area) } : {}),
       sources: sources.map((s: any) => String(s?.url ?? "")).filter(Boolean),
     };
   });
@@ -115,7 +142,9 @@ export async function historicalEvents(lat: number, lon: number, years = 5, delt
     source: "nasa-eonet",
     period: { ...range, years },
     bbox: bb,
+    area: area ? summarizeArea(area) : null,
     total_events: summaries.length,
+    events_inside_area: area ? summaries.filter((ev) => ev.inside_area).length : null,
     categories,
     events: summaries.slice(0, 20),
   };
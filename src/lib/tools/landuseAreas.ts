@@ -0,0 +1,31 @@
+import type { AreaOfInterest } from "@/lib/area";
+import { computeLanduseAreas, type LanduseAreas } from "@/lib/landuse-areas";
+import { toFeatureCollection } from "@/lib/osm-geojson";
+import { LANDUSE_SELECTORS, geometryZone, queryEnclosingLanduse, queryTiledGeometry } from "@/lib/tools/urbanGeometry";
+
+// Superficie (no numero de elementos) por uso del suelo, con la geometria completa
+// recortada al radio o al poligono. Va aparte de capasUrbanismo porque puede lanzar
+// varias consultas `out geom` por mosaicos: solo la pide el analisis, que la muestra.
+export async function landuseAreas(
+  lat: number,
+  lon: number,
+  radius_m: number | null,
+  area: AreaOfInterest | null = null
+): Promise<(LanduseAreas & { truncated: boolean }) | { ok: false; error: string }> {
+  const r = radius_m ?? 1200;
+  try {
+    const zone = geometryZone(lat, lon, r, area);
+    const geometry = await queryTiledGeometry(zone.spatial, zone.bbox, LANDUSE_SELECTORS);
+    const enclosing = toFeatureCollection((await queryEnclosingLanduse(lat, lon)).elements).collection;
+    // Los que cortan algun mosaico ya vienen en `geometry`.
+    const seen = new Set(geometry.collection.features.map((feature) => feature.id));
+    const collection = {
+      ...geometry.collection,
+      features: [...geometry.collection.features, ...enclosing.features.filter((feature) => !seen.has(feature.id))],
+    };
+    const clip = area ? { ring: area.ring } : { center: { lat, lon }, radius_m: r };
+    return { ...computeLanduseAreas(collection, clip), truncated: geometry.truncated_tiles.length > 0 };
+  } catch (e: any) {
+    return { ok: false, error: e?.message ?? "Overpass fallo" };
+  }
+}
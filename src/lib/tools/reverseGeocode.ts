@@ -1,7 +1,8 @@
 import { env } from "@/lib/env";
-import { fetchWithTimeout } from "@/lib/fetch";
+import { nominatimFetch } from "@/lib/nominatim";
 
-export async function reverseGeocode(lat: number, lon: number, zoom: number | null) {
+// `language` pide los nombres en ese idioma (cabecera Accept-Language de Nominatim).
+export async function reverseGeocode(lat: number, lon: number, zoom: number | null, language: string | null = null) {
   const base = env.NOMINATIM_BASE_URL ?? "https://nominatim.openstreetmap.org";
 
   const url = new URL(`${base}/reverse`);
@@ -14,11 +15,12 @@ export async function reverseGeocode(lat: number, lon: number, zoom: number | nu
   url.searchParams.set("extratags", "1");
 
   const ua = env.APP_USER_AGENT;
-  const res = await fetchWithTimeout(url, {
+  const res = await nominatimFetch(url, {
     timeoutMs: 12000,
     headers: {
       "User-Agent": ua,
-      "Accept": "application/json"
+      "Accept": "application/json",
+      ...(language ? { "Accept-Language": language } : {})
     }
   });
 
@@ -2,6 +2,8 @@ import { env } from "@/lib/env";
 import { fetchWithTimeout } from "@/lib/fetch";
 import { XMLParser } from "fast-xml-parser";
 import { bboxAround } from "@/lib/geo";
+import { cacheGetOrLoad } from "@/lib/cache";
+import { sampleAreaPoints, summarizeArea, type AreaOfInterest } from "@/lib/area";
 
 function safeArray<T>(x: T | T[] | undefined): T[] {
   if (!x) return [];
@@ -47,18 +49,29 @@ export async function riesgoInundacion(lat: number, lon: number) {
     env.COPERNICUS_EFAS_WMS_URL ??
     "https://european-flood.emergency.copernicus.eu/api/wms/?request=getcapabilities";
 
-  const capRes = await fetchWithTimeout(capabilitiesUrl, { timeoutMs: 15000 });
-  if (!capRes.ok) {
+  // El documento GetCapabilities pesa y cambia poco: se cachea un dia.
+  const capabilities = await cacheGetOrLoad(
+    "efas_capabilities",
+    capabilitiesUrl,
+    async () => {
+      const capRes = await fetchWithTimeout(capabilitiesUrl, { timeoutMs: 15000 });
+      if (!capRes.ok) return { ok: false as const, status: capRes.status };
+      return { ok: true as const, xml: await capRes.text() };
+    },
+    { cacheable: (value) => value.ok }
+  );
+
+  if (!capabilities.value.ok) {
     return {
       ok: false,
       method: "copernicus_wms",
-      reason: `GetCapabilities HTTP ${capRes.status}`,
+      reason: `GetCapabilities HTTP ${capabilities.value.status}`,
       note: "No se pudo consultar EFAS WMS",
       fallback_used: true
     };
   }
 
-  const capXml = await capRes.text();
+  const capXml = capabilities.value.xml;
   const capParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: "" });
   const cap = capParser.parse(capXml);
 
@@ -205,3 +218,42 @@ export async function riesgoInundacion(lat: number, lon: number) {
     layers_sample: allLayers.slice(0, 20)
   };
 }
+
+// EFAS responde por pixel: para un area se consultan varios puntos interiores
+// (centroide y vertices acercados al centro) y se devuelve el primero con datos
+// junto con el detalle de cada muestra.
+export async function riesgoInundacionArea(area: AreaOfInterest) {
+  const samples: { lat: number; lon: number; ok: boolean; summary: string | null }[] = [];
+  let best: Awaited<ReturnType<typeof riesgoInundacion>> | null = null;
+  let last: Awaited<ReturnType<typeof riesgoInundacion>> | null = null;
+
+  for (const point of sampleAreaPoints(area)) {
+    try {
+      const out = await riesgoInundacion(point.lat, point.lon);
+      last = out;
+      samples.push({
+        lat: point.lat,
+        lon: point.lon,
+        ok: out.ok,
+        summary: out.ok ? (out.summary ?? null) : (out.note ?? out.reason ?? null)
+      });
+      if (out.ok && !best) best = out;
+    } catch (e: any) {
+      samples.push({ lat: point.lat, lon: point.lon, ok: false, summary: e?.message ?? "Error EFAS" });
+    }
+  }
+
+  const base = best ?? last ?? {
+    ok: false,
+    method: "copernicus_efas_wms",
+    note: "No se pudo consultar EFAS WMS en ningun punto del area.",
+    fallback_used: true
+  };
+
+  return {
+    ...base,
+    area: summarizeArea(area),
+    area_samples: samples,
+    samples_with_data: samples.filter((x) => x.ok).length
+  };
+}
@@ -0,0 +1,244 @@
+import { haversineMeters } from "@/lib/geo";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { pickPoint, runOverpassQuery } from "@/lib/overpass";
+import { computeSuitability, resolveWeights, type ScoringOptions } from "@/lib/scoring";
+import { riesgoInundacion } from "@/lib/tools/riesgoInundacion";
+
+// Mapa de idoneidad sobre una rejilla: una sola consulta Overpass para todo el
+// bbox (ampliado con un margen para que las celdas del borde vean servicios de
+// fuera) y un muestreo reducido de EFAS que cada celda toma de la muestra mas
+// cercana. Aire y densidad son datos de municipio, iguales en toda la rejilla,
+// asi que la nota de cada celda solo combina servicios, transporte y riesgo.
+// suitabilityGrid devuelve los datos de cada celda sin puntuar (es lo que se
+// cachea, sin depender de los pesos) y scoreSuitabilityGrid los puntua.
+
+export type Bbox = { minLat: number; minLon: number; maxLat: number; maxLon: number };
+
+export const GRID_MAX_CELLS = 400;
+export const GRID_MAX_SIDE_M = 30_000;
+const GRID_MIN_SIDE_M = 200;
+// Margen del bbox de Overpass: a 2 km la subpuntuacion de servicios ya es 0.
+const OVERPASS_PADDING_M = 2000;
+// Radio en el que se cuentan paradas para cada celda.
+const TRANSPORT_COUNT_RADIUS_M = 1000;
+const OVERPASS_LIMIT = 10000;
+// Muestras EFAS por lado (3x3 como maximo) y peticiones en paralelo.
+const EFAS_SAMPLES_PER_SIDE = 3;
+const EFAS_CONCURRENCY = 2;
+
+const METERS_PER_DEG_LAT = 111_320;
+// Paso (grados, ~500 m) al que se redondea el bbox hacia fuera para que la cache sirva
+// al mover un poco el mapa.
+const BBOX_STEP_DEG = 0.005;
+
+type Point = { lat: number; lon: number };
+
+type Category = "hospitals" | "pharmacies" | "schools" | "transport";
+
+function categoryOf(tags: Record<string, string>): Category | null {
+  if (tags.amenity === "hospital" || tags.amenity === "clinic") return "hospitals";
+  if (tags.amenity === "pharmacy") return "pharmacies";
+  if (tags.amenity === "school" || tags.amenity === "university") return "schools";
+  if (tags.public_transport || tags.railway === "station") return "transport";
+  return null;
+}
+
+function round6(value: number) {
+  return Number(value.toFixed(6));
+}
+
+function metersPerDegLon(lat: number) {
+  return METERS_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+function nearestDistance(origin: Point, points: Point[]) {
+  let best: number | null = null;
+  for (const p of points) {
+    const d = haversineMeters(origin, p);
+    if (best === null || d < best) best = d;
+  }
+  return best === null ? null : Math.round(best);
+}
+
+// Ajusta el tamano de celda para no pasar de GRID_MAX_CELLS (redondeado a 50 m).
+// Lanza si el bbox no es valido o se sale de los limites.
+export function planGrid(bbox: Bbox, cellM: number) {
+  if (bbox.minLat >= bbox.maxLat || bbox.minLon >= bbox.maxLon) {
+    throw new Error("bbox invalido: min debe ser menor que max.");
+  }
+  const midLat = (bbox.minLat + bbox.maxLat) / 2;
+  const heightM = (bbox.maxLat - bbox.minLat) * METERS_PER_DEG_LAT;
+  const widthM = (bbox.maxLon - bbox.minLon) * metersPerDegLon(midLat);
+  if (!(heightM >= GRID_MIN_SIDE_M && widthM >= GRID_MIN_SIDE_M)) {
+    throw new Error(`El bbox es demasiado pequeno (minimo ${GRID_MIN_SIDE_M} m por lado).`);
+  }
+  if (heightM > GRID_MAX_SIDE_M || widthM > GRID_MAX_SIDE_M) {
+    throw new Error(`El bbox es demasiado grande (maximo ${GRID_MAX_SIDE_M / 1000} km por lado).`);
+  }
+
+  let size = cellM;
+  if (Math.ceil(heightM / size) * Math.ceil(widthM / size) > GRID_MAX_CELLS) {
+    size = Math.ceil(Math.sqrt((heightM * widthM) / GRID_MAX_CELLS) / 50) * 50;
+    while (Math.ceil(heightM / size) * Math.ceil(widthM / size) > GRID_MAX_CELLS) size += 50;
+  }
+  return {
+    rows: Math.ceil(heightM / size),
+    cols: Math.ceil(widthM / size),
+    cell_m: size,
+    resized: size !== cellM,
+  };
+}
+
+// Redondea el bbox hacia fuera a BBOX_STEP_DEG; un eje que asi pasaria del maximo se deja igual.
+export function snapBbox(bbox: Bbox): Bbox {
+  const down = (v: number) => round6(Math.floor(v / BBOX_STEP_DEG) * BBOX_STEP_DEG);
+  const up = (v: number) => round6(Math.ceil(v / BBOX_STEP_DEG) * BBOX_STEP_DEG);
+  const snapped = { minLat: down(bbox.minLat), minLon: down(bbox.minLon), maxLat: up(bbox.maxLat), maxLon: up(bbox.maxLon) };
+  const midLat = (snapped.minLat + snapped.maxLat) / 2;
+  const latFits = (snapped.maxLat - snapped.minLat) * METERS_PER_DEG_LAT <= GRID_MAX_SIDE_M;
+  const lonFits = (snapped.maxLon - snapped.minLon) * metersPerDegLon(midLat) <= GRID_MAX_SIDE_M;
+  return {
+    minLat: latFits ? snapped.minLat : bbox.minLat,
+    maxLat: latFits ? snapped.maxLat : bbox.maxLat,
+    minLon: lonFits ? snapped.minLon : bbox.minLon,
+    maxLon: lonFits ? snapped.maxLon : bbox.maxLon,
+  };
+}
+
+async function sampleFlood(bbox: Bbox, rows: number, cols: number) {
+  const sampleRows = Math.min(EFAS_SAMPLES_PER_SIDE, rows);
+  const sampleCols = Math.min(EFAS_SAMPLES_PER_SIDE, cols);
+  const points: Point[] = [];
+  for (let r = 0; r < sampleRows; r++) {
+    for (let c = 0; c < sampleCols; c++) {
+      points.push({
+        lat: bbox.minLat + ((r + 0.5) / sampleRows) * (bbox.maxLat - bbox.minLat),
+        lon: bbox.minLon + ((c + 0.5) / sampleCols) * (bbox.maxLon - bbox.minLon),
+      });
+    }
+  }
+
+  return mapWithConcurrency(points, EFAS_CONCURRENCY, async (point) => {
+    try {
+      const out = await riesgoInundacion(point.lat, point.lon);
+      // Solo lo que usa la puntuacion; la respuesta completa de EFAS no se guarda en la cache.
+      return { ...point, out: out.ok ? { ok: true, parsed: out.parsed, layer: out.layer } : { ok: false } };
+    } catch {
+      return { ...point, out: { ok: false } };
+    }
+  });
+}
+
+export async function suitabilityGrid(bbox: Bbox, cellM = 500) {
+  const plan = planGrid(bbox, cellM);
+
+  const midLat = (bbox.minLat + bbox.maxLat) / 2;
+  const padLat = OVERPASS_PADDING_M / METERS_PER_DEG_LAT;
+  const padLon = OVERPASS_PADDING_M / metersPerDegLon(midLat);
+  const spatial = [bbox.minLat - padLat, bbox.minLon - padLon, bbox.maxLat + padLat, bbox.maxLon + padLon]
+    .map((v) => v.toFixed(6))
+    .join(",");
+
+  const query = `
+[out:json][timeout:60];
+(
+  nwr(${spatial})["amenity"~"^(hospital|clinic|pharmacy|school|university)$"];
+  node(${spatial})["public_transport"];
+  node(${spatial})["railway"="station"];
+);
+out center ${OVERPASS_LIMIT};
+`.trim();
+
+  const [overpass, floodSamples] = await Promise.all([
+    runOverpassQuery(query, 60000),
+    sampleFlood(bbox, plan.rows, plan.cols),
+  ]);
+
+  const byCategory: Record<Category, Point[]> = { hospitals: [], pharmacies: [], schools: [], transport: [] };
+  for (const el of overpass.elements) {
+    const p = pickPoint(el);
+    const category = categoryOf(el.tags ?? {});
+    if (p && category) byCategory[category].push(p);
+  }
+
+  const dLat = (bbox.maxLat - bbox.minLat) / plan.rows;
+  const dLon = (bbox.maxLon - bbox.minLon) / plan.cols;
+  const cells = [];
+  for (let row = 0; row < plan.rows; row++) {
+    for (let col = 0; col < plan.cols; col++) {
+      const center = { lat: bbox.minLat + (row + 0.5) * dLat, lon: bbox.minLon + (col + 0.5) * dLon };
+      let floodSample = 0;
+      floodSamples.forEach((sample, i) => {
+        if (haversineMeters(center, sample) < haversineMeters(center, floodSamples[floodSample])) floodSample = i;
+      });
+      cells.push({
+        row,
+        col,
+        lat: round6(center.lat),
+        lon: round6(center.lon),
+        bounds: {
+          minLat: round6(bbox.minLat + row * dLat),
+          minLon: round6(bbox.minLon + col * dLon),
+          maxLat: round6(bbox.minLat + (row + 1) * dLat),
+          maxLon: round6(bbox.minLon + (col + 1) * dLon),
+        },
+        transport_count: byCategory.transport.filter((p) => haversineMeters(center, p) <= TRANSPORT_COUNT_RADIUS_M).length,
+        nearest_m: {
+          hospitals: nearestDistance(center, byCategory.hospitals),
+          pharmacies: nearestDistance(center, byCategory.pharmacies),
+          schools: nearestDistance(center, byCategory.schools),
+          transport: nearestDistance(center, byCategory.transport),
+        },
+        // Indice en `flood_samples` de la muestra EFAS mas cercana.
+        flood_sample: floodSample,
+      });
+    }
+  }
+
+  return {
+    ok: true,
+    bbox,
+    rows: plan.rows,
+    cols: plan.cols,
+    cell_m: plan.cell_m,
+    cell_resized: plan.resized,
+    cells,
+    flood_samples: floodSamples,
+    counts: Object.fromEntries(Object.entries(byCategory).map(([key, points]) => [key, points.length])),
+    overpass_used: overpass.endpoint,
+    overpass_fallback_used: overpass.fallback_used,
+    // Overpass corta en OVERPASS_LIMIT elementos: en ciudades muy densas faltaran algunos.
+    truncated: overpass.elements.length >= OVERPASS_LIMIT,
+  };
+}
+
+export type RawSuitabilityGrid = Awaited<ReturnType<typeof suitabilityGrid>>;
+
+// Puntua la rejilla con los pesos pedidos; no llama a ninguna fuente.
+export function scoreSuitabilityGrid(grid: RawSuitabilityGrid, scoring: ScoringOptions | null = null) {
+  const { cells: raw, flood_samples, ...meta } = grid;
+  const cells = raw.map(({ transport_count, nearest_m, flood_sample, ...cell }) => {
+    const urban = { counts: { transport: transport_count }, nearest_m };
+    const score = computeSuitability({ urban, flood: flood_samples[flood_sample]?.out }, scoring);
+    const sub = Object.fromEntries(score.sub_scores.map((s) => [s.key, s.score]));
+    return {
+      ...cell,
+      total: score.total,
+      services: sub.services ?? null,
+      transport: sub.transport ?? null,
+      environmental_risk: sub.environmental_risk ?? null,
+    };
+  });
+
+  const ranked = cells.filter((c) => c.total !== null).sort((a, b) => b.total! - a.total!);
+
+  return {
+    ...meta,
+    weights: resolveWeights(scoring).weights,
+    excluded: ["air", "density"],
+    cells,
+    best: ranked.slice(0, 5).map(({ row, col, lat, lon, total }) => ({ row, col, lat, lon, total })),
+    efas_samples: flood_samples.length,
+    efas_samples_with_data: flood_samples.filter((s) => s.out.ok).length,
+  };
+}
@@ -0,0 +1,157 @@
+import { runOverpassQuery, type OverpassElement } from "@/lib/overpass";
+import { toFeatureCollection } from "@/lib/osm-geojson";
+import { overpassPolyFilter, summarizeArea, type AreaOfInterest } from "@/lib/area";
+import type { Bbox } from "@/lib/tools/suitabilityGrid";
+
+// Geometria completa (`out geom`) de las mismas capas que capasUrbanismo, como
+// GeoJSON. En vez de cortar en N elementos, el bbox se parte en mosaicos: si uno
+// llega al limite se divide en cuatro y se vuelve a pedir. Solo cuando ya no se
+// puede dividir mas se marca como truncado y se informa.
+
+// Elementos por consulta; llegar a este numero indica que faltan elementos.
+const TILE_LIMIT = 2000;
+// Niveles de division como maximo y tope de consultas por llamada.
+const MAX_DEPTH = 3;
+const MAX_TILES = 32;
+
+const METERS_PER_DEG_LAT = 111_320;
+
+// Selectores de Overpass; `{f}` se sustituye por el filtro espacial del mosaico.
+// Poligonos de uso del suelo: vias cerradas y multipoligonos.
+export const LANDUSE_SELECTORS = ["landuse", "leisure", "natural"].flatMap((key) => [
+  `way{f}["${key}"]`,
+  `relation{f}["type"="multipolygon"]["${key}"]`,
+]);
+
+// Los que envuelven por completo la zona no tienen bordes dentro y el filtro espacial
+// no los ve: se buscan aparte, en una sola consulta (no por mosaico), por las areas de
+// Overpass que contienen el punto. Lanza si Overpass falla.
+export async function queryEnclosingLanduse(lat: number, lon: number) {
+  const query = `
+[out:json][timeout:25];
+is_in(${lat},${lon})->.in;
+(
+${["landuse", "leisure", "natural"].map((key) => `  wr(pivot.in)["${key}"];`).join("\n")}
+);
+out geom;
+`.trim();
+  return runOverpassQuery(query, 30000);
+}
+
+const URBAN_SELECTORS = [
+  `node{f}["amenity"~"hospital|clinic|doctors|pharmacy|school|university|police|fire_station|fuel|marketplace"]`,
+  `node{f}["public_transport"]`,
+  `node{f}["railway"="station"]`,
+  `way{f}["highway"]`,
+  ...LANDUSE_SELECTORS,
+];
+
+type Tile = Bbox & { depth: number };
+
+function circleBbox(lat: number, lon: number, radius_m: number): Bbox {
+  const dLat = radius_m / METERS_PER_DEG_LAT;
+  const dLon = radius_m / (METERS_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180));
+  return { minLat: lat - dLat, minLon: lon - dLon, maxLat: lat + dLat, maxLon: lon + dLon };
+}
+
+function splitTile(tile: Tile): Tile[] {
+  const midLat = (tile.minLat + tile.maxLat) / 2;
+  const midLon = (tile.minLon + tile.maxLon) / 2;
+  const depth = tile.depth + 1;
+  return [
+    { minLat: tile.minLat, minLon: tile.minLon, maxLat: midLat, maxLon: midLon, depth },
+    { minLat: tile.minLat, minLon: midLon, maxLat: midLat, maxLon: tile.maxLon, depth },
+    { minLat: midLat, minLon: tile.minLon, maxLat: tile.maxLat, maxLon: midLon, depth },
+    { minLat: midLat, minLon: midLon, maxLat: tile.maxLat, maxLon: tile.maxLon, depth },
+  ];
+}
+
+function tileQuery(spatial: string, tile: Tile, selectors: string[]) {
+  const bb = `${tile.minLat.toFixed(6)},${tile.minLon.toFixed(6)},${tile.maxLat.toFixed(6)},${tile.maxLon.toFixed(6)}`;
+  const f = `(${spatial})(${bb})`;
+  return `
+[out:json][timeout:25];
+(
+${selectors.map((s) => `  ${s.replace("{f}", f)};`).join("\n")}
+);
+out geom ${TILE_LIMIT};
+`.trim();
+}
+
+// Filtro espacial y bbox inicial de la zona: circulo (around) o poligono dibujado.
+export function geometryZone(lat: number, lon: number, radius_m: number, area: AreaOfInterest | null) {
+  return {
+    spatial: area ? overpassPolyFilter(area) : `around:${radius_m},${lat},${lon}`,
+    bbox: area ? area.bbox : circleBbox(lat, lon, radius_m),
+  };
+}
+
+// Consulta por mosaicos; lanza si Overpass falla en cualquiera de ellos.
+export async function queryTiledGeometry(spatial: string, bbox: Bbox, selectors: string[]) {
+  // Cola en anchura: primero todos los mosaicos de un nivel, luego sus divisiones.
+  const pending: Tile[] = [{ ...bbox, depth: 0 }];
+  const elements: OverpassElement[] = [];
+  const truncatedTiles: Bbox[] = [];
+  let queried = 0;
+  let split = 0;
+  let endpoint: string | null = null;
+  let fallbackUsed = false;
+
+  while (pending.length) {
+    const tile = pending.shift()!;
+    const res = await runOverpassQuery(tileQuery(spatial, tile, selectors), 30000);
+    queried++;
+    endpoint = res.endpoint;
+    fallbackUsed ||= res.fallback_used;
+
+    const full = res.elements.length >= TILE_LIMIT;
+    if (full && tile.depth < MAX_DEPTH && queried + pending.length + 4 <= MAX_TILES) {
+      // Se descarta la respuesta parcial: las cuatro mitades la cubren entera.
+      pending.push(...splitTile(tile));
+      split++;
+      continue;
+    }
+    if (full) truncatedTiles.push({ minLat: tile.minLat, minLon: tile.minLon, maxLat: tile.maxLat, maxLon: tile.maxLon });
+    elements.push(...res.elements);
+  }
+
+  const { collection, skipped } = toFeatureCollection(elements);
+  return {
+    collection,
+    skipped,
+    tiles: { queried, split, limit_per_tile: TILE_LIMIT },
+    truncated_tiles: truncatedTiles,
+    endpoint,
+    fallback_used: fallbackUsed,
+  };
+}
+
+export async function urbanGeometry(lat: number, lon: number, radius_m: number | null, area: AreaOfInterest | null = null) {
+  const r = radius_m ?? 1200;
+  const zone = geometryZone(lat, lon, r, area);
+
+  try {
+    const res = await queryTiledGeometry(zone.spatial, zone.bbox, URBAN_SELECTORS);
+    return {
+      ok: true,
+      radius_m: area ? null : r,
+      area: area ? summarizeArea(area) : null,
+      geojson: res.collection,
+      feature_count: res.collection.features.length,
+      tiles: res.tiles,
+      // true si algun mosaico llego al limite sin poder dividirse: faltan elementos en esos bbox.
+      truncated: res.truncated_tiles.length > 0,
+      truncated_tiles: res.truncated_tiles,
+      skipped: res.skipped,
+      overpass_used: res.endpoint,
+      overpass_fallback_used: res.fallback_used,
+    };
+  } catch (e: any) {
+    return {
+      ok: false,
+      error: e?.message ?? "Overpass fallo",
+      radius_m: area ? null : r,
+      area: area ? summarizeArea(area) : null,
+    };
+  }
+}
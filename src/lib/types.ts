@@ -1,5 +1,43 @@
+import type { CacheMeta } from "@/lib/cache";
+import type { CompareRanking } from "@/lib/compare";
+import type { CompareCity } from "@/lib/compare-run";
+import type { AnalyzeReport, CompareReport, HistoryReport } from "@/lib/structured-report";
+import type { GroundingResult } from "@/lib/grounding";
+import type { ReportTemplateId } from "@/lib/report-templates";
+import type { SuitabilityScore } from "@/lib/scoring";
+import type { AccessResult } from "@/lib/tools/accesibilidad";
+import type { airQuality } from "@/lib/tools/airQuality";
+import type { capasUrbanismo } from "@/lib/tools/capasUrbanismo";
+import type { cityStats } from "@/lib/tools/cityStats";
+import type { landuseAreas } from "@/lib/tools/landuseAreas";
+import type { reverseGeocode } from "@/lib/tools/reverseGeocode";
+import type { riesgoInundacion, riesgoInundacionArea } from "@/lib/tools/riesgoInundacion";
+import type { scoreSuitabilityGrid } from "@/lib/tools/suitabilityGrid";
+
 export type SourceRef = { name: string; url: string };
 
+// Tool que no se llego a ejecutar (argumentos invalidos) o que lanzo una excepcion.
+export type ToolFailure = { ok: false; error: string };
+
+// Salidas de las tools tal cual las devuelve cada funcion, o ToolFailure.
+export type UrbanResult =
+  | (Awaited<ReturnType<typeof capasUrbanismo>> & { landuse_areas?: Awaited<ReturnType<typeof landuseAreas>> })
+  | ToolFailure;
+export type FloodResult =
+  | Awaited<ReturnType<typeof riesgoInundacion>>
+  | Awaited<ReturnType<typeof riesgoInundacionArea>>
+  | ToolFailure;
+export type ReverseResult = Awaited<ReturnType<typeof reverseGeocode>> | ToolFailure;
+export type CityStatsResult = Awaited<ReturnType<typeof cityStats>> | ToolFailure;
+export type AirQualityResult = Awaited<ReturnType<typeof airQuality>> | ToolFailure;
+
+// Depuracion de cada ejecucion: llamadas al LLM, tools llamadas y uso de la cache.
+export type RunDebug = {
+  llm_calls?: number;
+  cache: ({ tool: string } & CacheMeta)[];
+  [key: string]: unknown;
+};
+
 export type AnalyzeResponse = {
   ok: boolean;
   error?: string;
@@ -11,27 +49,53 @@ export type AnalyzeResponse = {
     address?: Record<string, string> | null;
   };
 
+  area?: {
+    area_m2: number;
+    area_ha: number;
+    perimeter_m: number;
+    vertices: number;
+    centroid: { lat: number; lon: number };
+    geojson: { type: "Polygon"; coordinates: number[][][] };
+  } | null;
+
   urban?: any;
   flood?: any;
   stats?: any;
+  air?: AirQualityResult | null;
+  // Isocronas a pie/en bici y nota de ciudad de 15 minutos (tool accesibilidad).
+  access?: AccessResult | null;
+  // Puntuacion de idoneidad 0-100 con sus subpuntuaciones y pesos.
+  suitability?: SuitabilityScore | null;
 
+  template?: ReportTemplateId;
   report_markdown?: string;
+  // Solo con report_format "structured".
+  report?: AnalyzeReport | null;
+  // Cifras/URLs del informe sin respaldo en las tools (null si GROUNDING_MODE=off).
+  grounding?: GroundingResult | null;
 
   sources?: SourceRef[];
   limitations?: string[];
+  // Id del informe guardado (/reports/[id]); null si no se pudo guardar.
+  report_id?: string | null;
 
-  debug?: any;
+  debug?: RunDebug;
 };
 
 export type CompareResponse = {
   ok: boolean;
   error?: string;
   report_markdown?: string;
-  cityA?: any;
-  cityB?: any;
+  report?: CompareReport | null;
+  // Cifras/URLs del informe sin respaldo en las tools (null si GROUNDING_MODE=off).
+  grounding?: GroundingResult | null;
+  // Cada ciudad lleva `label` ("A".."J"), los datos de sus tools y su `suitability`.
+  cities?: CompareCity[];
+  ranking?: CompareRanking;
   sources?: SourceRef[];
   limitations?: string[];
-  debug?: any;
+  report_id?: string | null;
+  debug?: RunDebug;
 };
 
 export type HistoryResponse = {
@@ -47,6 +111,57 @@ export type HistoryResponse = {
   weather?: any;
   events?: any;
   report_markdown?: string;
+  report?: HistoryReport | null;
+  // Cifras/URLs del informe sin respaldo en las tools (null si GROUNDING_MODE=off).
+  grounding?: GroundingResult | null;
   sources?: SourceRef[];
   limitations?: string[];
+  report_id?: string | null;
+  debug?: RunDebug;
+};
+
+export type ChatToolResult = {
+  name: string;
+  args: Record<string, unknown>;
+  result: unknown;
 };
+
+export type ChatMessage = { role: "user" | "assistant"; content: string };
+
+export type ChatResponse = {
+  ok: boolean;
+  error?: string;
+  reply?: string;
+  // Solo las tools llamadas en este turno; el cliente las reenvia en los siguientes.
+  tool_results?: ChatToolResult[];
+  // client_evidence: parte de los datos contrastados los envio el cliente y pueden estar alterados.
+  grounding?: (GroundingResult & { client_evidence: boolean }) | null;
+  limitations?: string[];
+  debug?: RunDebug;
+};
+
+export type AnalyzeToolName =
+  | "buscarCoordenadas"
+  | "reverseGeocode"
+  | "capasUrbanismo"
+  | "riesgoInundacion"
+  | "cityStats";
+
+export type AnalyzeStreamEvent =
+  | { type: "tool_start"; id: string; name: string; args: Record<string, unknown> }
+  | { type: "tool_end"; id: string; name: string; ok: boolean; duration_ms: number; error?: string | null }
+  | { type: "report_delta"; text: string }
+  | { type: "report_reset" }
+  | { type: "result"; status: number; data: AnalyzeResponse };
+
+export type AnalyzeProgressStep = {
+  id: string;
+  name: string;
+  status: "running" | "done" | "failed";
+  duration_ms?: number;
+  error?: string | null;
+};
+
+// Salida de /api/heatmap (campo `data`): rejilla de celdas con su puntuacion.
+export type SuitabilityGridResult = ReturnType<typeof scoreSuitabilityGrid>;
+export type SuitabilityGridCell = SuitabilityGridResult["cells"][number];
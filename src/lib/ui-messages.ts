@@ -0,0 +1,1466 @@
+import type { Locale } from "@/lib/i18n";
+
+// Textos de la interfaz por idioma. El espanol define las claves; el resto debe
+// tener exactamente las mismas (lo comprueba el tipo UiMessages).
+
+const es = {
+  appTagline: "Busca una direccion o marca un punto para ver datos cercanos.",
+  language: "Idioma",
+  loadingMap: "Cargando mapa...",
+
+  mode: "Modo",
+  modeAnalyze: "Analisis",
+  modeCompare: "Comparar",
+  modeHistoric: "Historico",
+  modeBatch: "Lotes",
+  modeReports: "Informes",
+  modeAnalyzeHint: "Analiza una direccion o un punto del mapa.",
+  modeCompareHint: "Selecciona dos o mas ciudades haciendo click en el mapa.",
+  modeHistoricHint: "Informe historico de los ultimos 5 anos para la zona seleccionada.",
+  modeBatchHint: "Analiza muchas direcciones o puntos desde un CSV o GeoJSON.",
+  modeReportsHint: "Informes guardados: filtra, abre o vuelve a ejecutar para ver que ha cambiado.",
+
+  input: "Entrada",
+  addressPlaceholder: "Escribe una direccion (ej: Calle X, Valencia)",
+  search: "Buscar",
+  searchTooltip: "Geocoding OSM",
+  coordinates: "Coordenadas:",
+  mapTip: "Tip: tambien puedes hacer click en el mapa",
+  reset: "Reset",
+  resetTooltip: "Reinicia todo",
+  resetDone: "Listo: estado reiniciado",
+  areaDrawing: (n: number) => `Area: ${n} vertices`,
+  areaDrawn: (n: number) => `Area dibujada (${n} vertices)`,
+  areaHint: "O dibuja un area en el mapa",
+  closeArea: "Cerrar area",
+  drawArea: "Dibujar area",
+  clear: "Borrar",
+
+  mapView: "Vista de mapa",
+  styleStandard: "Mapa",
+  styleStandardTooltip: "Mapa base",
+  styleSatellite: "Satelite",
+  styleSatelliteTooltip: "Vista satelite",
+  stylePollution: "Contaminacion",
+  stylePollutionTooltip: "Aerosoles",
+  layers: "Etiqueta y capas disponibles",
+  floodShow: "Mostrar inundacion",
+  floodHide: "Ocultar inundacion",
+  floodTooltip: "Capa inundacion EFAS",
+
+  analysis: "Analisis",
+  templateLabel: "Plantilla de informe",
+  questionPlaceholder: "Pregunta opcional (p. ej. hay colegios a menos de 500 m?)",
+  analyzeArea: "Analizar area",
+  analyzeZone: "Analizar zona",
+  generateReport: "Genera informe",
+  analyzeHint: "Usa direccion, selecciona un punto o dibuja un area en el mapa.",
+
+  heatmap: "Mapa de idoneidad",
+  heatmapView: "Evaluar vista actual",
+  heatmapArea: "Evaluar area dibujada",
+  heatmapHint: "Puntua una rejilla de celdas (servicios, transporte y riesgo de inundacion) con los pesos de la plantilla. Maximo 30 km por lado.",
+  heatmapHide: "Ocultar",
+  heatmapBest: "Ir a la mejor zona",
+  heatmapReady: "Mapa de idoneidad listo",
+  heatmapFailed: "Fallo el mapa de idoneidad",
+  heatmapSummary: (rows: number, cols: number, cellM: number) => `${rows} x ${cols} celdas de ${cellM} m`,
+  heatmapTruncated: "Overpass devolvio el maximo de elementos: puede faltar algun equipamiento.",
+  heatmapLoading: "Calculando rejilla...",
+  batch: "Analisis por lotes",
+  batchFile: "Fichero CSV o GeoJSON",
+  batchHint: "CSV con columna address/direccion o lat y lon (opcional id); GeoJSON con puntos. Maximo 500 filas.",
+  batchSummary: "Resumen corto del LLM por fila",
+  batchStart: "Procesar fichero",
+  batchProgress: (done: number, total: number) => `${done} / ${total} filas`,
+  batchDone: "Lote terminado",
+  batchFailed: "Fallo el analisis por lotes",
+  batchRowsOk: (ok: number, total: number) => `${ok} de ${total} filas analizadas`,
+  batchDownloadCsv: "Descargar CSV",
+  batchDownloadGeojson: "Descargar GeoJSON",
+  batchColInput: "Entrada",
+  batchColFlood: "Inundacion",
+  batchFloodStatus: {
+    sin_senal: "Sin senal",
+    posible_exposicion: "Posible exposicion",
+    sin_datos: "Sin datos",
+  } as Record<string, string>,
+  batchPreview: (shown: number, total: number) => `Mostrando ${shown} de ${total} filas; descarga el fichero para verlas todas.`,
+  jobQueued: "En cola...",
+  jobRunning: "En marcha; puedes cerrar la pestana y volver mas tarde.",
+  jobProgress: (done: number, total: number) => `${done} / ${total} completados`,
+  jobPartials: (count: number) => `${count} respuestas de tools guardadas`,
+  jobCancel: "Cancelar",
+  jobCancelFailed: (reason: string) => `No se pudo cancelar el trabajo: ${reason}`,
+  jobRetry: "Reintentar",
+  jobCancelled: "Trabajo cancelado.",
+  jobInterrupted: "El servidor se reinicio durante el trabajo; puedes reintentarlo sin repetir lo ya consultado.",
+  copyReportLink: "Copiar enlace",
+  reportLinkCopied: "Enlace copiado",
+  reportLinkFailed: "No se pudo copiar el enlace",
+  savedReport: "Informe guardado",
+  savedReportMeta: (date: string, model: string) => `Generado el ${date} con ${model}`,
+  savedReportOpenApp: "Nuevo analisis",
+  reports: "Mis informes",
+  reportsKind: "Tipo",
+  reportsKindAll: "Todos",
+  reportKinds: { analyze: "Analisis", compare: "Comparacion", history: "Historico" } as Record<string, string>,
+  reportsPlace: "Lugar",
+  reportsFrom: "Desde",
+  reportsTo: "Hasta",
+  reportsEmpty: "No hay informes guardados con esos filtros.",
+  reportsLoadFailed: "No se pudieron cargar los informes",
+  reportsOpen: "Abrir",
+  reportsRerun: "Re-ejecutar",
+  rerunDone: "Re-ejecucion terminada",
+  rerunFailed: "Fallo la re-ejecucion",
+  rerunTitle: (date: string) => `Cambios respecto al informe del ${date}`,
+  rerunOpenNew: "Abrir informe nuevo",
+  diffBefore: "Antes",
+  diffAfter: "Ahora",
+  diffCounts: {
+    hospitals: "Hospitales y centros de salud",
+    pharmacies: "Farmacias",
+    schools: "Centros educativos",
+    transport: "Paradas de transporte",
+    landuse: "Zonas de uso del suelo",
+    shops: "Comercios",
+    parking: "Aparcamientos",
+    parks: "Parques",
+  } as Record<string, string>,
+  diffPopulation: "Poblacion",
+  diffFlood: "Inundacion (EFAS)",
+  diffNoFlood: "sin datos",
+  diffPoisAdded: (n: number) => `POI nuevos (${n})`,
+  diffPoisRemoved: (n: number) => `POI que ya no aparecen (${n})`,
+  diffEventsAdded: (n: number) => `Eventos EONET nuevos (${n})`,
+  diffEventsRemoved: (n: number) => `Eventos EONET que ya no aparecen (${n})`,
+  diffSections: "Secciones del informe",
+  diffIntro: "(inicio)",
+  diffSectionStatus: { same: "igual", changed: "cambia", added: "nueva", removed: "eliminada" } as Record<string, string>,
+  diffSameSections: (n: number) => `${n} seccion(es) sin cambios.`,
+
+  historic: "Historico",
+  analyzeHistoric: "Analizar historico",
+  generateHistoric: "Genera informe historico",
+  historicHint: "Ultimos 5 anos con clima y eventos reportados.",
+
+  comparison: "Comparacion",
+  city: (label: string) => `Ciudad ${label}`,
+  remove: "Quitar",
+  unnamed: "Sin nombre",
+  addCityHint: (label: string, count: number, max: number) =>
+    `Click en el mapa para anadir Ciudad ${label} (${count}/${max})`,
+  clearSelection: "Limpiar",
+  clearSelectionTooltip: "Borra seleccion",
+  compareCities: "Comparar ciudades",
+  compareTooltip: "Genera informe comparativo con ranking",
+
+  savedLocations: "Ubicaciones guardadas",
+  savedHint: "Guarda una ubicacion y agrega notas o comentarios.",
+  noSaveSources: "No hay ubicaciones para guardar",
+  saveNamePlaceholder: "Nombre de la ubicacion",
+  notesPlaceholder: "Notas o comentarios",
+  saveLocation: "Guardar ubicacion",
+  noSaved: "No hay ubicaciones guardadas.",
+  view: "Ver",
+  currentLocation: (coords: string) => `Ubicacion actual (${coords})`,
+  selectValidLocation: "Selecciona una ubicacion valida",
+  locationSaved: "Ubicacion guardada",
+
+  error: "Error:",
+  analyzeErrorHint: "Si una API externa falla, el backend aplica fallback y lo declara en Limitaciones.",
+  historyErrorHint: "Si una API externa falla, el backend lo declara en Limitaciones.",
+  compareErrorHint: "Verifica que haya dos ciudades seleccionadas.",
+
+  reportReady: "Informe generado",
+  analyzeFailed: "Fallo el analisis",
+  unknownError: (path: string) => `Error desconocido en ${path}`,
+  streamClosed: "La conexion se cerro antes de recibir el informe",
+  historyReady: "Informe historico generado",
+  historyFailed: "Fallo el analisis historico",
+  compareReady: "Comparacion generada",
+  compareFailed: "Fallo la comparacion",
+  maxCities: (max: number) => `Maximo ${max} ciudades por comparacion`,
+  nearbyCityFailed: "No se pudo obtener ciudad cercana",
+  citySelected: (label: string) => `Ciudad ${label} seleccionada`,
+  pointSelected: "Punto seleccionado",
+  nearbyAddressFailed: "No se pudo obtener direccion cercana",
+
+  analyzeHere: "Analizar aqui",
+  historicHere: "Historico aqui",
+  copyCoords: "Copiar coords",
+  copyCoordsTooltip: "Copia lat/lon",
+  drawingAreaHint: (n: number) => `Dibujando area: click para anadir vertices (${n})`,
+  loadingFlood: "Cargando inundacion",
+  urbanLayers: "Capas del analisis",
+  layerRadius: (m: number) => `Radio de busqueda (${m} m)`,
+  poiCategories: {
+    health: "Salud",
+    education: "Educacion",
+    transport: "Transporte",
+    emergency: "Policia y bomberos",
+    fuel: "Gasolineras",
+  } as Record<string, string>,
+  poiDistance: (m: number) => `A ${m} m en linea recta`,
+  poiCluster: (n: number) => `${n} equipamientos; click para acercar`,
+  layerGeometry: "Vias y usos del suelo (OSM)",
+  layerGeometryLoading: "Cargando geometria de OpenStreetMap...",
+  layerGeometryCount: (n: number) => `${n} elementos`,
+  layerGeometryTruncated: "Zona muy densa: faltan elementos en parte del area.",
+  layerIsochrones: (mode: string) => `Isocronas ${mode.toLowerCase()} (5/10/15 min)`,
+  isochroneBand: (mode: string, minutes: number) => `${mode}: ${minutes} min por la red de calles`,
+  accessModes: { walk: "A pie", bike: "En bici" } as Record<string, string>,
+  layerRoutes: "Rutas al equipamiento mas cercano",
+  routeTooltip: (label: string, mode: string, minutes: number) => `${label}: ${minutes} min ${mode.toLowerCase()}`,
+
+  addressLines: {
+    street: "Calle",
+    zone: "Zona",
+    municipality: "Municipio",
+    region: "Comunidad/Provincia",
+    postcode: "CP",
+    country: "Pais",
+  },
+
+  report: "Informe",
+  generatingLive: "Generando en tiempo real…",
+  tabReport: "Informe",
+  tabRanking: "Ranking",
+  tabData: "Datos",
+  tabSources: "Fuentes",
+  tabLimits: "Limitaciones",
+  waitingTools: "Esperando resultados de las herramientas…",
+  noReport: "No hay informe.",
+  urbanSummary: "capasUrbanismo (resumen)",
+  landuseAreas: "Usos del suelo (superficie)",
+  landuseAreasEmpty: "OpenStreetMap no tiene poligonos de uso del suelo en esta zona.",
+  landuseAreasNote: (cell: number) => `Porcentaje de la superficie de la zona segun los poligonos de OSM, calculado con celdas de ${cell} m.`,
+  landuseAreasTruncated: "Zona muy densa: faltan poligonos en parte del area y los porcentajes son aproximados.",
+  landuseOther: "Otros",
+  landuseUnclassified: "Sin clasificar en OSM",
+  landuseValues: {
+    residential: "Residencial",
+    commercial: "Comercial",
+    retail: "Comercio minorista",
+    industrial: "Industrial",
+    construction: "En construccion",
+    railway: "Ferroviario",
+    farmland: "Cultivos",
+    orchard: "Frutales",
+    meadow: "Prado",
+    grass: "Cesped",
+    forest: "Bosque",
+    wood: "Bosque natural",
+    cemetery: "Cementerio",
+    park: "Parque",
+    pitch: "Pista deportiva",
+    garden: "Jardin",
+    water: "Agua",
+    scrub: "Matorral",
+  } as Record<string, string>,
+  floodSummary: "riesgoInundacion (resumen)",
+  rawDebug: "raw (debug)",
+  unnamedZone: "Zona sin nombre",
+  stepRunning: "en curso",
+  stepFailed: "fallo",
+  writingReport: "Redactando informe…",
+  downloadPdf: "Descargar PDF",
+  exportAnalysisHint: "Exporta el informe en PDF con formato presentable.",
+  analysisPdfTitle: (date: string) => `Informe de analisis - ${date}`,
+  historyTitle: "Analisis historico",
+  weatherData: "Clima historico (Open-Meteo)",
+  eventsData: "Eventos historicos (NASA EONET)",
+  exportHistoryHint: "Exporta el informe historico en PDF con formato presentable.",
+  historyPdfTitle: (date: string) => `Informe historico - ${date}`,
+  rankingCity: "Ciudad",
+  score: "Puntuacion",
+  wins: "Indicadores ganados",
+  indicator: "Indicador",
+  higherBetter: "mayor mejor",
+  lowerBetter: "menor mejor",
+  informative: "informativo",
+  scoreNote:
+    "Puntuacion 0-100 calculada por posicion relativa en cada indicador con datos; los informativos (poblacion, superficie) no cuentan. En verde, el mejor valor.",
+  cityData: (label: string) => `Ciudad ${label} (datos)`,
+  exportCompareHint: "Exporta la comparacion en PDF con formato presentable.",
+  comparePdfTitle: (date: string) => `Informe comparativo - ${date}`,
+  tabScore: "Idoneidad",
+  suitability: "Puntuacion de idoneidad",
+  scoreLabels: {
+    services: "Servicios",
+    transport: "Transporte",
+    environmental_risk: "Riesgo ambiental",
+    air: "Calidad del aire",
+    density: "Densidad",
+  } as Record<string, string>,
+  weight: "Peso",
+  weightsPreset: "Pesos por caso de uso",
+  noScoreData: "sin datos",
+  noScore: "Sin puntuacion disponible.",
+  suitabilityNote: "Media ponderada (0-100) de las subpuntuaciones con datos. Cambia los pesos para recalcular sin repetir el analisis.",
+  fifteenMinute: "Ciudad de 15 minutos",
+  fifteenMinuteNote:
+    "Tiempo al equipamiento mas cercano por la red de calles de OSM (4,8 km/h a pie, 15 km/h en bici). Cada categoria suma 1 si esta a 15 min andando y 0,5 si solo en bici.",
+  accessCategories: {
+    pharmacy: "Farmacia",
+    school: "Colegio",
+    health: "Centro de salud",
+    grocery: "Alimentacion",
+    transport: "Transporte publico",
+    park: "Parque",
+  } as Record<string, string>,
+  accessMinutes: (minutes: number) => `${minutes.toLocaleString("es")} min`,
+  accessOver15: "> 15 min",
+  accessReachable: (mode: string) => `Equipamientos alcanzables (${mode.toLowerCase()})`,
+  accessFailed: "No se pudo calcular la accesibilidad por la red de calles.",
+  accessTruncated: "Zona muy densa: faltan equipamientos en la consulta y los recuentos son minimos.",
+  nearestFacilities: "Equipamiento mas cercano por la red de calles",
+  facilityCategories: {
+    hospital: "Hospital",
+    pharmacy: "Farmacia",
+    school: "Colegio",
+    fire_station: "Bomberos",
+    police: "Policia",
+    station: "Estacion de tren",
+  } as Record<string, string>,
+  facilityNetwork: "Por la red",
+  facilityCrow: "Linea recta",
+  facilityDrive: "En coche",
+  facilityNotFound: (km: number) => `Sin equipamiento a menos de ${km.toLocaleString("es")} km conectado a la red`,
+  facilityDetour: (ratio: number) => `El camino es ${ratio.toLocaleString("es")} veces la linea recta`,
+  nearestFacilitiesNote:
+    "Se elige el mas cercano por distancia a pie por la red de OSM. En coche se usan velocidades tipicas por tipo de via y se respetan los sentidos unicos; sin trafico ni semaforos.",
+  indicatorLabels: {
+    population: "Poblacion",
+    area_km2: "Superficie",
+    population_density_km2: "Densidad",
+    european_aqi: "Indice europeo calidad aire",
+    pm2_5: "PM2.5",
+    pm10: "PM10",
+    nitrogen_dioxide: "NO2",
+    suitability: "Idoneidad",
+  } as Record<string, string>,
+
+  // Nombres de las tools en el progreso del analisis y en el chat.
+  toolLabels: {
+    buscarCoordenadas: "Geocodificacion",
+    reverseGeocode: "Direccion cercana",
+    capasUrbanismo: "Urbanismo (OSM)",
+    riesgoInundacion: "Riesgo de inundacion (EFAS)",
+    cityStats: "Poblacion y superficie (Wikidata)",
+    airQuality: "Calidad del aire",
+    accesibilidad: "Isocronas (OSM)",
+    historicalWeather: "Clima historico",
+    historicalEvents: "Eventos historicos",
+  } as Record<string, string>,
+
+  chatTitle: "Preguntas sobre el informe",
+  chatHint: "Pregunta por un dato concreto o pide reescribir una seccion. El asistente puede volver a consultar las fuentes.",
+  chatPlaceholder: "p. ej. a que distancia esta el hospital mas cercano?",
+  send: "Enviar",
+  thinking: "Pensando...",
+  noReply: "Sin respuesta.",
+  unverifiedClaims: (n: number) => `${n} cifra(s) o URL(s) sin respaldo en los datos.`,
+  chatFailed: "Fallo el chat",
+
+  pdfDate: "Fecha",
+  pdfFormat: "Formato PDF",
+  pdfEmpty: "No hay informe disponible.",
+};
+
+export type UiMessages = typeof es;
+
+const en: UiMessages = {
+  appTagline: "Search an address or drop a point to see nearby data.",
+  language: "Language",
+  loadingMap: "Loading map...",
+
+  mode: "Mode",
+  modeAnalyze: "Analysis",
+  modeCompare: "Compare",
+  modeHistoric: "History",
+  modeBatch: "Batch",
+  modeReports: "Reports",
+  modeAnalyzeHint: "Analyse an address or a point on the map.",
+  modeCompareHint: "Select two or more cities by clicking on the map.",
+  modeHistoricHint: "Historical report of the last 5 years for the selected area.",
+  modeBatchHint: "Analyze many addresses or points from a CSV or GeoJSON file.",
+  modeReportsHint: "Saved reports: filter, open or re-run them to see what changed.",
+
+  input: "Input",
+  addressPlaceholder: "Type an address (e.g. Main Street, Valencia)",
+  search: "Search",
+  searchTooltip: "OSM geocoding",
+  coordinates: "Coordinates:",
+  mapTip: "Tip: you can also click on the map",
+  reset: "Reset",
+  resetTooltip: "Reset everything",
+  resetDone: "Done: state reset",
+  areaDrawing: (n) => `Area: ${n} vertices`,
+  areaDrawn: (n) => `Drawn area (${n} vertices)`,
+  areaHint: "Or draw an area on the map",
+  closeArea: "Close area",
+  drawArea: "Draw area",
+  clear: "Delete",
+
+  mapView: "Map view",
+  styleStandard: "Map",
+  styleStandardTooltip: "Base map",
+  styleSatellite: "Satellite",
+  styleSatelliteTooltip: "Satellite view",
+  stylePollution: "Pollution",
+  stylePollutionTooltip: "Aerosols",
+  layers: "Labels and available layers",
+  floodShow: "Show flooding",
+  floodHide: "Hide flooding",
+  floodTooltip: "EFAS flood layer",
+
+  analysis: "Analysis",
+  templateLabel: "Report template",
+  questionPlaceholder: "Optional question (e.g. are there schools within 500 m?)",
+  analyzeArea: "Analyse area",
+  analyzeZone: "Analyse location",
+  generateReport: "Generates a report",
+  analyzeHint: "Use an address, pick a point or draw an area on the map.",
+
+  heatmap: "Suitability map",
+  heatmapView: "Evaluate current view",
+  heatmapArea: "Evaluate drawn area",
+  heatmapHint: "Scores a grid of cells (services, transport and flood risk) with the template weights. Up to 30 km per side.",
+  heatmapHide: "Hide",
+  heatmapBest: "Go to best zone",
+  heatmapReady: "Suitability map ready",
+  heatmapFailed: "Suitability map failed",
+  heatmapSummary: (rows: number, cols: number, cellM: number) => `${rows} x ${cols} cells of ${cellM} m`,
+  heatmapTruncated: "Overpass returned the maximum number of elements: some facilities may be missing.",
+  heatmapLoading: "Computing grid...",
+  batch: "Batch analysis",
+  batchFile: "CSV or GeoJSON file",
+  batchHint: "CSV with an address column or lat and lon columns (optional id); GeoJSON with points. Up to 500 rows.",
+  batchSummary: "Short LLM summary per row",
+  batchStart: "Process file",
+  batchProgress: (done: number, total: number) => `${done} / ${total} rows`,
+  batchDone: "Batch finished",
+  batchFailed: "Batch analysis failed",
+  batchRowsOk: (ok: number, total: number) => `${ok} of ${total} rows analyzed`,
+  batchDownloadCsv: "Download CSV",
+  batchDownloadGeojson: "Download GeoJSON",
+  batchColInput: "Input",
+  batchColFlood: "Flood",
+  batchFloodStatus: {
+    sin_senal: "No signal",
+    posible_exposicion: "Possible exposure",
+    sin_datos: "No data",
+  } as Record<string, string>,
+  batchPreview: (shown: number, total: number) => `Showing ${shown} of ${total} rows; download the file to see them all.`,
+  jobQueued: "Queued...",
+  jobRunning: "Running; you can close the tab and come back later.",
+  jobProgress: (done: number, total: number) => `${done} / ${total} completed`,
+  jobPartials: (count: number) => `${count} tool responses saved`,
+  jobCancel: "Cancel",
+  jobCancelFailed: (reason: string) => `Could not cancel the job: ${reason}`,
+  jobRetry: "Retry",
+  jobCancelled: "Job cancelled.",
+  jobInterrupted: "The server restarted during the job; you can retry it without repeating what was already fetched.",
+  copyReportLink: "Copy link",
+  reportLinkCopied: "Link copied",
+  reportLinkFailed: "Could not copy the link",
+  savedReport: "Saved report",
+  savedReportMeta: (date: string, model: string) => `Generated on ${date} with ${model}`,
+  savedReportOpenApp: "New analysis",
+  reports: "My reports",
+  reportsKind: "Type",
+  reportsKindAll: "All",
+  reportKinds: { analyze: "Analysis", compare: "Comparison", history: "Historical" } as Record<string, string>,
+  reportsPlace: "Place",
+  reportsFrom: "From",
+  reportsTo: "To",
+  reportsEmpty: "No saved reports match these filters.",
+  reportsLoadFailed: "Could not load the reports",
+  reportsOpen: "Open",
+  reportsRerun: "Re-run",
+  rerunDone: "Re-run finished",
+  rerunFailed: "Re-run failed",
+  rerunTitle: (date: string) => `Changes since the report of ${date}`,
+  rerunOpenNew: "Open new report",
+  diffBefore: "Before",
+  diffAfter: "Now",
+  diffCounts: {
+    hospitals: "Hospitals and health centres",
+    pharmacies: "Pharmacies",
+    schools: "Schools",
+    transport: "Transport stops",
+    landuse: "Land-use areas",
+    shops: "Shops",
+    parking: "Car parks",
+    parks: "Parks",
+  } as Record<string, string>,
+  diffPopulation: "Population",
+  diffFlood: "Flooding (EFAS)",
+  diffNoFlood: "no data",
+  diffPoisAdded: (n: number) => `New POIs (${n})`,
+  diffPoisRemoved: (n: number) => `POIs no longer present (${n})`,
+  diffEventsAdded: (n: number) => `New EONET events (${n})`,
+  diffEventsRemoved: (n: number) => `EONET events no longer present (${n})`,
+  diffSections: "Report sections",
+  diffIntro: "(opening)",
+  diffSectionStatus: { same: "same", changed: "changed", added: "new", removed: "removed" } as Record<string, string>,
+  diffSameSections: (n: number) => `${n} section(s) unchanged.`,
+
+  historic: "History",
+  analyzeHistoric: "Analyse history",
+  generateHistoric: "Generates a historical report",
+  historicHint: "Last 5 years of weather and reported events.",
+
+  comparison: "Comparison",
+  city: (label) => `City ${label}`,
+  remove: "Remove",
+  unnamed: "Unnamed",
+  addCityHint: (label, count, max) => `Click on the map to add City ${label} (${count}/${max})`,
+  clearSelection: "Clear",
+  clearSelectionTooltip: "Clear selection",
+  compareCities: "Compare cities",
+  compareTooltip: "Generates a comparison report with ranking",
+
+  savedLocations: "Saved locations",
+  savedHint: "Save a location and add notes or comments.",
+  noSaveSources: "No locations to save",
+  saveNamePlaceholder: "Location name",
+  notesPlaceholder: "Notes or comments",
+  saveLocation: "Save location",
+  noSaved: "No saved locations.",
+  view: "View",
+  currentLocation: (coords) => `Current location (${coords})`,
+  selectValidLocation: "Select a valid location",
+  locationSaved: "Location saved",
+
+  error: "Error:",
+  analyzeErrorHint: "If an external API fails, the backend applies a fallback and reports it under Limitations.",
+  historyErrorHint: "If an external API fails, the backend reports it under Limitations.",
+  compareErrorHint: "Check that at least two cities are selected.",
+
+  reportReady: "Report generated",
+  analyzeFailed: "Analysis failed",
+  unknownError: (path) => `Unknown error in ${path}`,
+  streamClosed: "The connection closed before the report arrived",
+  historyReady: "Historical report generated",
+  historyFailed: "Historical analysis failed",
+  compareReady: "Comparison generated",
+  compareFailed: "Comparison failed",
+  maxCities: (max) => `At most ${max} cities per comparison`,
+  nearbyCityFailed: "Could not find a nearby city",
+  citySelected: (label) => `City ${label} selected`,
+  pointSelected: "Point selected",
+  nearbyAddressFailed: "Could not find a nearby address",
+
+  analyzeHere: "Analyse here",
+  historicHere: "History here",
+  copyCoords: "Copy coords",
+  copyCoordsTooltip: "Copy lat/lon",
+  drawingAreaHint: (n) => `Drawing area: click to add vertices (${n})`,
+  loadingFlood: "Loading flood layer",
+  urbanLayers: "Analysis layers",
+  layerRadius: (m: number) => `Search radius (${m} m)`,
+  poiCategories: {
+    health: "Health",
+    education: "Education",
+    transport: "Transport",
+    emergency: "Police and fire",
+    fuel: "Fuel stations",
+  } as Record<string, string>,
+  poiDistance: (m: number) => `${m} m as the crow flies`,
+  poiCluster: (n: number) => `${n} facilities; click to zoom in`,
+  layerGeometry: "Roads and land use (OSM)",
+  layerGeometryLoading: "Loading OpenStreetMap geometry...",
+  layerGeometryCount: (n: number) => `${n} features`,
+  layerGeometryTruncated: "Very dense area: some features are missing in part of it.",
+  layerIsochrones: (mode: string) => `Isochrones ${mode.toLowerCase()} (5/10/15 min)`,
+  isochroneBand: (mode: string, minutes: number) => `${mode}: ${minutes} min along the street network`,
+  accessModes: { walk: "On foot", bike: "By bike" } as Record<string, string>,
+  layerRoutes: "Routes to the nearest facility",
+  routeTooltip: (label: string, mode: string, minutes: number) => `${label}: ${minutes} min ${mode.toLowerCase()}`,
+
+  addressLines: {
+    street: "Street",
+    zone: "Area",
+    municipality: "Municipality",
+    region: "Region/Province",
+    postcode: "Postcode",
+    country: "Country",
+  },
+
+  report: "Report",
+  generatingLive: "Generating live…",
+  tabReport: "Report",
+  tabRanking: "Ranking",
+  tabData: "Data",
+  tabSources: "Sources",
+  tabLimits: "Limitations",
+  waitingTools: "Waiting for tool results…",
+  noReport: "No report.",
+  urbanSummary: "capasUrbanismo (summary)",
+  landuseAreas: "Land use (area)",
+  landuseAreasEmpty: "OpenStreetMap has no land-use polygons in this area.",
+  landuseAreasNote: (cell: number) => `Share of the area covered by each OSM polygon type, computed on ${cell} m cells.`,
+  landuseAreasTruncated: "Very dense area: some polygons are missing, so the percentages are approximate.",
+  landuseOther: "Other",
+  landuseUnclassified: "Not mapped in OSM",
+  landuseValues: {
+    residential: "Residential",
+    commercial: "Commercial",
+    retail: "Retail",
+    industrial: "Industrial",
+    construction: "Under construction",
+    railway: "Railway",
+    farmland: "Farmland",
+    orchard: "Orchard",
+    meadow: "Meadow",
+    grass: "Grass",
+    forest: "Forest",
+    wood: "Woodland",
+    cemetery: "Cemetery",
+    park: "Park",
+    pitch: "Sports pitch",
+    garden: "Garden",
+    water: "Water",
+    scrub: "Scrub",
+  } as Record<string, string>,
+  floodSummary: "riesgoInundacion (summary)",
+  rawDebug: "raw (debug)",
+  unnamedZone: "Unnamed area",
+  stepRunning: "running",
+  stepFailed: "failed",
+  writingReport: "Writing report…",
+  downloadPdf: "Download PDF",
+  exportAnalysisHint: "Export the report as a print-ready PDF.",
+  analysisPdfTitle: (date) => `Analysis report - ${date}`,
+  historyTitle: "Historical analysis",
+  weatherData: "Historical weather (Open-Meteo)",
+  eventsData: "Historical events (NASA EONET)",
+  exportHistoryHint: "Export the historical report as a print-ready PDF.",
+  historyPdfTitle: (date) => `Historical report - ${date}`,
+  rankingCity: "City",
+  score: "Score",
+  wins: "Indicators won",
+  indicator: "Indicator",
+  higherBetter: "higher is better",
+  lowerBetter: "lower is better",
+  informative: "informative",
+  scoreNote:
+    "0-100 score based on relative position in each indicator with data; informative ones (population, area) do not count. Best value in green.",
+  cityData: (label) => `City ${label} (data)`,
+  exportCompareHint: "Export the comparison as a print-ready PDF.",
+  comparePdfTitle: (date) => `Comparison report - ${date}`,
+  tabScore: "Suitability",
+  suitability: "Suitability score",
+  scoreLabels: {
+    services: "Services",
+    transport: "Transport",
+    environmental_risk: "Environmental risk",
+    air: "Air quality",
+    density: "Density",
+  } as Record<string, string>,
+  weight: "Weight",
+  weightsPreset: "Weights by use case",
+  noScoreData: "no data",
+  noScore: "No score available.",
+  suitabilityNote: "Weighted mean (0-100) of the sub-scores with data. Change the weights to recalculate without rerunning the analysis.",
+  fifteenMinute: "15-minute city",
+  fifteenMinuteNote:
+    "Time to the nearest facility along the OSM street network (4.8 km/h on foot, 15 km/h by bike). Each category scores 1 if within 15 min on foot and 0.5 if only by bike.",
+  accessCategories: {
+    pharmacy: "Pharmacy",
+    school: "School",
+    health: "Health centre",
+    grocery: "Groceries",
+    transport: "Public transport",
+    park: "Park",
+  } as Record<string, string>,
+  accessMinutes: (minutes: number) => `${minutes.toLocaleString("en")} min`,
+  accessOver15: "> 15 min",
+  accessReachable: (mode: string) => `Reachable facilities (${mode.toLowerCase()})`,
+  accessFailed: "Could not compute accessibility along the street network.",
+  accessTruncated: "Very dense area: some facilities are missing from the query, so counts are a minimum.",
+  nearestFacilities: "Nearest facility along the street network",
+  facilityCategories: {
+    hospital: "Hospital",
+    pharmacy: "Pharmacy",
+    school: "School",
+    fire_station: "Fire station",
+    police: "Police",
+    station: "Railway station",
+  } as Record<string, string>,
+  facilityNetwork: "Network",
+  facilityCrow: "Straight line",
+  facilityDrive: "By car",
+  facilityNotFound: (km: number) => `No facility connected to the network within ${km.toLocaleString("en")} km`,
+  facilityDetour: (ratio: number) => `The route is ${ratio.toLocaleString("en")} times the straight line`,
+  nearestFacilitiesNote:
+    "The nearest one is chosen by walking distance along the OSM network. Driving uses typical speeds per road type and respects one-way streets; no traffic or traffic lights.",
+  indicatorLabels: {
+    population: "Population",
+    area_km2: "Area",
+    population_density_km2: "Density",
+    european_aqi: "European air quality index",
+    pm2_5: "PM2.5",
+    pm10: "PM10",
+    nitrogen_dioxide: "NO2",
+    suitability: "Suitability",
+  },
+
+  toolLabels: {
+    buscarCoordenadas: "Geocoding",
+    reverseGeocode: "Nearby address",
+    capasUrbanismo: "Urban layers (OSM)",
+    riesgoInundacion: "Flood risk (EFAS)",
+    cityStats: "Population and area (Wikidata)",
+    airQuality: "Air quality",
+    accesibilidad: "Isochrones (OSM)",
+    historicalWeather: "Historical weather",
+    historicalEvents: "Historical events",
+  },
+
+  chatTitle: "Questions about the report",
+  chatHint: "Ask about a specific figure or ask to rewrite a section. The assistant can query the sources again.",
+  chatPlaceholder: "e.g. how far is the nearest hospital?",
+  send: "Send",
+  thinking: "Thinking...",
+  noReply: "No reply.",
+  unverifiedClaims: (n) => `${n} figure(s) or URL(s) not backed by the data.`,
+  chatFailed: "Chat failed",
+
+  pdfDate: "Date",
+  pdfFormat: "PDF format",
+  pdfEmpty: "No report available.",
+};
+
+const ca: UiMessages = {
+  appTagline: "Cerca una adreça o marca un punt per veure dades properes.",
+  language: "Idioma",
+  loadingMap: "Carregant el mapa...",
+
+  mode: "Mode",
+  modeAnalyze: "Anàlisi",
+  modeCompare: "Comparar",
+  modeHistoric: "Històric",
+  modeBatch: "Lots",
+  modeReports: "Informes",
+  modeAnalyzeHint: "Analitza una adreça o un punt del mapa.",
+  modeCompareHint: "Selecciona dues o més ciutats fent clic al mapa.",
+  modeHistoricHint: "Informe històric dels últims 5 anys per a la zona seleccionada.",
+  modeBatchHint: "Analitza moltes adreces o punts des d'un CSV o GeoJSON.",
+  modeReportsHint: "Informes desats: filtra, obre o torna a executar per veure què ha canviat.",
+
+  input: "Entrada",
+  addressPlaceholder: "Escriu una adreça (ex.: Carrer X, València)",
+  search: "Cercar",
+  searchTooltip: "Geocodificació OSM",
+  coordinates: "Coordenades:",
+  mapTip: "Consell: també pots fer clic al mapa",
+  reset: "Reinicia",
+  resetTooltip: "Ho reinicia tot",
+  resetDone: "Fet: estat reiniciat",
+  areaDrawing: (n) => `Àrea: ${n} vèrtexs`,
+  areaDrawn: (n) => `Àrea dibuixada (${n} vèrtexs)`,
+  areaHint: "O dibuixa una àrea al mapa",
+  closeArea: "Tanca l'àrea",
+  drawArea: "Dibuixa una àrea",
+  clear: "Esborra",
+
+  mapView: "Vista del mapa",
+  styleStandard: "Mapa",
+  styleStandardTooltip: "Mapa base",
+  styleSatellite: "Satèl·lit",
+  styleSatelliteTooltip: "Vista de satèl·lit",
+  stylePollution: "Contaminació",
+  stylePollutionTooltip: "Aerosols",
+  layers: "Etiquetes i capes disponibles",
+  floodShow: "Mostra inundació",
+  floodHide: "Amaga inundació",
+  floodTooltip: "Capa d'inundació EFAS",
+
+  analysis: "Anàlisi",
+  templateLabel: "Plantilla d'informe",
+  questionPlaceholder: "Pregunta opcional (p. ex. hi ha escoles a menys de 500 m?)",
+  analyzeArea: "Analitza l'àrea",
+  analyzeZone: "Analitza la zona",
+  generateReport: "Genera l'informe",
+  analyzeHint: "Fes servir una adreça, selecciona un punt o dibuixa una àrea al mapa.",
+
+  heatmap: "Mapa d'idoneïtat",
+  heatmapView: "Avaluar la vista actual",
+  heatmapArea: "Avaluar l'àrea dibuixada",
+  heatmapHint: "Puntua una graella de cel·les (serveis, transport i risc d'inundació) amb els pesos de la plantilla. Màxim 30 km per costat.",
+  heatmapHide: "Amagar",
+  heatmapBest: "Anar a la millor zona",
+  heatmapReady: "Mapa d'idoneïtat llest",
+  heatmapFailed: "Ha fallat el mapa d'idoneïtat",
+  heatmapSummary: (rows: number, cols: number, cellM: number) => `${rows} x ${cols} cel·les de ${cellM} m`,
+  heatmapTruncated: "Overpass ha retornat el màxim d'elements: pot faltar algun equipament.",
+  heatmapLoading: "Calculant la graella...",
+  batch: "Anàlisi per lots",
+  batchFile: "Fitxer CSV o GeoJSON",
+  batchHint: "CSV amb columna address/adreça o lat i lon (id opcional); GeoJSON amb punts. Màxim 500 files.",
+  batchSummary: "Resum curt del LLM per fila",
+  batchStart: "Processar el fitxer",
+  batchProgress: (done: number, total: number) => `${done} / ${total} files`,
+  batchDone: "Lot acabat",
+  batchFailed: "Ha fallat l'anàlisi per lots",
+  batchRowsOk: (ok: number, total: number) => `${ok} de ${total} files analitzades`,
+  batchDownloadCsv: "Descarregar CSV",
+  batchDownloadGeojson: "Descarregar GeoJSON",
+  batchColInput: "Entrada",
+  batchColFlood: "Inundació",
+  batchFloodStatus: {
+    sin_senal: "Sense senyal",
+    posible_exposicion: "Possible exposició",
+    sin_datos: "Sense dades",
+  } as Record<string, string>,
+  batchPreview: (shown: number, total: number) => `Es mostren ${shown} de ${total} files; descarrega el fitxer per veure-les totes.`,
+  jobQueued: "A la cua...",
+  jobRunning: "En marxa; pots tancar la pestanya i tornar més tard.",
+  jobProgress: (done: number, total: number) => `${done} / ${total} completats`,
+  jobPartials: (count: number) => `${count} respostes de tools desades`,
+  jobCancel: "Cancel·lar",
+  jobCancelFailed: (reason: string) => `No s'ha pogut cancel·lar el treball: ${reason}`,
+  jobRetry: "Reintentar",
+  jobCancelled: "Treball cancel·lat.",
+  jobInterrupted: "El servidor s'ha reiniciat durant el treball; pots reintentar-lo sense repetir el que ja s'havia consultat.",
+  copyReportLink: "Copia l'enllaç",
+  reportLinkCopied: "Enllaç copiat",
+  reportLinkFailed: "No s'ha pogut copiar l'enllaç",
+  savedReport: "Informe desat",
+  savedReportMeta: (date: string, model: string) => `Generat el ${date} amb ${model}`,
+  savedReportOpenApp: "Nova anàlisi",
+  reports: "Els meus informes",
+  reportsKind: "Tipus",
+  reportsKindAll: "Tots",
+  reportKinds: { analyze: "Anàlisi", compare: "Comparació", history: "Històric" } as Record<string, string>,
+  reportsPlace: "Lloc",
+  reportsFrom: "Des de",
+  reportsTo: "Fins a",
+  reportsEmpty: "No hi ha informes desats amb aquests filtres.",
+  reportsLoadFailed: "No s'han pogut carregar els informes",
+  reportsOpen: "Obre",
+  reportsRerun: "Torna a executar",
+  rerunDone: "Nova execució acabada",
+  rerunFailed: "Ha fallat la nova execució",
+  rerunTitle: (date: string) => `Canvis respecte a l'informe del ${date}`,
+  rerunOpenNew: "Obre l'informe nou",
+  diffBefore: "Abans",
+  diffAfter: "Ara",
+  diffCounts: {
+    hospitals: "Hospitals i centres de salut",
+    pharmacies: "Farmàcies",
+    schools: "Centres educatius",
+    transport: "Parades de transport",
+    landuse: "Zones d'ús del sòl",
+    shops: "Comerços",
+    parking: "Aparcaments",
+    parks: "Parcs",
+  } as Record<string, string>,
+  diffPopulation: "Població",
+  diffFlood: "Inundació (EFAS)",
+  diffNoFlood: "sense dades",
+  diffPoisAdded: (n: number) => `POI nous (${n})`,
+  diffPoisRemoved: (n: number) => `POI que ja no hi són (${n})`,
+  diffEventsAdded: (n: number) => `Esdeveniments EONET nous (${n})`,
+  diffEventsRemoved: (n: number) => `Esdeveniments EONET que ja no hi són (${n})`,
+  diffSections: "Seccions de l'informe",
+  diffIntro: "(inici)",
+  diffSectionStatus: { same: "igual", changed: "canvia", added: "nova", removed: "eliminada" } as Record<string, string>,
+  diffSameSections: (n: number) => `${n} secció(ns) sense canvis.`,
+
+  historic: "Històric",
+  analyzeHistoric: "Analitza l'històric",
+  generateHistoric: "Genera l'informe històric",
+  historicHint: "Últims 5 anys amb clima i esdeveniments registrats.",
+
+  comparison: "Comparació",
+  city: (label) => `Ciutat ${label}`,
+  remove: "Treu",
+  unnamed: "Sense nom",
+  addCityHint: (label, count, max) => `Fes clic al mapa per afegir la Ciutat ${label} (${count}/${max})`,
+  clearSelection: "Neteja",
+  clearSelectionTooltip: "Esborra la selecció",
+  compareCities: "Compara ciutats",
+  compareTooltip: "Genera un informe comparatiu amb rànquing",
+
+  savedLocations: "Ubicacions desades",
+  savedHint: "Desa una ubicació i afegeix-hi notes o comentaris.",
+  noSaveSources: "No hi ha ubicacions per desar",
+  saveNamePlaceholder: "Nom de la ubicació",
+  notesPlaceholder: "Notes o comentaris",
+  saveLocation: "Desa la ubicació",
+  noSaved: "No hi ha ubicacions desades.",
+  view: "Veure",
+  currentLocation: (coords) => `Ubicació actual (${coords})`,
+  selectValidLocation: "Selecciona una ubicació vàlida",
+  locationSaved: "Ubicació desada",
+
+  error: "Error:",
+  analyzeErrorHint: "Si una API externa falla, el backend aplica una alternativa i ho indica a Limitacions.",
+  historyErrorHint: "Si una API externa falla, el backend ho indica a Limitacions.",
+  compareErrorHint: "Comprova que hi hagi almenys dues ciutats seleccionades.",
+
+  reportReady: "Informe generat",
+  analyzeFailed: "L'anàlisi ha fallat",
+  unknownError: (path) => `Error desconegut a ${path}`,
+  streamClosed: "La connexió s'ha tancat abans de rebre l'informe",
+  historyReady: "Informe històric generat",
+  historyFailed: "L'anàlisi històrica ha fallat",
+  compareReady: "Comparació generada",
+  compareFailed: "La comparació ha fallat",
+  maxCities: (max) => `Màxim ${max} ciutats per comparació`,
+  nearbyCityFailed: "No s'ha pogut obtenir cap ciutat propera",
+  citySelected: (label) => `Ciutat ${label} seleccionada`,
+  pointSelected: "Punt seleccionat",
+  nearbyAddressFailed: "No s'ha pogut obtenir cap adreça propera",
+
+  analyzeHere: "Analitza aquí",
+  historicHere: "Històric aquí",
+  copyCoords: "Copia coords",
+  copyCoordsTooltip: "Copia lat/lon",
+  drawingAreaHint: (n) => `Dibuixant àrea: fes clic per afegir vèrtexs (${n})`,
+  loadingFlood: "Carregant inundació",
+  urbanLayers: "Capes de l'anàlisi",
+  layerRadius: (m: number) => `Radi de cerca (${m} m)`,
+  poiCategories: {
+    health: "Salut",
+    education: "Educació",
+    transport: "Transport",
+    emergency: "Policia i bombers",
+    fuel: "Benzineres",
+  } as Record<string, string>,
+  poiDistance: (m: number) => `A ${m} m en línia recta`,
+  poiCluster: (n: number) => `${n} equipaments; clic per apropar`,
+  layerGeometry: "Vies i usos del sòl (OSM)",
+  layerGeometryLoading: "Carregant la geometria d'OpenStreetMap...",
+  layerGeometryCount: (n: number) => `${n} elements`,
+  layerGeometryTruncated: "Zona molt densa: falten elements en part de l'àrea.",
+  layerIsochrones: (mode: string) => `Isòcrones ${mode.toLowerCase()} (5/10/15 min)`,
+  isochroneBand: (mode: string, minutes: number) => `${mode}: ${minutes} min per la xarxa de carrers`,
+  accessModes: { walk: "A peu", bike: "En bici" } as Record<string, string>,
+  layerRoutes: "Rutes a l'equipament més proper",
+  routeTooltip: (label: string, mode: string, minutes: number) => `${label}: ${minutes} min ${mode.toLowerCase()}`,
+
+  addressLines: {
+    street: "Carrer",
+    zone: "Zona",
+    municipality: "Municipi",
+    region: "Comunitat/Província",
+    postcode: "CP",
+    country: "País",
+  },
+
+  report: "Informe",
+  generatingLive: "Generant en temps real…",
+  tabReport: "Informe",
+  tabRanking: "Rànquing",
+  tabData: "Dades",
+  tabSources: "Fonts",
+  tabLimits: "Limitacions",
+  waitingTools: "Esperant els resultats de les eines…",
+  noReport: "No hi ha informe.",
+  urbanSummary: "capasUrbanismo (resum)",
+  landuseAreas: "Usos del sòl (superfície)",
+  landuseAreasEmpty: "OpenStreetMap no té polígons d'ús del sòl en aquesta zona.",
+  landuseAreasNote: (cell: number) => `Percentatge de la superfície de la zona segons els polígons d'OSM, calculat amb cel·les de ${cell} m.`,
+  landuseAreasTruncated: "Zona molt densa: falten polígons en part de l'àrea i els percentatges són aproximats.",
+  landuseOther: "Altres",
+  landuseUnclassified: "Sense classificar a OSM",
+  landuseValues: {
+    residential: "Residencial",
+    commercial: "Comercial",
+    retail: "Comerç minorista",
+    industrial: "Industrial",
+    construction: "En construcció",
+    railway: "Ferroviari",
+    farmland: "Conreus",
+    orchard: "Fruiters",
+    meadow: "Prat",
+    grass: "Gespa",
+    forest: "Bosc",
+    wood: "Bosc natural",
+    cemetery: "Cementiri",
+    park: "Parc",
+    pitch: "Pista esportiva",
+    garden: "Jardí",
+    water: "Aigua",
+    scrub: "Matoll",
+  } as Record<string, string>,
+  floodSummary: "riesgoInundacion (resum)",
+  rawDebug: "raw (depuració)",
+  unnamedZone: "Zona sense nom",
+  stepRunning: "en curs",
+  stepFailed: "error",
+  writingReport: "Redactant l'informe…",
+  downloadPdf: "Descarrega PDF",
+  exportAnalysisHint: "Exporta l'informe en PDF amb format presentable.",
+  analysisPdfTitle: (date) => `Informe d'anàlisi - ${date}`,
+  historyTitle: "Anàlisi històrica",
+  weatherData: "Clima històric (Open-Meteo)",
+  eventsData: "Esdeveniments històrics (NASA EONET)",
+  exportHistoryHint: "Exporta l'informe històric en PDF amb format presentable.",
+  historyPdfTitle: (date) => `Informe històric - ${date}`,
+  rankingCity: "Ciutat",
+  score: "Puntuació",
+  wins: "Indicadors guanyats",
+  indicator: "Indicador",
+  higherBetter: "més alt és millor",
+  lowerBetter: "més baix és millor",
+  informative: "informatiu",
+  scoreNote:
+    "Puntuació 0-100 calculada per posició relativa en cada indicador amb dades; els informatius (població, superfície) no compten. En verd, el millor valor.",
+  cityData: (label) => `Ciutat ${label} (dades)`,
+  exportCompareHint: "Exporta la comparació en PDF amb format presentable.",
+  comparePdfTitle: (date) => `Informe comparatiu - ${date}`,
+  tabScore: "Idoneïtat",
+  suitability: "Puntuació d'idoneïtat",
+  scoreLabels: {
+    services: "Serveis",
+    transport: "Transport",
+    environmental_risk: "Risc ambiental",
+    air: "Qualitat de l'aire",
+    density: "Densitat",
+  } as Record<string, string>,
+  weight: "Pes",
+  weightsPreset: "Pesos per cas d'ús",
+  noScoreData: "sense dades",
+  noScore: "Sense puntuació disponible.",
+  suitabilityNote: "Mitjana ponderada (0-100) de les subpuntuacions amb dades. Canvia els pesos per recalcular sense repetir l'anàlisi.",
+  fifteenMinute: "Ciutat de 15 minuts",
+  fifteenMinuteNote:
+    "Temps fins a l'equipament més proper per la xarxa de carrers d'OSM (4,8 km/h a peu, 15 km/h en bici). Cada categoria suma 1 si és a 15 min a peu i 0,5 si només en bici.",
+  accessCategories: {
+    pharmacy: "Farmàcia",
+    school: "Escola",
+    health: "Centre de salut",
+    grocery: "Alimentació",
+    transport: "Transport públic",
+    park: "Parc",
+  } as Record<string, string>,
+  accessMinutes: (minutes: number) => `${minutes.toLocaleString("ca")} min`,
+  accessOver15: "> 15 min",
+  accessReachable: (mode: string) => `Equipaments accessibles (${mode.toLowerCase()})`,
+  accessFailed: "No s'ha pogut calcular l'accessibilitat per la xarxa de carrers.",
+  accessTruncated: "Zona molt densa: falten equipaments a la consulta i els recomptes són mínims.",
+  nearestFacilities: "Equipament més proper per la xarxa de carrers",
+  facilityCategories: {
+    hospital: "Hospital",
+    pharmacy: "Farmàcia",
+    school: "Escola",
+    fire_station: "Bombers",
+    police: "Policia",
+    station: "Estació de tren",
+  } as Record<string, string>,
+  facilityNetwork: "Per la xarxa",
+  facilityCrow: "Línia recta",
+  facilityDrive: "En cotxe",
+  facilityNotFound: (km: number) => `Cap equipament connectat a la xarxa a menys de ${km.toLocaleString("ca")} km`,
+  facilityDetour: (ratio: number) => `El camí és ${ratio.toLocaleString("ca")} vegades la línia recta`,
+  nearestFacilitiesNote:
+    "Es tria el més proper per distància a peu per la xarxa d'OSM. En cotxe s'usen velocitats típiques per tipus de via i es respecten els sentits únics; sense trànsit ni semàfors.",
+  indicatorLabels: {
+    population: "Població",
+    area_km2: "Superfície",
+    population_density_km2: "Densitat",
+    european_aqi: "Índex europeu de qualitat de l'aire",
+    pm2_5: "PM2.5",
+    pm10: "PM10",
+    nitrogen_dioxide: "NO2",
+    suitability: "Idoneïtat",
+  },
+
+  toolLabels: {
+    buscarCoordenadas: "Geocodificació",
+    reverseGeocode: "Adreça propera",
+    capasUrbanismo: "Urbanisme (OSM)",
+    riesgoInundacion: "Risc d'inundació (EFAS)",
+    cityStats: "Població i superfície (Wikidata)",
+    airQuality: "Qualitat de l'aire",
+    accesibilidad: "Isòcrones (OSM)",
+    historicalWeather: "Clima històric",
+    historicalEvents: "Esdeveniments històrics",
+  },
+
+  chatTitle: "Preguntes sobre l'informe",
+  chatHint: "Pregunta per una dada concreta o demana reescriure una secció. L'assistent pot tornar a consultar les fonts.",
+  chatPlaceholder: "p. ex. a quina distància és l'hospital més proper?",
+  send: "Envia",
+  thinking: "Pensant...",
+  noReply: "Sense resposta.",
+  unverifiedClaims: (n) => `${n} xifra(es) o URL(s) sense suport a les dades.`,
+  chatFailed: "El xat ha fallat",
+
+  pdfDate: "Data",
+  pdfFormat: "Format PDF",
+  pdfEmpty: "No hi ha cap informe disponible.",
+};
+
+const fr: UiMessages = {
+  appTagline: "Recherchez une adresse ou placez un point pour voir les données à proximité.",
+  language: "Langue",
+  loadingMap: "Chargement de la carte...",
+
+  mode: "Mode",
+  modeAnalyze: "Analyse",
+  modeCompare: "Comparer",
+  modeHistoric: "Historique",
+  modeBatch: "Lots",
+  modeReports: "Rapports",
+  modeAnalyzeHint: "Analysez une adresse ou un point de la carte.",
+  modeCompareHint: "Sélectionnez deux villes ou plus en cliquant sur la carte.",
+  modeHistoricHint: "Rapport historique des 5 dernières années pour la zone sélectionnée.",
+  modeBatchHint: "Analyse de nombreuses adresses ou points depuis un CSV ou GeoJSON.",
+  modeReportsHint: "Rapports enregistrés : filtrez, ouvrez ou relancez-les pour voir ce qui a changé.",
+
+  input: "Saisie",
+  addressPlaceholder: "Saisissez une adresse (ex. : Rue X, Valence)",
+  search: "Rechercher",
+  searchTooltip: "Géocodage OSM",
+  coordinates: "Coordonnées :",
+  mapTip: "Astuce : vous pouvez aussi cliquer sur la carte",
+  reset: "Réinitialiser",
+  resetTooltip: "Tout réinitialiser",
+  resetDone: "Terminé : état réinitialisé",
+  areaDrawing: (n) => `Zone : ${n} sommets`,
+  areaDrawn: (n) => `Zone dessinée (${n} sommets)`,
+  areaHint: "Ou dessinez une zone sur la carte",
+  closeArea: "Fermer la zone",
+  drawArea: "Dessiner une zone",
+  clear: "Effacer",
+
+  mapView: "Vue de la carte",
+  styleStandard: "Carte",
+  styleStandardTooltip: "Fond de carte",
+  styleSatellite: "Satellite",
+  styleSatelliteTooltip: "Vue satellite",
+  stylePollution: "Pollution",
+  stylePollutionTooltip: "Aérosols",
+  layers: "Étiquettes et couches disponibles",
+  floodShow: "Afficher inondation",
+  floodHide: "Masquer inondation",
+  floodTooltip: "Couche inondation EFAS",
+
+  analysis: "Analyse",
+  templateLabel: "Modèle de rapport",
+  questionPlaceholder: "Question facultative (ex. : y a-t-il des écoles à moins de 500 m ?)",
+  analyzeArea: "Analyser la zone dessinée",
+  analyzeZone: "Analyser l'emplacement",
+  generateReport: "Génère le rapport",
+  analyzeHint: "Utilisez une adresse, choisissez un point ou dessinez une zone sur la carte.",
+
+  heatmap: "Carte d'adéquation",
+  heatmapView: "Évaluer la vue actuelle",
+  heatmapArea: "Évaluer la zone dessinée",
+  heatmapHint: "Note une grille de cellules (services, transports et risque d'inondation) avec les poids du modèle. Jusqu'à 30 km de côté.",
+  heatmapHide: "Masquer",
+  heatmapBest: "Aller à la meilleure zone",
+  heatmapReady: "Carte d'adéquation prête",
+  heatmapFailed: "Échec de la carte d'adéquation",
+  heatmapSummary: (rows: number, cols: number, cellM: number) => `${rows} x ${cols} cellules de ${cellM} m`,
+  heatmapTruncated: "Overpass a renvoyé le maximum d'éléments : certains équipements peuvent manquer.",
+  heatmapLoading: "Calcul de la grille...",
+  batch: "Analyse par lots",
+  batchFile: "Fichier CSV ou GeoJSON",
+  batchHint: "CSV avec une colonne address/adresse ou lat et lon (id facultatif) ; GeoJSON avec des points. 500 lignes maximum.",
+  batchSummary: "Résumé court du LLM par ligne",
+  batchStart: "Traiter le fichier",
+  batchProgress: (done: number, total: number) => `${done} / ${total} lignes`,
+  batchDone: "Lot terminé",
+  batchFailed: "Échec de l'analyse par lots",
+  batchRowsOk: (ok: number, total: number) => `${ok} sur ${total} lignes analysées`,
+  batchDownloadCsv: "Télécharger CSV",
+  batchDownloadGeojson: "Télécharger GeoJSON",
+  batchColInput: "Entrée",
+  batchColFlood: "Inondation",
+  batchFloodStatus: {
+    sin_senal: "Aucun signal",
+    posible_exposicion: "Exposition possible",
+    sin_datos: "Pas de données",
+  } as Record<string, string>,
+  batchPreview: (shown: number, total: number) => `${shown} lignes affichées sur ${total} ; téléchargez le fichier pour toutes les voir.`,
+  jobQueued: "En file d'attente...",
+  jobRunning: "En cours ; vous pouvez fermer l'onglet et revenir plus tard.",
+  jobProgress: (done: number, total: number) => `${done} / ${total} terminés`,
+  jobPartials: (count: number) => `${count} réponses d'outils enregistrées`,
+  jobCancel: "Annuler",
+  jobCancelFailed: (reason: string) => `Impossible d'annuler la tâche : ${reason}`,
+  jobRetry: "Réessayer",
+  jobCancelled: "Tâche annulée.",
+  jobInterrupted: "Le serveur a redémarré pendant la tâche ; vous pouvez la relancer sans refaire ce qui a déjà été consulté.",
+  copyReportLink: "Copier le lien",
+  reportLinkCopied: "Lien copié",
+  reportLinkFailed: "Impossible de copier le lien",
+  savedReport: "Rapport enregistré",
+  savedReportMeta: (date: string, model: string) => `Généré le ${date} avec ${model}`,
+  savedReportOpenApp: "Nouvelle analyse",
+  reports: "Mes rapports",
+  reportsKind: "Type",
+  reportsKindAll: "Tous",
+  reportKinds: { analyze: "Analyse", compare: "Comparaison", history: "Historique" } as Record<string, string>,
+  reportsPlace: "Lieu",
+  reportsFrom: "Du",
+  reportsTo: "Au",
+  reportsEmpty: "Aucun rapport enregistré ne correspond à ces filtres.",
+  reportsLoadFailed: "Impossible de charger les rapports",
+  reportsOpen: "Ouvrir",
+  reportsRerun: "Relancer",
+  rerunDone: "Relance terminée",
+  rerunFailed: "Échec de la relance",
+  rerunTitle: (date: string) => `Changements depuis le rapport du ${date}`,
+  rerunOpenNew: "Ouvrir le nouveau rapport",
+  diffBefore: "Avant",
+  diffAfter: "Maintenant",
+  diffCounts: {
+    hospitals: "Hôpitaux et centres de santé",
+    pharmacies: "Pharmacies",
+    schools: "Établissements scolaires",
+    transport: "Arrêts de transport",
+    landuse: "Zones d'occupation du sol",
+    shops: "Commerces",
+    parking: "Parkings",
+    parks: "Parcs",
+  } as Record<string, string>,
+  diffPopulation: "Population",
+  diffFlood: "Inondation (EFAS)",
+  diffNoFlood: "sans données",
+  diffPoisAdded: (n: number) => `Nouveaux POI (${n})`,
+  diffPoisRemoved: (n: number) => `POI disparus (${n})`,
+  diffEventsAdded: (n: number) => `Nouveaux événements EONET (${n})`,
+  diffEventsRemoved: (n: number) => `Événements EONET disparus (${n})`,
+  diffSections: "Sections du rapport",
+  diffIntro: "(début)",
+  diffSectionStatus: { same: "identique", changed: "modifiée", added: "nouvelle", removed: "supprimée" } as Record<string, string>,
+  diffSameSections: (n: number) => `${n} section(s) sans changement.`,
+
+  historic: "Historique",
+  analyzeHistoric: "Analyser l'historique",
+  generateHistoric: "Génère le rapport historique",
+  historicHint: "5 dernières années de climat et d'événements signalés.",
+
+  comparison: "Comparaison",
+  city: (label) => `Ville ${label}`,
+  remove: "Retirer",
+  unnamed: "Sans nom",
+  addCityHint: (label, count, max) => `Cliquez sur la carte pour ajouter la Ville ${label} (${count}/${max})`,
+  clearSelection: "Vider",
+  clearSelectionTooltip: "Efface la sélection",
+  compareCities: "Comparer les villes",
+  compareTooltip: "Génère un rapport comparatif avec classement",
+
+  savedLocations: "Lieux enregistrés",
+  savedHint: "Enregistrez un lieu et ajoutez des notes ou des commentaires.",
+  noSaveSources: "Aucun lieu à enregistrer",
+  saveNamePlaceholder: "Nom du lieu",
+  notesPlaceholder: "Notes ou commentaires",
+  saveLocation: "Enregistrer le lieu",
+  noSaved: "Aucun lieu enregistré.",
+  view: "Voir",
+  currentLocation: (coords) => `Position actuelle (${coords})`,
+  selectValidLocation: "Sélectionnez un lieu valide",
+  locationSaved: "Lieu enregistré",
+
+  error: "Erreur :",
+  analyzeErrorHint: "Si une API externe échoue, le backend applique une solution de repli et l'indique dans Limites.",
+  historyErrorHint: "Si une API externe échoue, le backend l'indique dans Limites.",
+  compareErrorHint: "Vérifiez qu'au moins deux villes sont sélectionnées.",
+
+  reportReady: "Rapport généré",
+  analyzeFailed: "L'analyse a échoué",
+  unknownError: (path) => `Erreur inconnue dans ${path}`,
+  streamClosed: "La connexion s'est fermée avant la réception du rapport",
+  historyReady: "Rapport historique généré",
+  historyFailed: "L'analyse historique a échoué",
+  compareReady: "Comparaison générée",
+  compareFailed: "La comparaison a échoué",
+  maxCities: (max) => `${max} villes au maximum par comparaison`,
+  nearbyCityFailed: "Impossible d'obtenir une ville proche",
+  citySelected: (label) => `Ville ${label} sélectionnée`,
+  pointSelected: "Point sélectionné",
+  nearbyAddressFailed: "Impossible d'obtenir une adresse proche",
+
+  analyzeHere: "Analyser ici",
+  historicHere: "Historique ici",
+  copyCoords: "Copier coords",
+  copyCoordsTooltip: "Copie lat/lon",
+  drawingAreaHint: (n) => `Dessin de zone : cliquez pour ajouter des sommets (${n})`,
+  loadingFlood: "Chargement inondation",
+  urbanLayers: "Couches de l'analyse",
+  layerRadius: (m: number) => `Rayon de recherche (${m} m)`,
+  poiCategories: {
+    health: "Santé",
+    education: "Éducation",
+    transport: "Transport",
+    emergency: "Police et pompiers",
+    fuel: "Stations-service",
+  } as Record<string, string>,
+  poiDistance: (m: number) => `À ${m} m à vol d'oiseau`,
+  poiCluster: (n: number) => `${n} équipements ; cliquez pour zoomer`,
+  layerGeometry: "Voies et occupation du sol (OSM)",
+  layerGeometryLoading: "Chargement de la géométrie OpenStreetMap...",
+  layerGeometryCount: (n: number) => `${n} éléments`,
+  layerGeometryTruncated: "Zone très dense : des éléments manquent sur une partie de la zone.",
+  layerIsochrones: (mode: string) => `Isochrones ${mode.toLowerCase()} (5/10/15 min)`,
+  isochroneBand: (mode: string, minutes: number) => `${mode} : ${minutes} min par le réseau de rues`,
+  accessModes: { walk: "À pied", bike: "À vélo" } as Record<string, string>,
+  layerRoutes: "Itinéraires vers l'équipement le plus proche",
+  routeTooltip: (label: string, mode: string, minutes: number) => `${label} : ${minutes} min ${mode.toLowerCase()}`,
+
+  addressLines: {
+    street: "Rue",
+    zone: "Quartier",
+    municipality: "Commune",
+    region: "Région/Province",
+    postcode: "CP",
+    country: "Pays",
+  },
+
+  report: "Rapport",
+  generatingLive: "Génération en temps réel…",
+  tabReport: "Rapport",
+  tabRanking: "Classement",
+  tabData: "Données",
+  tabSources: "Sources",
+  tabLimits: "Limites",
+  waitingTools: "En attente des résultats des outils…",
+  noReport: "Aucun rapport.",
+  urbanSummary: "capasUrbanismo (résumé)",
+  landuseAreas: "Occupation du sol (surface)",
+  landuseAreasEmpty: "OpenStreetMap n'a pas de polygones d'occupation du sol dans cette zone.",
+  landuseAreasNote: (cell: number) => `Part de la surface de la zone selon les polygones OSM, calculée sur des cellules de ${cell} m.`,
+  landuseAreasTruncated: "Zone très dense : des polygones manquent sur une partie de la zone, les pourcentages sont approximatifs.",
+  landuseOther: "Autres",
+  landuseUnclassified: "Non cartographié dans OSM",
+  landuseValues: {
+    residential: "Résidentiel",
+    commercial: "Commercial",
+    retail: "Commerce de détail",
+    industrial: "Industriel",
+    construction: "En construction",
+    railway: "Ferroviaire",
+    farmland: "Cultures",
+    orchard: "Vergers",
+    meadow: "Prairie",
+    grass: "Pelouse",
+    forest: "Forêt",
+    wood: "Bois",
+    cemetery: "Cimetière",
+    park: "Parc",
+    pitch: "Terrain de sport",
+    garden: "Jardin",
+    water: "Eau",
+    scrub: "Broussailles",
+  } as Record<string, string>,
+  floodSummary: "riesgoInundacion (résumé)",
+  rawDebug: "raw (débogage)",
+  unnamedZone: "Zone sans nom",
+  stepRunning: "en cours",
+  stepFailed: "échec",
+  writingReport: "Rédaction du rapport…",
+  downloadPdf: "Télécharger le PDF",
+  exportAnalysisHint: "Exportez le rapport en PDF prêt à imprimer.",
+  analysisPdfTitle: (date) => `Rapport d'analyse - ${date}`,
+  historyTitle: "Analyse historique",
+  weatherData: "Climat historique (Open-Meteo)",
+  eventsData: "Événements historiques (NASA EONET)",
+  exportHistoryHint: "Exportez le rapport historique en PDF prêt à imprimer.",
+  historyPdfTitle: (date) => `Rapport historique - ${date}`,
+  rankingCity: "Ville",
+  score: "Score",
+  wins: "Indicateurs gagnés",
+  indicator: "Indicateur",
+  higherBetter: "plus haut = mieux",
+  lowerBetter: "plus bas = mieux",
+  informative: "informatif",
+  scoreNote:
+    "Score 0-100 calculé selon la position relative sur chaque indicateur disponible ; les indicateurs informatifs (population, superficie) ne comptent pas. En vert, la meilleure valeur.",
+  cityData: (label) => `Ville ${label} (données)`,
+  exportCompareHint: "Exportez la comparaison en PDF prêt à imprimer.",
+  comparePdfTitle: (date) => `Rapport comparatif - ${date}`,
+  tabScore: "Adéquation",
+  suitability: "Score d'adéquation",
+  scoreLabels: {
+    services: "Services",
+    transport: "Transports",
+    environmental_risk: "Risque environnemental",
+    air: "Qualité de l'air",
+    density: "Densité",
+  } as Record<string, string>,
+  weight: "Poids",
+  weightsPreset: "Poids par cas d'usage",
+  noScoreData: "sans données",
+  noScore: "Aucun score disponible.",
+  suitabilityNote: "Moyenne pondérée (0-100) des sous-scores disponibles. Modifiez les poids pour recalculer sans relancer l'analyse.",
+  fifteenMinute: "Ville du quart d'heure",
+  fifteenMinuteNote:
+    "Temps jusqu'à l'équipement le plus proche par le réseau de rues OSM (4,8 km/h à pied, 15 km/h à vélo). Chaque catégorie compte 1 si elle est à 15 min à pied et 0,5 si seulement à vélo.",
+  accessCategories: {
+    pharmacy: "Pharmacie",
+    school: "École",
+    health: "Centre de santé",
+    grocery: "Alimentation",
+    transport: "Transports en commun",
+    park: "Parc",
+  } as Record<string, string>,
+  accessMinutes: (minutes: number) => `${minutes.toLocaleString("fr")} min`,
+  accessOver15: "> 15 min",
+  accessReachable: (mode: string) => `Équipements accessibles (${mode.toLowerCase()})`,
+  accessFailed: "Impossible de calculer l'accessibilité par le réseau de rues.",
+  accessTruncated: "Zone très dense : des équipements manquent dans la requête, les comptes sont des minimums.",
+  nearestFacilities: "Équipement le plus proche par le réseau de rues",
+  facilityCategories: {
+    hospital: "Hôpital",
+    pharmacy: "Pharmacie",
+    school: "École",
+    fire_station: "Pompiers",
+    police: "Police",
+    station: "Gare",
+  } as Record<string, string>,
+  facilityNetwork: "Par le réseau",
+  facilityCrow: "À vol d'oiseau",
+  facilityDrive: "En voiture",
+  facilityNotFound: (km: number) => `Aucun équipement relié au réseau à moins de ${km.toLocaleString("fr")} km`,
+  facilityDetour: (ratio: number) => `Le trajet fait ${ratio.toLocaleString("fr")} fois la ligne droite`,
+  nearestFacilitiesNote:
+    "Le plus proche est choisi selon la distance à pied par le réseau OSM. En voiture, vitesses typiques par type de voie et sens uniques respectés ; sans trafic ni feux.",
+  indicatorLabels: {
+    population: "Population",
+    area_km2: "Superficie",
+    population_density_km2: "Densité",
+    european_aqi: "Indice européen de qualité de l'air",
+    pm2_5: "PM2.5",
+    pm10: "PM10",
+    nitrogen_dioxide: "NO2",
+    suitability: "Adéquation",
+  },
+
+  toolLabels: {
+    buscarCoordenadas: "Géocodage",
+    reverseGeocode: "Adresse proche",
+    capasUrbanismo: "Urbanisme (OSM)",
+    riesgoInundacion: "Risque d'inondation (EFAS)",
+    cityStats: "Population et superficie (Wikidata)",
+    airQuality: "Qualité de l'air",
+    accesibilidad: "Isochrones (OSM)",
+    historicalWeather: "Climat historique",
+    historicalEvents: "Événements historiques",
+  },
+
+  chatTitle: "Questions sur le rapport",
+  chatHint: "Demandez une donnée précise ou la réécriture d'une section. L'assistant peut interroger à nouveau les sources.",
+  chatPlaceholder: "ex. : à quelle distance se trouve l'hôpital le plus proche ?",
+  send: "Envoyer",
+  thinking: "Réflexion...",
+  noReply: "Pas de réponse.",
+  unverifiedClaims: (n) => `${n} chiffre(s) ou URL(s) non étayé(s) par les données.`,
+  chatFailed: "Le chat a échoué",
+
+  pdfDate: "Date",
+  pdfFormat: "Format PDF",
+  pdfEmpty: "Aucun rapport disponible.",
+};
+
+export const UI_MESSAGES: Record<Locale, UiMessages> = { es, en, ca, fr };